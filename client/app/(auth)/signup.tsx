@@ -71,7 +71,7 @@ export default function SignUp() {
 
       if (signUp.fulfilled.match(result)) {
         console.log("Sign up successful, navigating to tabs...");
-        router.replace("/(tabs)");
+        router.replace("/(onboarding)/questionnaire");
       } else {
         console.log("Sign up failed:", result.payload);
       }
@@ -90,8 +90,8 @@ export default function SignUp() {
   // Navigate to tabs when authentication is successful
   React.useEffect(() => {
     if (isAuthenticated) {
-      console.log("User is authenticated, navigating to tabs...");
-      router.replace("/(tabs)");
+      console.log("User is authenticated, starting onboarding...");
+      router.replace("/(onboarding)/questionnaire");
     }
   }, [isAuthenticated]);
 
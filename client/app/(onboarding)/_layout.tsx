@@ -0,0 +1,9 @@
+import { Stack } from "expo-router";
+
+export default function OnboardingLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="questionnaire" />
+    </Stack>
+  );
+}
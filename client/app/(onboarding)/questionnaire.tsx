@@ -0,0 +1,530 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+} from "react-native";
+import { router } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useSaveQuestionnaire } from "@/hooks/useQueries";
+import { QuestionnaireData } from "@/src/types";
+
+type Option<T extends string> = { value: T; label: string };
+
+const ACTIVITY_OPTIONS: Option<QuestionnaireData["physical_activity_level"]>[] =
+  [
+    { value: "NONE", label: "Sedentary" },
+    { value: "LIGHT", label: "Light" },
+    { value: "MODERATE", label: "Moderate" },
+    { value: "HIGH", label: "Very active" },
+  ];
+
+const SPORT_FREQUENCY_OPTIONS: Option<QuestionnaireData["sport_frequency"]>[] =
+  [
+    { value: "NONE", label: "Never" },
+    { value: "ONCE_A_WEEK", label: "Once a week" },
+    { value: "TWO_TO_THREE", label: "2-3 times" },
+    { value: "FOUR_TO_FIVE", label: "4-5 times" },
+    { value: "MORE_THAN_FIVE", label: "6+ times" },
+  ];
+
+const GOAL_OPTIONS: Option<QuestionnaireData["main_goal"]>[] = [
+  { value: "WEIGHT_LOSS", label: "Lose weight" },
+  { value: "WEIGHT_MAINTENANCE", label: "Maintain weight" },
+  { value: "WEIGHT_GAIN", label: "Gain weight" },
+  { value: "GENERAL_HEALTH", label: "General health" },
+  { value: "MEDICAL_CONDITION", label: "Medical condition" },
+  { value: "SPORTS_PERFORMANCE", label: "Sports performance" },
+];
+
+const DURATION_OPTIONS: Option<QuestionnaireData["program_duration"]>[] = [
+  { value: "SHORT_TERM", label: "A few weeks" },
+  { value: "MEDIUM_TERM", label: "A few months" },
+  { value: "LONG_TERM", label: "Long term" },
+];
+
+const SMOKING_OPTIONS: Option<QuestionnaireData["smoking_status"]>[] = [
+  { value: "NO", label: "No" },
+  { value: "YES", label: "Yes" },
+  { value: "UNKNOWN", label: "Prefer not to say" },
+];
+
+const UPLOAD_OPTIONS: Option<QuestionnaireData["upload_frequency"]>[] = [
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "MONTHLY", label: "Monthly" },
+  { value: "NONE", label: "Not sure" },
+];
+
+const NOTIFICATION_OPTIONS: Option<
+  QuestionnaireData["notifications_preference"]
+>[] = [
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "NONE", label: "None" },
+];
+
+const STEPS = ["Activity", "Goals", "Eating habits", "Health", "Preferences"];
+
+// Comma separated text fields map onto the questionnaire's list answers
+const toList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const toNumber = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+function OptionGroup<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: Option<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.options}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, value === option.value && styles.selected]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                value === option.value && styles.selectedText,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function QuestionnaireScreen() {
+  const saveQuestionnaire = useSaveQuestionnaire();
+  const [step, setStep] = useState(0);
+
+  const [answers, setAnswers] = useState({
+    physical_activity_level:
+      "LIGHT" as QuestionnaireData["physical_activity_level"],
+    sport_frequency: "NONE" as QuestionnaireData["sport_frequency"],
+    sport_types: "",
+    sport_duration_min: "",
+    main_goal: "GENERAL_HEALTH" as QuestionnaireData["main_goal"],
+    specific_goal: "",
+    goal_timeframe_days: "",
+    program_duration: "MEDIUM_TERM" as QuestionnaireData["program_duration"],
+    meals_per_day: "3",
+    dietary_preferences: "",
+    avoided_foods: "",
+    regular_drinks: "",
+    allergies: "",
+    medical_conditions: "",
+    medications: "",
+    smoking_status: "NO" as QuestionnaireData["smoking_status"],
+    sleep_hours_per_night: "",
+    upload_frequency: "DAILY" as QuestionnaireData["upload_frequency"],
+    notifications_preference:
+      "DAILY" as QuestionnaireData["notifications_preference"],
+    personalized_tips: true,
+  });
+
+  const update = (changes: Partial<typeof answers>) =>
+    setAnswers({ ...answers, ...changes });
+
+  const finish = () => router.replace("/(tabs)");
+
+  const handleSubmit = async () => {
+    const mealsPerDay = toNumber(answers.meals_per_day);
+    const sportDuration = toNumber(answers.sport_duration_min);
+    const timeframe = toNumber(answers.goal_timeframe_days);
+
+    const data: QuestionnaireData = {
+      physical_activity_level: answers.physical_activity_level,
+      sport_frequency: answers.sport_frequency,
+      sport_types: toList(answers.sport_types),
+      sport_duration_min:
+        sportDuration === undefined ? undefined : Math.round(sportDuration),
+      main_goal: answers.main_goal,
+      specific_goal: answers.specific_goal.trim() || undefined,
+      goal_timeframe_days:
+        timeframe === undefined ? undefined : Math.round(timeframe),
+      program_duration: answers.program_duration,
+      meals_per_day:
+        mealsPerDay === undefined ? undefined : Math.round(mealsPerDay),
+      dietary_preferences: toList(answers.dietary_preferences),
+      avoided_foods: toList(answers.avoided_foods),
+      regular_drinks: toList(answers.regular_drinks),
+      allergies: toList(answers.allergies),
+      medical_conditions: toList(answers.medical_conditions),
+      medications: answers.medications.trim() || undefined,
+      smoking_status: answers.smoking_status,
+      sleep_hours_per_night: toNumber(answers.sleep_hours_per_night),
+      upload_frequency: answers.upload_frequency,
+      notifications_preference: answers.notifications_preference,
+      personalized_tips: answers.personalized_tips,
+    };
+
+    try {
+      await saveQuestionnaire.mutateAsync(data);
+      finish();
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to save questionnaire"
+      );
+    }
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return (
+          <>
+            <OptionGroup
+              label="How active are you day to day?"
+              options={ACTIVITY_OPTIONS}
+              value={answers.physical_activity_level}
+              onChange={(value) => update({ physical_activity_level: value })}
+            />
+            <OptionGroup
+              label="How often do you work out per week?"
+              options={SPORT_FREQUENCY_OPTIONS}
+              value={answers.sport_frequency}
+              onChange={(value) => update({ sport_frequency: value })}
+            />
+            {answers.sport_frequency !== "NONE" && (
+              <>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Sports (e.g. running, gym)"
+                  value={answers.sport_types}
+                  onChangeText={(text) => update({ sport_types: text })}
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Minutes per session"
+                  value={answers.sport_duration_min}
+                  onChangeText={(text) => update({ sport_duration_min: text })}
+                  keyboardType="numeric"
+                />
+              </>
+            )}
+          </>
+        );
+      case 1:
+        return (
+          <>
+            <OptionGroup
+              label="What is your main goal?"
+              options={GOAL_OPTIONS}
+              value={answers.main_goal}
+              onChange={(value) => update({ main_goal: value })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Specific goal (optional)"
+              value={answers.specific_goal}
+              onChangeText={(text) => update({ specific_goal: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Timeframe in days (optional)"
+              value={answers.goal_timeframe_days}
+              onChangeText={(text) => update({ goal_timeframe_days: text })}
+              keyboardType="numeric"
+            />
+            <OptionGroup
+              label="How long do you plan to use the program?"
+              options={DURATION_OPTIONS}
+              value={answers.program_duration}
+              onChange={(value) => update({ program_duration: value })}
+            />
+          </>
+        );
+      case 2:
+        return (
+          <>
+            <Text style={styles.label}>Meals per day</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="3"
+              value={answers.meals_per_day}
+              onChangeText={(text) => update({ meals_per_day: text })}
+              keyboardType="numeric"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Diet (e.g. vegetarian, keto)"
+              value={answers.dietary_preferences}
+              onChangeText={(text) => update({ dietary_preferences: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Foods you avoid"
+              value={answers.avoided_foods}
+              onChangeText={(text) => update({ avoided_foods: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Regular drinks (e.g. coffee, soda)"
+              value={answers.regular_drinks}
+              onChangeText={(text) => update({ regular_drinks: text })}
+            />
+            <Text style={styles.hint}>Separate multiple items with commas</Text>
+          </>
+        );
+      case 3:
+        return (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="Allergies (e.g. peanuts, gluten)"
+              value={answers.allergies}
+              onChangeText={(text) => update({ allergies: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Medical conditions"
+              value={answers.medical_conditions}
+              onChangeText={(text) => update({ medical_conditions: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Medications"
+              value={answers.medications}
+              onChangeText={(text) => update({ medications: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Hours of sleep per night"
+              value={answers.sleep_hours_per_night}
+              onChangeText={(text) => update({ sleep_hours_per_night: text })}
+              keyboardType="numeric"
+            />
+            <OptionGroup
+              label="Do you smoke?"
+              options={SMOKING_OPTIONS}
+              value={answers.smoking_status}
+              onChange={(value) => update({ smoking_status: value })}
+            />
+          </>
+        );
+      default:
+        return (
+          <>
+            <OptionGroup
+              label="How often will you log meals?"
+              options={UPLOAD_OPTIONS}
+              value={answers.upload_frequency}
+              onChange={(value) => update({ upload_frequency: value })}
+            />
+            <OptionGroup
+              label="Reminders"
+              options={NOTIFICATION_OPTIONS}
+              value={answers.notifications_preference}
+              onChange={(value) => update({ notifications_preference: value })}
+            />
+            <View style={styles.switchRow}>
+              <Text style={styles.label}>Personalized tips</Text>
+              <Switch
+                value={answers.personalized_tips}
+                onValueChange={(value) => update({ personalized_tips: value })}
+              />
+            </View>
+          </>
+        );
+    }
+  };
+
+  const isLastStep = step === STEPS.length - 1;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{STEPS[step]}</Text>
+        <Text style={styles.progress}>
+          Step {step + 1} of {STEPS.length}
+        </Text>
+        <View style={styles.progressBar}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${((step + 1) / STEPS.length) * 100}%` },
+            ]}
+          />
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {renderStep()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {step > 0 ? (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setStep(step - 1)}
+          >
+            <Text style={styles.secondaryButtonText}>Back</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.secondaryButton} onPress={finish}>
+            <Text style={styles.secondaryButtonText}>Skip for now</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={isLastStep ? handleSubmit : () => setStep(step + 1)}
+          disabled={saveQuestionnaire.isPending}
+        >
+          {saveQuestionnaire.isPending ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.buttonText}>
+              {isLastStep ? "Finish" : "Next"}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fff",
+  },
+  header: {
+    padding: 20,
+    paddingBottom: 10,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    marginBottom: 5,
+  },
+  progress: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 10,
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#eee",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#007AFF",
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 10,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#999",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  optionText: {
+    fontSize: 14,
+    color: "#333",
+  },
+  selectedText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 15,
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: "#eee",
+  },
+  button: {
+    flex: 1,
+    backgroundColor: "#007AFF",
+    padding: 15,
+    borderRadius: 8,
+    alignItems: "center",
+    marginLeft: 10,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  secondaryButton: {
+    flex: 1,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  secondaryButtonText: {
+    color: "#333",
+    fontSize: 18,
+  },
+});
@@ -1,6 +1,7 @@
 import { Tabs } from "expo-router";
-import React from "react";
+import React, { useEffect } from "react";
 import { Platform } from "react-native";
+import { useDispatch } from "react-redux";
 
 import { HapticTab } from "@/components/HapticTab";
 import { IconSymbol } from "@/components/ui/IconSymbol";
@@ -9,9 +10,16 @@ import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { ScrollableTabBar } from "@/components/ScrollableTabBar";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { AppDispatch } from "@/src/store";
+import { syncTimezone } from "@/src/store/authSlice";
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const dispatch = useDispatch<AppDispatch>();
+
+  useEffect(() => {
+    dispatch(syncTimezone());
+  }, [dispatch]);
   
   return (
     <Tabs
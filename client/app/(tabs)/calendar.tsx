@@ -29,6 +29,8 @@ interface DayData {
   carbsActual: number;
   fatGoal: number;
   fatActual: number;
+  waterGoal: number; // ml
+  waterActual: number;
   mealCount: number;
   qualityScore: number;
   events: Array<{
@@ -106,6 +108,8 @@ export default function CalendarScreen() {
         carbsActual: 0,
         fatGoal: 67,
         fatActual: 0,
+        waterGoal: 2500,
+        waterActual: 0,
         mealCount: 0,
         qualityScore: 0,
         events: []
@@ -176,6 +180,7 @@ export default function CalendarScreen() {
 
     const dayNumber = new Date(dayData.date).getDate();
     const progress = getProgressPercentage(dayData.caloriesActual, dayData.caloriesGoal);
+    const waterProgress = getProgressPercentage(dayData.waterActual, dayData.waterGoal);
     const dayColor = getDayColor(dayData);
     const hasEvents = dayData.events.length > 0;
 
@@ -195,6 +200,9 @@ export default function CalendarScreen() {
           <View style={[styles.progressBar, { width: `${Math.min(progress, 100)}%` }]} />
         </View>
         <Text style={styles.progressText}>{Math.round(progress)}%</Text>
+        <View style={[styles.progressContainer, styles.waterProgressContainer]}>
+          <View style={[styles.waterProgressBar, { width: `${Math.min(waterProgress, 100)}%` }]} />
+        </View>
         {hasEvents && (
           <View style={styles.eventIndicator}>
             <Ionicons name="star" size={8} color="#FFD700" />
@@ -383,6 +391,22 @@ export default function CalendarScreen() {
                       {Math.round(selectedDay.fatActual)}g / {selectedDay.fatGoal}g
                     </Text>
                   </View>
+
+                  <View style={styles.macroItem}>
+                    <Text style={styles.macroLabel}>Water</Text>
+                    <Text style={styles.macroValue}>
+                      {Math.round(selectedDay.waterActual)} / {Math.round(selectedDay.waterGoal)} ml
+                    </Text>
+                    <View style={styles.macroProgress}>
+                      <View
+                        style={[
+                          styles.macroProgressBar,
+                          styles.waterProgressBar,
+                          { width: `${Math.min(getProgressPercentage(selectedDay.waterActual, selectedDay.waterGoal), 100)}%` }
+                        ]}
+                      />
+                    </View>
+                  </View>
                 </View>
 
                 <View style={styles.dayStats}>
@@ -651,6 +675,15 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(255,255,255,0.8)",
     borderRadius: 2,
   },
+  waterProgressContainer: {
+    height: 3,
+    marginTop: 1,
+  },
+  waterProgressBar: {
+    height: "100%",
+    backgroundColor: "#4FC3F7",
+    borderRadius: 2,
+  },
   progressText: {
     fontSize: 8,
     color: "white",
@@ -10,32 +10,111 @@ import {
   ScrollView,
   TextInput,
   Modal,
+  AppState,
 } from "react-native";
-import { CameraView, CameraType, useCameraPermissions } from "expo-camera";
+import {
+  BarcodeScanningResult,
+  CameraView,
+  CameraType,
+  useCameraPermissions,
+} from "expo-camera";
 import * as ImagePicker from "expo-image-picker";
+import { router, useLocalSearchParams } from "expo-router";
 import { useDispatch, useSelector } from "react-redux";
 import { RootState, AppDispatch } from "@/src/store";
 import {
   analyzeMeal,
+  analyzeMealText,
   postMeal,
   updateMeal,
   clearPendingMeal,
+  discardPendingMeal,
+  resumeAnalysisJob,
+  answerClarifyingQuestions,
+  skipClarifyingQuestions,
+  addLeftoversPhoto,
+  skipLeftoversPhoto,
   clearError,
+  fetchMeals,
+  setPendingMealConsumedAt,
+  acknowledgeAllergenWarnings,
+  hasBlockingAllergenWarnings,
 } from "@/src/store/mealSlice";
+import { foodsAPI } from "@/src/services/api";
+import { Food, Meal } from "@/src/types";
 import { Ionicons } from "@expo/vector-icons";
+import { ConsumedAtPicker } from "@/components/ConsumedAtPicker";
+import { FoodLogForm } from "@/components/FoodLogForm";
+import { ClarifyingQuestions } from "@/components/ClarifyingQuestions";
+import {
+  AllergenWarningList,
+  AllergenWarningModal,
+} from "@/components/AllergenWarnings";
+
+// "leftovers" photographs what's left of an analyzed plate after eating
+type CameraMode = "photo" | "leftovers" | "barcode";
+
+// Retail product codes; QR and other symbologies are ignored
+const PRODUCT_BARCODE_TYPES = ["ean13", "ean8", "upc_a", "upc_e"] as const;
+
+const ANALYSIS_STAGE_LABELS = {
+  uploading: "Uploading your photo...",
+  queued: "Waiting for analysis...",
+  analyzing: "Analyzing your meal...",
+};
 
 export default function CameraScreen() {
   const dispatch = useDispatch<AppDispatch>();
-  const { pendingMeal, isAnalyzing, isPosting, isUpdating, error } =
-    useSelector((state: RootState) => state.meal);
+  const {
+    pendingMeal,
+    isAnalyzing,
+    analysisStage,
+    isPosting,
+    isUpdating,
+    isClarifying,
+    isAddingLeftovers,
+    error,
+  } = useSelector((state: RootState) => state.meal);
 
   const [permission, requestPermission] = useCameraPermissions();
   const [showCamera, setShowCamera] = useState(false);
+  const [cameraMode, setCameraMode] = useState<CameraMode>("photo");
   const [facing, setFacing] = useState<CameraType>("back");
   const [showUpdateModal, setShowUpdateModal] = useState(false);
   const [updateText, setUpdateText] = useState("");
   const [postedMealId, setPostedMealId] = useState<string | null>(null);
+  const [showTextEntry, setShowTextEntry] = useState(false);
+  const [mealDescription, setMealDescription] = useState("");
+  const [scannedFood, setScannedFood] = useState<Food | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
   const cameraRef = useRef<CameraView>(null);
+  // The scanner fires for every frame; only the first code is looked up
+  const isHandlingScanRef = useRef(false);
+  const { mode } = useLocalSearchParams<{ mode?: string }>();
+
+  // Other screens link here with ?mode=text to log a meal without a photo
+  // or ?mode=barcode to scan a packaged product
+  useEffect(() => {
+    if (mode === "text") {
+      setShowTextEntry(true);
+    } else if (mode === "barcode") {
+      openCamera("barcode");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode]);
+
+  // Analysis runs on the server, so a photo sent before the app went to
+  // the background (or was closed) is picked up again here
+  useEffect(() => {
+    dispatch(resumeAnalysisJob());
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        dispatch(resumeAnalysisJob());
+      }
+    });
+    return () => subscription.remove();
+  }, [dispatch]);
 
   // Handle errors
   useEffect(() => {
@@ -46,22 +125,53 @@ export default function CameraScreen() {
     }
   }, [error, dispatch]);
 
-  if (!permission) {
-    return <View />;
-  }
+  // Only photos and barcodes need the camera, so permission is asked for on demand
+  const openCamera = async (nextMode: CameraMode) => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        Alert.alert(
+          "Camera Access",
+          "We need your permission to show the camera"
+        );
+        return;
+      }
+    }
+    setCameraMode(nextMode);
+    setShowCamera(true);
+  };
 
-  if (!permission.granted) {
-    return (
-      <View style={styles.container}>
-        <Text style={styles.message}>
-          We need your permission to show the camera
-        </Text>
-        <TouchableOpacity style={styles.button} onPress={requestPermission}>
-          <Text style={styles.buttonText}>Grant Permission</Text>
-        </TouchableOpacity>
-      </View>
-    );
-  }
+  // Barcode lookups hit the food database, not the AI, so they don't count
+  // against the daily analysis quota
+  const handleBarcodeScanned = async ({ data }: BarcodeScanningResult) => {
+    if (isHandlingScanRef.current) return;
+    isHandlingScanRef.current = true;
+
+    console.log("🏷️ Barcode scanned:", data);
+    setShowCamera(false);
+    setIsLookingUp(true);
+
+    try {
+      const food = await foodsAPI.getFoodByBarcode(data);
+      setScannedFood(food);
+    } catch (error) {
+      Alert.alert(
+        "Product Not Found",
+        error instanceof Error && error.message !== "Product not found"
+          ? error.message
+          : "This product isn't in our database yet. Try taking a photo of it instead."
+      );
+    } finally {
+      setIsLookingUp(false);
+      isHandlingScanRef.current = false;
+    }
+  };
+
+  const handleFoodLogged = (meal: Meal) => {
+    setScannedFood(null);
+    dispatch(fetchMeals());
+    Alert.alert("Success", `${meal.name} logged!`);
+  };
 
   const takePicture = async () => {
     if (cameraRef.current && !isAnalyzing) {
@@ -72,7 +182,11 @@ export default function CameraScreen() {
           base64: true,
         });
 
-        if (photo && photo.base64) {
+        if (photo && photo.base64 && cameraMode === "leftovers") {
+          console.log("✅ Leftovers picture taken, analyzing...");
+          setShowCamera(false);
+          dispatch(addLeftoversPhoto(photo.base64));
+        } else if (photo && photo.base64) {
           console.log("✅ Picture taken, analyzing...");
           setShowCamera(false);
           setPostedMealId(null); // Reset posted meal ID
@@ -117,6 +231,15 @@ export default function CameraScreen() {
     }
   };
 
+  const analyzeDescription = () => {
+    if (isAnalyzing || !mealDescription.trim()) return;
+
+    setPostedMealId(null); // Reset posted meal ID
+    dispatch(analyzeMealText(mealDescription.trim()));
+    setShowTextEntry(false);
+    setMealDescription("");
+  };
+
   const handlePost = async () => {
     if (pendingMeal && !isPosting) {
       const result = await dispatch(postMeal());
@@ -195,7 +318,7 @@ export default function CameraScreen() {
           text: "Discard",
           style: "destructive",
           onPress: () => {
-            dispatch(clearPendingMeal());
+            dispatch(discardPendingMeal());
             setPostedMealId(null);
           },
         },
@@ -206,7 +329,34 @@ export default function CameraScreen() {
   if (showCamera) {
     return (
       <View style={styles.cameraContainer}>
-        <CameraView style={styles.camera} facing={facing} ref={cameraRef}>
+        <CameraView
+          style={styles.camera}
+          facing={cameraMode === "barcode" ? "back" : facing}
+          ref={cameraRef}
+          barcodeScannerSettings={
+            cameraMode === "barcode"
+              ? { barcodeTypes: [...PRODUCT_BARCODE_TYPES] }
+              : undefined
+          }
+          onBarcodeScanned={
+            cameraMode === "barcode" ? handleBarcodeScanned : undefined
+          }
+        >
+          {cameraMode === "barcode" && (
+            <View style={styles.scanOverlay}>
+              <View style={styles.scanFrame} />
+              <Text style={styles.scanHint}>
+                Point the camera at the product barcode
+              </Text>
+            </View>
+          )}
+          {cameraMode === "leftovers" && (
+            <View style={styles.scanOverlay}>
+              <Text style={styles.scanHint}>
+                Take a photo of what&apos;s left on the plate
+              </Text>
+            </View>
+          )}
           <View style={styles.cameraControls}>
             <TouchableOpacity
               style={styles.closeButton}
@@ -215,27 +365,33 @@ export default function CameraScreen() {
               <Ionicons name="close" size={30} color="white" />
             </TouchableOpacity>
 
-            <TouchableOpacity
-              style={styles.flipButton}
-              onPress={() =>
-                setFacing((current) => (current === "back" ? "front" : "back"))
-              }
-            >
-              <Ionicons name="camera-reverse" size={30} color="white" />
-            </TouchableOpacity>
+            {cameraMode !== "barcode" && (
+              <>
+                <TouchableOpacity
+                  style={styles.flipButton}
+                  onPress={() =>
+                    setFacing((current) =>
+                      current === "back" ? "front" : "back"
+                    )
+                  }
+                >
+                  <Ionicons name="camera-reverse" size={30} color="white" />
+                </TouchableOpacity>
 
-            <TouchableOpacity
-              style={styles.captureButton}
-              onPress={takePicture}
-              disabled={isAnalyzing}
-            >
-              <View
-                style={[
-                  styles.captureButtonInner,
-                  isAnalyzing && styles.captureButtonDisabled,
-                ]}
-              />
-            </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.captureButton}
+                  onPress={takePicture}
+                  disabled={isAnalyzing}
+                >
+                  <View
+                    style={[
+                      styles.captureButtonInner,
+                      isAnalyzing && styles.captureButtonDisabled,
+                    ]}
+                  />
+                </TouchableOpacity>
+              </>
+            )}
           </View>
         </CameraView>
       </View>
@@ -244,19 +400,33 @@ export default function CameraScreen() {
 
   if (pendingMeal) {
     const isPosted = !!postedMealId;
+    const allergenWarnings = pendingMeal.allergenWarnings ?? [];
+    const mustConfirmAllergens =
+      !isPosted &&
+      hasBlockingAllergenWarnings(pendingMeal) &&
+      !pendingMeal.allergenWarningsAcknowledged;
 
     return (
       <ScrollView style={styles.container}>
         <View style={styles.analysisContainer}>
-          <Image
-            source={{
-              uri: `data:image/jpeg;base64,${pendingMeal.imageBase64}`,
-            }}
-            style={styles.analyzedImage}
-            onError={(error) => {
-              console.error("💥 Image display error:", error);
-            }}
-          />
+          {pendingMeal.imageBase64 ? (
+            <Image
+              source={{
+                uri: `data:image/jpeg;base64,${pendingMeal.imageBase64}`,
+              }}
+              style={styles.analyzedImage}
+              onError={(error) => {
+                console.error("💥 Image display error:", error);
+              }}
+            />
+          ) : (
+            <View style={styles.descriptionContainer}>
+              <Ionicons name="chatbox-ellipses" size={24} color="#007AFF" />
+              <Text style={styles.descriptionText}>
+                {pendingMeal.description}
+              </Text>
+            </View>
+          )}
 
           <View style={styles.analysisResults}>
             <Text style={styles.analysisTitle}>
@@ -276,6 +446,20 @@ export default function CameraScreen() {
               </Text>
             )}
 
+            <ConsumedAtPicker
+              value={
+                pendingMeal.consumed_at
+                  ? new Date(pendingMeal.consumed_at)
+                  : new Date(pendingMeal.timestamp)
+              }
+              onChange={(date) =>
+                dispatch(setPendingMealConsumedAt(date.toISOString()))
+              }
+              disabled={isPosted || isPosting}
+            />
+
+            <AllergenWarningList warnings={allergenWarnings} />
+
             <View style={styles.nutritionGrid}>
               <View style={styles.nutritionItem}>
                 <Text style={styles.nutritionValue}>
@@ -322,6 +506,60 @@ export default function CameraScreen() {
               </View>
             </View>
 
+            {!isPosted && !!pendingMeal.questions?.length && (
+              <ClarifyingQuestions
+                questions={pendingMeal.questions}
+                confidence={pendingMeal.analysis?.confidence}
+                onSubmit={(answers) =>
+                  dispatch(answerClarifyingQuestions(answers))
+                }
+                onSkip={() => dispatch(skipClarifyingQuestions())}
+                isSubmitting={isClarifying}
+              />
+            )}
+
+            {pendingMeal.eatenFraction !== undefined && (
+              <Text style={styles.leftoversText}>
+                Logged for the {Math.round(pendingMeal.eatenFraction * 100)}% of
+                the plate you ate
+              </Text>
+            )}
+
+            {!isPosted &&
+              !!pendingMeal.job_id &&
+              pendingMeal.eatenFraction === undefined &&
+              !pendingMeal.leftoversSkipped && (
+                <View style={styles.leftoversCard}>
+                  <Text style={styles.leftoversText}>
+                    Didn&apos;t finish? After eating, take a photo of the
+                    leftovers to log only what you ate.
+                  </Text>
+                  {isAddingLeftovers ? (
+                    <ActivityIndicator color="#007AFF" />
+                  ) : (
+                    <View style={styles.leftoversButtons}>
+                      <TouchableOpacity
+                        style={styles.leftoversButton}
+                        onPress={() => dispatch(skipLeftoversPhoto())}
+                      >
+                        <Text style={styles.leftoversButtonText}>
+                          Ate it all
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.leftoversButton}
+                        onPress={() => openCamera("leftovers")}
+                      >
+                        <Ionicons name="camera" size={16} color="#007AFF" />
+                        <Text style={styles.leftoversButtonText}>
+                          Photo of leftovers
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              )}
+
             {isPosted && (
               <View style={styles.statusContainer}>
                 <Ionicons name="checkmark-circle" size={20} color="#28a745" />
@@ -345,7 +583,13 @@ export default function CameraScreen() {
               <TouchableOpacity
                 style={[styles.actionButton, styles.postButton]}
                 onPress={handlePost}
-                disabled={isPosting || isUpdating}
+                disabled={
+                  isPosting ||
+                  isUpdating ||
+                  isClarifying ||
+                  isAddingLeftovers ||
+                  mustConfirmAllergens
+                }
               >
                 {isPosting ? (
                   <ActivityIndicator color="white" />
@@ -369,6 +613,16 @@ export default function CameraScreen() {
           </View>
         </View>
 
+        <AllergenWarningModal
+          visible={mustConfirmAllergens && !isClarifying}
+          warnings={allergenWarnings}
+          onAcknowledge={() => dispatch(acknowledgeAllergenWarnings())}
+          onDiscard={() => {
+            dispatch(discardPendingMeal());
+            setPostedMealId(null);
+          }}
+        />
+
         {/* Update Modal */}
         <Modal
           visible={showUpdateModal}
@@ -427,26 +681,50 @@ export default function CameraScreen() {
     <View style={styles.container}>
       <Text style={styles.title}>Analyze Your Meal</Text>
       <Text style={styles.subtitle}>
-        Take a photo or select from gallery to get nutrition analysis
+        Take a photo, select from gallery, scan a barcode or describe what you
+        ate to get nutrition analysis
       </Text>
 
       {isAnalyzing && (
         <View style={styles.analyzingContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
-          <Text style={styles.analyzingText}>Analyzing your meal...</Text>
+          <Text style={styles.analyzingText}>
+            {analysisStage
+              ? ANALYSIS_STAGE_LABELS[analysisStage]
+              : "Analyzing your meal..."}
+          </Text>
+        </View>
+      )}
+
+      {isLookingUp && (
+        <View style={styles.analyzingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.analyzingText}>Looking up product...</Text>
         </View>
       )}
 
       <View style={styles.buttonContainer}>
         <TouchableOpacity
           style={[styles.cameraButton, isAnalyzing && styles.buttonDisabled]}
-          onPress={() => setShowCamera(true)}
+          onPress={() => openCamera("photo")}
           disabled={isAnalyzing}
         >
           <Ionicons name="camera" size={30} color="white" />
           <Text style={styles.buttonText}>Take Photo</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[
+            styles.galleryButton,
+            (isAnalyzing || isLookingUp) && styles.buttonDisabled,
+          ]}
+          onPress={() => openCamera("barcode")}
+          disabled={isAnalyzing || isLookingUp}
+        >
+          <Ionicons name="barcode-outline" size={30} color="#007AFF" />
+          <Text style={styles.galleryButtonText}>Scan Barcode</Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.galleryButton, isAnalyzing && styles.buttonDisabled]}
           onPress={pickImage}
@@ -455,7 +733,91 @@ export default function CameraScreen() {
           <Ionicons name="images" size={30} color="#007AFF" />
           <Text style={styles.galleryButtonText}>Choose from Gallery</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[
+            styles.galleryButton,
+            styles.importButton,
+            isAnalyzing && styles.buttonDisabled,
+          ]}
+          onPress={() => router.push("/batch-import")}
+          disabled={isAnalyzing}
+        >
+          <Ionicons name="albums" size={30} color="#007AFF" />
+          <Text style={styles.galleryButtonText}>Import a Past Day</Text>
+        </TouchableOpacity>
+
+        {showTextEntry ? (
+          <View style={styles.textEntryContainer}>
+            <TextInput
+              style={styles.updateInput}
+              placeholder='e.g. "Two eggs, toast with butter and a latte"'
+              value={mealDescription}
+              onChangeText={setMealDescription}
+              multiline
+              numberOfLines={4}
+              textAlignVertical="top"
+              autoFocus={true}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => {
+                  setShowTextEntry(false);
+                  setMealDescription("");
+                }}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.submitButton]}
+                onPress={analyzeDescription}
+                disabled={!mealDescription.trim() || isAnalyzing}
+              >
+                <Text style={styles.submitButtonText}>Analyze</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[
+              styles.galleryButton,
+              styles.describeButton,
+              isAnalyzing && styles.buttonDisabled,
+            ]}
+            onPress={() => setShowTextEntry(true)}
+            disabled={isAnalyzing}
+          >
+            <Ionicons name="create" size={30} color="#007AFF" />
+            <Text style={styles.galleryButtonText}>Describe Your Meal</Text>
+          </TouchableOpacity>
+        )}
       </View>
+
+      {/* Scanned Product Modal */}
+      <Modal
+        visible={!!scannedFood}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setScannedFood(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <ScrollView
+            style={[styles.modalContent, styles.scannedContent]}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Scanned Product</Text>
+              <TouchableOpacity onPress={() => setScannedFood(null)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            {scannedFood && (
+              <FoodLogForm food={scannedFood} onLogged={handleFoodLogged} />
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -501,6 +863,24 @@ const styles = StyleSheet.create({
   captureButtonDisabled: {
     backgroundColor: "rgba(255,255,255,0.5)",
   },
+  scanOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scanFrame: {
+    width: 260,
+    height: 140,
+    borderWidth: 2,
+    borderColor: "white",
+    borderRadius: 12,
+  },
+  scanHint: {
+    color: "white",
+    fontSize: 16,
+    marginTop: 15,
+    textAlign: "center",
+  },
   title: {
     fontSize: 28,
     fontWeight: "bold",
@@ -516,22 +896,11 @@ const styles = StyleSheet.create({
     marginBottom: 40,
     paddingHorizontal: 20,
   },
-  message: {
-    textAlign: "center",
-    paddingBottom: 10,
-  },
   buttonContainer: {
     flex: 1,
     justifyContent: "center",
     paddingHorizontal: 40,
   },
-  button: {
-    backgroundColor: "#007AFF",
-    padding: 15,
-    borderRadius: 8,
-    alignItems: "center",
-    margin: 20,
-  },
   cameraButton: {
     backgroundColor: "#007AFF",
     padding: 20,
@@ -550,6 +919,15 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     justifyContent: "center",
   },
+  importButton: {
+    marginTop: 20,
+  },
+  describeButton: {
+    marginTop: 20,
+  },
+  textEntryContainer: {
+    marginTop: 20,
+  },
   buttonDisabled: {
     opacity: 0.5,
   },
@@ -583,6 +961,20 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginBottom: 20,
   },
+  descriptionContainer: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "#f0f7ff",
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  descriptionText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 16,
+    color: "#333",
+  },
   analysisResults: {
     backgroundColor: "#f8f9fa",
     padding: 20,
@@ -644,6 +1036,37 @@ const styles = StyleSheet.create({
     color: "#155724",
     fontWeight: "500",
   },
+  leftoversCard: {
+    backgroundColor: "#f8f9fa",
+    borderRadius: 10,
+    padding: 15,
+    marginTop: 15,
+  },
+  leftoversText: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  leftoversButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+  leftoversButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  leftoversButtonText: {
+    marginLeft: 4,
+    color: "#007AFF",
+    fontWeight: "500",
+  },
   actionButtons: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -694,6 +1117,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     width: "90%",
   },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  scannedContent: {
+    flexGrow: 0,
+    maxHeight: "85%",
+  },
   modalTitle: {
     fontSize: 20,
     fontWeight: "bold",
@@ -17,6 +17,7 @@ import {
   DailyBalance,
 } from "../../src/services/deviceAPI";
 import { HealthData } from "../../src/services/healthKit";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 type DeviceType =
   | "APPLE_HEALTH"
@@ -124,7 +125,7 @@ export default function DevicesScreen() {
 
       // Only load activity data and balance if we have connected devices
       if (devices.length > 0) {
-        const today = new Date().toISOString().split("T")[0];
+        const today = getLocalDateString();
 
         // Get activity data and balance in parallel
         const [activity, balance] = await Promise.all([
@@ -11,6 +11,7 @@ import {
   Alert,
   RefreshControl,
   ActivityIndicator,
+  ScrollView,
 } from "react-native";
 import { useDispatch, useSelector } from "react-redux";
 import { RootState, AppDispatch } from "../../src/store";
@@ -20,9 +21,14 @@ import {
   toggleMealFavorite,
   duplicateMeal,
   updateMeal,
+  addMealItem,
+  updateMealItem,
+  removeMealItem,
 } from "../../src/store/mealSlice";
-import { Meal } from "../../src/types";
+import { Meal, MealItemData } from "../../src/types";
 import { Ionicons } from "@expo/vector-icons";
+import { ConsumedAtPicker } from "@/components/ConsumedAtPicker";
+import { MealItemsEditor } from "@/components/MealItemsEditor";
 
 interface MealWithFeedback extends Meal {
   userRating?: number;
@@ -44,12 +50,17 @@ export default function HistoryScreen() {
     isTogglingFavorite,
     isDuplicating,
     isUpdating,
+    isEditingItems,
   } = useSelector((state: RootState) => state.meal);
+  const token = useSelector((state: RootState) => state.auth.token);
 
   const [filteredMeals, setFilteredMeals] = useState<MealWithFeedback[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [showUpdateModal, setShowUpdateModal] = useState(false);
+  const [showDuplicateModal, setShowDuplicateModal] = useState(false);
+  const [showItemsModal, setShowItemsModal] = useState(false);
+  const [duplicateConsumedAt, setDuplicateConsumedAt] = useState(new Date());
   const [selectedMeal, setSelectedMeal] = useState<MealWithFeedback | null>(
     null
   );
@@ -86,13 +97,13 @@ export default function HistoryScreen() {
     // Date filters
     if (filters.dateFrom) {
       filtered = filtered.filter(
-        (meal) => new Date(meal.createdAt) >= filters.dateFrom!
+        (meal) => new Date(meal.consumed_at) >= filters.dateFrom!
       );
     }
 
     if (filters.dateTo) {
       filtered = filtered.filter(
-        (meal) => new Date(meal.createdAt) <= filters.dateTo!
+        (meal) => new Date(meal.consumed_at) <= filters.dateTo!
       );
     }
 
@@ -164,7 +175,7 @@ export default function HistoryScreen() {
     if (meals.length === 0) return;
 
     const lastWeekMeals = meals.filter((meal) => {
-      const mealDate = new Date(meal.createdAt);
+      const mealDate = new Date(meal.consumed_at);
       const weekAgo = new Date();
       weekAgo.setDate(weekAgo.getDate() - 7);
       return mealDate >= weekAgo;
@@ -256,43 +267,40 @@ export default function HistoryScreen() {
     }
   };
 
-  const handleDuplicateMeal = async (meal: Meal) => {
-    Alert.alert(
-      "Duplicate Meal",
-      "Would you like to duplicate this meal to today?",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Yes",
-          onPress: async () => {
-            try {
-              console.log("🔄 Starting duplicate process for meal:", meal.id);
-              console.log("📋 Meal data:", meal);
-
-              const result = await dispatch(
-                duplicateMeal({
-                  mealId: meal.id,
-                  newDate: new Date().toISOString().split("T")[0],
-                })
-              ).unwrap();
-
-              console.log("✅ Duplicate result:", result);
-              Alert.alert("Success", "Meal duplicated successfully!");
-
-              // Refresh meals to show the new duplicate
-              dispatch(fetchMeals());
-            } catch (error) {
-              console.error("💥 Duplicate error:", error);
-              Alert.alert(
-                "Error",
-                "Failed to duplicate meal: " +
-                  (error instanceof Error ? error.message : "Unknown error")
-              );
-            }
-          },
-        },
-      ]
-    );
+  const handleDuplicateMeal = (meal: Meal) => {
+    setSelectedMeal(meal);
+    setDuplicateConsumedAt(new Date());
+    setShowDuplicateModal(true);
+  };
+
+  const handleDuplicateSubmit = async () => {
+    if (!selectedMeal) return;
+
+    try {
+      console.log("🔄 Starting duplicate process for meal:", selectedMeal.id);
+
+      const result = await dispatch(
+        duplicateMeal({
+          mealId: selectedMeal.id,
+          newDate: duplicateConsumedAt.toISOString(),
+        })
+      ).unwrap();
+
+      console.log("✅ Duplicate result:", result);
+      Alert.alert("Success", "Meal duplicated successfully!");
+      setShowDuplicateModal(false);
+      setSelectedMeal(null);
+
+      // Refresh meals to show the new duplicate
+      dispatch(fetchMeals());
+    } catch (error) {
+      console.error("💥 Duplicate error:", error);
+      Alert.alert(
+        "Error",
+        "Failed to duplicate meal: " +
+          (error instanceof Error ? error.message : "Unknown error")
+      );
+    }
   };
 
   const handleUpdateMeal = (meal: Meal) => {
@@ -301,6 +309,45 @@ export default function HistoryScreen() {
     setShowUpdateModal(true);
   };
 
+  const handleEditItems = (meal: Meal) => {
+    setSelectedMeal(meal);
+    setShowItemsModal(true);
+  };
+
+  // Item edits return the meal with totals recomputed by the server
+  const handleItemEdit = async (
+    edit: (mealId: string) => Promise<unknown>
+  ) => {
+    if (!selectedMeal) return;
+
+    try {
+      await edit(selectedMeal.id);
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        typeof error === "string" ? error : "Failed to update meal items"
+      );
+    }
+  };
+
+  const handleChangeItemGrams = (itemId: number, grams: number) =>
+    handleItemEdit((mealId) =>
+      dispatch(updateMealItem({ mealId, itemId, changes: { grams } })).unwrap()
+    );
+
+  const handleRemoveItem = (itemId: number) =>
+    handleItemEdit((mealId) =>
+      dispatch(removeMealItem({ mealId, itemId })).unwrap()
+    );
+
+  const handleAddItem = (item: MealItemData) =>
+    handleItemEdit((mealId) =>
+      dispatch(addMealItem({ mealId, item })).unwrap()
+    );
+
+  // The modal shows the stored copy so recomputed totals appear immediately
+  const itemsMeal = meals.find((meal) => meal.id === selectedMeal?.id);
+
   const renderStarRating = (
     rating: number,
     setRating: (rating: number) => void
@@ -322,7 +369,7 @@ export default function HistoryScreen() {
 
   const renderMealItem = ({ item }: { item: MealWithFeedback }) => {
     const mealScore = getMealScore(item);
-    const mealDate = new Date(item.createdAt);
+    const mealDate = new Date(item.consumed_at);
 
     return (
       <View style={styles.mealCard}>
@@ -353,7 +400,13 @@ export default function HistoryScreen() {
         </View>
 
         {item.imageUrl && (
-          <Image source={{ uri: item.imageUrl }} style={styles.mealImage} />
+          <Image
+            source={{
+              uri: item.thumbnail_url || item.imageUrl,
+              headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+            }}
+            style={styles.mealImage}
+          />
         )}
 
         <View style={styles.nutritionSummary}>
@@ -491,6 +544,15 @@ export default function HistoryScreen() {
             <Ionicons name="create-outline" size={20} color="#FF9800" />
             <Text style={styles.actionText}>Update</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleEditItems(item)}
+            disabled={isEditingItems}
+          >
+            <Ionicons name="list-outline" size={20} color="#9C27B0" />
+            <Text style={styles.actionText}>Items</Text>
+          </TouchableOpacity>
         </View>
       </View>
     );
@@ -675,6 +737,93 @@ export default function HistoryScreen() {
         </View>
       </Modal>
 
+      {/* Meal Items Modal */}
+      <Modal
+        visible={showItemsModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowItemsModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Meal Items</Text>
+            <Text style={styles.modalSubtitle}>{itemsMeal?.name}</Text>
+
+            <ScrollView keyboardShouldPersistTaps="handled">
+              {itemsMeal && (
+                <MealItemsEditor
+                  meal={itemsMeal}
+                  isSaving={isEditingItems}
+                  onChangeGrams={handleChangeItemGrams}
+                  onRemove={handleRemoveItem}
+                  onAdd={handleAddItem}
+                />
+              )}
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.submitButton]}
+                onPress={() => {
+                  setShowItemsModal(false);
+                  setSelectedMeal(null);
+                }}
+              >
+                <Text style={styles.submitButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Duplicate Modal */}
+      <Modal
+        visible={showDuplicateModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowDuplicateModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Duplicate Meal</Text>
+            <Text style={styles.modalSubtitle}>
+              When did you eat {selectedMeal?.name} again?
+            </Text>
+
+            <ConsumedAtPicker
+              value={duplicateConsumedAt}
+              onChange={setDuplicateConsumedAt}
+              disabled={isDuplicating}
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => {
+                  setShowDuplicateModal(false);
+                  setSelectedMeal(null);
+                }}
+                disabled={isDuplicating}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.modalButton, styles.submitButton]}
+                onPress={handleDuplicateSubmit}
+                disabled={isDuplicating}
+              >
+                {isDuplicating ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Duplicate</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Filters Modal */}
       <Modal
         visible={showFilters}
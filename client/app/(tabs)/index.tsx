@@ -11,14 +11,21 @@ import {
 import { useSelector } from "react-redux";
 import { RootState } from "@/src/store";
 import { Ionicons } from "@expo/vector-icons";
-import { useMeals, useDailyStats, useGlobalStats } from "@/hooks/useQueries";
+import {
+  useMeals,
+  useDailyStats,
+  useGlobalStats,
+  useHydration,
+} from "@/hooks/useQueries";
+import { HydrationCard } from "@/components/HydrationCard";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 export default function Dashboard() {
   const { user } = useSelector((state: RootState) => state.auth);
   const [showGlobalStats, setShowGlobalStats] = useState(false);
 
   // Get today's date
-  const today = new Date().toISOString().split("T")[0];
+  const today = getLocalDateString();
 
   // React Query hooks
   const {
@@ -33,6 +40,8 @@ export default function Dashboard() {
     refetch: refetchDailyStats,
   } = useDailyStats(today);
 
+  const { data: hydration, refetch: refetchHydration } = useHydration(today);
+
   const {
     data: globalStats,
     isLoading: globalStatsLoading,
@@ -45,6 +54,7 @@ export default function Dashboard() {
     await Promise.all([
       refetchMeals(),
       refetchDailyStats(),
+      refetchHydration(),
       showGlobalStats ? refetchGlobalStats() : Promise.resolve(),
     ]);
   };
@@ -213,6 +223,8 @@ export default function Dashboard() {
         </View>
       )}
 
+      {hydration && <HydrationCard hydration={hydration} />}
+
       {/* Global Statistics Toggle */}
       <View style={styles.globalStatsToggle}>
         <TouchableOpacity
@@ -12,20 +12,31 @@ import {
   TextInput,
   Alert,
 } from "react-native";
+import { router } from "expo-router";
 import { useDispatch, useSelector } from "react-redux";
 import { RootState, AppDispatch } from "../../src/store";
-import { fetchMeals, updateMeal } from "../../src/store/mealSlice";
+import {
+  analyzeMealText,
+  fetchMeals,
+  updateMeal,
+} from "../../src/store/mealSlice";
 import { Meal } from "../../src/types";
 import { Ionicons } from "@expo/vector-icons";
+import { FoodSearch } from "@/components/FoodSearch";
+import { QuickLogSheet } from "@/components/QuickLogSheet";
 
 export default function MealsScreen() {
   const dispatch = useDispatch<AppDispatch>();
-  const { meals, isLoading, isUpdating } = useSelector(
+  const { meals, isLoading, isUpdating, isAnalyzing } = useSelector(
     (state: RootState) => state.meal
   );
+  const token = useSelector((state: RootState) => state.auth.token);
   const [showUpdateModal, setShowUpdateModal] = useState(false);
   const [selectedMeal, setSelectedMeal] = useState<Meal | null>(null);
   const [updateText, setUpdateText] = useState("");
+  const [quickLogText, setQuickLogText] = useState("");
+  const [showFoodSearch, setShowFoodSearch] = useState(false);
+  const [showQuickLog, setShowQuickLog] = useState(false);
 
   useEffect(() => {
     dispatch(fetchMeals());
@@ -35,6 +46,31 @@ export default function MealsScreen() {
     dispatch(fetchMeals());
   };
 
+  // Analyze a typed description, then review and post it on the camera tab
+  const handleQuickLog = async () => {
+    const description = quickLogText.trim();
+    if (!description || isAnalyzing) return;
+
+    const result = await dispatch(analyzeMealText(description));
+
+    if (analyzeMealText.fulfilled.match(result)) {
+      setQuickLogText("");
+      router.push("/(tabs)/camera");
+    } else {
+      Alert.alert(
+        "Error",
+        (result.payload as string) || "Failed to analyze meal"
+      );
+    }
+  };
+
+  const handleFoodLogged = (meal: Meal) => {
+    setShowFoodSearch(false);
+    setShowQuickLog(false);
+    dispatch(fetchMeals());
+    Alert.alert("Success", `${meal.name} logged!`);
+  };
+
   const handleUpdateMeal = (meal: Meal) => {
     console.log("🔄 Opening update modal for meal:", meal);
     setSelectedMeal(meal);
@@ -83,7 +119,10 @@ export default function MealsScreen() {
     <View style={styles.mealCard}>
       {item.imageUrl && (
         <Image
-          source={{ uri: item.imageUrl }}
+          source={{
+            uri: item.thumbnail_url || item.imageUrl,
+            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+          }}
           style={styles.mealImage}
           onError={(error) => {
             console.error("💥 Image load error for meal:", item.id, error);
@@ -105,7 +144,7 @@ export default function MealsScreen() {
           <Text style={styles.mealDescription}>{item.description}</Text>
         )}
         <Text style={styles.mealDate}>
-          {new Date(item.createdAt).toLocaleDateString("en-US", {
+          {new Date(item.consumed_at).toLocaleDateString("en-US", {
             month: "short",
             day: "numeric",
             hour: "2-digit",
@@ -153,6 +192,41 @@ export default function MealsScreen() {
 
   return (
     <View style={styles.container}>
+      <View style={styles.quickLogContainer}>
+        <TextInput
+          style={styles.quickLogInput}
+          placeholder="Describe a meal, e.g. two eggs and toast"
+          value={quickLogText}
+          onChangeText={setQuickLogText}
+          onSubmitEditing={handleQuickLog}
+          returnKeyType="send"
+          editable={!isAnalyzing}
+        />
+        <TouchableOpacity
+          style={styles.quickLogButton}
+          onPress={handleQuickLog}
+          disabled={!quickLogText.trim() || isAnalyzing}
+        >
+          {isAnalyzing ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <Ionicons name="send" size={18} color="white" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.quickLogButton, styles.foodSearchButton]}
+          onPress={() => setShowFoodSearch(true)}
+        >
+          <Ionicons name="nutrition-outline" size={18} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.quickLogButton, styles.favoritesButton]}
+          onPress={() => setShowQuickLog(true)}
+        >
+          <Ionicons name="star" size={18} color="white" />
+        </TouchableOpacity>
+      </View>
+
       <FlatList
         data={meals}
         renderItem={renderMeal}
@@ -167,12 +241,53 @@ export default function MealsScreen() {
           <View style={styles.emptyState}>
             <Text style={styles.emptyTitle}>No meals yet</Text>
             <Text style={styles.emptyText}>
-              Start by taking a photo of your meal to analyze its nutrition!
+              Start by taking a photo of your meal or describing it above to
+              analyze its nutrition!
             </Text>
           </View>
         }
       />
 
+      {/* Food Database Modal */}
+      <Modal
+        visible={showFoodSearch}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowFoodSearch(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Search Foods</Text>
+              <TouchableOpacity onPress={() => setShowFoodSearch(false)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            <FoodSearch onLogged={handleFoodLogged} />
+          </View>
+        </View>
+      </Modal>
+
+      {/* Favorites & Recent Modal */}
+      <Modal
+        visible={showQuickLog}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowQuickLog(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Log Again</Text>
+              <TouchableOpacity onPress={() => setShowQuickLog(false)}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            <QuickLogSheet onLogged={handleFoodLogged} />
+          </View>
+        </View>
+      </Modal>
+
       {/* Update Modal */}
       <Modal
         visible={showUpdateModal}
@@ -239,6 +354,38 @@ const styles = StyleSheet.create({
   listContainer: {
     padding: 15,
   },
+  quickLogContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  quickLogInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 20,
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  quickLogButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#007AFF",
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: 8,
+  },
+  foodSearchButton: {
+    backgroundColor: "#4CAF50",
+  },
+  favoritesButton: {
+    backgroundColor: "#FFB300",
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: "center",
@@ -333,6 +480,11 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     width: "90%",
   },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
   modalTitle: {
     fontSize: 20,
     fontWeight: "bold",
@@ -6,16 +6,37 @@ import {
   TouchableOpacity,
   Alert,
   ScrollView,
+  ActivityIndicator,
 } from "react-native";
 import { useDispatch, useSelector } from "react-redux";
 import { router } from "expo-router";
 import { RootState, AppDispatch } from "@/src/store";
 import { signOut, forceSignOut } from "@/src/store/authSlice";
 import { Ionicons } from "@expo/vector-icons";
+import {
+  useGoals,
+  useRecalculateGoals,
+  useSubscriptionInfo,
+} from "@/hooks/useQueries";
+
+const FEATURE_LABELS = {
+  aiMealPlans: "AI meal plans",
+  pdfExport: "PDF reports",
+};
 
 export default function ProfileScreen() {
   const dispatch = useDispatch<AppDispatch>();
   const { user, isLoading } = useSelector((state: RootState) => state.auth);
+  const { data: goals, isLoading: isLoadingGoals } = useGoals();
+  const recalculateGoals = useRecalculateGoals();
+  const { data: subscription, isLoading: isLoadingSubscription } =
+    useSubscriptionInfo();
+
+  const handleRecalculateGoals = () => {
+    recalculateGoals.mutate(undefined, {
+      onError: (error) => Alert.alert("Error", error.message),
+    });
+  };
 
   const handleSignOut = async () => {
     try {
@@ -68,13 +89,135 @@ export default function ProfileScreen() {
         </View>
 
         <View style={styles.infoRow}>
-          <Text style={styles.infoLabel}>Subscription</Text>
+          <Text style={styles.infoLabel}>Sex</Text>
           <Text style={styles.infoValue}>
-            {user?.subscription_type || "Free"}
+            {user?.sex ? user.sex.toLowerCase() : "Not set"}
           </Text>
         </View>
       </View>
 
+      <View style={styles.infoSection}>
+        <Text style={styles.sectionTitle}>Subscription</Text>
+
+        {isLoadingSubscription || !subscription ? (
+          <ActivityIndicator color="#007AFF" />
+        ) : (
+          <>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Plan</Text>
+              <Text style={styles.infoValue}>{subscription.name}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>AI analyses today</Text>
+              <Text style={styles.infoValue}>
+                {subscription.currentRequests} /{" "}
+                {subscription.dailyAIRequests}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Connected devices</Text>
+              <Text style={styles.infoValue}>
+                {subscription.connectedDevices} / {subscription.maxDevices}
+              </Text>
+            </View>
+            {(
+              Object.keys(FEATURE_LABELS) as (keyof typeof FEATURE_LABELS)[]
+            ).map((feature) => (
+              <View key={feature} style={styles.infoRow}>
+                <Text style={styles.infoLabel}>{FEATURE_LABELS[feature]}</Text>
+                <Ionicons
+                  name={
+                    subscription.features[feature]
+                      ? "checkmark-circle"
+                      : "close-circle"
+                  }
+                  size={20}
+                  color={subscription.features[feature] ? "#28a745" : "#ccc"}
+                />
+              </View>
+            ))}
+            <Text style={styles.goalsNote}>
+              {subscription.remainingRequests} analyses left, renews at{" "}
+              {new Date(subscription.resetAt).toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </Text>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={styles.recalculateButton}
+          onPress={() => router.push("/subscription")}
+        >
+          <Ionicons name="card-outline" size={18} color="#007AFF" />
+          <Text style={styles.editButtonText}>Manage Plan</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.infoSection}>
+        <Text style={styles.sectionTitle}>Daily Targets</Text>
+
+        {isLoadingGoals ? (
+          <ActivityIndicator color="#007AFF" />
+        ) : (
+          <>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Calories</Text>
+              <Text style={styles.infoValue}>
+                {Math.round(goals?.goal_calories || 0)} kcal
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Protein</Text>
+              <Text style={styles.infoValue}>
+                {Math.round(goals?.goal_protein_g || 0)} g
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Carbs</Text>
+              <Text style={styles.infoValue}>
+                {Math.round(goals?.goal_carbs_g || 0)} g
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Fat</Text>
+              <Text style={styles.infoValue}>
+                {Math.round(goals?.goal_fats_g || 0)} g
+              </Text>
+            </View>
+            {goals?.goal_water_ml ? (
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Water</Text>
+                <Text style={styles.infoValue}>
+                  {Math.round(goals.goal_water_ml)} ml
+                </Text>
+              </View>
+            ) : null}
+            {goals?.tdee_kcal ? (
+              <Text style={styles.goalsNote}>
+                Based on an estimated {Math.round(goals.tdee_kcal)} kcal daily
+                energy expenditure
+              </Text>
+            ) : null}
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.recalculateButton,
+            recalculateGoals.isPending && styles.disabledButton,
+          ]}
+          onPress={handleRecalculateGoals}
+          disabled={recalculateGoals.isPending}
+        >
+          <Ionicons name="refresh-outline" size={18} color="#007AFF" />
+          <Text style={styles.editButtonText}>
+            {recalculateGoals.isPending ? "Recalculating..." : "Recalculate"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       <View style={styles.actions}>
         <TouchableOpacity style={styles.editButton}>
           <Ionicons name="create-outline" size={20} color="#007AFF" />
@@ -150,6 +293,18 @@ const styles = StyleSheet.create({
     color: "#666",
     textTransform: "capitalize",
   },
+  goalsNote: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 12,
+  },
+  recalculateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 15,
+    padding: 10,
+  },
   actions: {
     paddingHorizontal: 15,
   },
@@ -16,6 +16,7 @@ import { useDispatch, useSelector } from "react-redux";
 import { RootState, AppDispatch } from "../../src/store";
 import axios from "axios";
 import { Platform } from "react-native";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 interface MealTemplate {
   template_id: string;
@@ -257,7 +258,7 @@ export default function RecommendedMenusScreen() {
     try {
       const today = new Date();
       const startOfWeek = new Date(today.setDate(today.getDate() - today.getDay()));
-      const weekStartDate = startOfWeek.toISOString().split('T')[0];
+      const weekStartDate = getLocalDateString(startOfWeek);
 
       const headers = await getAuthHeaders();
       const response = await axios.post(
@@ -29,6 +29,12 @@ interface NutritionStatistics {
   vegetableFruitIntake: number;
   fullLoggingPercentage: number;
   allergenAlerts: string[];
+  allergenExposure: {
+    allergen: string;
+    severity: "HIGH" | "MEDIUM" | "LOW";
+    source: "ALLERGY" | "AVOIDED_FOOD";
+    meals: number;
+  }[];
   healthRiskPercentage: number;
   averageEatingHours: { start: string; end: string };
   intermittentFastingHours: number;
@@ -380,12 +386,21 @@ export default function StatisticsScreen() {
       )}
 
       {/* Alerts */}
-      {statistics.allergenAlerts.length > 0 && (
+      {statistics.allergenExposure.length > 0 && (
         <View style={[styles.card, styles.alertCard]}>
           <Text style={styles.cardTitle}>התראות אלרגנים</Text>
-          {statistics.allergenAlerts.map((allergen, index) => (
+          {statistics.allergenExposure.map((exposure, index) => (
             <View key={index} style={styles.alertItem}>
-              <Text style={styles.alertText}>⚠️ {allergen}</Text>
+              <Text
+                style={[
+                  styles.alertText,
+                  exposure.severity === "HIGH" && styles.alertTextHigh,
+                ]}
+              >
+                ⚠️ {exposure.allergen}
+                {exposure.source === "AVOIDED_FOOD" ? " (avoided)" : ""}:{" "}
+                {exposure.meals} {exposure.meals === 1 ? "meal" : "meals"}
+              </Text>
             </View>
           ))}
         </View>
@@ -594,6 +609,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#856404",
   },
+  alertTextHigh: {
+    color: "#D32F2F",
+    fontWeight: "600",
+  },
   bottomSpace: {
     height: 20,
   },
@@ -17,7 +17,10 @@ export default function RootLayout() {
           <PersistGate loading={<Text>Loading...</Text>} persistor={persistor}>
             <Stack screenOptions={{ headerShown: false }}>
               <Stack.Screen name="(auth)" />
+              <Stack.Screen name="(onboarding)" />
               <Stack.Screen name="(tabs)" />
+              <Stack.Screen name="batch-import" />
+              <Stack.Screen name="subscription" />
             </Stack>
             <StatusBar style="auto" />
           </PersistGate>
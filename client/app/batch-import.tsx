@@ -0,0 +1,438 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import * as ImagePicker from "expo-image-picker";
+import { router } from "expo-router";
+import { useDispatch } from "react-redux";
+import { Ionicons } from "@expo/vector-icons";
+import { AppDispatch } from "@/src/store";
+import { fetchMeals } from "@/src/store/mealSlice";
+import { nutritionAPI } from "@/src/services/api";
+import { AnalysisJob } from "@/src/types";
+import { getExifCaptureTime } from "@/src/utils/exif";
+import {
+  getOptimalImageSettings,
+  optimizeImageForUpload,
+} from "@/src/utils/imageOptimiztion";
+
+// Matches the server's per-batch limit
+const MAX_BATCH_IMAGES = 10;
+const POLL_INTERVAL_MS = 1500;
+
+interface BatchItem {
+  uri: string;
+  consumedAt?: string; // From the photo's EXIF capture time
+  job?: AnalysisJob;
+  error?: string;
+  include: boolean;
+}
+
+const formatCaptureTime = (consumedAt: string) =>
+  new Date(consumedAt).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Catching up on a day of meals photographed with the regular camera app.
+// Every photo is analyzed as its own meal (and counts against the daily
+// quota); nothing is logged until the user saves the reviewed list, and
+// photos left out are discarded.
+export default function BatchImportScreen() {
+  const dispatch = useDispatch<AppDispatch>();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pollCount, setPollCount] = useState(0);
+
+  const pendingJobIds = items
+    .filter((item) => item.job?.status === "PENDING")
+    .map((item) => item.job!.job_id)
+    .join(",");
+
+  useEffect(() => {
+    if (!pendingJobIds) return;
+
+    const timer = setTimeout(async () => {
+      const jobs = await Promise.all(
+        pendingJobIds
+          .split(",")
+          .map((jobId) =>
+            nutritionAPI.getAnalysisJob(Number(jobId)).catch(() => null)
+          )
+      );
+
+      setItems((current) =>
+        current.map((item) => {
+          const job = jobs.find((j) => j && j.job_id === item.job?.job_id);
+          if (!job) return item;
+          return {
+            ...item,
+            job,
+            include: job.status === "FAILED" ? false : item.include,
+          };
+        })
+      );
+      setPollCount((count) => count + 1);
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [pendingJobIds, pollCount]);
+
+  const pickPhotos = async () => {
+    try {
+      console.log("🖼️ Opening multi-photo picker...");
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_BATCH_IMAGES,
+        exif: true,
+        quality: 1,
+      });
+
+      if (result.canceled || result.assets.length === 0) return;
+
+      setIsUploading(true);
+
+      // Listed in the order the meals were eaten
+      const assets = result.assets
+        .slice(0, MAX_BATCH_IMAGES)
+        .map((asset) => ({
+          uri: asset.uri,
+          consumedAt: getExifCaptureTime(asset.exif),
+        }))
+        .sort((a, b) =>
+          (a.consumedAt || "").localeCompare(b.consumedAt || "")
+        );
+
+      // Resized so the whole batch fits in one request
+      const images = [];
+      for (const asset of assets) {
+        images.push({
+          imageBase64: await optimizeImageForUpload(
+            asset.uri,
+            getOptimalImageSettings("analysis")
+          ),
+          consumed_at: asset.consumedAt,
+        });
+      }
+
+      const results = await nutritionAPI.analyzeMealBatch(images);
+
+      setItems(
+        assets.map((asset, index) => {
+          const outcome = results.find((r) => r.index === index);
+          return {
+            ...asset,
+            job: outcome?.job,
+            error: outcome?.job
+              ? undefined
+              : outcome?.error || "Failed to analyze photo",
+            include: !!outcome?.job,
+          };
+        })
+      );
+    } catch (error: any) {
+      console.error("💥 Batch import error:", error);
+      Alert.alert("Error", error.message || "Failed to import photos");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const toggleItem = (index: number, include: boolean) => {
+    setItems((current) =>
+      current.map((item, i) => (i === index ? { ...item, include } : item))
+    );
+  };
+
+  // Draft meals never show up in the history, this just frees their images
+  const discardJobs = async (batch: BatchItem[]) => {
+    await Promise.all(
+      batch
+        .filter((item) => item.job)
+        .map((item) =>
+          nutritionAPI.discardAnalysisJob(item.job!.job_id).catch(() => {})
+        )
+    );
+  };
+
+  const isReady = (item: BatchItem) =>
+    item.include && item.job?.status === "COMPLETED" && !!item.job.analysis;
+
+  const saveSelected = async () => {
+    const toSave = items.filter(isReady);
+    if (toSave.length === 0 || isSaving) return;
+
+    setIsSaving(true);
+    let saved = 0;
+    const failed: BatchItem[] = [];
+
+    for (const item of toSave) {
+      try {
+        await nutritionAPI.saveMeal(
+          item.job!.analysis!,
+          undefined,
+          item.consumedAt,
+          item.job!.job_id
+        );
+        saved++;
+      } catch (error) {
+        console.error("💥 Batch save error:", error);
+        failed.push(item);
+      }
+    }
+
+    await discardJobs(
+      items.filter((item) => !toSave.includes(item) || failed.includes(item))
+    );
+    setIsSaving(false);
+    dispatch(fetchMeals());
+
+    Alert.alert(
+      failed.length > 0 ? "Partially saved" : "Success",
+      failed.length > 0
+        ? `${saved} of ${toSave.length} meals were logged.`
+        : `${saved} ${saved === 1 ? "meal" : "meals"} logged!`
+    );
+    router.back();
+  };
+
+  const cancel = () => {
+    if (items.length === 0) {
+      router.back();
+      return;
+    }
+
+    Alert.alert("Discard import?", "None of these meals will be logged.", [
+      { text: "Keep reviewing", style: "cancel" },
+      {
+        text: "Discard",
+        style: "destructive",
+        onPress: async () => {
+          await discardJobs(items);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const readyCount = items.filter(isReady).length;
+  const isAnalyzing = !!pendingJobIds;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={cancel} disabled={isSaving}>
+          <Ionicons name="close" size={28} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Import a Past Day</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {items.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="images-outline" size={64} color="#007AFF" />
+          <Text style={styles.emptyText}>
+            Pick up to {MAX_BATCH_IMAGES} meal photos from your gallery. Each
+            one is logged at the time it was taken and counts as one analysis.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, isUploading && styles.disabled]}
+            onPress={pickPhotos}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Select Photos</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <ScrollView contentContainerStyle={styles.list}>
+            {items.map((item, index) => (
+              <View key={item.uri} style={styles.row}>
+                <Image source={{ uri: item.uri }} style={styles.thumbnail} />
+                <View style={styles.rowInfo}>
+                  {item.job?.status === "COMPLETED" && item.job.analysis ? (
+                    <>
+                      <Text style={styles.mealName} numberOfLines={1}>
+                        {item.job.analysis.name}
+                      </Text>
+                      <Text style={styles.mealCalories}>
+                        {Math.round(item.job.analysis.calories)} kcal
+                      </Text>
+                    </>
+                  ) : item.job?.status === "PENDING" ? (
+                    <View style={styles.statusRow}>
+                      <ActivityIndicator size="small" color="#007AFF" />
+                      <Text style={styles.statusText}>Analyzing...</Text>
+                    </View>
+                  ) : (
+                    <Text style={styles.errorText} numberOfLines={2}>
+                      {item.job?.error || item.error}
+                    </Text>
+                  )}
+                  <Text style={styles.timeText}>
+                    {item.consumedAt
+                      ? formatCaptureTime(item.consumedAt)
+                      : "No capture time, logged as now"}
+                  </Text>
+                </View>
+                <Switch
+                  value={item.include}
+                  onValueChange={(value) => toggleItem(index, value)}
+                  disabled={
+                    isSaving || !item.job || item.job.status === "FAILED"
+                  }
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                (readyCount === 0 || isSaving) && styles.disabled,
+              ]}
+              onPress={saveSelected}
+              disabled={readyCount === 0 || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {isAnalyzing
+                    ? `Save ${readyCount} ready`
+                    : `Save ${readyCount} ${readyCount === 1 ? "meal" : "meals"}`}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "white",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+  },
+  headerSpacer: {
+    width: 28,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#666",
+    textAlign: "center",
+    marginVertical: 20,
+  },
+  list: {
+    padding: 15,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 10,
+  },
+  thumbnail: {
+    width: 60,
+    height: 60,
+    borderRadius: 8,
+    backgroundColor: "#eee",
+  },
+  rowInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  mealName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  mealCalories: {
+    fontSize: 13,
+    color: "#007AFF",
+    marginTop: 2,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  statusText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: "#666",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#d32f2f",
+  },
+  timeText: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 4,
+  },
+  footer: {
+    padding: 15,
+    backgroundColor: "white",
+    borderTopWidth: 1,
+    borderTopColor: "#e0e0e0",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 15,
+    paddingHorizontal: 30,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
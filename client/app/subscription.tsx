@@ -0,0 +1,508 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { useDispatch } from "react-redux";
+import { Ionicons } from "@expo/vector-icons";
+import { AppDispatch } from "@/src/store";
+import { subscriptionChanged } from "@/src/store/authSlice";
+import {
+  SubscriptionChange,
+  useChangeSubscription,
+  useSubscription,
+} from "@/hooks/useQueries";
+import {
+  SubscriptionDetails,
+  SubscriptionPayment,
+  SubscriptionPlan,
+} from "@/src/types";
+
+const TIER_ORDER = ["FREE", "BASIC", "PREMIUM"];
+
+const FEATURE_LABELS = {
+  aiMealPlans: "AI meal plans",
+  pdfExport: "PDF reports",
+};
+
+const PAYMENT_STATUS_COLORS: Record<SubscriptionPayment["status"], string> = {
+  SUCCEEDED: "#28a745",
+  PENDING: "#ffc107",
+  FAILED: "#dc3545",
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatPrice = (amount: number, currency: string) =>
+  amount === 0 ? "Free" : `${amount.toFixed(2)} ${currency} / month`;
+
+// What happens at the end of the current period
+const describeStatus = (subscription: SubscriptionDetails) => {
+  if (subscription.tier === "FREE") {
+    return subscription.subscriptionEnd
+      ? `Your paid plan ended on ${formatDate(subscription.subscriptionEnd)}.`
+      : "Upgrade for more daily AI analyses, devices and features.";
+  }
+  if (!subscription.subscriptionEnd) {
+    return "Your plan has no renewal date.";
+  }
+
+  const end = formatDate(subscription.subscriptionEnd);
+  if (subscription.cancelAtPeriodEnd) {
+    return `Cancelled. You keep your plan until ${end}, then return to the Free Plan.`;
+  }
+  if (subscription.pendingTier) {
+    const pending = subscription.plans.find(
+      (plan) => plan.tier === subscription.pendingTier
+    );
+    return `Switches to the ${pending?.name} on ${end}.`;
+  }
+  return `Renews on ${end}.`;
+};
+
+// Upgrades are charged and take effect right away; downgrades and
+// cancellations wait for the end of the paid period
+export default function SubscriptionScreen() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { data: subscription, isLoading, error, refetch } = useSubscription();
+  const changeSubscription = useChangeSubscription();
+
+  const applyChange = (change: SubscriptionChange) => {
+    changeSubscription.mutate(change, {
+      onSuccess: (updated) => {
+        dispatch(subscriptionChanged(updated.tier));
+        if (updated.hasPendingPayment) {
+          Alert.alert(
+            "Payment Processing",
+            "Your plan will change as soon as the payment is confirmed."
+          );
+        }
+      },
+      onError: (error) => Alert.alert("Error", error.message),
+    });
+  };
+
+  const confirmPlan = (plan: SubscriptionPlan) => {
+    if (!subscription) return;
+
+    const isUpgrade =
+      TIER_ORDER.indexOf(plan.tier) > TIER_ORDER.indexOf(subscription.tier);
+    const periodEnd = subscription.subscriptionEnd
+      ? formatDate(subscription.subscriptionEnd)
+      : "the end of your billing period";
+
+    if (isUpgrade) {
+      Alert.alert(
+        `Upgrade to ${plan.name}`,
+        `You'll be charged ${formatPrice(
+          plan.monthlyPrice,
+          subscription.currency
+        )} now, and your new plan starts today.`,
+        [
+          { text: "Not Now", style: "cancel" },
+          {
+            text: "Upgrade",
+            onPress: () => applyChange({ action: "upgrade", plan: plan.tier }),
+          },
+        ]
+      );
+    } else {
+      Alert.alert(
+        `Switch to ${plan.name}`,
+        `You keep the ${subscription.name} until ${periodEnd}.`,
+        [
+          { text: "Keep Current Plan", style: "cancel" },
+          {
+            text: "Switch",
+            style: "destructive",
+            onPress: () =>
+              applyChange({ action: "downgrade", plan: plan.tier }),
+          },
+        ]
+      );
+    }
+  };
+
+  const confirmCancel = () => {
+    Alert.alert(
+      "Cancel Subscription",
+      "You keep your plan until the end of the billing period, then return to the Free Plan.",
+      [
+        { text: "Keep Plan", style: "cancel" },
+        {
+          text: "Cancel Subscription",
+          style: "destructive",
+          onPress: () => applyChange({ action: "cancel" }),
+        },
+      ]
+    );
+  };
+
+  const renderPlan = (plan: SubscriptionPlan) => {
+    if (!subscription) return null;
+
+    const isCurrent = plan.tier === subscription.tier;
+    const isPending = plan.tier === subscription.pendingTier;
+    const isUpgrade =
+      TIER_ORDER.indexOf(plan.tier) > TIER_ORDER.indexOf(subscription.tier);
+    // Moving to FREE is done by cancelling
+    const canChange =
+      !isCurrent &&
+      !isPending &&
+      !(plan.tier === "FREE" && subscription.cancelAtPeriodEnd) &&
+      !subscription.hasPendingPayment;
+
+    return (
+      <View
+        key={plan.tier}
+        style={[styles.planCard, isCurrent && styles.currentPlanCard]}
+      >
+        <View style={styles.planHeader}>
+          <Text style={styles.planName}>{plan.name}</Text>
+          <Text style={styles.planPrice}>
+            {formatPrice(plan.monthlyPrice, subscription.currency)}
+          </Text>
+        </View>
+
+        <Text style={styles.planDetail}>
+          {plan.dailyAIRequests} AI analyses per day
+        </Text>
+        <Text style={styles.planDetail}>
+          {plan.maxDevices} connected device{plan.maxDevices === 1 ? "" : "s"}
+        </Text>
+        {(
+          Object.keys(FEATURE_LABELS) as (keyof typeof FEATURE_LABELS)[]
+        ).map((feature) => (
+          <View key={feature} style={styles.featureRow}>
+            <Ionicons
+              name={
+                plan.features[feature] ? "checkmark-circle" : "close-circle"
+              }
+              size={16}
+              color={plan.features[feature] ? "#28a745" : "#ccc"}
+            />
+            <Text style={styles.featureLabel}>{FEATURE_LABELS[feature]}</Text>
+          </View>
+        ))}
+
+        {isCurrent ? (
+          <Text style={styles.planBadge}>Current plan</Text>
+        ) : isPending ? (
+          <Text style={styles.planBadge}>Starts at renewal</Text>
+        ) : (
+          <TouchableOpacity
+            style={[
+              isUpgrade ? styles.upgradeButton : styles.downgradeButton,
+              (!canChange || changeSubscription.isPending) &&
+                styles.disabledButton,
+            ]}
+            onPress={() =>
+              plan.tier === "FREE" ? confirmCancel() : confirmPlan(plan)
+            }
+            disabled={!canChange || changeSubscription.isPending}
+          >
+            <Text
+              style={
+                isUpgrade
+                  ? styles.upgradeButtonText
+                  : styles.downgradeButtonText
+              }
+            >
+              {isUpgrade ? "Upgrade" : "Downgrade"}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Manage Plan</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : error || !subscription ? (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>
+            {error?.message || "Failed to load your subscription"}
+          </Text>
+          <TouchableOpacity onPress={() => refetch()}>
+            <Text style={styles.retryText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{subscription.name}</Text>
+            <Text style={styles.statusText}>
+              {describeStatus(subscription)}
+            </Text>
+            {subscription.hasPendingPayment && (
+              <Text style={styles.pendingText}>
+                A payment is being processed.
+              </Text>
+            )}
+
+            {(subscription.cancelAtPeriodEnd || subscription.pendingTier) && (
+              <TouchableOpacity
+                style={[
+                  styles.upgradeButton,
+                  changeSubscription.isPending && styles.disabledButton,
+                ]}
+                onPress={() => applyChange({ action: "resume" })}
+                disabled={changeSubscription.isPending}
+              >
+                <Text style={styles.upgradeButtonText}>
+                  Keep {subscription.name}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {subscription.plans.map(renderPlan)}
+
+          {subscription.tier !== "FREE" && !subscription.cancelAtPeriodEnd && (
+            <TouchableOpacity
+              style={[
+                styles.cancelButton,
+                changeSubscription.isPending && styles.disabledButton,
+              ]}
+              onPress={confirmCancel}
+              disabled={changeSubscription.isPending}
+            >
+              <Text style={styles.cancelButtonText}>Cancel Subscription</Text>
+            </TouchableOpacity>
+          )}
+
+          {subscription.payments.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Payments</Text>
+              {subscription.payments.map((payment) => (
+                <View key={payment.payment_id} style={styles.paymentRow}>
+                  <View>
+                    <Text style={styles.paymentPlan}>{payment.plan_type}</Text>
+                    <Text style={styles.paymentDate}>
+                      {formatDate(payment.payment_date)}
+                    </Text>
+                  </View>
+                  <View style={styles.paymentAmount}>
+                    <Text style={styles.paymentPlan}>
+                      {payment.amount.toFixed(2)} {payment.currency}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.paymentStatus,
+                        { color: PAYMENT_STATUS_COLORS[payment.status] },
+                      ]}
+                    >
+                      {payment.status.toLowerCase()}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: "white",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: "#dc3545",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  retryText: {
+    fontSize: 16,
+    color: "#007AFF",
+    fontWeight: "500",
+  },
+  content: {
+    padding: 15,
+  },
+  section: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 15,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 10,
+    color: "#333",
+  },
+  statusText: {
+    fontSize: 15,
+    color: "#666",
+  },
+  pendingText: {
+    fontSize: 14,
+    color: "#b8860b",
+    marginTop: 8,
+  },
+  planCard: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 15,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  currentPlanCard: {
+    borderColor: "#007AFF",
+  },
+  planHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  planName: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#333",
+  },
+  planPrice: {
+    fontSize: 15,
+    color: "#007AFF",
+    fontWeight: "500",
+  },
+  planDetail: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 4,
+  },
+  featureRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  featureLabel: {
+    fontSize: 14,
+    color: "#666",
+    marginLeft: 6,
+  },
+  planBadge: {
+    marginTop: 12,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#007AFF",
+    textAlign: "center",
+  },
+  upgradeButton: {
+    marginTop: 12,
+    backgroundColor: "#007AFF",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  upgradeButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  downgradeButton: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  downgradeButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  cancelButton: {
+    backgroundColor: "white",
+    padding: 15,
+    borderRadius: 8,
+    alignItems: "center",
+    marginBottom: 15,
+  },
+  cancelButtonText: {
+    color: "#dc3545",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  paymentRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  paymentPlan: {
+    fontSize: 15,
+    color: "#333",
+  },
+  paymentDate: {
+    fontSize: 13,
+    color: "#888",
+  },
+  paymentAmount: {
+    alignItems: "flex-end",
+  },
+  paymentStatus: {
+    fontSize: 13,
+    textTransform: "capitalize",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
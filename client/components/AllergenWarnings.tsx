@@ -0,0 +1,192 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { AllergenWarning } from "@/src/types";
+
+const SEVERITY_COLORS: Record<AllergenWarning["severity"], string> = {
+  HIGH: "#D32F2F",
+  MEDIUM: "#F57C00",
+  LOW: "#FBC02D",
+};
+
+const describeWarning = (warning: AllergenWarning) => {
+  if (warning.source === "AVOIDED_FOOD") {
+    return `Contains ${warning.allergen}, which you avoid`;
+  }
+  return warning.severity === "HIGH"
+    ? `Contains ${warning.allergen}`
+    : `May contain ${warning.allergen}`;
+};
+
+interface AllergenWarningListProps {
+  warnings: AllergenWarning[];
+}
+
+// Every warning for the meal, most severe first, with what matched
+export function AllergenWarningList({ warnings }: AllergenWarningListProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <View style={styles.list}>
+      {warnings.map((warning) => (
+        <View
+          key={`${warning.source}-${warning.allergen}`}
+          style={[
+            styles.row,
+            { borderLeftColor: SEVERITY_COLORS[warning.severity] },
+          ]}
+        >
+          <Ionicons
+            name="warning"
+            size={16}
+            color={SEVERITY_COLORS[warning.severity]}
+          />
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle}>{describeWarning(warning)}</Text>
+            <Text style={styles.rowMatches}>
+              Found in: {warning.matches.join(", ")}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface AllergenWarningModalProps {
+  visible: boolean;
+  warnings: AllergenWarning[];
+  onAcknowledge: () => void;
+  onDiscard: () => void;
+}
+
+// Shown over the analysis result until the user either confirms they still
+// want to log the meal or discards it; it can't be dismissed otherwise
+export function AllergenWarningModal({
+  visible,
+  warnings,
+  onAcknowledge,
+  onDiscard,
+}: AllergenWarningModalProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={() => {}}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Ionicons name="alert-circle" size={32} color="#D32F2F" />
+            <Text style={styles.title}>Allergy Warning</Text>
+          </View>
+          <Text style={styles.subtitle}>
+            This meal may contain something you&apos;re allergic to. Check the
+            ingredients before eating it.
+          </Text>
+
+          <AllergenWarningList warnings={warnings} />
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.button, styles.discardButton]}
+              onPress={onDiscard}
+            >
+              <Text style={styles.discardText}>Discard Meal</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.acknowledgeButton]}
+              onPress={onAcknowledge}
+            >
+              <Text style={styles.acknowledgeText}>I Understand</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "#FFF8F6",
+    borderLeftWidth: 4,
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 8,
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  rowMatches: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: 20,
+  },
+  content: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#D32F2F",
+    marginLeft: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#555",
+    lineHeight: 20,
+  },
+  buttons: {
+    flexDirection: "row",
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginHorizontal: 5,
+  },
+  discardButton: {
+    backgroundColor: "#f0f0f0",
+  },
+  acknowledgeButton: {
+    backgroundColor: "#D32F2F",
+  },
+  discardText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  acknowledgeText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "white",
+  },
+});
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { AnalysisAnswer } from "@/src/types";
+
+interface ClarifyingQuestionsProps {
+  questions: string[];
+  confidence?: number;
+  onSubmit: (answers: AnalysisAnswer[]) => void;
+  onSkip: () => void;
+  isSubmitting?: boolean;
+}
+
+// Shown when the analysis isn't sure about the meal. Unanswered questions
+// are left out, so the user can answer only the ones they know.
+export function ClarifyingQuestions({
+  questions,
+  confidence,
+  onSubmit,
+  onSkip,
+  isSubmitting = false,
+}: ClarifyingQuestionsProps) {
+  const [answers, setAnswers] = useState<string[]>([]);
+
+  // A refined analysis can come back with new questions
+  useEffect(() => {
+    setAnswers(questions.map(() => ""));
+  }, [questions]);
+
+  const answered = questions
+    .map((question, index) => ({
+      question,
+      answer: (answers[index] || "").trim(),
+    }))
+    .filter((entry) => entry.answer);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="help-circle-outline" size={20} color="#007AFF" />
+        <Text style={styles.title}>Help us get this right</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        {confidence !== undefined
+          ? `We're about ${Math.round(confidence)}% sure of this estimate. `
+          : ""}
+        A few answers will make it more accurate.
+      </Text>
+
+      {questions.map((question, index) => (
+        <View key={question} style={styles.question}>
+          <Text style={styles.questionText}>{question}</Text>
+          <TextInput
+            style={styles.input}
+            value={answers[index] || ""}
+            onChangeText={(text) =>
+              setAnswers((current) =>
+                current.map((value, i) => (i === index ? text : value))
+              )
+            }
+            placeholder="Your answer"
+            editable={!isSubmitting}
+          />
+        </View>
+      ))}
+
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={[styles.button, styles.skipButton]}
+          onPress={onSkip}
+          disabled={isSubmitting}
+        >
+          <Text style={styles.skipButtonText}>Skip</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.button,
+            styles.submitButton,
+            (answered.length === 0 || isSubmitting) && styles.disabled,
+          ]}
+          onPress={() => onSubmit(answered)}
+          disabled={answered.length === 0 || isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <Text style={styles.submitButtonText}>Refine estimate</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#f0f7ff",
+    borderRadius: 10,
+    padding: 15,
+    marginTop: 15,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 5,
+  },
+  title: {
+    marginLeft: 6,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 10,
+  },
+  question: {
+    marginBottom: 10,
+  },
+  questionText: {
+    fontSize: 14,
+    color: "#333",
+    marginBottom: 5,
+  },
+  input: {
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  buttons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 5,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 10,
+  },
+  skipButton: {
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  skipButtonText: {
+    color: "#666",
+    fontWeight: "500",
+  },
+  submitButton: {
+    backgroundColor: "#007AFF",
+  },
+  submitButtonText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
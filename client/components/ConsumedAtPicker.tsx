@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from "react-native";
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+
+interface ConsumedAtPickerProps {
+  value: Date;
+  onChange: (date: Date) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+// Lets the user say when a meal was actually eaten. Android can only show
+// one picker mode at a time, so the date is picked first and then the time.
+export function ConsumedAtPicker({
+  value,
+  onChange,
+  label = "Eaten at",
+  disabled = false,
+}: ConsumedAtPickerProps) {
+  const [mode, setMode] = useState<"date" | "time" | null>(null);
+
+  const handleChange = (event: DateTimePickerEvent, selected?: Date) => {
+    if (event.type === "dismissed" || !selected) {
+      setMode(null);
+      return;
+    }
+
+    const next = new Date(value);
+    if (mode === "date") {
+      next.setFullYear(
+        selected.getFullYear(),
+        selected.getMonth(),
+        selected.getDate()
+      );
+    } else {
+      next.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    }
+
+    // Never allow a meal to be logged in the future
+    onChange(next > new Date() ? new Date() : next);
+    setMode(mode === "date" ? "time" : null);
+  };
+
+  const formatted = value.toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity
+        style={[styles.valueButton, disabled && styles.disabled]}
+        onPress={() => setMode("date")}
+        disabled={disabled || Platform.OS === "web"}
+      >
+        <Ionicons name="time-outline" size={18} color="#007AFF" />
+        <Text style={styles.valueText}>{formatted}</Text>
+      </TouchableOpacity>
+
+      {mode && (
+        <DateTimePicker
+          value={value}
+          mode={mode}
+          maximumDate={new Date()}
+          onChange={handleChange}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    color: "#666",
+  },
+  valueButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  valueText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: "#333",
+    fontWeight: "500",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
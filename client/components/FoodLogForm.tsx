@@ -0,0 +1,273 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useLogFood } from "@/hooks/useQueries";
+import { Food, Meal } from "@/src/types";
+
+interface FoodLogFormProps {
+  food: Food;
+  onLogged: (meal: Meal) => void;
+}
+
+const parseAmount = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) || value <= 0 ? undefined : value;
+};
+
+// Nutrition label for a database food with a serving picker. Logging goes
+// through the food database, so it never uses an AI analysis.
+export function FoodLogForm({ food, onLogged }: FoodLogFormProps) {
+  const firstPortion = food.portions[0];
+  const [portionId, setPortionId] = useState<number | null>(
+    firstPortion ? firstPortion.portion_id : null
+  );
+  const [amount, setAmount] = useState(firstPortion ? "1" : "100");
+  const logFood = useLogFood();
+
+  const selectPortion = (id: number | null) => {
+    setPortionId(id);
+    setAmount(id === null ? "100" : "1");
+  };
+
+  const portion = food.portions.find((p) => p.portion_id === portionId);
+  const parsedAmount = parseAmount(amount);
+  const grams = parsedAmount
+    ? portion
+      ? portion.grams * parsedAmount
+      : parsedAmount
+    : 0;
+  const scale = (value?: number) =>
+    value === undefined ? undefined : (value * grams) / 100;
+
+  const labelRows: [string, number | undefined, string][] = [
+    ["Calories", scale(food.per_100g.calories), "kcal"],
+    ["Protein", scale(food.per_100g.protein), "g"],
+    ["Carbohydrates", scale(food.per_100g.carbs), "g"],
+    ["Sugars", scale(food.per_100g.sugar), "g"],
+    ["Fiber", scale(food.per_100g.fiber), "g"],
+    ["Fat", scale(food.per_100g.fat), "g"],
+    ["Sodium", scale(food.per_100g.sodium), "mg"],
+  ];
+
+  const handleLog = async () => {
+    if (!parsedAmount) {
+      Alert.alert("Error", "Please enter a valid amount");
+      return;
+    }
+
+    try {
+      const meal = await logFood.mutateAsync(
+        portion
+          ? {
+              food_id: food.food_id,
+              portion_id: portion.portion_id,
+              quantity: parsedAmount,
+            }
+          : { food_id: food.food_id, grams: parsedAmount }
+      );
+      onLogged(meal);
+    } catch (err) {
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Failed to log food"
+      );
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.foodName}>{food.name}</Text>
+      {food.brand && <Text style={styles.foodMeta}>{food.brand}</Text>}
+
+      <Text style={styles.sectionTitle}>Serving</Text>
+      <View style={styles.chipRow}>
+        {food.portions.map((p) => (
+          <TouchableOpacity
+            key={p.portion_id}
+            style={[
+              styles.chip,
+              portionId === p.portion_id && styles.chipSelected,
+            ]}
+            onPress={() => selectPortion(p.portion_id)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                portionId === p.portion_id && styles.chipTextSelected,
+              ]}
+            >
+              {p.description} ({Math.round(p.grams)} g)
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.chip, portionId === null && styles.chipSelected]}
+          onPress={() => selectPortion(null)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              portionId === null && styles.chipTextSelected,
+            ]}
+          >
+            Grams
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.amountRow}>
+        <TextInput
+          style={styles.amountInput}
+          value={amount}
+          onChangeText={setAmount}
+          keyboardType="numeric"
+        />
+        <Text style={styles.amountLabel}>
+          {portion ? `× ${portion.description}` : "g"}
+        </Text>
+      </View>
+
+      <View style={styles.label}>
+        <Text style={styles.labelTitle}>
+          Nutrition for {Math.round(grams)} g
+        </Text>
+        {labelRows.map(([name, value, unit]) =>
+          value === undefined ? null : (
+            <View key={name} style={styles.labelRow}>
+              <Text style={styles.labelName}>{name}</Text>
+              <Text style={styles.labelValue}>
+                {Math.round(value * 10) / 10} {unit}
+              </Text>
+            </View>
+          )
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={styles.logButton}
+        onPress={handleLog}
+        disabled={logFood.isPending}
+      >
+        {logFood.isPending ? (
+          <ActivityIndicator color="white" size="small" />
+        ) : (
+          <Text style={styles.logButtonText}>Log food</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  foodName: {
+    fontSize: 17,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  foodMeta: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 15,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  chipTextSelected: {
+    color: "white",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 10,
+  },
+  amountInput: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 15,
+    textAlign: "right",
+  },
+  amountLabel: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 14,
+    color: "#333",
+  },
+  label: {
+    borderWidth: 2,
+    borderColor: "#333",
+    borderRadius: 4,
+    padding: 10,
+    marginTop: 15,
+  },
+  labelTitle: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#333",
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+    paddingBottom: 6,
+    marginBottom: 4,
+  },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 3,
+  },
+  labelName: {
+    fontSize: 14,
+    color: "#333",
+  },
+  labelValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  logButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 15,
+  },
+  logButtonText: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFoodSearch } from "@/hooks/useQueries";
+import { Food, FoodNutrition, Meal } from "@/src/types";
+import { FoodLogForm } from "./FoodLogForm";
+
+interface FoodSearchProps {
+  onLogged: (meal: Meal) => void;
+}
+
+// Delay before a typed query hits the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatNutrition = (nutrition: FoodNutrition) =>
+  `${Math.round(nutrition.calories)} kcal • P ${Math.round(
+    nutrition.protein
+  )}g • C ${Math.round(nutrition.carbs)}g • F ${Math.round(nutrition.fat)}g`;
+
+// Search the food database and log a chosen portion as a meal
+export function FoodSearch({ onLogged }: FoodSearchProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [selectedFood, setSelectedFood] = useState<Food | null>(null);
+
+  const { data: foods = [], isFetching, error } = useFoodSearch(debouncedQuery);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  if (selectedFood) {
+    return (
+      <View>
+        <TouchableOpacity
+          style={styles.backRow}
+          onPress={() => setSelectedFood(null)}
+        >
+          <Ionicons name="chevron-back" size={18} color="#007AFF" />
+          <Text style={styles.backText}>Results</Text>
+        </TouchableOpacity>
+
+        <FoodLogForm
+          food={selectedFood}
+          onLogged={(meal) => {
+            setSelectedFood(null);
+            onLogged(meal);
+          }}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.searchRow}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search foods, e.g. banana"
+          value={query}
+          onChangeText={setQuery}
+          autoFocus={true}
+          returnKeyType="search"
+        />
+        {isFetching && <ActivityIndicator size="small" color="#007AFF" />}
+      </View>
+
+      {error && (
+        <Text style={styles.emptyText}>
+          {error instanceof Error ? error.message : "Failed to search foods"}
+        </Text>
+      )}
+
+      <ScrollView style={styles.results} keyboardShouldPersistTaps="handled">
+        {foods.map((food) => (
+          <TouchableOpacity
+            key={food.food_id}
+            style={styles.resultRow}
+            onPress={() => setSelectedFood(food)}
+          >
+            <Text style={styles.resultName}>{food.name}</Text>
+            <Text style={styles.foodMeta}>
+              {food.brand ? `${food.brand} • ` : ""}
+              {formatNutrition(food.per_100g)} per 100 g
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        {!isFetching &&
+          debouncedQuery.trim().length >= 2 &&
+          foods.length === 0 && (
+            <Text style={styles.emptyText}>No foods found</Text>
+          )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    marginBottom: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    fontSize: 15,
+  },
+  results: {
+    maxHeight: 360,
+  },
+  resultRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  resultName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginVertical: 15,
+  },
+  backRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  backText: {
+    color: "#007AFF",
+    fontSize: 15,
+  },
+  foodMeta: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useDeleteDrink, useLogDrink } from "@/hooks/useQueries";
+import { BeverageType, DailyHydration } from "@/src/types";
+
+interface HydrationCardProps {
+  hydration: DailyHydration;
+}
+
+const BEVERAGES: { type: BeverageType; label: string }[] = [
+  { type: "WATER", label: "Water" },
+  { type: "TEA", label: "Tea" },
+  { type: "COFFEE", label: "Coffee" },
+  { type: "JUICE", label: "Juice" },
+  { type: "MILK", label: "Milk" },
+  { type: "SOFT_DRINK", label: "Soft drink" },
+  { type: "SPORTS_DRINK", label: "Sports drink" },
+  { type: "OTHER", label: "Other" },
+];
+
+const formatMl = (ml: number) =>
+  ml >= 1000 ? `${(ml / 1000).toFixed(1)} L` : `${Math.round(ml)} ml`;
+
+// Today's fluids against the daily goal, with one-tap amounts to log a drink
+export function HydrationCard({ hydration }: HydrationCardProps) {
+  const [beverage, setBeverage] = useState<BeverageType>("WATER");
+  const logDrink = useLogDrink();
+  const deleteDrink = useDeleteDrink();
+
+  const lastLog = hydration.logs[hydration.logs.length - 1];
+  const progress = Math.min(100, hydration.progress_percent);
+
+  const addDrink = (amountMl: number) => {
+    logDrink.mutate(
+      { amountMl, beverage },
+      {
+        onError: (error) =>
+          Alert.alert(
+            "Error",
+            error instanceof Error ? error.message : "Failed to log drink"
+          ),
+      }
+    );
+  };
+
+  const undoLast = () => {
+    if (!lastLog) return;
+    deleteDrink.mutate(lastLog.water_log_id);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>💧 Hydration</Text>
+        <Text style={styles.total}>
+          {formatMl(hydration.total_ml)} / {formatMl(hydration.goal_ml)}
+        </Text>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${progress}%` }]} />
+      </View>
+
+      <Text style={styles.breakdown}>
+        {hydration.remaining_ml > 0
+          ? `${formatMl(hydration.remaining_ml)} to go`
+          : "Daily goal reached!"}
+        {hydration.device_ml > hydration.water_ml
+          ? ` • ${formatMl(hydration.device_ml)} water from your device`
+          : ""}
+        {hydration.meals_ml > 0
+          ? ` • ${formatMl(hydration.meals_ml)} from meals`
+          : ""}
+      </Text>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.beverages}
+      >
+        {BEVERAGES.map((option) => (
+          <TouchableOpacity
+            key={option.type}
+            style={[
+              styles.beverageChip,
+              beverage === option.type && styles.beverageChipSelected,
+            ]}
+            onPress={() => setBeverage(option.type)}
+          >
+            <Text
+              style={[
+                styles.beverageText,
+                beverage === option.type && styles.beverageTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.quickAddRow}>
+        {hydration.quick_add_ml.map((amount) => (
+          <TouchableOpacity
+            key={amount}
+            style={styles.quickAddButton}
+            onPress={() => addDrink(amount)}
+            disabled={logDrink.isPending}
+          >
+            <Text style={styles.quickAddText}>+{amount} ml</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {lastLog && (
+        <TouchableOpacity
+          style={styles.undoRow}
+          onPress={undoLast}
+          disabled={deleteDrink.isPending}
+        >
+          <Ionicons name="arrow-undo" size={14} color="#007AFF" />
+          <Text style={styles.undoText}>
+            Undo last ({lastLog.amount_ml} ml)
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    marginHorizontal: 15,
+    marginBottom: 15,
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  total: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1E88E5",
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#E3F2FD",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 5,
+    backgroundColor: "#1E88E5",
+  },
+  breakdown: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 8,
+  },
+  beverages: {
+    marginTop: 12,
+  },
+  beverageChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+    backgroundColor: "#f0f0f0",
+    marginRight: 8,
+  },
+  beverageChipSelected: {
+    backgroundColor: "#1E88E5",
+  },
+  beverageText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  beverageTextSelected: {
+    color: "white",
+  },
+  quickAddRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  quickAddButton: {
+    flex: 1,
+    marginHorizontal: 3,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#E3F2FD",
+    alignItems: "center",
+  },
+  quickAddText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1E88E5",
+  },
+  undoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  undoText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: "#007AFF",
+  },
+});
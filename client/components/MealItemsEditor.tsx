@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Meal, MealItemData } from "@/src/types";
+
+interface MealItemsEditorProps {
+  meal: Meal;
+  isSaving?: boolean;
+  onChangeGrams: (itemId: number, grams: number) => void;
+  onRemove: (itemId: number) => void;
+  onAdd: (item: MealItemData) => void;
+}
+
+const emptyItem = {
+  name: "",
+  grams: "",
+  calories: "",
+  protein_g: "",
+  carbs_g: "",
+  fats_g: "",
+};
+
+const parseAmount = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+// Per-ingredient breakdown of a saved meal. Changing an item's grams lets the
+// server scale its nutrients, so portions can be corrected without a new analysis.
+export function MealItemsEditor({
+  meal,
+  isSaving = false,
+  onChangeGrams,
+  onRemove,
+  onAdd,
+}: MealItemsEditorProps) {
+  const items = meal.items || [];
+  const [gramsDrafts, setGramsDrafts] = useState<Record<number, string>>({});
+  const [newItem, setNewItem] = useState(emptyItem);
+
+  // Drop stale drafts whenever the server sends back recomputed items
+  useEffect(() => {
+    setGramsDrafts({});
+  }, [meal]);
+
+  const submitGrams = (itemId: number) => {
+    const grams = parseAmount(gramsDrafts[itemId] ?? "");
+    if (grams === undefined || grams <= 0) {
+      Alert.alert("Error", "Please enter a valid weight in grams");
+      return;
+    }
+    onChangeGrams(itemId, grams);
+  };
+
+  const submitNewItem = () => {
+    if (!newItem.name.trim()) {
+      Alert.alert("Error", "Please enter a name for the item");
+      return;
+    }
+
+    onAdd({
+      name: newItem.name.trim(),
+      grams: parseAmount(newItem.grams),
+      calories: parseAmount(newItem.calories) ?? 0,
+      protein_g: parseAmount(newItem.protein_g) ?? 0,
+      carbs_g: parseAmount(newItem.carbs_g) ?? 0,
+      fats_g: parseAmount(newItem.fats_g) ?? 0,
+    });
+    setNewItem(emptyItem);
+  };
+
+  return (
+    <View>
+      {items.length === 0 ? (
+        <Text style={styles.emptyText}>
+          This meal has no ingredient breakdown yet. Add items below.
+        </Text>
+      ) : (
+        items.map((item) => {
+          const draft = gramsDrafts[item.item_id];
+          const isDirty =
+            draft !== undefined && draft !== String(item.grams ?? "");
+
+          return (
+            <View key={item.item_id} style={styles.itemRow}>
+              <View style={styles.itemInfo}>
+                <Text style={styles.itemName}>{item.name}</Text>
+                <Text style={styles.itemMacros}>
+                  {Math.round(item.calories)} kcal • P{" "}
+                  {Math.round(item.protein_g)}g • C {Math.round(item.carbs_g)}g
+                  • F {Math.round(item.fats_g)}g
+                </Text>
+              </View>
+
+              <TextInput
+                style={styles.gramsInput}
+                value={draft ?? (item.grams != null ? String(item.grams) : "")}
+                placeholder="g"
+                onChangeText={(text) =>
+                  setGramsDrafts({ ...gramsDrafts, [item.item_id]: text })
+                }
+                onSubmitEditing={() => submitGrams(item.item_id)}
+                keyboardType="numeric"
+                editable={!isSaving}
+              />
+
+              {isDirty ? (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => submitGrams(item.item_id)}
+                  disabled={isSaving}
+                >
+                  <Ionicons name="checkmark-circle" size={24} color="#4CAF50" />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => onRemove(item.item_id)}
+                  disabled={isSaving}
+                >
+                  <Ionicons name="trash-outline" size={22} color="#FF6B6B" />
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      <View style={styles.totalsRow}>
+        <Text style={styles.totalsLabel}>Total</Text>
+        <Text style={styles.totalsValue}>
+          {Math.round(meal.calories || 0)} kcal • P {Math.round(meal.protein)}g
+          • C {Math.round(meal.carbs)}g • F {Math.round(meal.fat)}g
+        </Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>Add item</Text>
+      <View style={styles.addRow}>
+        <TextInput
+          style={[styles.input, styles.nameInput]}
+          placeholder="Name"
+          value={newItem.name}
+          onChangeText={(text) => setNewItem({ ...newItem, name: text })}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Grams"
+          value={newItem.grams}
+          onChangeText={(text) => setNewItem({ ...newItem, grams: text })}
+          keyboardType="numeric"
+        />
+      </View>
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="kcal"
+          value={newItem.calories}
+          onChangeText={(text) => setNewItem({ ...newItem, calories: text })}
+          keyboardType="numeric"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Protein"
+          value={newItem.protein_g}
+          onChangeText={(text) => setNewItem({ ...newItem, protein_g: text })}
+          keyboardType="numeric"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Carbs"
+          value={newItem.carbs_g}
+          onChangeText={(text) => setNewItem({ ...newItem, carbs_g: text })}
+          keyboardType="numeric"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Fat"
+          value={newItem.fats_g}
+          onChangeText={(text) => setNewItem({ ...newItem, fats_g: text })}
+          keyboardType="numeric"
+        />
+      </View>
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={submitNewItem}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator color="white" size="small" />
+        ) : (
+          <Text style={styles.addButtonText}>Add item</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 15,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  itemMacros: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  gramsInput: {
+    width: 70,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    textAlign: "right",
+  },
+  iconButton: {
+    marginLeft: 8,
+  },
+  totalsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  totalsLabel: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  totalsValue: {
+    fontSize: 13,
+    color: "#333",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  addRow: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    marginRight: 6,
+  },
+  nameInput: {
+    flex: 2,
+  },
+  addButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  addButtonText: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
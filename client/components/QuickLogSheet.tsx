@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useSelector } from "react-redux";
+import { useQueryClient } from "@tanstack/react-query";
+import { Ionicons } from "@expo/vector-icons";
+import { RootState } from "@/src/store";
+import { nutritionAPI } from "@/src/services/api";
+import { queryKeys, useFavorites, useRecentFoods } from "@/hooks/useQueries";
+import { Meal } from "@/src/types";
+
+interface QuickLogSheetProps {
+  onLogged: (meal: Meal) => void;
+}
+
+interface QuickLogEntry {
+  key: string;
+  name: string;
+  calories: number;
+  thumbnail_url: string | null;
+  times_logged: number;
+  log: () => Promise<Meal>;
+}
+
+// One tap logs a favorite or a recently eaten dish again, eaten now
+export function QuickLogSheet({ onLogged }: QuickLogSheetProps) {
+  const queryClient = useQueryClient();
+  const token = useSelector((state: RootState) => state.auth.token);
+  const [loggingKey, setLoggingKey] = useState<string | null>(null);
+
+  const { data: favorites = [], isLoading: favoritesLoading } = useFavorites();
+  const { data: recentFoods = [], isLoading: recentLoading } =
+    useRecentFoods();
+
+  const favoriteEntries: QuickLogEntry[] = favorites.map((favorite) => ({
+    key: `favorite-${favorite.favorite_id}`,
+    name: favorite.name,
+    calories: favorite.calories,
+    thumbnail_url: favorite.thumbnail_url,
+    times_logged: favorite.times_logged,
+    log: () => nutritionAPI.logFavorite(favorite.favorite_id),
+  }));
+
+  // Favorites are already listed above
+  const recentEntries: QuickLogEntry[] = recentFoods
+    .filter((food) => food.favorite_id == null)
+    .map((food) => ({
+      key: `recent-${food.meal_id}`,
+      name: food.name,
+      calories: food.calories,
+      thumbnail_url: food.thumbnail_url,
+      times_logged: food.times_logged,
+      log: async () => {
+        const result = await nutritionAPI.duplicateMeal(
+          String(food.meal_id),
+          new Date().toISOString()
+        );
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Failed to log meal");
+        }
+        return result.data;
+      },
+    }));
+
+  const logEntry = async (entry: QuickLogEntry) => {
+    if (loggingKey) return;
+
+    setLoggingKey(entry.key);
+    try {
+      const meal = await entry.log();
+      queryClient.invalidateQueries({ queryKey: queryKeys.favorites });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recentFoods });
+      onLogged(meal);
+    } catch (error: any) {
+      console.error("💥 Quick log error:", error);
+      Alert.alert("Error", error.message || "Failed to log meal");
+    } finally {
+      setLoggingKey(null);
+    }
+  };
+
+  const renderEntry = (entry: QuickLogEntry) => (
+    <TouchableOpacity
+      key={entry.key}
+      style={styles.row}
+      onPress={() => logEntry(entry)}
+      disabled={!!loggingKey}
+    >
+      {entry.thumbnail_url ? (
+        <Image
+          source={{
+            uri: entry.thumbnail_url,
+            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+          }}
+          style={styles.thumbnail}
+        />
+      ) : (
+        <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+          <Ionicons name="restaurant-outline" size={20} color="#999" />
+        </View>
+      )}
+      <View style={styles.rowInfo}>
+        <Text style={styles.name} numberOfLines={1}>
+          {entry.name}
+        </Text>
+        <Text style={styles.meta}>
+          {Math.round(entry.calories)} kcal
+          {entry.times_logged > 0 ? ` • logged ${entry.times_logged}×` : ""}
+        </Text>
+      </View>
+      {loggingKey === entry.key ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : (
+        <Ionicons name="add-circle" size={26} color="#007AFF" />
+      )}
+    </TouchableOpacity>
+  );
+
+  if (favoritesLoading || recentLoading) {
+    return <ActivityIndicator style={styles.loading} color="#007AFF" />;
+  }
+
+  return (
+    <ScrollView style={styles.list}>
+      <Text style={styles.sectionTitle}>Favorites</Text>
+      {favoriteEntries.length > 0 ? (
+        favoriteEntries.map(renderEntry)
+      ) : (
+        <Text style={styles.emptyText}>
+          Star a meal to keep it here for one-tap logging.
+        </Text>
+      )}
+
+      <Text style={styles.sectionTitle}>Recent</Text>
+      {recentEntries.length > 0 ? (
+        recentEntries.map(renderEntry)
+      ) : (
+        <Text style={styles.emptyText}>No recent meals yet.</Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    maxHeight: 420,
+  },
+  loading: {
+    marginVertical: 30,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#999",
+    textTransform: "uppercase",
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: "#eee",
+  },
+  thumbnailPlaceholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  rowInfo: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  meta: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    marginVertical: 10,
+  },
+});
@@ -1,13 +1,14 @@
 import { useEffect } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { queryKeys } from "./useQueries";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 export function useBackgroundRefetch() {
   const queryClient = useQueryClient();
 
   useEffect(() => {
     const refetchStaleData = () => {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateString();
 
       // Refetch critical queries that might be stale
       queryClient.refetchQueries({
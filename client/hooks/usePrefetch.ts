@@ -3,13 +3,14 @@ import { useQueryClient } from "@tanstack/react-query";
 import { queryKeys } from "./useQueries";
 import { calendarAPI, nutritionAPI, userAPI } from "@/src/services/api";
 import { deviceAPI } from "@/src/services/deviceAPI";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 export function usePrefetchData() {
   const queryClient = useQueryClient();
 
   useEffect(() => {
     const prefetchCriticalData = async () => {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateString();
       const currentDate = new Date();
       const year = currentDate.getFullYear();
       const month = currentDate.getMonth() + 1;
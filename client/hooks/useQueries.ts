@@ -9,9 +9,18 @@ import {
   nutritionAPI,
   calendarAPI,
   userAPI,
+  foodsAPI,
+  hydrationAPI,
+  subscriptionAPI,
 } from "@/src/services/api";
-import { MealAnalysisData, Meal } from "@/src/types";
+import {
+  MealAnalysisData,
+  Meal,
+  BeverageType,
+  SubscriptionTier,
+} from "@/src/types";
 import { deviceAPI } from "@/src/services/deviceAPI";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 // Query Keys
 export const queryKeys = {
@@ -26,6 +35,14 @@ export const queryKeys = {
   devices: ["devices"] as const,
   activityData: (date: string) => ["activityData", date] as const,
   dailyBalance: (date: string) => ["dailyBalance", date] as const,
+  goals: ["goals"] as const,
+  questionnaire: ["questionnaire"] as const,
+  foodSearch: (query: string) => ["foodSearch", query] as const,
+  favorites: ["favorites"] as const,
+  recentFoods: ["recentFoods"] as const,
+  hydration: (date: string) => ["hydration", date] as const,
+  subscription: ["subscription"] as const,
+  subscriptionDetails: ["subscriptionDetails"] as const,
 } as const;
 
 // Auth Hooks
@@ -136,6 +153,7 @@ export function useSaveMeal() {
         user_id: "temp-user",
         image_url: "",
         upload_time: new Date().toISOString(),
+        consumed_at: new Date().toISOString(),
         analysis_status: "COMPLETED" as const,
         meal_name: mealData.name || "New Meal",
         calories: mealData.calories || 0,
@@ -174,7 +192,7 @@ export function useSaveMeal() {
       });
 
       // Invalidate related queries for fresh data
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateString();
       queryClient.invalidateQueries({ queryKey: queryKeys.dailyStats(today) });
       queryClient.invalidateQueries({ queryKey: queryKeys.globalStats });
 
@@ -221,7 +239,7 @@ export function useUpdateMeal() {
         });
 
         // Invalidate daily stats
-        const today = new Date().toISOString().split("T")[0];
+        const today = getLocalDateString();
         queryClient.invalidateQueries({
           queryKey: queryKeys.dailyStats(today),
         });
@@ -245,9 +263,11 @@ export function useDuplicateMeal() {
         });
 
         // Invalidate daily stats for the target date
-        const targetDate =
-          response.data.upload_time?.split("T")[0] ||
-          new Date().toISOString().split("T")[0];
+        const targetDate = getLocalDateString(
+          response.data.consumed_at
+            ? new Date(response.data.consumed_at)
+            : new Date()
+        );
         queryClient.invalidateQueries({
           queryKey: queryKeys.dailyStats(targetDate),
         });
@@ -336,6 +356,210 @@ export function useGlobalStats() {
   });
 }
 
+// Subscription Hooks
+// Always stale: every analysis uses up part of the daily quota, so it is
+// fetched again each time a screen showing it mounts
+export function useSubscriptionInfo() {
+  return useQuery({
+    queryKey: queryKeys.subscription,
+    queryFn: userAPI.getSubscriptionInfo,
+    staleTime: 0,
+  });
+}
+
+export function useSubscription() {
+  return useQuery({
+    queryKey: queryKeys.subscriptionDetails,
+    queryFn: subscriptionAPI.getSubscription,
+  });
+}
+
+export type SubscriptionChange =
+  | { action: "upgrade" | "downgrade"; plan: SubscriptionTier }
+  | { action: "cancel" | "resume" };
+
+export function useChangeSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (change: SubscriptionChange) =>
+      change.action === "upgrade" || change.action === "downgrade"
+        ? subscriptionAPI[change.action](change.plan)
+        : subscriptionAPI[change.action](),
+    onSuccess: (subscription) => {
+      queryClient.setQueryData(queryKeys.subscriptionDetails, subscription);
+      // Limits and features follow the plan
+      queryClient.invalidateQueries({ queryKey: queryKeys.subscription });
+    },
+  });
+}
+
+// Nutrition Goals Hooks
+export function useGoals() {
+  return useQuery({
+    queryKey: queryKeys.goals,
+    queryFn: userAPI.getGoals,
+    staleTime: 1000 * 60 * 60, // 1 hour
+  });
+}
+
+export function useRecalculateGoals() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: userAPI.recalculateGoals,
+    onSuccess: (goals) => {
+      queryClient.setQueryData(queryKeys.goals, goals);
+      // Targets feed the calendar and statistics
+      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+      queryClient.invalidateQueries({ queryKey: ["calendarStats"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.globalStats });
+    },
+  });
+}
+
+// Questionnaire Hooks
+export function useQuestionnaire() {
+  return useQuery({
+    queryKey: queryKeys.questionnaire,
+    queryFn: userAPI.getQuestionnaire,
+    staleTime: 1000 * 60 * 60, // 1 hour
+  });
+}
+
+export function useSaveQuestionnaire() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: userAPI.saveQuestionnaire,
+    onSuccess: (questionnaire) => {
+      queryClient.setQueryData(queryKeys.questionnaire, questionnaire);
+      // The server recalculates goals from the new answers
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals });
+    },
+  });
+}
+
+export function useUpdateQuestionnaire() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: userAPI.updateQuestionnaire,
+    onSuccess: (questionnaire) => {
+      queryClient.setQueryData(queryKeys.questionnaire, questionnaire);
+      queryClient.invalidateQueries({ queryKey: queryKeys.goals });
+    },
+  });
+}
+
+// Food Database Hooks
+export function useFoodSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: queryKeys.foodSearch(trimmed),
+    queryFn: () => foodsAPI.searchFoods(trimmed),
+    enabled: trimmed.length >= 2,
+    staleTime: 1000 * 60 * 60, // 1 hour
+  });
+}
+
+export function useLogFood() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: foodsAPI.logFood,
+    onSuccess: (meal) => {
+      queryClient.setQueryData<Meal[]>(queryKeys.meals, (old) =>
+        old ? [meal, ...old] : [meal]
+      );
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.dailyStats(getLocalDateString()),
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.globalStats });
+      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+    },
+  });
+}
+
+// Favorites Hooks
+export function useFavorites() {
+  return useQuery({
+    queryKey: queryKeys.favorites,
+    queryFn: nutritionAPI.getFavorites,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useRecentFoods() {
+  return useQuery({
+    queryKey: queryKeys.recentFoods,
+    queryFn: () => nutritionAPI.getRecentFoods(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useLogFavorite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (favoriteId: number) => nutritionAPI.logFavorite(favoriteId),
+    onSuccess: (meal) => {
+      queryClient.setQueryData<Meal[]>(queryKeys.meals, (old) =>
+        old ? [meal, ...old] : [meal]
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.favorites });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recentFoods });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.dailyStats(getLocalDateString()),
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.globalStats });
+      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+    },
+  });
+}
+
+// Hydration Hooks
+export function useHydration(date: string) {
+  return useQuery({
+    queryKey: queryKeys.hydration(date),
+    queryFn: () => hydrationAPI.getHydration(date),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+}
+
+export function useLogDrink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      amountMl,
+      beverage,
+    }: {
+      amountMl: number;
+      beverage?: BeverageType;
+    }) => hydrationAPI.logDrink(amountMl, beverage),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.hydration(getLocalDateString()),
+      });
+      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+    },
+  });
+}
+
+export function useDeleteDrink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: hydrationAPI.deleteDrink,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["hydration"] });
+      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+    },
+  });
+}
+
 // Calendar Hooks
 export function useCalendarData(year: number, month: number) {
   return useQuery({
@@ -407,7 +631,7 @@ export function useSyncDevice() {
     onSuccess: (success, deviceId) => {
       if (success) {
         // Invalidate activity data and balance for today
-        const today = new Date().toISOString().split("T")[0];
+        const today = getLocalDateString();
         queryClient.invalidateQueries({
           queryKey: queryKeys.activityData(today),
         });
@@ -453,7 +677,7 @@ export function useSyncAllDevices() {
   return useMutation({
     mutationFn: () => deviceAPI.syncAllDevices(),
     onSuccess: () => {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateString();
       queryClient.invalidateQueries({ queryKey: queryKeys.devices });
       queryClient.invalidateQueries({
         queryKey: queryKeys.activityData(today),
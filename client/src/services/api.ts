@@ -1,7 +1,36 @@
 import axios from "axios";
-import { SignInData, SignUpData, MealAnalysisData, Meal } from "../types";
+import {
+  SignInData,
+  SignUpData,
+  MealAnalysisData,
+  AnalysisJob,
+  AnalysisAnswer,
+  AllergenWarning,
+  BatchImage,
+  BatchAnalysisResult,
+  Meal,
+  MealItemData,
+  UpdateProfileData,
+  NutritionGoals,
+  SubscriptionInfo,
+  SubscriptionDetails,
+  SubscriptionTier,
+  CustomGoalsData,
+  Questionnaire,
+  QuestionnaireData,
+  Food,
+  LogFoodData,
+  Recipe,
+  RecipeData,
+  FavoriteFood,
+  RecentFood,
+  BeverageType,
+  DailyHydration,
+  WaterLog,
+} from "../types";
 import * as SecureStore from "expo-secure-store";
 import { Platform } from "react-native";
+import { getDeviceTimeZone, getLocalDateString } from "../utils/timezone";
 
 // Get the correct API URL based on platform
 const getApiBaseUrl = () => {
@@ -125,6 +154,14 @@ const clearAuthToken = async (): Promise<void> => {
   }
 };
 
+// Stored meal images are served by the API as relative paths
+const resolveImageUrl = (url?: string | null) => {
+  if (!url) return url || "";
+  return url.startsWith("/api/")
+    ? `${API_BASE_URL.replace(/\/api$/, "")}${url}`
+    : url;
+};
+
 // Helper function to transform server meal data to client format
 const transformMealData = (serverMeal: any): Meal => {
   console.log("🔄 Transforming meal data:", serverMeal);
@@ -133,8 +170,10 @@ const transformMealData = (serverMeal: any): Meal => {
     // Server fields (keep as-is)
     meal_id: serverMeal.meal_id,
     user_id: serverMeal.user_id,
-    image_url: serverMeal.image_url,
+    image_url: resolveImageUrl(serverMeal.image_url),
+    thumbnail_url: resolveImageUrl(serverMeal.thumbnail_url),
     upload_time: serverMeal.upload_time,
+    consumed_at: serverMeal.consumed_at || serverMeal.createdAt,
     analysis_status: serverMeal.analysis_status,
     meal_name: serverMeal.meal_name,
     calories: serverMeal.calories,
@@ -150,7 +189,7 @@ const transformMealData = (serverMeal: any): Meal => {
     id: serverMeal.meal_id?.toString() || serverMeal.id,
     name: serverMeal.meal_name || "Unknown Meal",
     description: serverMeal.meal_name,
-    imageUrl: serverMeal.image_url,
+    imageUrl: resolveImageUrl(serverMeal.image_url),
     protein: serverMeal.protein_g || 0,
     carbs: serverMeal.carbs_g || 0,
     fat: serverMeal.fats_g || 0,
@@ -161,6 +200,7 @@ const transformMealData = (serverMeal: any): Meal => {
 
     // History features
     isFavorite: serverMeal.isFavorite || false,
+    favorite_id: serverMeal.favorite_id ?? null,
     tasteRating: serverMeal.tasteRating || 0,
     satietyRating: serverMeal.satietyRating || 0,
     energyRating: serverMeal.energyRating || 0,
@@ -179,7 +219,9 @@ const transformMealData = (serverMeal: any): Meal => {
     caffeine_mg: serverMeal.caffeine_mg,
     liquids_ml: serverMeal.liquids_ml,
     serving_size_g: serverMeal.serving_size_g,
+    items: serverMeal.items || [],
     allergens_json: serverMeal.allergens_json,
+    allergen_warnings: serverMeal.allergen_warnings || [],
     vitamins_json: serverMeal.vitamins_json,
     micronutrients_json: serverMeal.micronutrients_json,
     glycemic_index: serverMeal.glycemic_index,
@@ -323,7 +365,10 @@ export const authAPI = {
       console.log("📝 Attempting sign up...");
       console.log("🌐 API URL:", `${API_BASE_URL}/auth/signup`);
 
-      const response = await api.post("/auth/signup", data);
+      const response = await api.post("/auth/signup", {
+        ...data,
+        timezone: data.timezone || getDeviceTimeZone(),
+      });
 
       // Store token for mobile only (web uses cookies)
       if (
@@ -379,9 +424,10 @@ export const authAPI = {
 };
 
 export const nutritionAPI = {
+  // Starts a photo analysis job; the result is fetched with getAnalysisJob
   analyzeMeal: async (
     imageBase64: string
-  ): Promise<{ success: boolean; data?: MealAnalysisData; error?: string }> => {
+  ): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> => {
     try {
       console.log("🔍 Making analyze meal API request...");
       console.log("📊 Base64 length:", imageBase64.length);
@@ -389,7 +435,7 @@ export const nutritionAPI = {
       const response = await api.post("/nutrition/analyze", {
         imageBase64: imageBase64,
         language: "english",
-        date: new Date().toISOString().split("T")[0],
+        date: getLocalDateString(),
       });
 
       console.log("🎯 RAW ANALYZE API RESPONSE:");
@@ -423,6 +469,183 @@ export const nutritionAPI = {
     }
   },
 
+  // Starts one analysis job per gallery photo; images that couldn't be
+  // queued come back with an error instead of a job
+  analyzeMealBatch: async (
+    images: BatchImage[]
+  ): Promise<BatchAnalysisResult[]> => {
+    try {
+      console.log("📚 Making batch analyze API request:", images.length);
+
+      const response = await api.post(
+        "/nutrition/analyze/batch",
+        { images, language: "english" },
+        { timeout: 120000 }
+      );
+
+      if (response.data.success && response.data.data) {
+        return response.data.data.jobs.map((result: BatchAnalysisResult) =>
+          result.job?.meal
+            ? {
+                ...result,
+                job: { ...result.job, meal: transformMealData(result.job.meal) },
+              }
+            : result
+        );
+      } else {
+        throw new Error(response.data.error || "Failed to analyze meals");
+      }
+    } catch (error: any) {
+      console.error("💥 Batch analyze API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to analyze meals"
+      );
+    }
+  },
+
+  getAnalysisJob: async (jobId: number): Promise<AnalysisJob> => {
+    try {
+      const response = await api.get(`/nutrition/analyze/${jobId}`);
+
+      if (response.data.success && response.data.data) {
+        const job = response.data.data;
+        return {
+          ...job,
+          meal: job.meal ? transformMealData(job.meal) : undefined,
+        };
+      } else {
+        throw new Error(response.data.error || "Failed to get analysis job");
+      }
+    } catch (error: any) {
+      console.error("💥 Get analysis job API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to get analysis job"
+      );
+    }
+  },
+
+  // Refines a completed analysis; the job may come back with new questions
+  clarifyAnalysisJob: async (
+    jobId: number,
+    answers: AnalysisAnswer[]
+  ): Promise<AnalysisJob> => {
+    try {
+      console.log("❓ Sending clarifying answers for job:", jobId);
+
+      const response = await api.post(`/nutrition/analyze/${jobId}/clarify`, {
+        answers,
+        language: "english",
+      });
+
+      if (response.data.success && response.data.data) {
+        const job = response.data.data;
+        return {
+          ...job,
+          meal: job.meal ? transformMealData(job.meal) : undefined,
+        };
+      } else {
+        throw new Error(response.data.error || "Failed to refine analysis");
+      }
+    } catch (error: any) {
+      console.error("💥 Clarify analysis API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to refine analysis"
+      );
+    }
+  },
+
+  // Scales a completed analysis down to what was eaten
+  addLeftoversPhoto: async (
+    jobId: number,
+    imageBase64: string
+  ): Promise<AnalysisJob> => {
+    try {
+      console.log("🍽️ Sending leftovers photo for job:", jobId);
+
+      const response = await api.post(`/nutrition/analyze/${jobId}/leftovers`, {
+        imageBase64,
+        language: "english",
+      });
+
+      if (response.data.success && response.data.data) {
+        const job = response.data.data;
+        return {
+          ...job,
+          meal: job.meal ? transformMealData(job.meal) : undefined,
+        };
+      } else {
+        throw new Error(response.data.error || "Failed to analyze leftovers");
+      }
+    } catch (error: any) {
+      console.error("💥 Leftovers photo API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to analyze leftovers"
+      );
+    }
+  },
+
+  discardAnalysisJob: async (jobId: number): Promise<void> => {
+    try {
+      console.log("🗑️ Discarding analysis job:", jobId);
+      await api.delete(`/nutrition/analyze/${jobId}`);
+    } catch (error: any) {
+      console.error("💥 Discard analysis job API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to discard analysis job"
+      );
+    }
+  },
+
+  analyzeMealText: async (
+    description: string
+  ): Promise<{
+    success: boolean;
+    data?: MealAnalysisData;
+    allergen_warnings?: AllergenWarning[];
+    error?: string;
+  }> => {
+    try {
+      console.log("🔍 Making analyze meal text API request...");
+
+      const response = await api.post("/nutrition/analyze-text", {
+        description,
+        language: "english",
+      });
+
+      console.log("🎯 Analyze text response:", response.data);
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Analyze meal text API error:", error);
+
+      if (error.response) {
+        return {
+          success: false,
+          error: error.response.data?.error || "Server error occurred",
+        };
+      } else if (error.request) {
+        return {
+          success: false,
+          error: "Network error - please check your connection and server IP",
+        };
+      } else {
+        return {
+          success: false,
+          error: error.message || "Failed to make request",
+        };
+      }
+    }
+  },
+
   updateMeal: async (
     meal_id: string,
     updateText: string
@@ -480,14 +703,19 @@ export const nutritionAPI = {
 
   saveMeal: async (
     mealData: MealAnalysisData,
-    imageBase64?: string
+    imageBase64?: string,
+    consumedAt?: string,
+    jobId?: number
   ): Promise<Meal> => {
     try {
       console.log("📤 Making save meal API request...");
 
+      // A photo analysis job already holds the image, so it isn't resent
       const response = await api.post("/nutrition/save", {
         mealData,
-        imageBase64,
+        imageBase64: jobId ? undefined : imageBase64,
+        consumed_at: consumedAt,
+        job_id: jobId,
       });
 
       console.log("🎯 RAW SAVE API RESPONSE:");
@@ -625,6 +853,92 @@ export const nutritionAPI = {
     }
   },
 
+  // Favorites most often eaten around this time of day come first
+  getFavorites: async (): Promise<FavoriteFood[]> => {
+    try {
+      console.log("⭐ Making get favorites API request...");
+
+      const response = await api.get("/nutrition/favorites");
+
+      if (response.data.success) {
+        return response.data.data.map((favorite: FavoriteFood) => ({
+          ...favorite,
+          thumbnail_url: resolveImageUrl(favorite.thumbnail_url) || null,
+        }));
+      } else {
+        throw new Error(response.data.error || "Failed to fetch favorites");
+      }
+    } catch (error: any) {
+      console.error("💥 Get favorites API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch favorites"
+      );
+    }
+  },
+
+  getRecentFoods: async (limit: number = 20): Promise<RecentFood[]> => {
+    try {
+      console.log("🕒 Making get recent foods API request...");
+
+      const response = await api.get("/nutrition/recent-foods", {
+        params: { limit },
+      });
+
+      if (response.data.success) {
+        return response.data.data.map((food: RecentFood) => ({
+          ...food,
+          thumbnail_url: resolveImageUrl(food.thumbnail_url) || null,
+        }));
+      } else {
+        throw new Error(response.data.error || "Failed to fetch recent foods");
+      }
+    } catch (error: any) {
+      console.error("💥 Get recent foods API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch recent foods"
+      );
+    }
+  },
+
+  logFavorite: async (favoriteId: number, consumedAt?: string): Promise<Meal> => {
+    try {
+      console.log("⭐ Making log favorite API request...", favoriteId);
+
+      const response = await api.post(`/nutrition/favorites/${favoriteId}/log`, {
+        consumed_at: consumedAt,
+      });
+
+      if (response.data.success && response.data.data) {
+        return transformMealData(response.data.data);
+      } else {
+        throw new Error(response.data.error || "Failed to log favorite");
+      }
+    } catch (error: any) {
+      console.error("💥 Log favorite API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to log favorite"
+      );
+    }
+  },
+
+  deleteFavorite: async (favoriteId: number): Promise<void> => {
+    try {
+      console.log("🗑️ Making delete favorite API request...", favoriteId);
+      await api.delete(`/nutrition/favorites/${favoriteId}`);
+    } catch (error: any) {
+      console.error("💥 Delete favorite API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to delete favorite"
+      );
+    }
+  },
+
   duplicateMeal: async (mealId: string, newDate?: string) => {
     try {
       console.log("📋 Making duplicate meal API request...");
@@ -633,7 +947,7 @@ export const nutritionAPI = {
 
       // Ensure we're sending the correct meal ID format
       const requestData = {
-        newDate: newDate || new Date().toISOString().split("T")[0],
+        newDate: newDate || getLocalDateString(),
       };
 
       console.log("📤 Request data:", requestData);
@@ -666,6 +980,76 @@ export const nutritionAPI = {
       throw error;
     }
   },
+
+  addMealItem: async (mealId: string, item: MealItemData): Promise<Meal> => {
+    try {
+      console.log("➕ Making add meal item API request...", mealId, item);
+
+      const response = await api.post(`/nutrition/meals/${mealId}/items`, item);
+
+      if (response.data.success && response.data.data) {
+        return transformMealData(response.data.data);
+      } else {
+        throw new Error(response.data.error || "Failed to add meal item");
+      }
+    } catch (error: any) {
+      console.error("💥 Add meal item API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to add meal item"
+      );
+    }
+  },
+
+  updateMealItem: async (
+    mealId: string,
+    itemId: number,
+    changes: Partial<MealItemData>
+  ): Promise<Meal> => {
+    try {
+      console.log("✏️ Making update meal item API request...", itemId, changes);
+
+      const response = await api.put(
+        `/nutrition/meals/${mealId}/items/${itemId}`,
+        changes
+      );
+
+      if (response.data.success && response.data.data) {
+        return transformMealData(response.data.data);
+      } else {
+        throw new Error(response.data.error || "Failed to update meal item");
+      }
+    } catch (error: any) {
+      console.error("💥 Update meal item API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to update meal item"
+      );
+    }
+  },
+
+  deleteMealItem: async (mealId: string, itemId: number): Promise<Meal> => {
+    try {
+      console.log("🗑️ Making delete meal item API request...", itemId);
+
+      const response = await api.delete(
+        `/nutrition/meals/${mealId}/items/${itemId}`
+      );
+
+      if (response.data.success && response.data.data) {
+        return transformMealData(response.data.data);
+      } else {
+        throw new Error(response.data.error || "Failed to remove meal item");
+      }
+    } catch (error: any) {
+      console.error("💥 Delete meal item API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to remove meal item"
+      );
+    }
+  },
 };
 
 // NEW CALENDAR API
@@ -764,6 +1148,25 @@ export const calendarAPI = {
 
 // NEW USER API METHODS
 export const userAPI = {
+  updateProfile: async (data: UpdateProfileData) => {
+    try {
+      console.log("👤 Making update profile API request...", data);
+
+      const response = await api.put("/user/profile", data);
+
+      if (response.data.success) {
+        return response.data.user;
+      } else {
+        throw new Error(response.data.error || "Failed to update profile");
+      }
+    } catch (error: any) {
+      console.error("💥 Update profile API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to update profile"
+      );
+    }
+  },
+
   getGlobalStatistics: async () => {
     try {
       console.log("📊 Making get global statistics API request...");
@@ -794,4 +1197,566 @@ export const userAPI = {
       }
     }
   },
+
+  getSubscriptionInfo: async (): Promise<SubscriptionInfo> => {
+    try {
+      console.log("💳 Making get subscription info API request...");
+
+      const response = await api.get("/user/subscription-info");
+
+      if (response.data.success) {
+        return response.data.subscription;
+      } else {
+        throw new Error(
+          response.data.error || "Failed to fetch subscription info"
+        );
+      }
+    } catch (error: any) {
+      console.error("💥 Get subscription info API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch subscription info"
+      );
+    }
+  },
+
+  getGoals: async (): Promise<NutritionGoals> => {
+    try {
+      console.log("🎯 Making get goals API request...");
+
+      const response = await api.get("/user/goals");
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to fetch goals");
+      }
+    } catch (error: any) {
+      console.error("💥 Get goals API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to fetch goals"
+      );
+    }
+  },
+
+  setCustomGoals: async (data: CustomGoalsData): Promise<NutritionGoals> => {
+    try {
+      console.log("🎯 Making set custom goals API request...", data);
+
+      const response = await api.post("/user/goals", data);
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to save goals");
+      }
+    } catch (error: any) {
+      console.error("💥 Set custom goals API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to save goals"
+      );
+    }
+  },
+
+  recalculateGoals: async (): Promise<NutritionGoals> => {
+    try {
+      console.log("🎯 Making recalculate goals API request...");
+
+      const response = await api.post("/user/goals/recalculate");
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to recalculate goals");
+      }
+    } catch (error: any) {
+      console.error("💥 Recalculate goals API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to recalculate goals"
+      );
+    }
+  },
+
+  getQuestionnaire: async (): Promise<Questionnaire | null> => {
+    try {
+      console.log("📝 Making get questionnaire API request...");
+
+      const response = await api.get("/user/questionnaire");
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(
+          response.data.error || "Failed to fetch questionnaire"
+        );
+      }
+    } catch (error: any) {
+      console.error("💥 Get questionnaire API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch questionnaire"
+      );
+    }
+  },
+
+  getQuestionnaireHistory: async (): Promise<Questionnaire[]> => {
+    try {
+      console.log("📝 Making get questionnaire history API request...");
+
+      const response = await api.get("/user/questionnaire/history");
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(
+          response.data.error || "Failed to fetch questionnaire history"
+        );
+      }
+    } catch (error: any) {
+      console.error("💥 Get questionnaire history API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch questionnaire history"
+      );
+    }
+  },
+
+  saveQuestionnaire: async (
+    data: QuestionnaireData
+  ): Promise<Questionnaire> => {
+    try {
+      console.log("📝 Making save questionnaire API request...", data);
+
+      const response = await api.post("/user/questionnaire", data);
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to save questionnaire");
+      }
+    } catch (error: any) {
+      console.error("💥 Save questionnaire API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to save questionnaire"
+      );
+    }
+  },
+
+  updateQuestionnaire: async (
+    data: Partial<QuestionnaireData>
+  ): Promise<Questionnaire> => {
+    try {
+      console.log("📝 Making update questionnaire API request...", data);
+
+      const response = await api.put("/user/questionnaire", data);
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(
+          response.data.error || "Failed to update questionnaire"
+        );
+      }
+    } catch (error: any) {
+      console.error("💥 Update questionnaire API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to update questionnaire"
+      );
+    }
+  },
+};
+
+export const foodsAPI = {
+  searchFoods: async (query: string, limit: number = 20): Promise<Food[]> => {
+    try {
+      console.log("🔎 Making food search API request...", query);
+
+      const response = await api.get("/foods/search", {
+        params: { q: query, limit },
+      });
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to search foods");
+      }
+    } catch (error: any) {
+      console.error("💥 Food search API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to search foods"
+      );
+    }
+  },
+
+  getFood: async (foodId: number): Promise<Food> => {
+    try {
+      console.log("🍎 Making get food API request...", foodId);
+
+      const response = await api.get(`/foods/${foodId}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to fetch food");
+      }
+    } catch (error: any) {
+      console.error("💥 Get food API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to fetch food"
+      );
+    }
+  },
+
+  getFoodByBarcode: async (code: string): Promise<Food> => {
+    try {
+      console.log("🏷️ Making barcode lookup API request...", code);
+
+      const response = await api.get(`/foods/barcode/${code}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to look up barcode");
+      }
+    } catch (error: any) {
+      console.error("💥 Barcode lookup API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to look up barcode"
+      );
+    }
+  },
+
+  logFood: async (data: LogFoodData): Promise<Meal> => {
+    try {
+      console.log("🍽️ Making log food API request...", data);
+
+      const response = await api.post("/foods/log", data);
+
+      if (response.data.success && response.data.data) {
+        return transformMealData(response.data.data);
+      } else {
+        throw new Error(response.data.error || "Failed to log food");
+      }
+    } catch (error: any) {
+      console.error("💥 Log food API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to log food"
+      );
+    }
+  },
+};
+
+export const recipesAPI = {
+  getRecipes: async (): Promise<Recipe[]> => {
+    try {
+      console.log("📖 Making get recipes API request...");
+
+      const response = await api.get("/recipes");
+
+      if (response.data.success) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to fetch recipes");
+      }
+    } catch (error: any) {
+      console.error("💥 Get recipes API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to fetch recipes"
+      );
+    }
+  },
+
+  createRecipe: async (data: RecipeData): Promise<Recipe> => {
+    try {
+      console.log("📖 Making create recipe API request...", data.name);
+
+      const response = await api.post("/recipes", data);
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to create recipe");
+      }
+    } catch (error: any) {
+      console.error("💥 Create recipe API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to create recipe"
+      );
+    }
+  },
+
+  updateRecipe: async (
+    recipeId: number,
+    data: Partial<RecipeData>
+  ): Promise<Recipe> => {
+    try {
+      console.log("✏️ Making update recipe API request...", recipeId);
+
+      const response = await api.put(`/recipes/${recipeId}`, data);
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to update recipe");
+      }
+    } catch (error: any) {
+      console.error("💥 Update recipe API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to update recipe"
+      );
+    }
+  },
+
+  deleteRecipe: async (recipeId: number): Promise<void> => {
+    try {
+      console.log("🗑️ Making delete recipe API request...", recipeId);
+      await api.delete(`/recipes/${recipeId}`);
+    } catch (error: any) {
+      console.error("💥 Delete recipe API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to delete recipe"
+      );
+    }
+  },
+
+  // Logs e.g. 1.5 servings as a regular meal
+  logRecipe: async (
+    recipeId: number,
+    servings: number,
+    consumedAt?: string
+  ): Promise<Meal> => {
+    try {
+      console.log("🍽️ Making log recipe API request...", recipeId, servings);
+
+      const response = await api.post(`/recipes/${recipeId}/log`, {
+        servings,
+        consumed_at: consumedAt,
+      });
+
+      if (response.data.success && response.data.data) {
+        return transformMealData(response.data.data);
+      } else {
+        throw new Error(response.data.error || "Failed to log recipe");
+      }
+    } catch (error: any) {
+      console.error("💥 Log recipe API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to log recipe"
+      );
+    }
+  },
+
+  // Lets meal plans pick one serving of the recipe for the given slot
+  promoteRecipe: async (
+    recipeId: number,
+    mealTiming: string,
+    dietaryCategory?: string
+  ): Promise<{ template_id: string }> => {
+    try {
+      console.log("📌 Making promote recipe API request...", recipeId);
+
+      const response = await api.post(`/recipes/${recipeId}/template`, {
+        meal_timing: mealTiming,
+        dietary_category: dietaryCategory,
+      });
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to promote recipe");
+      }
+    } catch (error: any) {
+      console.error("💥 Promote recipe API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to promote recipe"
+      );
+    }
+  },
+};
+
+export const hydrationAPI = {
+  getHydration: async (date: string): Promise<DailyHydration> => {
+    try {
+      console.log("💧 Making get hydration API request...", date);
+
+      const response = await api.get(`/hydration/${date}`);
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to fetch hydration");
+      }
+    } catch (error: any) {
+      console.error("💥 Get hydration API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch hydration"
+      );
+    }
+  },
+
+  logDrink: async (
+    amountMl: number,
+    beverage: BeverageType = "WATER",
+    loggedAt?: string
+  ): Promise<WaterLog> => {
+    try {
+      console.log("💧 Making log drink API request...", amountMl, beverage);
+
+      const response = await api.post("/hydration", {
+        amount_ml: amountMl,
+        beverage,
+        logged_at: loggedAt,
+      });
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to log drink");
+      }
+    } catch (error: any) {
+      console.error("💥 Log drink API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to log drink"
+      );
+    }
+  },
+
+  deleteDrink: async (waterLogId: number): Promise<void> => {
+    try {
+      console.log("🗑️ Making delete drink API request...", waterLogId);
+      await api.delete(`/hydration/logs/${waterLogId}`);
+    } catch (error: any) {
+      console.error("💥 Delete drink API error:", error);
+      throw new Error(
+        error.response?.data?.error || error.message || "Failed to delete drink"
+      );
+    }
+  },
+};
+
+// Plan management; every change returns the updated subscription
+export const subscriptionAPI = {
+  getSubscription: async (): Promise<SubscriptionDetails> => {
+    try {
+      console.log("💳 Making get subscription API request...");
+
+      const response = await api.get("/subscription");
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to fetch subscription");
+      }
+    } catch (error: any) {
+      console.error("💥 Get subscription API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to fetch subscription"
+      );
+    }
+  },
+
+  upgrade: async (plan: SubscriptionTier): Promise<SubscriptionDetails> => {
+    try {
+      console.log("⬆️ Making upgrade subscription API request...", plan);
+
+      const response = await api.post("/subscription/upgrade", { plan });
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(
+          response.data.error || "Failed to upgrade subscription"
+        );
+      }
+    } catch (error: any) {
+      console.error("💥 Upgrade subscription API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to upgrade subscription"
+      );
+    }
+  },
+
+  downgrade: async (plan: SubscriptionTier): Promise<SubscriptionDetails> => {
+    try {
+      console.log("⬇️ Making downgrade subscription API request...", plan);
+
+      const response = await api.post("/subscription/downgrade", { plan });
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(
+          response.data.error || "Failed to downgrade subscription"
+        );
+      }
+    } catch (error: any) {
+      console.error("💥 Downgrade subscription API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to downgrade subscription"
+      );
+    }
+  },
+
+  cancel: async (): Promise<SubscriptionDetails> => {
+    try {
+      console.log("🛑 Making cancel subscription API request...");
+
+      const response = await api.post("/subscription/cancel");
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to cancel subscription");
+      }
+    } catch (error: any) {
+      console.error("💥 Cancel subscription API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to cancel subscription"
+      );
+    }
+  },
+
+  resume: async (): Promise<SubscriptionDetails> => {
+    try {
+      console.log("▶️ Making resume subscription API request...");
+
+      const response = await api.post("/subscription/resume");
+
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      } else {
+        throw new Error(response.data.error || "Failed to resume subscription");
+      }
+    } catch (error: any) {
+      console.error("💥 Resume subscription API error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to resume subscription"
+      );
+    }
+  },
 };
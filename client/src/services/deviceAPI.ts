@@ -3,6 +3,7 @@ import { deviceConnectionService } from "./deviceConnections";
 import { nutritionAPI } from "./api";
 import axios from "axios";
 import { Platform } from "react-native";
+import { getLocalDateString } from "@/src/utils/timezone";
 
 export interface ConnectedDevice {
   id: string;
@@ -139,7 +140,7 @@ class DeviceAPIService {
 
       if (deviceId === "apple_health") {
         // Get today's health data
-        const today = new Date().toISOString().split("T")[0];
+        const today = getLocalDateString();
         const healthData = await healthKitService.getHealthDataForDate(today);
 
         // Send to server
@@ -153,6 +154,7 @@ class DeviceAPIService {
               heartRate: healthData.heartRate,
               weight: healthData.weight,
               distance: healthData.distance,
+              waterIntake: healthData.waterIntake,
             },
           });
         } catch (serverError) {
@@ -172,7 +174,7 @@ class DeviceAPIService {
         return false;
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateString();
       let activityData = null;
 
       // Get stored tokens
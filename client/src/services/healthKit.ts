@@ -11,6 +11,7 @@ export interface HealthData {
   sleepHours?: number;
   date: string;
   distance?: number;
+  waterIntake?: number; // ml
 }
 
 export interface HealthPermissions {
@@ -49,6 +50,7 @@ class HealthKitService {
               "BodyFatPercentage",
               "SleepAnalysis",
               "DistanceWalkingRunning",
+              "Water",
             ],
             write: [],
           },
@@ -247,14 +249,43 @@ class HealthKitService {
     });
   }
 
+  // Water in ml. Unlike the other readings there is no mock value, since
+  // made-up water would be counted towards the hydration goal.
+  async getWaterForDate(date: string): Promise<number | null> {
+    if (!this.isInitialized || Platform.OS !== "ios" || !this.healthKit) {
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      const options = {
+        startDate: new Date(date).toISOString(),
+        endDate: new Date(
+          new Date(date).getTime() + 24 * 60 * 60 * 1000
+        ).toISOString(),
+      };
+
+      this.healthKit.getWaterSamples(options, (error: any, results: any[]) => {
+        if (error) {
+          console.error("Error getting water:", error);
+          resolve(null);
+        } else {
+          // Samples are in liters
+          const liters = results.reduce((sum, entry) => sum + entry.value, 0);
+          resolve(Math.round(liters * 1000));
+        }
+      });
+    });
+  }
+
   async getHealthDataForDate(date: string): Promise<HealthData> {
     console.log("📊 Getting health data for date:", date);
 
-    const [steps, calories, heartRate, weight] = await Promise.all([
+    const [steps, calories, heartRate, weight, water] = await Promise.all([
       this.getStepsForDate(date),
       this.getCaloriesForDate(date),
       this.getHeartRateForDate(date),
       this.getWeightForDate(date),
+      this.getWaterForDate(date),
     ]);
 
     // Calculate active minutes based on steps (rough estimate)
@@ -267,6 +298,7 @@ class HealthKitService {
       heartRate: heartRate || undefined,
       weight: weight || undefined,
       distance: steps * 0.0008, // Rough estimate: 0.8m per step
+      waterIntake: water ?? undefined,
       date,
     };
 
@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { User, SignUpData, SignInData, AuthResponse } from "../types";
-import { authAPI } from "../services/api";
+import { authAPI, userAPI } from "../services/api";
+import { getDeviceTimeZone } from "../utils/timezone";
 
 interface AuthState {
   user: User | null;
@@ -116,6 +117,27 @@ export const loadStoredAuth = createAsyncThunk(
   }
 );
 
+// Keep the profile timezone in line with the device so day boundaries match
+export const syncTimezone = createAsyncThunk(
+  "auth/syncTimezone",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { auth: AuthState };
+      const timezone = getDeviceTimeZone();
+
+      if (!timezone || state.auth.user?.timezone === timezone) {
+        return null;
+      }
+
+      console.log("🕒 Syncing timezone:", timezone);
+      return (await userAPI.updateProfile({ timezone })) as User;
+    } catch (error: any) {
+      console.error("💥 Sync timezone error:", error);
+      return rejectWithValue(error.message || "Failed to sync timezone");
+    }
+  }
+);
+
 const authSlice = createSlice({
   name: "auth",
   initialState,
@@ -123,6 +145,12 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    // After a plan change, so the stored user matches the server
+    subscriptionChanged: (state, action: PayloadAction<string>) => {
+      if (state.user) {
+        state.user.subscription_type = action.payload;
+      }
+    },
     // Add manual signout reducer as fallback
     forceSignOut: (state) => {
       console.log("🔄 Force sign out");
@@ -207,9 +235,16 @@ const authSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
         console.log("❌ Load stored auth failed:", action.payload);
+      })
+      .addCase(syncTimezone.fulfilled, (state, action) => {
+        if (action.payload) {
+          state.user = { ...state.user, ...action.payload };
+          console.log("✅ Timezone synced:", action.payload.timezone);
+        }
       });
   },
 });
 
-export const { clearError, forceSignOut } = authSlice.actions;
+export const { clearError, subscriptionChanged, forceSignOut } =
+  authSlice.actions;
 export default authSlice.reducer;
@@ -11,6 +11,8 @@ interface DayData {
   carbsActual: number;
   fatGoal: number;
   fatActual: number;
+  waterGoal: number; // ml
+  waterActual: number;
   mealCount: number;
   qualityScore: number;
   events: Array<{
@@ -1,5 +1,18 @@
-import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { Meal, MealAnalysisData, PendingMeal, AIResponse } from "../types";
+import {
+  createSlice,
+  createAsyncThunk,
+  isAnyOf,
+  PayloadAction,
+} from "@reduxjs/toolkit";
+import {
+  Meal,
+  MealAnalysisData,
+  MealItemData,
+  PendingMeal,
+  AnalysisJob,
+  AnalysisAnswer,
+  AIResponse,
+} from "../types";
 import { nutritionAPI } from "../services/api";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
@@ -10,11 +23,15 @@ interface MealState {
   pendingMeal: PendingMeal | null;
   isLoading: boolean;
   isAnalyzing: boolean;
+  analysisStage: "uploading" | AnalysisJob["stage"] | null;
+  isClarifying: boolean;
+  isAddingLeftovers: boolean;
   isPosting: boolean;
   isUpdating: boolean;
   isSavingFeedback: boolean;
   isTogglingFavorite: boolean;
   isDuplicating: boolean;
+  isEditingItems: boolean;
   error: string | null;
 }
 
@@ -23,15 +40,33 @@ const initialState: MealState = {
   pendingMeal: null,
   isLoading: false,
   isAnalyzing: false,
+  analysisStage: null,
+  isClarifying: false,
+  isAddingLeftovers: false,
   isPosting: false,
   isUpdating: false,
   isSavingFeedback: false,
   isTogglingFavorite: false,
   isDuplicating: false,
+  isEditingItems: false,
   error: null,
 };
 
 const PENDING_MEAL_KEY = "pendingMeal";
+// Photo analysis job still running on the server, kept so it can be picked
+// up again after the app was backgrounded or restarted
+const PENDING_ANALYSIS_KEY = "pendingAnalysis";
+
+const ANALYSIS_POLL_INTERVAL_MS = 1500;
+// Polling stops after this; the job keeps running and is resumed later
+const ANALYSIS_POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Allergies found in the meal (HIGH) or in its name (MEDIUM) must be
+// confirmed before it is saved; avoided foods (LOW) are only shown
+export const hasBlockingAllergenWarnings = (pendingMeal: PendingMeal) =>
+  (pendingMeal.allergenWarnings ?? []).some(
+    (warning) => warning.severity !== "LOW"
+  );
 
 // Helper function to compress/resize image if needed
 const processImage = async (imageUri: string): Promise<string> => {
@@ -184,9 +219,85 @@ const processImage = async (imageUri: string): Promise<string> => {
   }
 };
 
+const normalizeAnalysisError = (error: unknown) => {
+  let errorMessage = "Analysis failed";
+  if (error instanceof Error) {
+    errorMessage = error.message;
+  } else if (typeof error === "string") {
+    errorMessage = error;
+  }
+
+  if (
+    errorMessage.includes("Network Error") ||
+    errorMessage.includes("ERR_NETWORK")
+  ) {
+    errorMessage = "Network error - please check your connection";
+  } else if (errorMessage.includes("400")) {
+    errorMessage = "Invalid image data - please try a different image";
+  } else if (errorMessage.includes("401") || errorMessage.includes("403")) {
+    errorMessage = "Authentication error - please log in again";
+  } else if (errorMessage.includes("500")) {
+    errorMessage = "Server error - please try again later";
+  }
+
+  return errorMessage;
+};
+
+// Polls an analysis job until it completes, and turns it into the pending
+// meal shown for review
+const waitForAnalysisJob = async (
+  pendingAnalysis: PendingMeal,
+  onProgress: (stage: AnalysisJob["stage"]) => void
+): Promise<PendingMeal> => {
+  const startedAt = Date.now();
+  let job = await nutritionAPI.getAnalysisJob(pendingAnalysis.job_id!);
+
+  while (job.status === "PENDING") {
+    onProgress(job.stage);
+
+    if (Date.now() - startedAt > ANALYSIS_POLL_TIMEOUT_MS) {
+      throw new Error(
+        "Analysis is taking longer than usual - we'll keep checking in the background"
+      );
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS)
+    );
+    job = await nutritionAPI.getAnalysisJob(pendingAnalysis.job_id!);
+  }
+
+  // Finished either way, so there is nothing left to resume
+  try {
+    await AsyncStorage.removeItem(PENDING_ANALYSIS_KEY);
+  } catch (storageError) {
+    console.warn("Failed to remove pending analysis from storage:", storageError);
+  }
+
+  if (job.status === "FAILED" || !job.analysis) {
+    throw new Error(job.error || "Analysis failed - no data returned");
+  }
+
+  const pendingMeal: PendingMeal = {
+    ...pendingAnalysis,
+    analysis: job.analysis,
+    questions: job.questions,
+    allergenWarnings: job.allergen_warnings,
+  };
+
+  try {
+    await AsyncStorage.setItem(PENDING_MEAL_KEY, JSON.stringify(pendingMeal));
+    console.log("Pending meal saved to storage");
+  } catch (storageError) {
+    console.warn("Failed to save pending meal to storage:", storageError);
+  }
+
+  return pendingMeal;
+};
+
 export const analyzeMeal = createAsyncThunk(
   "meal/analyzeMeal",
-  async (imageBase64: string, { rejectWithValue }) => {
+  async (imageBase64: string, { dispatch, rejectWithValue }) => {
     try {
       console.log("Starting meal analysis with base64 data...");
 
@@ -197,60 +308,197 @@ export const analyzeMeal = createAsyncThunk(
 
       console.log("Base64 data length:", imageBase64.length);
 
-      // Make the API call with proper error handling
+      // The server only queues the analysis; the result is polled for
       const response = await nutritionAPI.analyzeMeal(imageBase64);
       console.log("API response received:", response);
 
+      if (!response || !response.success || !response.data) {
+        const errorMessage =
+          response?.error || "Analysis failed - no data returned";
+        console.error("Analysis failed:", errorMessage);
+        return rejectWithValue(errorMessage);
+      }
+
+      const pendingAnalysis: PendingMeal = {
+        imageBase64: imageBase64,
+        analysis: null,
+        timestamp: Date.now(),
+        job_id: response.data.job_id,
+      };
+
+      try {
+        await AsyncStorage.setItem(
+          PENDING_ANALYSIS_KEY,
+          JSON.stringify(pendingAnalysis)
+        );
+      } catch (storageError) {
+        console.warn(
+          "Failed to save pending analysis to storage:",
+          storageError
+        );
+      }
+
+      const pendingMeal = await waitForAnalysisJob(pendingAnalysis, (stage) =>
+        dispatch(setAnalysisStage(stage))
+      );
+
+      console.log("Analysis completed successfully");
+      return pendingMeal;
+    } catch (error) {
+      console.error("Analysis error details:", error);
+      return rejectWithValue(normalizeAnalysisError(error));
+    }
+  }
+);
+
+// Picks up polling for a photo analysis started before the app was
+// backgrounded or closed
+export const resumeAnalysisJob = createAsyncThunk(
+  "meal/resumeAnalysisJob",
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      const stored = await AsyncStorage.getItem(PENDING_ANALYSIS_KEY);
+      if (!stored) {
+        return null;
+      }
+
+      console.log("Resuming meal analysis...");
+      const pendingAnalysis: PendingMeal = JSON.parse(stored);
+      return await waitForAnalysisJob(pendingAnalysis, (stage) =>
+        dispatch(setAnalysisStage(stage))
+      );
+    } catch (error) {
+      console.error("Resume analysis error:", error);
+      return rejectWithValue(normalizeAnalysisError(error));
+    }
+  },
+  {
+    condition: (_, { getState }) =>
+      !(getState() as { meal: MealState }).meal.isAnalyzing,
+  }
+);
+
+// Sends the user's answers to a photo analysis' questions; the refined
+// analysis replaces the pending one and may ask follow-up questions
+export const answerClarifyingQuestions = createAsyncThunk(
+  "meal/answerClarifyingQuestions",
+  async (answers: AnalysisAnswer[], { getState, rejectWithValue }) => {
+    try {
+      const { pendingMeal } = (getState() as { meal: MealState }).meal;
+
+      if (!pendingMeal?.job_id) {
+        return rejectWithValue("No analysis to refine");
+      }
+
+      const job = await nutritionAPI.clarifyAnalysisJob(
+        pendingMeal.job_id,
+        answers
+      );
+
+      const refined: PendingMeal = {
+        ...pendingMeal,
+        analysis: job.analysis ?? pendingMeal.analysis,
+        questions: job.questions,
+        allergenWarnings: job.allergen_warnings ?? pendingMeal.allergenWarnings,
+        // The answers may have revealed an ingredient, so warnings are
+        // confirmed again
+        allergenWarningsAcknowledged: false,
+      };
+
+      try {
+        await AsyncStorage.setItem(PENDING_MEAL_KEY, JSON.stringify(refined));
+      } catch (storageError) {
+        console.warn("Failed to save pending meal to storage:", storageError);
+      }
+
+      console.log("Analysis refined, confidence:", job.analysis?.confidence);
+      return refined;
+    } catch (error) {
+      console.error("Clarify analysis error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to refine analysis"
+      );
+    }
+  }
+);
+
+// Leftovers photo taken after eating; the pending analysis is scaled down
+// to the part of the plate that was eaten
+export const addLeftoversPhoto = createAsyncThunk(
+  "meal/addLeftoversPhoto",
+  async (imageBase64: string, { getState, rejectWithValue }) => {
+    try {
+      const { pendingMeal } = (getState() as { meal: MealState }).meal;
+
+      if (!pendingMeal?.job_id) {
+        return rejectWithValue("No analyzed photo to add leftovers to");
+      }
+
+      const job = await nutritionAPI.addLeftoversPhoto(
+        pendingMeal.job_id,
+        imageBase64
+      );
+
+      const scaled: PendingMeal = {
+        ...pendingMeal,
+        analysis: job.analysis ?? pendingMeal.analysis,
+        eatenFraction: job.eaten_fraction,
+      };
+
+      try {
+        await AsyncStorage.setItem(PENDING_MEAL_KEY, JSON.stringify(scaled));
+      } catch (storageError) {
+        console.warn("Failed to save pending meal to storage:", storageError);
+      }
+
+      console.log("Leftovers analyzed, eaten fraction:", job.eaten_fraction);
+      return scaled;
+    } catch (error) {
+      console.error("Leftovers photo error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to analyze leftovers"
+      );
+    }
+  }
+);
+
+export const analyzeMealText = createAsyncThunk(
+  "meal/analyzeMealText",
+  async (description: string, { rejectWithValue }) => {
+    try {
+      console.log("Starting text meal analysis...");
+
+      const response = await nutritionAPI.analyzeMealText(description);
+
       if (response && response.success && response.data) {
         const pendingMeal: PendingMeal = {
-          imageBase64: imageBase64,
+          description,
           analysis: response.data,
+          allergenWarnings: response.allergen_warnings,
           timestamp: Date.now(),
         };
 
-        // Save to storage
         try {
           await AsyncStorage.setItem(
             PENDING_MEAL_KEY,
             JSON.stringify(pendingMeal)
           );
-          console.log("Pending meal saved to storage");
         } catch (storageError) {
           console.warn("Failed to save pending meal to storage:", storageError);
         }
 
-        console.log("Analysis completed successfully");
+        console.log("Text analysis completed successfully");
         return pendingMeal;
       } else {
-        const errorMessage =
-          response?.error || "Analysis failed - no data returned";
-        console.error("Analysis failed:", errorMessage);
-        return rejectWithValue(errorMessage);
+        return rejectWithValue(
+          response?.error || "Analysis failed - no data returned"
+        );
       }
     } catch (error) {
-      console.error("Analysis error details:", error);
-
-      let errorMessage = "Analysis failed";
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === "string") {
-        errorMessage = error;
-      }
-
-      if (
-        errorMessage.includes("Network Error") ||
-        errorMessage.includes("ERR_NETWORK")
-      ) {
-        errorMessage = "Network error - please check your connection";
-      } else if (errorMessage.includes("400")) {
-        errorMessage = "Invalid image data - please try a different image";
-      } else if (errorMessage.includes("401") || errorMessage.includes("403")) {
-        errorMessage = "Authentication error - please log in again";
-      } else if (errorMessage.includes("500")) {
-        errorMessage = "Server error - please try again later";
-      }
-
-      return rejectWithValue(errorMessage);
+      console.error("Text analysis error details:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Analysis failed"
+      );
     }
   }
 );
@@ -306,10 +554,21 @@ export const postMeal = createAsyncThunk(
         return rejectWithValue("No meal analysis data to post");
       }
 
+      if (
+        hasBlockingAllergenWarnings(pendingMeal) &&
+        !pendingMeal.allergenWarningsAcknowledged
+      ) {
+        return rejectWithValue(
+          "Please review the allergy warnings before saving this meal"
+        );
+      }
+
       console.log("Posting meal with analysis:", pendingMeal.analysis);
       const response = await nutritionAPI.saveMeal(
         pendingMeal.analysis,
-        pendingMeal.imageBase64
+        pendingMeal.imageBase64,
+        pendingMeal.consumed_at,
+        pendingMeal.job_id
       );
 
       if (response) {
@@ -401,7 +660,11 @@ export const toggleMealFavorite = createAsyncThunk(
       console.log("❤️ Toggling meal favorite...");
       const response = await nutritionAPI.toggleMealFavorite(mealId);
       console.log("✅ Favorite toggled successfully");
-      return { mealId, isFavorite: response.data.isFavorite };
+      return {
+        mealId,
+        isFavorite: response.data.isFavorite as boolean,
+        favoriteId: response.data.favorite_id as number | null,
+      };
     } catch (error) {
       console.error("💥 Toggle favorite error:", error);
       return rejectWithValue("Failed to toggle favorite");
@@ -432,6 +695,81 @@ export const duplicateMeal = createAsyncThunk(
   }
 );
 
+export const addMealItem = createAsyncThunk(
+  "meal/addMealItem",
+  async (
+    { mealId, item }: { mealId: string; item: MealItemData },
+    { rejectWithValue }
+  ) => {
+    try {
+      console.log("➕ Adding meal item...");
+      return await nutritionAPI.addMealItem(mealId, item);
+    } catch (error) {
+      console.error("💥 Add meal item error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to add meal item"
+      );
+    }
+  }
+);
+
+export const updateMealItem = createAsyncThunk(
+  "meal/updateMealItem",
+  async (
+    {
+      mealId,
+      itemId,
+      changes,
+    }: { mealId: string; itemId: number; changes: Partial<MealItemData> },
+    { rejectWithValue }
+  ) => {
+    try {
+      console.log("✏️ Updating meal item...");
+      return await nutritionAPI.updateMealItem(mealId, itemId, changes);
+    } catch (error) {
+      console.error("💥 Update meal item error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update meal item"
+      );
+    }
+  }
+);
+
+export const removeMealItem = createAsyncThunk(
+  "meal/removeMealItem",
+  async (
+    { mealId, itemId }: { mealId: string; itemId: number },
+    { rejectWithValue }
+  ) => {
+    try {
+      console.log("🗑️ Removing meal item...");
+      return await nutritionAPI.deleteMealItem(mealId, itemId);
+    } catch (error) {
+      console.error("💥 Remove meal item error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to remove meal item"
+      );
+    }
+  }
+);
+
+// Discarding a photo analysis also removes the meal the job created
+export const discardPendingMeal = createAsyncThunk(
+  "meal/discardPendingMeal",
+  async (_, { getState, dispatch }) => {
+    const { pendingMeal } = (getState() as { meal: MealState }).meal;
+    dispatch(clearPendingMeal());
+
+    if (pendingMeal?.job_id) {
+      try {
+        await nutritionAPI.discardAnalysisJob(pendingMeal.job_id);
+      } catch (error) {
+        console.warn("Failed to discard analysis job:", error);
+      }
+    }
+  }
+);
+
 export const loadPendingMeal = createAsyncThunk(
   "meal/loadPendingMeal",
   async (_, { rejectWithValue }) => {
@@ -469,9 +807,56 @@ const mealSlice = createSlice({
         console.warn("Failed to remove pending meal from storage:", error);
       });
     },
+    setAnalysisStage: (
+      state,
+      action: PayloadAction<MealState["analysisStage"] | undefined>
+    ) => {
+      state.analysisStage = action.payload ?? null;
+    },
     setPendingMeal: (state, action: PayloadAction<PendingMeal>) => {
       state.pendingMeal = action.payload;
     },
+    // Keeps the estimate as it is without answering its questions
+    skipClarifyingQuestions: (state) => {
+      if (state.pendingMeal) {
+        state.pendingMeal.questions = [];
+        AsyncStorage.setItem(
+          PENDING_MEAL_KEY,
+          JSON.stringify(state.pendingMeal)
+        ).catch((error) => {
+          console.warn("Failed to save pending meal to storage:", error);
+        });
+      }
+    },
+    // The user saw the allergy warnings and still wants to log the meal
+    acknowledgeAllergenWarnings: (state) => {
+      if (state.pendingMeal) {
+        state.pendingMeal.allergenWarningsAcknowledged = true;
+        AsyncStorage.setItem(
+          PENDING_MEAL_KEY,
+          JSON.stringify(state.pendingMeal)
+        ).catch((error) => {
+          console.warn("Failed to save pending meal to storage:", error);
+        });
+      }
+    },
+    // The whole plate was eaten, so no leftovers photo is needed
+    skipLeftoversPhoto: (state) => {
+      if (state.pendingMeal) {
+        state.pendingMeal.leftoversSkipped = true;
+        AsyncStorage.setItem(
+          PENDING_MEAL_KEY,
+          JSON.stringify(state.pendingMeal)
+        ).catch((error) => {
+          console.warn("Failed to save pending meal to storage:", error);
+        });
+      }
+    },
+    setPendingMealConsumedAt: (state, action: PayloadAction<string>) => {
+      if (state.pendingMeal) {
+        state.pendingMeal.consumed_at = action.payload;
+      }
+    },
     setPendingMealForUpdate: (
       state,
       action: PayloadAction<{ meal_id: string; imageBase64: string }>
@@ -489,21 +874,85 @@ const mealSlice = createSlice({
       // Analyze meal cases
       .addCase(analyzeMeal.pending, (state) => {
         state.isAnalyzing = true;
+        state.analysisStage = "uploading";
         state.error = null;
         console.log("Analysis started...");
       })
       .addCase(analyzeMeal.fulfilled, (state, action) => {
         state.isAnalyzing = false;
+        state.analysisStage = null;
         state.pendingMeal = action.payload;
         state.error = null;
         console.log("Analysis completed successfully");
       })
       .addCase(analyzeMeal.rejected, (state, action) => {
         state.isAnalyzing = false;
+        state.analysisStage = null;
         state.error = action.payload as string;
         console.log("Analysis failed:", action.payload);
       })
 
+      // Resumed analysis cases
+      .addCase(resumeAnalysisJob.pending, (state) => {
+        state.isAnalyzing = true;
+        state.error = null;
+      })
+      .addCase(resumeAnalysisJob.fulfilled, (state, action) => {
+        state.isAnalyzing = false;
+        state.analysisStage = null;
+        if (action.payload) {
+          state.pendingMeal = action.payload;
+        }
+      })
+      .addCase(resumeAnalysisJob.rejected, (state, action) => {
+        state.isAnalyzing = false;
+        state.analysisStage = null;
+        state.error = action.payload as string;
+      })
+
+      // Clarifying questions cases
+      .addCase(answerClarifyingQuestions.pending, (state) => {
+        state.isClarifying = true;
+        state.error = null;
+      })
+      .addCase(answerClarifyingQuestions.fulfilled, (state, action) => {
+        state.isClarifying = false;
+        state.pendingMeal = action.payload;
+      })
+      .addCase(answerClarifyingQuestions.rejected, (state, action) => {
+        state.isClarifying = false;
+        state.error = action.payload as string;
+      })
+
+      // Leftovers photo cases
+      .addCase(addLeftoversPhoto.pending, (state) => {
+        state.isAddingLeftovers = true;
+        state.error = null;
+      })
+      .addCase(addLeftoversPhoto.fulfilled, (state, action) => {
+        state.isAddingLeftovers = false;
+        state.pendingMeal = action.payload;
+      })
+      .addCase(addLeftoversPhoto.rejected, (state, action) => {
+        state.isAddingLeftovers = false;
+        state.error = action.payload as string;
+      })
+
+      // Text analysis shares the analyzing state with photo analysis
+      .addCase(analyzeMealText.pending, (state) => {
+        state.isAnalyzing = true;
+        state.error = null;
+      })
+      .addCase(analyzeMealText.fulfilled, (state, action) => {
+        state.isAnalyzing = false;
+        state.pendingMeal = action.payload;
+        state.error = null;
+      })
+      .addCase(analyzeMealText.rejected, (state, action) => {
+        state.isAnalyzing = false;
+        state.error = action.payload as string;
+      })
+
       // Update meal cases
       .addCase(updateMeal.pending, (state) => {
         state.isUpdating = true;
@@ -601,11 +1050,22 @@ const mealSlice = createSlice({
       .addCase(toggleMealFavorite.fulfilled, (state, action) => {
         state.isTogglingFavorite = false;
         // Update meal favorite status in the state
-        const { mealId, isFavorite } = action.payload;
-        const mealIndex = state.meals.findIndex((meal) => meal.id === mealId);
-        if (mealIndex !== -1) {
-          (state.meals[mealIndex] as any).isFavorite = isFavorite;
-        }
+        // Removing a favorite also unlinks the other meals logged from it
+        const { mealId, isFavorite, favoriteId } = action.payload;
+        const previousFavoriteId = state.meals.find(
+          (meal) => meal.id === mealId
+        )?.favorite_id;
+        state.meals.forEach((meal) => {
+          if (
+            meal.id === mealId ||
+            (!isFavorite &&
+              previousFavoriteId &&
+              meal.favorite_id === previousFavoriteId)
+          ) {
+            meal.isFavorite = isFavorite;
+            meal.favorite_id = favoriteId;
+          }
+        });
         console.log("Favorite toggled successfully");
       })
       .addCase(toggleMealFavorite.rejected, (state, action) => {
@@ -644,14 +1104,58 @@ const mealSlice = createSlice({
       .addCase(loadPendingMeal.rejected, (state, action) => {
         // Don't set error for storage loading failures
         console.warn("Failed to load pending meal:", action.payload);
-      });
+      })
+      // Meal item cases: the server returns the meal with recomputed totals
+      .addMatcher(
+        isAnyOf(
+          addMealItem.pending,
+          updateMealItem.pending,
+          removeMealItem.pending
+        ),
+        (state) => {
+          state.isEditingItems = true;
+          state.error = null;
+        }
+      )
+      .addMatcher(
+        isAnyOf(
+          addMealItem.fulfilled,
+          updateMealItem.fulfilled,
+          removeMealItem.fulfilled
+        ),
+        (state, action) => {
+          state.isEditingItems = false;
+          const index = state.meals.findIndex(
+            (meal) => meal.id === action.payload.id
+          );
+          if (index !== -1) {
+            state.meals[index] = action.payload;
+          }
+        }
+      )
+      .addMatcher(
+        isAnyOf(
+          addMealItem.rejected,
+          updateMealItem.rejected,
+          removeMealItem.rejected
+        ),
+        (state, action) => {
+          state.isEditingItems = false;
+          state.error = action.payload as string;
+        }
+      );
   },
 });
 
 export const {
+  acknowledgeAllergenWarnings,
   clearError,
   clearPendingMeal,
+  setAnalysisStage,
   setPendingMeal,
+  setPendingMealConsumedAt,
   setPendingMealForUpdate,
+  skipClarifyingQuestions,
+  skipLeftoversPhoto,
 } = mealSlice.actions;
 export default mealSlice.reducer;
@@ -10,6 +10,8 @@ export const SignUpSchema = z.object({
   age: z.number().min(1).max(120),
   weight: z.number().positive().optional(),
   height: z.number().positive().optional(),
+  sex: z.enum(["MALE", "FEMALE", "OTHER"]).optional(),
+  timezone: z.string().optional(),
 });
 
 export const SignInSchema = z.object({
@@ -27,6 +29,45 @@ export const MealAnalysisSchema = z.object({
   fiber: z.number().optional(),
   sugar: z.number().optional(),
   sodium: z.number().optional(),
+  confidence: z.number().optional(), // 0-100
+  items: z
+    .array(
+      z.object({
+        name: z.string(),
+        grams: z.number().optional(),
+        calories: z.number(),
+        protein: z.number(),
+        carbs: z.number(),
+        fat: z.number(),
+        fiber: z.number().optional(),
+        sugar: z.number().optional(),
+        sodium: z.number().optional(),
+      })
+    )
+    .optional(),
+  // Detailed nutrients, amounts for the whole portion
+  saturatedFat: z.number().optional(),
+  monounsaturatedFat: z.number().optional(),
+  polyunsaturatedFat: z.number().optional(),
+  omega3: z.number().optional(),
+  omega6: z.number().optional(),
+  solubleFiber: z.number().optional(),
+  insolubleFiber: z.number().optional(),
+  cholesterol: z.number().optional(),
+  alcohol: z.number().optional(),
+  caffeine: z.number().optional(),
+  liquids: z.number().optional(),
+  vitamins: z.record(z.number()).optional(),
+  micronutrients: z.record(z.number()).optional(),
+  glycemicIndex: z.number().optional(),
+  insulinIndex: z.number().optional(),
+  foodCategory: z.string().optional(),
+  processingLevel: z
+    .enum(["unprocessed", "minimally_processed", "processed", "ultra_processed"])
+    .optional(),
+  cookingMethod: z.string().optional(),
+  allergens: z.array(z.string()).optional(),
+  healthNotes: z.string().optional(),
 });
 
 //
@@ -46,20 +87,35 @@ export interface User {
   age: number;
   weight_kg?: number;
   height_cm?: number;
+  sex?: "MALE" | "FEMALE" | "OTHER" | null;
+  timezone: string;
   subscription_type: string;
-  aiRequestsCount: number;
-  aiRequestsResetAt: string;
+  role: "USER" | "ADMIN";
   createdAt: string;
 }
 
+// A meal matched against the user's allergies (ALLERGY) or the foods they
+// avoid (AVOIDED_FOOD). HIGH: found in an ingredient; MEDIUM: only in the
+// meal's name; LOW: an avoided food.
+export interface AllergenWarning {
+  allergen: string;
+  severity: "HIGH" | "MEDIUM" | "LOW";
+  source: "ALLERGY" | "AVOIDED_FOOD";
+  matches: string[];
+}
+
 // Updated Meal interface to match Prisma schema exactly
 export interface Meal {
   meal_id: number; // This is the actual field name in Prisma
   id: string; // For compatibility with existing code
   user_id: string;
   image_url: string;
+  thumbnail_url?: string;
   upload_time: string;
-  analysis_status: "PENDING" | "COMPLETED";
+  consumed_at: string;
+  analysis_status: "PENDING" | "COMPLETED" | "FAILED";
+  eaten_fraction?: number | null; // Share of the plate eaten, from a leftovers photo
+  leftovers_image_url?: string | null;
   meal_name: string | null;
   calories: number | null;
   protein_g: number | null;
@@ -80,16 +136,23 @@ export interface Meal {
   caffeine_mg?: number | null;
   liquids_ml?: number | null;
   serving_size_g?: number | null;
-  allergens_json?: any;
-  vitamins_json?: any;
-  micronutrients_json?: any;
+  allergens_json?: string[] | null;
+  allergen_warnings?: AllergenWarning[];
+  vitamins_json?: Record<string, number> | null;
+  micronutrients_json?: Record<string, number> | null;
   glycemic_index?: number | null;
   insulin_index?: number | null;
   food_category?: string | null;
-  processing_level?: string | null;
+  processing_level?:
+    | "unprocessed"
+    | "minimally_processed"
+    | "processed"
+    | "ultra_processed"
+    | null;
   cooking_method?: string | null;
   additives_json?: any;
   health_risk_notes?: string | null;
+  items?: MealItem[];
   createdAt: string;
 
   // Computed fields for compatibility
@@ -106,12 +169,315 @@ export interface Meal {
 
   // History features
   isFavorite?: boolean;
+  favorite_id?: number | null; // The favorite this meal was saved as or logged from
   tasteRating?: number;
   satietyRating?: number;
   energyRating?: number;
   heavinessRating?: number;
 }
 
+// One ingredient of a saved meal; the meal totals are the sum of its items
+export interface MealItem {
+  item_id: number;
+  meal_id: number;
+  position: number;
+  name: string;
+  grams: number | null;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  micronutrients_json?: Record<string, number> | null;
+}
+
+export interface MealItemData {
+  name: string;
+  grams?: number;
+  calories?: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fats_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+}
+
+// Nutrition for a given weight of a database food
+export interface FoodNutrition {
+  grams: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+}
+
+export interface FoodPortion {
+  portion_id: number;
+  description: string;
+  grams: number;
+  nutrition: FoodNutrition;
+}
+
+// Entry of the USDA / Open Food Facts food database
+export interface Food {
+  food_id: number;
+  source: "USDA" | "OPEN_FOOD_FACTS";
+  name: string;
+  brand: string | null;
+  category: string | null;
+  barcode: string | null;
+  per_100g: FoodNutrition;
+  nutrients_per_100g: Record<string, number> | null;
+  portions: FoodPortion[];
+}
+
+// Either grams or portion_id (times quantity) must be set
+export interface LogFoodData {
+  food_id: number;
+  grams?: number;
+  portion_id?: number;
+  quantity?: number;
+  consumed_at?: string;
+}
+
+// A meal saved for one-tap re-logging; counts cover the last 30 days
+export interface FavoriteFood {
+  favorite_id: number;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  items: NonNullable<MealAnalysisData["items"]>;
+  thumbnail_url: string | null;
+  times_logged: number;
+  last_logged_at: string | null;
+  created_at: string;
+}
+
+// A dish eaten recently, represented by its latest meal
+export interface RecentFood {
+  meal_id: number;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  thumbnail_url: string | null;
+  favorite_id: number | null;
+  times_logged: number;
+  last_logged_at: string;
+}
+
+export type RecipeNutrition = Omit<FoodNutrition, "grams">;
+
+// Nutrients are for the whole quantity used in the recipe
+export interface RecipeIngredient extends RecipeNutrition {
+  ingredient_id: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  grams: number | null;
+  food_id: number | null;
+}
+
+export interface Recipe {
+  recipe_id: number;
+  name: string;
+  description: string | null;
+  servings: number;
+  prep_time_minutes: number | null;
+  instructions: string[];
+  ingredients: RecipeIngredient[];
+  per_serving: RecipeNutrition;
+  total: RecipeNutrition;
+  template_id: string | null; // Set once promoted to a meal template
+  created_at: string;
+  updated_at: string;
+}
+
+// A database food (with grams or portion_id) or a hand-entered ingredient
+// with nutrients for the whole quantity
+export interface RecipeIngredientData {
+  name?: string;
+  quantity?: number;
+  unit?: string;
+  grams?: number;
+  food_id?: number;
+  portion_id?: number;
+  calories?: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fats_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+}
+
+export interface RecipeData {
+  name: string;
+  description?: string;
+  servings: number;
+  prep_time_minutes?: number;
+  instructions?: string[];
+  ingredients: RecipeIngredientData[];
+}
+
+export interface UpdateProfileData {
+  name?: string;
+  age?: number;
+  weight_kg?: number;
+  height_cm?: number;
+  sex?: "MALE" | "FEMALE" | "OTHER";
+  timezone?: string;
+}
+
+// What the user's subscription tier includes, with today's AI usage
+export type SubscriptionTier = "FREE" | "BASIC" | "PREMIUM";
+
+// What a tier includes and costs
+export interface SubscriptionPlan {
+  tier: SubscriptionTier;
+  name: string;
+  monthlyPrice: number;
+  dailyAIRequests: number;
+  maxDevices: number;
+  features: {
+    aiMealPlans: boolean;
+    pdfExport: boolean;
+  };
+}
+
+export interface SubscriptionInfo extends SubscriptionPlan {
+  currentRequests: number;
+  remainingRequests: number;
+  resetAt: string; // When the daily AI quota starts over
+  connectedDevices: number;
+}
+
+export interface SubscriptionPayment {
+  payment_id: number;
+  plan_type: SubscriptionTier;
+  amount: number;
+  currency: string;
+  status: "PENDING" | "SUCCEEDED" | "FAILED";
+  period_start: string | null;
+  period_end: string | null;
+  payment_date: string;
+}
+
+// The plan-management view of the subscription
+export interface SubscriptionDetails {
+  tier: SubscriptionTier;
+  name: string;
+  monthlyPrice: number;
+  currency: string;
+  subscriptionStart: string | null;
+  subscriptionEnd: string | null; // Renewal, or the end if cancelled
+  cancelAtPeriodEnd: boolean;
+  pendingTier: SubscriptionTier | null; // Downgrade at the end of the period
+  hasPendingPayment: boolean;
+  plans: SubscriptionPlan[];
+  payments: SubscriptionPayment[];
+}
+
+// Active nutrition plan (NutritionPlan row) used as the user's daily targets
+export interface NutritionGoals {
+  plan_id: number;
+  goal_calories: number | null;
+  goal_protein_g: number | null;
+  goal_carbs_g: number | null;
+  goal_fats_g: number | null;
+  goal_water_ml: number | null;
+  target_weight_kg: number | null;
+  duration_days: number | null;
+  notes: string | null;
+  bmr_kcal: number | null;
+  tdee_kcal: number | null;
+  source: "CALCULATED" | "CUSTOM";
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CustomGoalsData {
+  goal_calories: number;
+  goal_protein_g: number;
+  goal_carbs_g: number;
+  goal_fats_g: number;
+  goal_water_ml?: number;
+  target_weight_kg?: number;
+  duration_days?: number;
+  notes?: string;
+}
+
+export type PhysicalActivityLevel = "NONE" | "LIGHT" | "MODERATE" | "HIGH";
+export type SportFrequency =
+  | "NONE"
+  | "ONCE_A_WEEK"
+  | "TWO_TO_THREE"
+  | "FOUR_TO_FIVE"
+  | "MORE_THAN_FIVE";
+export type MainGoal =
+  | "WEIGHT_LOSS"
+  | "WEIGHT_MAINTENANCE"
+  | "WEIGHT_GAIN"
+  | "GENERAL_HEALTH"
+  | "MEDICAL_CONDITION"
+  | "SPORTS_PERFORMANCE";
+export type ProgramDuration = "SHORT_TERM" | "MEDIUM_TERM" | "LONG_TERM";
+export type UploadFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "NONE";
+export type NotificationsPreference = "DAILY" | "WEEKLY" | "NONE";
+export type SmokingStatus = "YES" | "NO" | "UNKNOWN";
+
+// Answers sent to POST /user/questionnaire (PUT accepts any subset)
+export interface QuestionnaireData {
+  physical_activity_level: PhysicalActivityLevel;
+  sport_frequency: SportFrequency;
+  sport_types?: string[];
+  sport_duration_min?: number;
+  meals_per_day?: number;
+  dietary_preferences?: string[];
+  avoided_foods?: string[];
+  regular_drinks?: string[];
+  meal_texture_preference?: string;
+  main_goal: MainGoal;
+  specific_goal?: string;
+  goal_timeframe_days?: number;
+  program_duration: ProgramDuration;
+  meal_timing_restrictions?: string;
+  dietary_restrictions?: string;
+  willingness_to_follow?: boolean;
+  upcoming_events?: string;
+  upload_frequency: UploadFrequency;
+  notifications_preference: NotificationsPreference;
+  personalized_tips?: boolean;
+  health_metrics_integration?: boolean;
+  medical_conditions?: string[];
+  medications?: string;
+  allergies?: string[];
+  family_medical_history?: string[];
+  smoking_status: SmokingStatus;
+  sleep_hours_per_night?: number;
+}
+
+// A stored version of the questionnaire (UserQuestionnaire row)
+export interface Questionnaire extends QuestionnaireData {
+  questionnaire_id: number;
+  user_id: string;
+  version: number;
+  date_completed: string;
+  createdAt: string;
+}
+
 export interface AuthResponse {
   success: boolean;
   user?: User;
@@ -126,14 +492,91 @@ export interface AIResponse {
 }
 
 export interface PendingMeal {
-  imageBase64: string;
+  imageBase64?: string; // Missing for meals logged from a text description
   imageUri?: string;
+  description?: string; // What the user typed when logging without a photo
   analysis: MealAnalysisData | null;
   timestamp: number;
+  consumed_at?: string; // ISO timestamp, defaults to "now" on save
   meal_id?: string; // For updates
+  job_id?: number; // Photo analysis job the analysis comes from
+  questions?: string[]; // Clarifying questions for a low-confidence analysis
+  allergenWarnings?: AllergenWarning[];
+  allergenWarningsAcknowledged?: boolean; // Confirmed by the user before saving
+  eatenFraction?: number; // Set once a leftovers photo scaled the analysis
+  leftoversSkipped?: boolean; // The user ate everything
+}
+
+export interface AnalysisAnswer {
+  question: string;
+  answer: string;
+}
+
+// A photo analysis running on the server; polled until it finishes
+export interface AnalysisJob {
+  job_id: number;
+  status: "PENDING" | "COMPLETED" | "FAILED";
+  stage?: "queued" | "analyzing"; // Only while PENDING
+  cached?: boolean; // Set when starting a job answered from the analysis cache
+  created_at: string;
+  consumed_at: string;
+  error?: string;
+  code?: string;
+  analysis?: MealAnalysisData; // Once COMPLETED
+  questions?: string[]; // Once COMPLETED, empty when the estimate is confident
+  allergen_warnings?: AllergenWarning[]; // Once COMPLETED
+  eaten_fraction?: number; // 0-1, once a leftovers photo was analyzed
+  meal?: Meal;
+}
+
+// A gallery photo sent for batch analysis; consumed_at comes from its EXIF
+// capture time when available
+export interface BatchImage {
+  imageBase64: string;
+  consumed_at?: string;
+}
+
+// Outcome for the image at `index` of the batch: a job, or why none started
+export interface BatchAnalysisResult {
+  index: number;
+  job?: AnalysisJob;
+  error?: string;
 }
 
 // Daily stats interface
+export type BeverageType =
+  | "WATER"
+  | "TEA"
+  | "COFFEE"
+  | "JUICE"
+  | "MILK"
+  | "SOFT_DRINK"
+  | "SPORTS_DRINK"
+  | "OTHER";
+
+export interface WaterLog {
+  water_log_id: number;
+  amount_ml: number;
+  beverage: BeverageType;
+  logged_at: string;
+}
+
+// Device water and water logged in the app overlap, so total_ml counts only
+// the larger of the two, plus other drinks and the fluids in meals
+export interface DailyHydration {
+  date: string;
+  goal_ml: number;
+  water_ml: number;
+  other_drinks_ml: number;
+  meals_ml: number;
+  device_ml: number;
+  total_ml: number;
+  remaining_ml: number;
+  progress_percent: number;
+  logs: WaterLog[];
+  quick_add_ml: number[];
+}
+
 export interface DailyStats {
   calories: number;
   protein: number;
@@ -0,0 +1,45 @@
+// EXIF dates look like "2024:05:01 12:30:45", in the camera's local time
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+
+// Android returns flat tags, iOS groups them under "{Exif}" and "{TIFF}"
+function readTag(exif: Record<string, any>, tag: string): string | undefined {
+  const value = exif[tag] ?? exif["{Exif}"]?.[tag] ?? exif["{TIFF}"]?.[tag];
+  return typeof value === "string" ? value.trim() : undefined;
+}
+
+// When the photo was taken, as an ISO timestamp. Without an offset tag the
+// time is read in the device's timezone. Returns undefined when the photo
+// carries no usable date, or one in the future (a wrong camera clock).
+export function getExifCaptureTime(
+  exif: Record<string, any> | null | undefined
+): string | undefined {
+  if (!exif) {
+    return undefined;
+  }
+
+  const value =
+    readTag(exif, "DateTimeOriginal") ?? readTag(exif, "DateTimeDigitized");
+  const match = value?.match(EXIF_DATE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const offset = readTag(exif, "OffsetTimeOriginal");
+
+  const date = /^[+-]\d{2}:\d{2}$/.test(offset || "")
+    ? new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset}`)
+    : new Date(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hours),
+        Number(minutes),
+        Number(seconds)
+      );
+
+  if (isNaN(date.getTime()) || date.getTime() > Date.now()) {
+    return undefined;
+  }
+  return date.toISOString();
+}
@@ -0,0 +1,17 @@
+// IANA timezone of the device (e.g. "Asia/Jerusalem"), used so the server
+// can bucket meals into the user's local days.
+export function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// YYYY-MM-DD of the given instant in the device's local calendar
+// (toISOString would give the UTC day instead)
+export function getLocalDateString(date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
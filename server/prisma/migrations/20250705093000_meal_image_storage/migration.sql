@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "image_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "stored_images" (
+    "image_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "backend" TEXT NOT NULL,
+    "original_key" TEXT NOT NULL,
+    "thumbnail_key" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL DEFAULT 'image/jpeg',
+    "size_bytes" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stored_images_pkey" PRIMARY KEY ("image_id")
+);
+
+-- CreateIndex
+CREATE INDEX "stored_images_user_id_idx" ON "stored_images"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "Meal" ADD CONSTRAINT "Meal_image_id_fkey" FOREIGN KEY ("image_id") REFERENCES "stored_images"("image_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stored_images" ADD CONSTRAINT "stored_images_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "consumed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill existing meals with the time they were logged
+UPDATE "Meal" SET "consumed_at" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "Meal_user_id_consumed_at_idx" ON "Meal"("user_id", "consumed_at");
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "Sex" AS ENUM ('MALE', 'FEMALE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "GoalSource" AS ENUM ('CALCULATED', 'CUSTOM');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "sex" "Sex";
+
+-- AlterTable
+ALTER TABLE "NutritionPlan" ADD COLUMN     "bmr_kcal" DOUBLE PRECISION,
+ADD COLUMN     "is_active" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "source" "GoalSource" NOT NULL DEFAULT 'CALCULATED',
+ADD COLUMN     "tdee_kcal" DOUBLE PRECISION,
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Plans written before this migration were entered by hand
+UPDATE "NutritionPlan" SET "source" = 'CUSTOM';
+
+-- Only the most recent plan per user stays active
+UPDATE "NutritionPlan" SET "is_active" = false
+WHERE "plan_id" NOT IN (
+  SELECT DISTINCT ON ("user_id") "plan_id"
+  FROM "NutritionPlan"
+  ORDER BY "user_id", "created_at" DESC
+);
+
+-- CreateIndex
+CREATE INDEX "NutritionPlan_user_id_is_active_idx" ON "NutritionPlan"("user_id", "is_active");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "UserQuestionnaire" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- Number existing answers per user in the order they were completed
+UPDATE "UserQuestionnaire" q
+SET "version" = ranked.version
+FROM (
+  SELECT "questionnaire_id",
+         ROW_NUMBER() OVER (PARTITION BY "user_id" ORDER BY "date_completed", "questionnaire_id") AS version
+  FROM "UserQuestionnaire"
+) ranked
+WHERE q."questionnaire_id" = ranked."questionnaire_id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserQuestionnaire_user_id_version_key" ON "UserQuestionnaire"("user_id", "version");
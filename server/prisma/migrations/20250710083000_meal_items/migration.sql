@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "MealItem" (
+    "item_id" SERIAL NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "name" TEXT NOT NULL,
+    "grams" DOUBLE PRECISION,
+    "calories" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "protein_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carbs_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fats_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "micronutrients_json" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MealItem_pkey" PRIMARY KEY ("item_id")
+);
+
+-- CreateIndex
+CREATE INDEX "MealItem_meal_id_idx" ON "MealItem"("meal_id");
+
+-- AddForeignKey
+ALTER TABLE "MealItem" ADD CONSTRAINT "MealItem_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "FoodSource" AS ENUM ('USDA', 'OPEN_FOOD_FACTS');
+
+-- CreateTable
+CREATE TABLE "Food" (
+    "food_id" SERIAL NOT NULL,
+    "source" "FoodSource" NOT NULL,
+    "external_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "brand" TEXT,
+    "category" TEXT,
+    "calories_per_100g" DOUBLE PRECISION NOT NULL,
+    "protein_per_100g" DOUBLE PRECISION NOT NULL,
+    "carbs_per_100g" DOUBLE PRECISION NOT NULL,
+    "fats_per_100g" DOUBLE PRECISION NOT NULL,
+    "fiber_per_100g" DOUBLE PRECISION,
+    "sugar_per_100g" DOUBLE PRECISION,
+    "sodium_mg_per_100g" DOUBLE PRECISION,
+    "nutrients_json" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Food_pkey" PRIMARY KEY ("food_id")
+);
+
+-- CreateTable
+CREATE TABLE "FoodPortion" (
+    "portion_id" SERIAL NOT NULL,
+    "food_id" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "grams" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "FoodPortion_pkey" PRIMARY KEY ("portion_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Food_source_external_id_key" ON "Food"("source", "external_id");
+
+-- CreateIndex
+CREATE INDEX "Food_name_idx" ON "Food"("name");
+
+-- CreateIndex
+CREATE INDEX "FoodPortion_food_id_idx" ON "FoodPortion"("food_id");
+
+-- AddForeignKey
+ALTER TABLE "FoodPortion" ADD CONSTRAINT "FoodPortion_food_id_fkey" FOREIGN KEY ("food_id") REFERENCES "Food"("food_id") ON DELETE CASCADE ON UPDATE CASCADE;
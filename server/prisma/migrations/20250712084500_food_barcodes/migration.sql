@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Food" ADD COLUMN     "barcode" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Food_barcode_idx" ON "Food"("barcode");
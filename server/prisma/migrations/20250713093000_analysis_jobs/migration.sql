@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "AnalysisStatus" ADD VALUE 'FAILED';
+
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "analysis_context" TEXT,
+ADD COLUMN     "analysis_error" TEXT,
+ADD COLUMN     "analysis_error_code" TEXT,
+ADD COLUMN     "analysis_language" TEXT,
+ADD COLUMN     "is_draft" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Meal_analysis_status_idx" ON "Meal"("analysis_status");
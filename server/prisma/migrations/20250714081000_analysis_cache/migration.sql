@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "analysis_cache_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AnalysisCache" (
+    "cache_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "content_hash" TEXT NOT NULL,
+    "perceptual_hash" TEXT NOT NULL,
+    "analysis_json" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnalysisCache_pkey" PRIMARY KEY ("cache_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnalysisCache_user_id_language_content_hash_key" ON "AnalysisCache"("user_id", "language", "content_hash");
+
+-- CreateIndex
+CREATE INDEX "AnalysisCache_user_id_language_expires_at_idx" ON "AnalysisCache"("user_id", "language", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "Meal" ADD CONSTRAINT "Meal_analysis_cache_id_fkey" FOREIGN KEY ("analysis_cache_id") REFERENCES "AnalysisCache"("cache_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnalysisCache" ADD CONSTRAINT "AnalysisCache_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AnalysisRoundKind" AS ENUM ('INITIAL', 'CLARIFICATION', 'UPDATE');
+
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "analysis_confidence" INTEGER,
+ADD COLUMN     "clarifying_questions" JSONB;
+
+-- CreateTable
+CREATE TABLE "MealAnalysisRound" (
+    "round_id" SERIAL NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "kind" "AnalysisRoundKind" NOT NULL,
+    "answers_json" JSONB,
+    "update_text" TEXT,
+    "confidence" INTEGER NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "questions_json" JSONB,
+    "analysis_json" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MealAnalysisRound_pkey" PRIMARY KEY ("round_id")
+);
+
+-- CreateIndex
+CREATE INDEX "MealAnalysisRound_meal_id_created_at_idx" ON "MealAnalysisRound"("meal_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "MealAnalysisRound" ADD CONSTRAINT "MealAnalysisRound_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
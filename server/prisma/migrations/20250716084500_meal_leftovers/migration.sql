@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "AnalysisRoundKind" ADD VALUE 'LEFTOVERS';
+
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "eaten_fraction" DOUBLE PRECISION,
+ADD COLUMN     "leftovers_image_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Meal" ADD CONSTRAINT "Meal_leftovers_image_id_fkey" FOREIGN KEY ("leftovers_image_id") REFERENCES "stored_images"("image_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "meal_templates" ADD COLUMN     "recipe_id" INTEGER,
+ADD COLUMN     "user_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "Recipe" (
+    "recipe_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "servings" DOUBLE PRECISION NOT NULL,
+    "prep_time_minutes" INTEGER,
+    "instructions_json" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Recipe_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "RecipeIngredient" (
+    "ingredient_id" SERIAL NOT NULL,
+    "recipe_id" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "grams" DOUBLE PRECISION,
+    "food_id" INTEGER,
+    "calories" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "protein_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carbs_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fats_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+
+    CONSTRAINT "RecipeIngredient_pkey" PRIMARY KEY ("ingredient_id")
+);
+
+-- CreateIndex
+CREATE INDEX "Recipe_user_id_idx" ON "Recipe"("user_id");
+
+-- CreateIndex
+CREATE INDEX "RecipeIngredient_recipe_id_idx" ON "RecipeIngredient"("recipe_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meal_templates_recipe_id_key" ON "meal_templates"("recipe_id");
+
+-- CreateIndex
+CREATE INDEX "meal_templates_user_id_idx" ON "meal_templates"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "meal_templates" ADD CONSTRAINT "meal_templates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meal_templates" ADD CONSTRAINT "meal_templates_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "Recipe"("recipe_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Recipe" ADD CONSTRAINT "Recipe_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecipeIngredient" ADD CONSTRAINT "RecipeIngredient_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "Recipe"("recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecipeIngredient" ADD CONSTRAINT "RecipeIngredient_food_id_fkey" FOREIGN KEY ("food_id") REFERENCES "Food"("food_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,81 @@
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "favorite_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "FavoriteFood" (
+    "favorite_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "items_json" JSONB NOT NULL,
+    "image_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FavoriteFood_pkey" PRIMARY KEY ("favorite_id")
+);
+
+-- CreateIndex
+CREATE INDEX "FavoriteFood_user_id_idx" ON "FavoriteFood"("user_id");
+
+-- CreateIndex
+CREATE INDEX "Meal_favorite_id_idx" ON "Meal"("favorite_id");
+
+-- AddForeignKey
+ALTER TABLE "Meal" ADD CONSTRAINT "Meal_favorite_id_fkey" FOREIGN KEY ("favorite_id") REFERENCES "FavoriteFood"("favorite_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FavoriteFood" ADD CONSTRAINT "FavoriteFood_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FavoriteFood" ADD CONSTRAINT "FavoriteFood_image_id_fkey" FOREIGN KEY ("image_id") REFERENCES "stored_images"("image_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Move favorites flagged in Meal.additives_json into their own rows. Each
+-- favorite takes its meal's id, so the meal can be linked back to it.
+INSERT INTO "FavoriteFood" ("favorite_id", "user_id", "name", "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sugar_g", "sodium_mg", "items_json", "image_id")
+SELECT
+    m."meal_id",
+    m."user_id",
+    COALESCE(m."meal_name", 'Meal'),
+    COALESCE(m."calories", 0),
+    COALESCE(m."protein_g", 0),
+    COALESCE(m."carbs_g", 0),
+    COALESCE(m."fats_g", 0),
+    m."fiber_g",
+    m."sugar_g",
+    m."sodium_mg",
+    COALESCE(
+        (SELECT jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+            'name', i."name",
+            'grams', i."grams",
+            'calories', i."calories",
+            'protein', i."protein_g",
+            'carbs', i."carbs_g",
+            'fat', i."fats_g",
+            'fiber', i."fiber_g",
+            'sugar', i."sugar_g",
+            'sodium', i."sodium_mg"
+        )) ORDER BY i."position")
+        FROM "MealItem" i WHERE i."meal_id" = m."meal_id"),
+        '[]'::jsonb
+    ),
+    m."image_id"
+FROM "Meal" m
+WHERE m."additives_json"->>'isFavorite' = 'true';
+
+UPDATE "Meal" SET "favorite_id" = "meal_id"
+WHERE "additives_json"->>'isFavorite' = 'true';
+
+SELECT setval(
+    pg_get_serial_sequence('"FavoriteFood"', 'favorite_id'),
+    COALESCE((SELECT MAX("favorite_id") FROM "FavoriteFood"), 0) + 1,
+    false
+);
+
+UPDATE "Meal" SET "additives_json" = "additives_json" - 'isFavorite'
+WHERE "additives_json" ? 'isFavorite';
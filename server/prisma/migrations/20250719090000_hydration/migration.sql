@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "BeverageType" AS ENUM ('WATER', 'TEA', 'COFFEE', 'JUICE', 'MILK', 'SOFT_DRINK', 'SPORTS_DRINK', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "NutritionPlan" ADD COLUMN     "goal_water_ml" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "WaterLog" (
+    "water_log_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "amount_ml" INTEGER NOT NULL,
+    "beverage" "BeverageType" NOT NULL DEFAULT 'WATER',
+    "logged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WaterLog_pkey" PRIMARY KEY ("water_log_id")
+);
+
+-- CreateIndex
+CREATE INDEX "WaterLog_user_id_logged_at_idx" ON "WaterLog"("user_id", "logged_at");
+
+-- AddForeignKey
+ALTER TABLE "WaterLog" ADD CONSTRAINT "WaterLog_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing plans get the weight-based water goal (35 ml per kg, 70 kg when
+-- unknown) in steps of 50 ml; the next recalculation adds the sport bonus
+UPDATE "NutritionPlan" p
+SET "goal_water_ml" = ROUND(COALESCE(u."weight_kg", 70) * 35 / 50) * 50
+FROM "User" u
+WHERE u."user_id" = p."user_id";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Meal" ADD COLUMN     "allergen_warnings_json" JSONB;
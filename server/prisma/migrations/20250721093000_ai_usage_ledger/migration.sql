@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "AIFeature" AS ENUM ('MEAL_ANALYSIS', 'TEXT_ANALYSIS', 'MEAL_UPDATE', 'CLARIFICATION', 'LEFTOVERS', 'MEAL_PLAN', 'MEAL_REPLACEMENT');
+
+-- CreateEnum
+CREATE TYPE "AIUsageStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "aiRequestsCount",
+DROP COLUMN "aiRequestsResetAt";
+
+-- CreateTable
+CREATE TABLE "AIUsage" (
+    "usage_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "feature" "AIFeature" NOT NULL,
+    "counts_toward_quota" BOOLEAN NOT NULL,
+    "status" "AIUsageStatus" NOT NULL DEFAULT 'PENDING',
+    "meal_id" INTEGER,
+    "provider" TEXT,
+    "model" TEXT,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "total_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cost_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "AIUsage_pkey" PRIMARY KEY ("usage_id")
+);
+
+-- CreateIndex
+CREATE INDEX "AIUsage_user_id_created_at_idx" ON "AIUsage"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "AIUsage_created_at_idx" ON "AIUsage"("created_at");
+
+-- CreateIndex
+CREATE INDEX "AIUsage_meal_id_idx" ON "AIUsage"("meal_id");
+
+-- AddForeignKey
+ALTER TABLE "AIUsage" ADD CONSTRAINT "AIUsage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIUsage" ADD CONSTRAINT "AIUsage_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "Meal"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "pending_subscription_type" "SubscriptionType",
+ADD COLUMN     "cancel_at_period_end" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "payment_provider" TEXT,
+ADD COLUMN     "payment_subscription_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "SubscriptionPayment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "status" "PaymentStatus" NOT NULL DEFAULT 'SUCCEEDED',
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "provider_payment_id" TEXT,
+ADD COLUMN     "period_start" TIMESTAMP(3),
+ADD COLUMN     "period_end" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PaymentWebhookEvent" (
+    "webhook_event_id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentWebhookEvent_pkey" PRIMARY KEY ("webhook_event_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_provider_provider_payment_id_key" ON "SubscriptionPayment"("provider", "provider_payment_id");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_user_id_payment_date_idx" ON "SubscriptionPayment"("user_id", "payment_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentWebhookEvent_provider_event_id_key" ON "PaymentWebhookEvent"("provider", "event_id");
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "UserRole" NOT NULL DEFAULT 'USER',
+ADD COLUMN     "quota_reset_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdminDashboard_date_key" ON "AdminDashboard"("date");
@@ -7,10 +7,21 @@ import { errorHandler } from "./middleware/errorHandler";
 import { authRoutes } from "./routes/auth";
 import { nutritionRoutes } from "./routes/nutrition";
 import { userRoutes } from "./routes/user";
+import { goalsRoutes } from "./routes/goals";
+import { questionnaireRoutes } from "./routes/questionnaire";
 import { calendarRoutes } from "./routes/calendar";
 import { deviceRoutes } from "./routes/devices";
 import { mealPlanRoutes } from "./routes/mealPlans";
+import { foodRoutes } from "./routes/foods";
+import { recipeRoutes } from "./routes/recipes";
+import { hydrationRoutes } from "./routes/hydration";
+import {
+  paymentWebhookRoutes,
+  subscriptionRoutes,
+} from "./routes/subscriptions";
+import { adminRoutes } from "./routes/admin";
 import statisticsRoutes from "./routes/statistics";
+import { NutritionService } from "./services/nutrition";
 import "./services/cron";
 
 // Load environment variables
@@ -52,6 +63,10 @@ app.use(
 // Cookie parser middleware - MUST be before routes
 app.use(cookieParser());
 
+// Payment webhooks are signed over the raw body, so they're routed before
+// the JSON parser consumes it
+app.use("/api/subscription/webhooks", paymentWebhookRoutes);
+
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
@@ -82,10 +97,17 @@ app.get("/test", (req, res) => {
 // API routes
 app.use("/api/auth", authRoutes);
 app.use("/api/nutrition", nutritionRoutes);
+app.use("/api/user/goals", goalsRoutes);
+app.use("/api/user/questionnaire", questionnaireRoutes);
 app.use("/api/user", userRoutes);
 app.use("/api/devices", deviceRoutes);
 app.use("/api/calendar", calendarRoutes);
 app.use("/api/meal-plans", mealPlanRoutes);
+app.use("/api/foods", foodRoutes);
+app.use("/api/recipes", recipeRoutes);
+app.use("/api/hydration", hydrationRoutes);
+app.use("/api/subscription", subscriptionRoutes);
+app.use("/api/admin", adminRoutes);
 app.use("/api", statisticsRoutes);
 
 // Error handler
@@ -100,6 +122,9 @@ app.listen(PORT, "0.0.0.0", () => {
   console.log(`🍪 Cookie-based authentication enabled`);
   console.log(`🧪 Test endpoint: http://192.168.1.70:${PORT}/test`);
   console.log(`💚 Health check: http://192.168.1.70:${PORT}/health`);
+
+  // Photo analyses interrupted by the last shutdown
+  NutritionService.resumeAnalysisJobs();
 });
 
 export default app;
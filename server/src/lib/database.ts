@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
 declare global {
   var __prisma: PrismaClient | undefined;
@@ -29,6 +29,12 @@ if (process.env.NODE_ENV === "development") {
   globalThis.__prisma = prisma;
 }
 
+// Serializes the writes of one user until the transaction ends, e.g. so a
+// payment webhook and the request that started the payment can't both
+// record it
+export const lockUser = (tx: Prisma.TransactionClient, user_id: string) =>
+  tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${user_id}))`;
+
 // Test database connection
 prisma.$connect()
   .then(() => {
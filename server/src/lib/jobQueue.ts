@@ -0,0 +1,62 @@
+import { EventEmitter } from "events";
+
+// In-process worker queue. Jobs are only ids; their state lives in the
+// database, so pending work can be re-queued after a restart.
+export class JobQueue<T extends string | number> {
+  private readonly waiting: T[] = [];
+  private readonly running = new Set<T>();
+  private readonly events = new EventEmitter();
+
+  constructor(
+    private readonly name: string,
+    private readonly concurrency: number,
+    private readonly worker: (job: T) => Promise<void>
+  ) {
+    // Every open status stream subscribes here
+    this.events.setMaxListeners(0);
+  }
+
+  push(job: T) {
+    if (this.running.has(job) || this.waiting.includes(job)) {
+      return;
+    }
+
+    this.waiting.push(job);
+    console.log(`📬 Queued ${this.name} job:`, job);
+    this.drain();
+  }
+
+  isRunning(job: T) {
+    return this.running.has(job);
+  }
+
+  // Called when the job starts and again when it finishes
+  subscribe(job: T, listener: () => void) {
+    const event = String(job);
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
+  private drain() {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      this.run(this.waiting.shift()!);
+    }
+  }
+
+  private async run(job: T) {
+    this.running.add(job);
+    this.events.emit(String(job));
+
+    try {
+      await this.worker(job);
+    } catch (error) {
+      console.error(`💥 ${this.name} job ${job} failed:`, error);
+    } finally {
+      this.running.delete(job);
+      this.events.emit(String(job));
+      this.drain();
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { prisma } from "./database";
+
+// Day boundaries are computed in the user's IANA timezone (e.g. "Asia/Jerusalem")
+// using Intl only, so no extra date library is needed.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export interface LocalDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday, like Date#getDay
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+export function getLocalParts(date: Date, timeZone: string): LocalDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getLocalParts(date, timeZone);
+  const localAsUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return localAsUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+// YYYY-MM-DD of the calendar day the instant falls on for the user
+export function toLocalDateString(date: Date, timeZone: string): string {
+  const p = getLocalParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+// Fractional hour of day (e.g. 20.5 for 20:30) in the user's timezone
+export function getLocalHour(date: Date, timeZone: string): number {
+  const p = getLocalParts(date, timeZone);
+  return p.hour + p.minute / 60;
+}
+
+// Pure calendar arithmetic on YYYY-MM-DD strings
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+// The UTC instant of local midnight on the given day
+export function startOfLocalDay(dateStr: string, timeZone: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+
+  // Re-apply the offset at the candidate instant to land correctly on DST days
+  const guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+  return new Date(
+    utcMidnight - getTimeZoneOffset(new Date(guess), timeZone)
+  );
+}
+
+// The local time of day of `at`, on another local date
+export function atLocalDate(
+  dateStr: string,
+  timeZone: string,
+  at: Date = new Date()
+): Date {
+  const today = toLocalDateString(at, timeZone);
+  const sinceMidnight =
+    at.getTime() - startOfLocalDay(today, timeZone).getTime();
+  return new Date(
+    startOfLocalDay(dateStr, timeZone).getTime() + sinceMidnight
+  );
+}
+
+// Half-open [start, end) range covering one local day
+export function getLocalDayRange(dateStr: string, timeZone: string) {
+  return {
+    start: startOfLocalDay(dateStr, timeZone),
+    end: startOfLocalDay(addDays(dateStr, 1), timeZone),
+  };
+}
+
+export async function getUserTimeZone(user_id: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { user_id },
+    select: { timezone: true },
+  });
+  return resolveTimeZone(user?.timezone);
+}
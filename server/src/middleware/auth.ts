@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import { UserRole } from "@prisma/client";
 import { AuthService } from "../services/auth";
 
 export interface AuthRequest extends Request {
@@ -59,3 +60,17 @@ export async function authenticateToken(
     });
   }
 }
+
+// Use after authenticateToken
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!roles.includes(req.user?.role)) {
+      console.log("🚫 Role check failed for user:", req.user?.user_id);
+      return res.status(403).json({
+        success: false,
+        error: "Insufficient permissions",
+      });
+    }
+    next();
+  };
+}
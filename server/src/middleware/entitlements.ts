@@ -0,0 +1,54 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "./auth";
+import {
+  EntitlementError,
+  EntitlementsService,
+  Feature,
+} from "../services/entitlements";
+
+// Use after authenticateToken. Failures answer with the error's status and
+// `code`, so the client can offer an upgrade.
+
+function sendEntitlementError(res: Response, error: unknown) {
+  if (error instanceof EntitlementError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+    });
+  }
+
+  console.error("💥 Entitlement check error:", error);
+  res.status(500).json({
+    success: false,
+    error: "Failed to check subscription",
+  });
+}
+
+export function requireFeature(feature: Feature) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      EntitlementsService.assertFeature(req.user.subscription_type, feature);
+      next();
+    } catch (error) {
+      sendEntitlementError(res, error);
+    }
+  };
+}
+
+// For routes that connect a device; reads `deviceType` from the body
+export async function requireDeviceSlot(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    await EntitlementsService.assertDeviceSlot(
+      req.user.user_id,
+      req.body?.deviceType
+    );
+    next();
+  } catch (error) {
+    sendEntitlementError(res, error);
+  }
+}
@@ -0,0 +1,149 @@
+import { Router } from "express";
+import {
+  authenticateToken,
+  AuthRequest,
+  requireRole,
+} from "../middleware/auth";
+import { AdminService } from "../services/admin";
+import { AdminDashboardService } from "../services/adminDashboard";
+import { PaymentError } from "../services/payments";
+import { adminSubscriptionSchema, userSearchSchema } from "../types/admin";
+
+const router = Router();
+
+router.use(authenticateToken, requireRole("ADMIN"));
+
+// Search users by email, name or ID, optionally filtered by plan and role
+router.get("/users", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = userSearchSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const result = await AdminService.searchUsers(validationResult.data);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("💥 Admin user search error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to search users",
+    });
+  }
+});
+
+router.get("/users/:userId", async (req: AuthRequest, res) => {
+  try {
+    const user = await AdminService.getUser(req.params.userId);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    console.error("💥 Admin get user error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch user";
+    res.status(message === "User not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Put a user on a plan without charging them, e.g. a comped or refunded
+// subscription
+router.put("/users/:userId/subscription", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = adminSubscriptionSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const subscription = await AdminService.changeSubscription(
+      req.user.user_id,
+      req.params.userId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Admin change subscription error:", error);
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to change subscription";
+    res.status(message === "User not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Give the user today's full AI quota again
+router.post("/users/:userId/reset-quota", async (req: AuthRequest, res) => {
+  try {
+    const quota = await AdminService.resetQuota(
+      req.user.user_id,
+      req.params.userId
+    );
+
+    res.json({
+      success: true,
+      data: quota,
+    });
+  } catch (error) {
+    console.error("💥 Admin reset quota error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to reset quota";
+    res.status(message === "User not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Daily aggregates of the last `days` days (default 30), with today so far
+router.get("/dashboard", async (req: AuthRequest, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+    const dashboard = await AdminDashboardService.getDashboard(days);
+
+    res.json({
+      success: true,
+      data: dashboard,
+    });
+  } catch (error) {
+    console.error("💥 Admin dashboard error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch admin dashboard",
+    });
+  }
+});
+
+export { router as adminRoutes };
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { DeviceService } from "../services/devices";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireDeviceSlot } from "../middleware/entitlements";
 
 const router = Router();
 
@@ -30,7 +31,7 @@ router.get("/", async (req: AuthRequest, res) => {
 });
 
 // Connect a new device
-router.post("/connect", async (req: AuthRequest, res) => {
+router.post("/connect", requireDeviceSlot, async (req: AuthRequest, res) => {
   try {
     const { deviceType, deviceName, accessToken, refreshToken } = req.body;
 
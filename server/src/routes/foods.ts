@@ -0,0 +1,154 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { FoodService } from "../services/foods";
+import { foodSearchSchema, logFoodSchema } from "../types/foods";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Search the food database, best matches first
+router.get("/search", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = foodSearchSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const { q, limit } = validationResult.data;
+    const foods = await FoodService.searchFoods(q, limit);
+
+    res.json({
+      success: true,
+      data: foods,
+    });
+  } catch (error) {
+    console.error("💥 Food search error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to search foods";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Look up a packaged product by its EAN/UPC code
+router.get("/barcode/:code", async (req: AuthRequest, res) => {
+  try {
+    const code = req.params.code.trim();
+
+    if (!/^\d{8,14}$/.test(code)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid barcode",
+      });
+    }
+
+    const food = await FoodService.getFoodByBarcode(code);
+
+    if (!food) {
+      return res.status(404).json({
+        success: false,
+        error: "Product not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: food,
+    });
+  } catch (error) {
+    console.error("💥 Barcode lookup error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to look up barcode";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Log a portion of a database food as a meal
+router.post("/log", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = logFoodSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const meal = await FoodService.logFood(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Log food error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to log food";
+    res
+      .status(
+        message === "Food not found" || message === "Portion not found"
+          ? 404
+          : 500
+      )
+      .json({
+        success: false,
+        error: message,
+      });
+  }
+});
+
+// Get a single food with its portions
+router.get("/:foodId", async (req: AuthRequest, res) => {
+  try {
+    const foodId = parseInt(req.params.foodId);
+
+    if (isNaN(foodId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid food ID",
+      });
+    }
+
+    const food = await FoodService.getFood(foodId);
+
+    if (!food) {
+      return res.status(404).json({
+        success: false,
+        error: "Food not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: food,
+    });
+  } catch (error) {
+    console.error("💥 Get food error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch food";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as foodRoutes };
@@ -0,0 +1,173 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { GoalsService } from "../services/goals";
+import { customGoalsSchema, updateGoalsSchema } from "../types/goals";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Get the active nutrition goals (calculated on first request)
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const plan = await GoalsService.getActiveGoals(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    console.error("💥 Get goals error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch goals";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Get all previous nutrition plans
+router.get("/history", async (req: AuthRequest, res) => {
+  try {
+    const plans = await GoalsService.getGoalsHistory(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: plans,
+    });
+  } catch (error) {
+    console.error("💥 Get goals history error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch goals history";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Set custom targets, replacing the active plan
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = customGoalsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const plan = await GoalsService.createCustomGoals(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    console.error("💥 Create goals error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to save goals";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Recompute targets from the profile and latest questionnaire
+router.post("/recalculate", async (req: AuthRequest, res) => {
+  try {
+    const plan = await GoalsService.recalculateGoals(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    console.error("💥 Recalculate goals error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to recalculate goals";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.put("/:planId", async (req: AuthRequest, res) => {
+  try {
+    const planId = parseInt(req.params.planId);
+    if (isNaN(planId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid plan ID provided",
+      });
+    }
+
+    const validationResult = updateGoalsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const plan = await GoalsService.updateGoals(
+      req.user.user_id,
+      planId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    console.error("💥 Update goals error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update goals";
+    res.status(message === "Nutrition plan not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.delete("/:planId", async (req: AuthRequest, res) => {
+  try {
+    const planId = parseInt(req.params.planId);
+    if (isNaN(planId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid plan ID provided",
+      });
+    }
+
+    await GoalsService.deleteGoals(req.user.user_id, planId);
+
+    res.json({
+      success: true,
+      message: "Nutrition plan deleted successfully",
+    });
+  } catch (error) {
+    console.error("💥 Delete goals error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to delete goals";
+    res.status(message === "Nutrition plan not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as goalsRoutes };
@@ -0,0 +1,104 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { HydrationService } from "../services/hydration";
+import { waterLogSchema } from "../types/hydration";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Log water or another drink
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = waterLogSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const log = await HydrationService.logDrink(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: log,
+    });
+  } catch (error) {
+    console.error("💥 Log drink error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to log drink";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Remove a logged drink
+router.delete("/logs/:waterLogId", async (req: AuthRequest, res) => {
+  try {
+    const waterLogId = parseInt(req.params.waterLogId);
+
+    if (isNaN(waterLogId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid water log ID",
+      });
+    }
+
+    await HydrationService.deleteDrink(req.user.user_id, waterLogId);
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("💥 Delete drink error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to delete drink";
+    res.status(message === "Water log not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Hydration for one day: goal, merged total by source and the logged drinks
+router.get("/:date", async (req: AuthRequest, res) => {
+  try {
+    const { date } = req.params;
+
+    if (!date.match(/^\d{4}-\d{2}-\d{2}$/)) {
+      return res.status(400).json({
+        success: false,
+        error: "Date must be in YYYY-MM-DD format",
+      });
+    }
+
+    const hydration = await HydrationService.getDailyHydration(
+      req.user.user_id,
+      date
+    );
+
+    res.json({
+      success: true,
+      data: hydration,
+    });
+  } catch (error) {
+    console.error("💥 Get hydration error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch hydration";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as hydrationRoutes };
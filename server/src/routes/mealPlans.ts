@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { MealPlanService } from "../services/mealPlans";
+import { AIServiceError } from "../services/ai";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireFeature } from "../middleware/entitlements";
+import { EntitlementError } from "../services/entitlements";
 import { z } from "zod";
 
 const router = Router();
@@ -40,86 +43,50 @@ const mealPreferenceSchema = z.object({
 });
 
 // Create a new AI-powered meal plan
-router.post("/create", async (req: AuthRequest, res) => {
-  try {
-    const validatedData = createMealPlanSchema.parse(req.body);
-
-    console.log("🍽️ Create AI meal plan request for user:", req.user.user_id);
-
-    // Check user's AI request limits
-    const user = await req.app.locals.prisma?.user.findUnique({
-      where: { user_id: req.user.user_id },
-      select: {
-        aiRequestsCount: true,
-        aiRequestsResetAt: true,
-        subscription_type: true,
-      },
-    });
-
-    if (user) {
-      // Check if we need to reset daily limits
-      const now = new Date();
-      const resetTime = new Date(user.aiRequestsResetAt);
-      const hoursSinceReset =
-        (now.getTime() - resetTime.getTime()) / (1000 * 60 * 60);
-
-      if (hoursSinceReset >= 24) {
-        await req.app.locals.prisma?.user.update({
-          where: { user_id: req.user.user_id },
-          data: {
-            aiRequestsCount: 0,
-            aiRequestsResetAt: now,
-          },
+router.post(
+  "/create",
+  requireFeature("aiMealPlans"),
+  async (req: AuthRequest, res) => {
+    try {
+      const validatedData = createMealPlanSchema.parse(req.body);
+
+      console.log("🍽️ Create AI meal plan request for user:", req.user.user_id);
+
+      const mealPlan = await MealPlanService.createUserMealPlan(
+        req.user.user_id,
+        validatedData
+      );
+
+      res.json({
+        success: true,
+        data: mealPlan,
+        message: "AI-powered meal plan created successfully!",
+      });
+    } catch (error) {
+      console.error("💥 Create AI meal plan error:", error);
+      if (error instanceof EntitlementError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
         });
-        user.aiRequestsCount = 0;
       }
-
-      // Check limits based on subscription
-      const limits = {
-        FREE: 2, // 2 meal plans per day for free users
-        BASIC: 5,
-        PREMIUM: 20,
-      };
-
-      const userLimit =
-        limits[user.subscription_type as keyof typeof limits] || limits.FREE;
-
-      if (user.aiRequestsCount >= userLimit) {
-        return res.status(429).json({
+      if (error instanceof AIServiceError) {
+        return res.status(502).json({
           success: false,
-          error: `Daily AI meal plan limit reached (${userLimit}). Upgrade your subscription for more meal plans.`,
+          error: error.message,
+          code: error.code,
         });
       }
-
-      // Increment AI request count
-      await req.app.locals.prisma?.user.update({
-        where: { user_id: req.user.user_id },
-        data: {
-          aiRequestsCount: user.aiRequestsCount + 1,
-        },
+      const message =
+        error instanceof Error ? error.message : "Failed to create meal plan";
+      res.status(500).json({
+        success: false,
+        error: message,
       });
     }
-
-    const mealPlan = await MealPlanService.createUserMealPlan(
-      req.user.user_id,
-      validatedData
-    );
-
-    res.json({
-      success: true,
-      data: mealPlan,
-      message: "AI-powered meal plan created successfully!",
-    });
-  } catch (error) {
-    console.error("💥 Create AI meal plan error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to create meal plan";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
   }
-});
+);
 
 // Get user's current meal plan
 router.get("/current", async (req: AuthRequest, res) => {
@@ -176,37 +143,55 @@ router.get("/:planId", async (req: AuthRequest, res) => {
 });
 
 // Replace a meal in the plan with AI-generated alternative
-router.put("/:planId/replace", async (req: AuthRequest, res) => {
-  try {
-    const { planId } = req.params;
-    const validatedData = replaceMealSchema.parse(req.body);
-
-    console.log("🔄 AI meal replacement request for plan:", planId);
-
-    const result = await MealPlanService.replaceMealInPlan(
-      req.user.user_id,
-      planId,
-      validatedData.day_of_week,
-      validatedData.meal_timing,
-      validatedData.meal_order,
-      validatedData.preferences
-    );
-
-    res.json({
-      success: true,
-      data: result,
-      message: "Meal replaced with AI-generated alternative!",
-    });
-  } catch (error) {
-    console.error("💥 AI meal replacement error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to replace meal";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
+router.put(
+  "/:planId/replace",
+  requireFeature("aiMealPlans"),
+  async (req: AuthRequest, res) => {
+    try {
+      const { planId } = req.params;
+      const validatedData = replaceMealSchema.parse(req.body);
+
+      console.log("🔄 AI meal replacement request for plan:", planId);
+
+      const result = await MealPlanService.replaceMealInPlan(
+        req.user.user_id,
+        planId,
+        validatedData.day_of_week,
+        validatedData.meal_timing,
+        validatedData.meal_order,
+        validatedData.preferences
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: "Meal replaced with AI-generated alternative!",
+      });
+    } catch (error) {
+      console.error("💥 AI meal replacement error:", error);
+      if (error instanceof EntitlementError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      if (error instanceof AIServiceError) {
+        return res.status(502).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      const message =
+        error instanceof Error ? error.message : "Failed to replace meal";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
   }
-});
+);
 
 // Generate shopping list
 router.post("/:planId/shopping-list", async (req: AuthRequest, res) => {
@@ -1,7 +1,25 @@
 import { Router } from "express";
 import { NutritionService } from "../services/nutrition";
+import { ImageStorageService } from "../services/imageStorage";
+import { AIServiceError } from "../services/ai";
+import { EntitlementError } from "../services/entitlements";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
-import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
+import {
+  atLocalDate,
+  resolveTimeZone,
+  toLocalDateString,
+} from "../lib/timezone";
+import {
+  clarifyAnalysisSchema,
+  consumedAtSchema,
+  leftoversSchema,
+  mealAnalysisSchema,
+  mealBatchAnalysisSchema,
+  mealItemSchema,
+  mealTextAnalysisSchema,
+  mealUpdateSchema,
+  updateMealItemSchema,
+} from "../types/nutrition";
 
 const router = Router();
 
@@ -32,6 +50,7 @@ router.post("/analyze", async (req: AuthRequest, res) => {
       language = "english",
       date,
       updateText,
+      leftoversImageBase64,
     } = validationResult.data;
 
     if (!imageBase64 || imageBase64.trim() === "") {
@@ -41,20 +60,388 @@ router.post("/analyze", async (req: AuthRequest, res) => {
       });
     }
 
+    // A meal from an earlier day is logged at the current time of day on
+    // that date; one from today is logged now
+    const timeZone = resolveTimeZone(req.user.timezone);
+    const today = toLocalDateString(new Date(), timeZone);
+    if (date && date > today) {
+      return res.status(400).json({
+        success: false,
+        error: "Date cannot be in the future",
+      });
+    }
+    const consumedAt =
+      date && date !== today ? atLocalDate(date, timeZone) : undefined;
+
     console.log("Processing meal analysis for user:", req.user.user_id);
     console.log("Image data length:", imageBase64.length);
 
-    const result = await NutritionService.analyzeMeal(req.user.user_id, {
-      imageBase64,
-      language,
-      date: date || new Date().toISOString().split("T")[0],
-      updateText,
+    const result = await NutritionService.analyzeMeal(
+      req.user.user_id,
+      {
+        imageBase64,
+        language,
+        date,
+        updateText,
+        leftoversImageBase64,
+      },
+      consumedAt
+    );
+
+    console.log("Analysis job created:", result.data.job_id);
+    res.status(202).json(result);
+  } catch (error) {
+    console.error("Analyze meal error:", error);
+    if (error instanceof EntitlementError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    if (error instanceof AIServiceError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to analyze meal";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Analyze several gallery photos at once, one job per photo
+router.post("/analyze/batch", async (req: AuthRequest, res) => {
+  try {
+    console.log("Batch analyze request received");
+
+    const validationResult = mealBatchAnalysisSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const result = await NutritionService.analyzeMealBatch(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.status(202).json(result);
+  } catch (error) {
+    console.error("Batch analyze error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to analyze meals";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Poll a photo analysis job
+router.get("/analyze/:jobId", async (req: AuthRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid job ID provided",
+      });
+    }
+
+    const job = await NutritionService.getAnalysisJob(req.user.user_id, jobId);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: "Analysis job not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error("💥 Get analysis job error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to get analysis job";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Server-sent events with the job's status; the stream ends once the job
+// is COMPLETED or FAILED
+router.get("/analyze/:jobId/events", async (req: AuthRequest, res) => {
+  const jobId = parseInt(req.params.jobId);
+  if (isNaN(jobId)) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid job ID provided",
+    });
+  }
+
+  const user_id = req.user.user_id;
+  let started = false;
+  let closed = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    if (started) res.end();
+  };
+
+  // Sends the job as it is now, ending the stream once it's settled
+  const refresh = () => {
+    NutritionService.getAnalysisJob(user_id, jobId)
+      .then((job) => {
+        if (closed) return;
+        if (!job) return close();
+        res.write(`event: status\ndata: ${JSON.stringify(job)}\n\n`);
+        if (job.status !== "PENDING") close();
+      })
+      .catch((error) => {
+        console.error("💥 Analysis job stream error:", error);
+        close();
+      });
+  };
+
+  // Subscribed before the job is read, so a job that finishes in between
+  // still ends the stream. Changes before the headers are out are covered
+  // by the read that follows them.
+  const unsubscribe = NutritionService.subscribeToAnalysisJob(jobId, () => {
+    if (started) refresh();
+  });
+  req.on("close", close);
+
+  const job = await NutritionService.getAnalysisJob(user_id, jobId).catch(
+    () => null
+  );
+  if (closed) return;
+  if (!job) {
+    close();
+    return res.status(404).json({
+      success: false,
+      error: "Analysis job not found",
+    });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  started = true;
+
+  // Keeps proxies from closing an idle stream
+  heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+  refresh();
+});
+
+// Answer the clarifying questions of a completed photo analysis
+router.post("/analyze/:jobId/clarify", async (req: AuthRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid job ID provided",
+      });
+    }
+
+    const validationResult = clarifyAnalysisSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const job = await NutritionService.clarifyAnalysis(
+      req.user.user_id,
+      jobId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: job,
     });
+  } catch (error) {
+    console.error("💥 Clarify analysis error:", error);
+    if (error instanceof AIServiceError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to clarify analysis";
+    const status =
+      message === "Analysis job not found"
+        ? 404
+        : message === "Analysis is not completed yet"
+          ? 409
+          : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Photo of what was left on the plate, taken after eating
+router.post("/analyze/:jobId/leftovers", async (req: AuthRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid job ID provided",
+      });
+    }
+
+    const validationResult = leftoversSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const job = await NutritionService.addLeftovers(
+      req.user.user_id,
+      jobId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error("💥 Add leftovers error:", error);
+    if (error instanceof AIServiceError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    const message =
+      error instanceof Error ? error.message : "Failed to add leftovers photo";
+    const status =
+      message === "Analysis job not found"
+        ? 404
+        : message === "Analysis is not completed yet" ||
+            message === "Leftovers were already logged for this meal"
+          ? 409
+          : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Discard a photo analysis job and its meal
+router.delete("/analyze/:jobId", async (req: AuthRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid job ID provided",
+      });
+    }
+
+    const deleted = await NutritionService.discardAnalysisJob(
+      req.user.user_id,
+      jobId
+    );
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Analysis job not found",
+      });
+    }
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("💥 Discard analysis job error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to discard analysis job";
+    const status = message === "Analysis was already saved" ? 409 : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Analyze a typed meal description (no photo)
+router.post("/analyze-text", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = mealTextAnalysisSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    console.log("Processing text meal analysis for user:", req.user.user_id);
+
+    const result = await NutritionService.analyzeMealText(
+      req.user.user_id,
+      validationResult.data
+    );
 
-    console.log("Analysis completed successfully");
     res.json(result);
   } catch (error) {
-    console.error("Analyze meal error:", error);
+    console.error("Analyze meal text error:", error);
+    if (error instanceof EntitlementError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    if (error instanceof AIServiceError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
     const message =
       error instanceof Error ? error.message : "Failed to analyze meal";
     res.status(500).json({
@@ -98,6 +485,13 @@ router.put("/update", async (req: AuthRequest, res) => {
     });
   } catch (error) {
     console.error("Update meal error:", error);
+    if (error instanceof AIServiceError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
     const message =
       error instanceof Error ? error.message : "Failed to update meal";
     res.status(500).json({
@@ -112,7 +506,7 @@ router.post("/save", async (req: AuthRequest, res) => {
   try {
     console.log("Save meal request received");
 
-    const { mealData, imageBase64 } = req.body;
+    const { mealData, imageBase64, consumed_at, job_id } = req.body;
 
     if (!mealData) {
       return res.status(400).json({
@@ -121,13 +515,42 @@ router.post("/save", async (req: AuthRequest, res) => {
       });
     }
 
+    let consumedAt: Date | undefined;
+    if (consumed_at !== undefined) {
+      const consumedAtResult = consumedAtSchema.safeParse(consumed_at);
+      if (!consumedAtResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: consumedAtResult.error.errors[0].message,
+        });
+      }
+      consumedAt = consumedAtResult.data;
+    }
+
+    const jobId = job_id == null ? undefined : Number(job_id);
+    if (jobId !== undefined && !(Number.isInteger(jobId) && jobId > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid job ID provided",
+      });
+    }
+
     console.log("Saving meal for user:", req.user.user_id);
 
-    const meal = await NutritionService.saveMeal(
-      req.user.user_id,
-      mealData,
-      imageBase64
-    );
+    // Meals from a photo analysis job already exist and only get confirmed
+    const meal = jobId
+      ? await NutritionService.saveAnalyzedMeal(
+          req.user.user_id,
+          jobId,
+          mealData,
+          consumedAt
+        )
+      : await NutritionService.saveMeal(
+          req.user.user_id,
+          mealData,
+          imageBase64,
+          consumedAt
+        );
 
     console.log("Meal saved successfully");
     res.json({
@@ -138,7 +561,13 @@ router.post("/save", async (req: AuthRequest, res) => {
     console.error("Save meal error:", error);
     const message =
       error instanceof Error ? error.message : "Failed to save meal";
-    res.status(500).json({
+    const status =
+      message === "Analysis job not found"
+        ? 404
+        : message === "Analysis is not completed yet"
+          ? 409
+          : 500;
+    res.status(status).json({
       success: false,
       error: message,
     });
@@ -257,6 +686,206 @@ router.post("/meals/:mealId/favorite", async (req: AuthRequest, res) => {
   }
 });
 
+// Saved favorites, ranked by how often and at what time of day they're eaten
+router.get("/favorites", async (req: AuthRequest, res) => {
+  try {
+    const favorites = await NutritionService.getFavorites(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: favorites,
+    });
+  } catch (error) {
+    console.error("💥 Get favorites error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch favorites";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Log a favorite again as a new meal
+router.post("/favorites/:favoriteId/log", async (req: AuthRequest, res) => {
+  try {
+    const favoriteId = parseInt(req.params.favoriteId);
+
+    if (isNaN(favoriteId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid favorite ID",
+      });
+    }
+
+    let consumedAt: Date | undefined;
+    if (req.body?.consumed_at !== undefined) {
+      const consumedAtResult = consumedAtSchema.safeParse(req.body.consumed_at);
+      if (!consumedAtResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: consumedAtResult.error.errors[0].message,
+        });
+      }
+      consumedAt = consumedAtResult.data;
+    }
+
+    const meal = await NutritionService.logFavorite(
+      req.user.user_id,
+      favoriteId,
+      consumedAt
+    );
+
+    res.status(201).json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Log favorite error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to log favorite";
+    res.status(message === "Favorite not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.delete("/favorites/:favoriteId", async (req: AuthRequest, res) => {
+  try {
+    const favoriteId = parseInt(req.params.favoriteId);
+
+    if (isNaN(favoriteId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid favorite ID",
+      });
+    }
+
+    await NutritionService.deleteFavorite(req.user.user_id, favoriteId);
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("💥 Delete favorite error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to delete favorite";
+    res.status(message === "Favorite not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.get("/favorites/:favoriteId/image", async (req: AuthRequest, res) => {
+  try {
+    const favoriteId = parseInt(req.params.favoriteId);
+
+    if (isNaN(favoriteId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid favorite ID",
+      });
+    }
+
+    const image = await ImageStorageService.getFavoriteImage(
+      req.user.user_id,
+      favoriteId,
+      req.query.size === "thumb" ? "thumb" : "full"
+    );
+
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        error: "Image not found",
+      });
+    }
+
+    res.setHeader("Content-Type", image.contentType);
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    res.send(image.buffer);
+  } catch (error) {
+    console.error("💥 Get favorite image error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch favorite image";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Dishes eaten recently, most habitual for the current time of day first
+router.get("/recent-foods", async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || 20, 1),
+      50
+    );
+
+    const foods = await NutritionService.getRecentFoods(
+      req.user.user_id,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: foods,
+    });
+  } catch (error) {
+    console.error("💥 Get recent foods error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch recent foods";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Serve the stored meal photo (original or thumbnail)
+router.get("/meals/:mealId/image", async (req: AuthRequest, res) => {
+  try {
+    const { mealId } = req.params;
+    const size = req.query.size === "thumb" ? "thumb" : "full";
+    const kind = req.query.kind === "leftovers" ? "leftovers" : "plate";
+
+    if (!mealId || isNaN(parseInt(mealId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal ID provided",
+      });
+    }
+
+    const image = await ImageStorageService.getMealImage(
+      req.user.user_id,
+      mealId,
+      size,
+      kind
+    );
+
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        error: "Image not found",
+      });
+    }
+
+    res.setHeader("Content-Type", image.contentType);
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    res.send(image.buffer);
+  } catch (error) {
+    console.error("💥 Get meal image error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch meal image";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Duplicate meal to a new date
 router.post("/meals/:mealId/duplicate", async (req: AuthRequest, res) => {
   try {
@@ -296,4 +925,169 @@ router.post("/meals/:mealId/duplicate", async (req: AuthRequest, res) => {
   }
 });
 
+// Every estimate a meal went through: first analysis, clarifications, updates
+router.get("/meals/:mealId/analysis-rounds", async (req: AuthRequest, res) => {
+  try {
+    const { mealId } = req.params;
+
+    if (!mealId || isNaN(parseInt(mealId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal ID provided",
+      });
+    }
+
+    const rounds = await NutritionService.getAnalysisRounds(
+      req.user.user_id,
+      mealId
+    );
+
+    res.json({
+      success: true,
+      data: rounds,
+    });
+  } catch (error) {
+    console.error("💥 Get analysis rounds error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to get analysis rounds";
+    res.status(message === "Meal not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Add an ingredient to a meal; totals are recomputed from the items
+router.post("/meals/:mealId/items", async (req: AuthRequest, res) => {
+  try {
+    const { mealId } = req.params;
+
+    if (!mealId || isNaN(parseInt(mealId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal ID provided",
+      });
+    }
+
+    const validationResult = mealItemSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const meal = await NutritionService.addMealItem(
+      req.user.user_id,
+      mealId,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Add meal item error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to add meal item";
+    res.status(message === "Meal not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Edit or re-portion a single ingredient (e.g. 150 g of rice instead of 300 g)
+router.put("/meals/:mealId/items/:itemId", async (req: AuthRequest, res) => {
+  try {
+    const { mealId, itemId } = req.params;
+
+    if (isNaN(parseInt(mealId)) || isNaN(parseInt(itemId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal or item ID provided",
+      });
+    }
+
+    const validationResult = updateMealItemSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const meal = await NutritionService.updateMealItem(
+      req.user.user_id,
+      mealId,
+      itemId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Update meal item error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update meal item";
+    res
+      .status(
+        message === "Meal not found" || message === "Meal item not found"
+          ? 404
+          : 500
+      )
+      .json({
+        success: false,
+        error: message,
+      });
+  }
+});
+
+router.delete("/meals/:mealId/items/:itemId", async (req: AuthRequest, res) => {
+  try {
+    const { mealId, itemId } = req.params;
+
+    if (isNaN(parseInt(mealId)) || isNaN(parseInt(itemId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal or item ID provided",
+      });
+    }
+
+    const meal = await NutritionService.deleteMealItem(
+      req.user.user_id,
+      mealId,
+      itemId
+    );
+
+    res.json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Delete meal item error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to remove meal item";
+    res
+      .status(
+        message === "Meal not found" || message === "Meal item not found"
+          ? 404
+          : 500
+      )
+      .json({
+        success: false,
+        error: message,
+      });
+  }
+});
+
 export { router as nutritionRoutes };
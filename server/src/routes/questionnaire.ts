@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { QuestionnaireService } from "../services/questionnaire";
+import {
+  questionnaireSchema,
+  updateQuestionnaireSchema,
+} from "../types/questionnaire";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Get the latest questionnaire answers (null before onboarding)
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const questionnaire = await QuestionnaireService.getLatest(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: questionnaire,
+    });
+  } catch (error) {
+    console.error("💥 Get questionnaire error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch questionnaire";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Get every saved version, newest first
+router.get("/history", async (req: AuthRequest, res) => {
+  try {
+    const versions = await QuestionnaireService.getHistory(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: versions,
+    });
+  } catch (error) {
+    console.error("💥 Get questionnaire history error:", error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to fetch questionnaire history";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Submit a complete set of answers as a new version
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = questionnaireSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const questionnaire = await QuestionnaireService.saveQuestionnaire(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: questionnaire,
+    });
+  } catch (error) {
+    console.error("💥 Save questionnaire error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to save questionnaire";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Change some answers; stored as a new version on top of the latest one
+router.put("/", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = updateQuestionnaireSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const questionnaire = await QuestionnaireService.updateQuestionnaire(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: questionnaire,
+    });
+  } catch (error) {
+    console.error("💥 Update questionnaire error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update questionnaire";
+    res.status(message === "Questionnaire not found" ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as questionnaireRoutes };
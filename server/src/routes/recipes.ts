@@ -0,0 +1,266 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeService } from "../services/recipes";
+import {
+  logRecipeSchema,
+  promoteRecipeSchema,
+  recipeSchema,
+  updateRecipeSchema,
+} from "../types/recipes";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Ingredients pointing at unknown foods are a bad request, not a missing recipe
+const errorStatus = (message: string) =>
+  message === "Recipe not found"
+    ? 404
+    : message === "Food not found" || message === "Portion not found"
+    ? 400
+    : 500;
+
+// List the user's recipes with nutrition per serving
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const recipes = await RecipeService.getRecipes(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: recipes,
+    });
+  } catch (error) {
+    console.error("💥 Get recipes error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch recipes";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Create a recipe
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = recipeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const recipe = await RecipeService.createRecipe(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: recipe,
+    });
+  } catch (error) {
+    console.error("💥 Create recipe error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to create recipe";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Get a single recipe
+router.get("/:recipeId", async (req: AuthRequest, res) => {
+  try {
+    const recipeId = parseInt(req.params.recipeId);
+
+    if (isNaN(recipeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe ID",
+      });
+    }
+
+    const recipe = await RecipeService.getRecipe(req.user.user_id, recipeId);
+
+    res.json({
+      success: true,
+      data: recipe,
+    });
+  } catch (error) {
+    console.error("💥 Get recipe error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch recipe";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Update a recipe; a promoted meal template is updated along with it
+router.put("/:recipeId", async (req: AuthRequest, res) => {
+  try {
+    const recipeId = parseInt(req.params.recipeId);
+
+    if (isNaN(recipeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe ID",
+      });
+    }
+
+    const validationResult = updateRecipeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const recipe = await RecipeService.updateRecipe(
+      req.user.user_id,
+      recipeId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: recipe,
+    });
+  } catch (error) {
+    console.error("💥 Update recipe error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update recipe";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Delete a recipe; meals already logged from it are kept
+router.delete("/:recipeId", async (req: AuthRequest, res) => {
+  try {
+    const recipeId = parseInt(req.params.recipeId);
+
+    if (isNaN(recipeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe ID",
+      });
+    }
+
+    await RecipeService.deleteRecipe(req.user.user_id, recipeId);
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("💥 Delete recipe error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to delete recipe";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Log a number of servings as a meal
+router.post("/:recipeId/log", async (req: AuthRequest, res) => {
+  try {
+    const recipeId = parseInt(req.params.recipeId);
+
+    if (isNaN(recipeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe ID",
+      });
+    }
+
+    const validationResult = logRecipeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const meal = await RecipeService.logRecipe(
+      req.user.user_id,
+      recipeId,
+      validationResult.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Log recipe error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to log recipe";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Make the recipe available to the user's meal plans
+router.post("/:recipeId/template", async (req: AuthRequest, res) => {
+  try {
+    const recipeId = parseInt(req.params.recipeId);
+
+    if (isNaN(recipeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe ID",
+      });
+    }
+
+    const validationResult = promoteRecipeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const template = await RecipeService.promoteRecipe(
+      req.user.user_id,
+      recipeId,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    console.error("💥 Promote recipe error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to promote recipe";
+    res.status(errorStatus(message)).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as recipeRoutes };
@@ -1,5 +1,6 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth"; // Import your AuthRequest type here
+import { requireFeature } from "../middleware/entitlements";
 import { StatisticsService } from "../services/statistics";
 import { z } from "zod";
 
@@ -57,6 +58,7 @@ router.get(
 router.get(
   "/export-report",
   authenticateToken,
+  requireFeature("pdfExport"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id?.toString();
 
@@ -0,0 +1,184 @@
+import express, { Response, Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { SubscriptionService } from "../services/subscriptions";
+import { PaymentError } from "../services/payments";
+import { planChangeSchema } from "../types/subscriptions";
+
+const router = Router();
+const webhookRouter = Router();
+
+router.use(authenticateToken);
+
+const sendPaymentError = (res: Response, error: PaymentError) =>
+  res.status(error.status).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+  });
+
+// Current plan, scheduled changes, the plans on offer and recent payments
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const subscription = await SubscriptionService.getSubscription(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Get subscription error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch subscription",
+    });
+  }
+});
+
+// Charge the first month of a higher plan, which starts right away
+router.post("/upgrade", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = planChangeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const subscription = await SubscriptionService.upgrade(
+      req.user.user_id,
+      validationResult.data.plan
+    );
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Subscription upgrade error:", error);
+    if (error instanceof PaymentError) {
+      return sendPaymentError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: "Failed to upgrade subscription",
+    });
+  }
+});
+
+// Move to a lower plan when the paid period ends; FREE cancels
+router.post("/downgrade", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = planChangeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid request data: " +
+          validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    const subscription = await SubscriptionService.downgrade(
+      req.user.user_id,
+      validationResult.data.plan
+    );
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Subscription downgrade error:", error);
+    if (error instanceof PaymentError) {
+      return sendPaymentError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: "Failed to downgrade subscription",
+    });
+  }
+});
+
+// Keep the plan until the end of the paid period, then revert to FREE
+router.post("/cancel", async (req: AuthRequest, res) => {
+  try {
+    const subscription = await SubscriptionService.cancel(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Subscription cancel error:", error);
+    if (error instanceof PaymentError) {
+      return sendPaymentError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: "Failed to cancel subscription",
+    });
+  }
+});
+
+// Undo a scheduled cancellation or downgrade
+router.post("/resume", async (req: AuthRequest, res) => {
+  try {
+    const subscription = await SubscriptionService.resume(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Subscription resume error:", error);
+    if (error instanceof PaymentError) {
+      return sendPaymentError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: "Failed to resume subscription",
+    });
+  }
+});
+
+// Payment provider webhooks. Not authenticated by session: the provider's
+// signature over the raw body is checked instead, so the body is read here
+// rather than by the JSON middleware.
+webhookRouter.post(
+  "/:provider",
+  express.raw({ type: "*/*", limit: "1mb" }),
+  async (req, res) => {
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const result = await SubscriptionService.handleWebhook(
+        req.params.provider,
+        rawBody,
+        req.headers
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error("💥 Payment webhook error:", error);
+      if (error instanceof PaymentError) {
+        return sendPaymentError(res, error);
+      }
+      // Anything else is ours; the provider will deliver the event again
+      res.status(500).json({
+        success: false,
+        error: "Failed to process webhook",
+      });
+    }
+  }
+);
+
+export { router as subscriptionRoutes, webhookRouter as paymentWebhookRoutes };
@@ -3,6 +3,10 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { AuthService } from "../services/auth";
+import { EntitlementsService } from "../services/entitlements";
+import { UsageService } from "../services/usage";
+import { GoalsService } from "../services/goals";
 
 const router = Router();
 
@@ -21,14 +25,25 @@ router.put(
           email: true,
           name: true,
           subscription_type: true,
+          role: true,
           age: true,
           weight_kg: true,
           height_cm: true,
-          aiRequestsCount: true,
+          sex: true,
+          timezone: true,
           createdAt: true,
         },
       });
 
+      // Body measurements feed the calculated nutrition goals
+      if (
+        ["age", "weight_kg", "height_cm", "sex"].some(
+          (field) => field in validatedData
+        )
+      ) {
+        await GoalsService.refreshCalculatedGoals(req.user.user_id);
+      }
+
       res.json({
         success: true,
         user: updatedUser,
@@ -46,31 +61,62 @@ router.put(
   }
 );
 
+// The user's plan: daily AI quota and usage, device limit and features
 router.get(
   "/subscription-info",
   authenticateToken,
   async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
-    };
+    try {
+      const [subscription, quota] = await Promise.all([
+        EntitlementsService.getSubscriptionInfo(req.user.user_id),
+        UsageService.getQuota(req.user.user_id),
+      ]);
+
+      res.json({
+        success: true,
+        subscription: {
+          ...subscription,
+          currentRequests: quota.used,
+          remainingRequests: quota.remaining,
+          resetAt: quota.resetAt,
+        },
+      });
+    } catch (error) {
+      console.error("💥 Subscription info error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch subscription info",
+      });
+    }
+  }
+);
 
-    const userSubscriptionType = req.user.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
+// AI calls from the usage ledger for the last `days` (default 30, max 90)
+router.get("/usage", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+
+    if (days < 1) {
+      return res.status(400).json({
+        success: false,
+        error: "days must be a positive number",
+      });
+    }
+
+    const usage = await UsageService.getHistory(req.user.user_id, days);
 
     res.json({
       success: true,
-      subscription: {
-        ...info,
-        currentRequests: req.user.aiRequestsCount,
-        resetAt: req.user.aiRequestsResetAt,
-      },
+      data: usage,
+    });
+  } catch (error) {
+    console.error("💥 Usage history error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch usage history",
     });
   }
-);
+});
 
 // NEW ENDPOINT: Get global nutritional statistics
 router.get(
@@ -107,4 +153,32 @@ router.get(
   }
 );
 
+// Delete the account together with all meals and stored meal images
+router.delete("/account", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    console.log("🗑️ Delete account request from user:", req.user.user_id);
+
+    await AuthService.deleteAccount(req.user.user_id);
+
+    res.clearCookie("auth_token", {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+    });
+    res.json({
+      success: true,
+      message: "Account deleted successfully",
+    });
+  } catch (error) {
+    console.error("💥 Delete account error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to delete account";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 export { router as userRoutes };
@@ -0,0 +1,35 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { FoodImportService } from "../services/foodImport";
+
+dotenv.config();
+
+const USAGE = `Usage: npm run foods:import -- <usda|off> <file>
+
+  usda  FoodData Central JSON download (Foundation, SR Legacy, Survey or Branded)
+  off   Open Food Facts JSONL export (one product per line)`;
+
+async function main() {
+  const [source, path] = process.argv.slice(2);
+
+  if (!path || (source !== "usda" && source !== "off")) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const summary =
+    source === "usda"
+      ? await FoodImportService.importUsdaFile(path)
+      : await FoodImportService.importOpenFoodFactsFile(path);
+
+  console.log(
+    `🎉 Imported ${summary.imported} foods, skipped ${summary.skipped} incomplete records`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Food import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
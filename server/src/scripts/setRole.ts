@@ -0,0 +1,38 @@
+import dotenv from "dotenv";
+import { UserRole } from "@prisma/client";
+import { prisma } from "../lib/database";
+
+dotenv.config();
+
+const USAGE = `Usage: npm run users:set-role -- <email> <USER|ADMIN>
+
+  Admins can use the /api/admin routes. The first one has to be set here.`;
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !Object.values(UserRole).includes(role as UserRole)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: { email },
+    data: { role: role as UserRole },
+  });
+
+  if (count === 0) {
+    console.error(`❌ No user with email ${email}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`🎉 ${email} is now ${role}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Setting role failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
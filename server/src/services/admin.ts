@@ -0,0 +1,116 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { AdminSubscriptionInput, UserSearchInput } from "../types/admin";
+import { SubscriptionService } from "./subscriptions";
+import { UsageService } from "./usage";
+
+const userSummarySelect = {
+  user_id: true,
+  email: true,
+  name: true,
+  role: true,
+  subscription_type: true,
+  subscription_end: true,
+  cancel_at_period_end: true,
+  signup_date: true,
+} as const;
+
+export class AdminService {
+  // Newest signups first
+  static async searchUsers({ q, tier, role, page, limit }: UserSearchInput) {
+    const where: Prisma.UserWhereInput = {
+      subscription_type: tier,
+      role,
+      ...(q && {
+        OR: [
+          { user_id: q },
+          { email: { contains: q, mode: "insensitive" } },
+          { name: { contains: q, mode: "insensitive" } },
+        ],
+      }),
+    };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        orderBy: { signup_date: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: userSummarySelect,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return { users, total, page, limit };
+  }
+
+  // The account with its subscription, today's AI quota, recent payments
+  // and how much it has used the app
+  static async getUser(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: {
+        ...userSummarySelect,
+        subscription_start: true,
+        pending_subscription_type: true,
+        payment_provider: true,
+        payment_subscription_id: true,
+        quota_reset_at: true,
+        timezone: true,
+        payments: {
+          orderBy: { payment_date: "desc" },
+          take: 20,
+        },
+        _count: {
+          select: { meals: true, aiUsage: true, connectedDevices: true },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const { _count, ...profile } = user;
+    return {
+      ...profile,
+      counts: _count,
+      quota: await UsageService.getQuota(user_id),
+    };
+  }
+
+  // Puts the user on a plan without charging them
+  static async changeSubscription(
+    admin_id: string,
+    user_id: string,
+    { plan, subscription_end }: AdminSubscriptionInput
+  ) {
+    await this.assertUserExists(user_id);
+
+    const subscription = await SubscriptionService.setPlan(
+      user_id,
+      plan,
+      subscription_end ?? null
+    );
+    console.log(`🛠️ Admin ${admin_id} set ${user_id} to ${plan}`);
+    return subscription;
+  }
+
+  static async resetQuota(admin_id: string, user_id: string) {
+    await this.assertUserExists(user_id);
+
+    const quota = await UsageService.resetQuota(user_id);
+    console.log(`🛠️ Admin ${admin_id} reset the AI quota of ${user_id}`);
+    return quota;
+  }
+
+  private static async assertUserExists(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { user_id: true },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+  }
+}
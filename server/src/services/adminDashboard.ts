@@ -0,0 +1,106 @@
+import { prisma } from "../lib/database";
+import { UsageService } from "./usage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAX_DASHBOARD_DAYS = 365;
+
+const startOfUTCDay = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+export class AdminDashboardService {
+  // Aggregates of one UTC day (YYYY-MM-DD). Paying users are counted as of
+  // now, so they only mean that day when computed shortly after it.
+  static async computeDay(date: string) {
+    const start = startOfUTCDay(date);
+    const end = new Date(start.getTime() + DAY_MS);
+
+    const [apiCalls, activeUsers, payingUsers, revenue] = await Promise.all([
+      UsageService.countCalls(start, end),
+      prisma.user.count({
+        where: {
+          OR: [
+            { meals: { some: { upload_time: { gte: start, lt: end } } } },
+            { aiUsage: { some: { created_at: { gte: start, lt: end } } } },
+          ],
+        },
+      }),
+      prisma.user.count({
+        where: { subscription_type: { not: "FREE" } },
+      }),
+      prisma.subscriptionPayment.aggregate({
+        where: {
+          status: "SUCCEEDED",
+          payment_date: { gte: start, lt: end },
+        },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return {
+      active_users: activeUsers,
+      paying_users: payingUsers,
+      revenue: revenue._sum.amount ?? 0,
+      api_calls: apiCalls,
+    };
+  }
+
+  // Writes the metrics of one UTC day, replacing the day's computed figures
+  // if it was recorded before. Marketing spend and notes are entered by hand
+  // and kept.
+  static async recordDay(date: string) {
+    try {
+      const metrics = await this.computeDay(date);
+
+      const record = await prisma.adminDashboard.upsert({
+        where: { date: startOfUTCDay(date) },
+        create: { date: startOfUTCDay(date), marketing_spend: 0, ...metrics },
+        update: metrics,
+      });
+
+      console.log("📈 Admin dashboard recorded for", date, metrics);
+      return record;
+    } catch (error) {
+      console.error("💥 Error recording admin dashboard:", error);
+      throw new Error("Failed to record admin dashboard");
+    }
+  }
+
+  // The days recorded over the last `days` UTC days, newest first, and
+  // today so far, which is only recorded after midnight
+  static async getDashboard(days: number) {
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const since = new Date(
+        startOfUTCDay(today).getTime() -
+          Math.min(days, MAX_DASHBOARD_DAYS) * DAY_MS
+      );
+
+      const [records, todaySoFar] = await Promise.all([
+        prisma.adminDashboard.findMany({
+          where: { date: { gte: since } },
+          orderBy: { date: "desc" },
+        }),
+        this.computeDay(today),
+      ]);
+
+      const totals = records.reduce(
+        (sum, record) => ({
+          revenue: sum.revenue + record.revenue,
+          api_calls: sum.api_calls + record.api_calls,
+          marketing_spend: sum.marketing_spend + record.marketing_spend,
+        }),
+        { revenue: 0, api_calls: 0, marketing_spend: 0 }
+      );
+
+      return {
+        today: { date: today, ...todaySoFar },
+        since,
+        totals,
+        days: records,
+      };
+    } catch (error) {
+      console.error("💥 Error fetching admin dashboard:", error);
+      throw new Error("Failed to fetch admin dashboard");
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { MealAnalysisResult, PROCESSING_LEVELS } from "./types";
+
+// JSON shape the model is asked to return for photo and text analyses
+export const ANALYSIS_RESPONSE_FORMAT = `{
+  "name": "Brief descriptive name of the meal/food",
+  "description": "Detailed description of the meal",
+  "calories": number (total calories for the portion shown),
+  "protein": number (grams),
+  "carbs": number (grams),
+  "fat": number (grams),
+  "fiber": number (grams, optional),
+  "sugar": number (grams, optional),
+  "sodium": number (milligrams, optional),
+  "confidence": number (0-100, how confident you are in the analysis),
+  "questions": ["up to 3 short questions whose answers would most improve the estimate, e.g. \"Is the sauce cream-based?\" or \"Roughly how many grams of pasta?\"; empty when confident"],
+  "ingredients": ["list", "of", "main", "ingredients"],
+  "items": [
+    {
+      "name": "component of the meal (e.g. white rice)",
+      "grams": number (estimated weight of this component),
+      "calories": number,
+      "protein": number (grams),
+      "carbs": number (grams),
+      "fat": number (grams),
+      "fiber": number (grams, optional),
+      "sugar": number (grams, optional),
+      "sodium": number (milligrams, optional)
+    }
+  ],
+  "servingSize": "description of portion size",
+  "saturatedFat": number (grams, optional),
+  "monounsaturatedFat": number (grams, optional),
+  "polyunsaturatedFat": number (grams, optional),
+  "omega3": number (grams, optional),
+  "omega6": number (grams, optional),
+  "solubleFiber": number (grams, optional),
+  "insolubleFiber": number (grams, optional),
+  "cholesterol": number (milligrams, optional),
+  "alcohol": number (grams, 0 if none),
+  "caffeine": number (milligrams, 0 if none),
+  "liquids": number (milliliters of drinks and soups, 0 if none),
+  "vitamins": { "vitamin_a_ug": number, "vitamin_c_mg": number, "vitamin_d_ug": number, ... } (amounts with the unit in the key, optional),
+  "micronutrients": { "calcium_mg": number, "iron_mg": number, "potassium_mg": number, ... } (minerals with the unit in the key, optional),
+  "glycemicIndex": number (0-100, estimated for the meal as a whole),
+  "insulinIndex": number (optional),
+  "foodCategory": "main food group, e.g. grain dish, salad, dessert, beverage",
+  "processingLevel": "${PROCESSING_LEVELS.join(" | ")}",
+  "cookingMethod": "how the food appears to be prepared",
+  "allergens": ["common allergens present, e.g. gluten, milk, eggs, nuts"],
+  "healthNotes": "brief health assessment or notes"
+}`;
+
+// Applies a validated update on top of the original analysis; anything the
+// update leaves out keeps its original value
+export function mergeAnalysisUpdate(
+  updated: MealAnalysisResult,
+  originalAnalysis: MealAnalysisResult
+): MealAnalysisResult {
+  const defined = Object.fromEntries(
+    Object.entries(updated).filter(([, value]) => value !== undefined)
+  ) as Partial<MealAnalysisResult>;
+
+  return {
+    ...originalAnalysis,
+    ...defined,
+    // Questions belong to the estimate that raised them, so answered ones
+    // never carry over
+    questions: updated.questions,
+  };
+}
@@ -0,0 +1,16 @@
+// Returned to the client as `code` next to the error message
+export type AIErrorCode =
+  | "AI_EMPTY_RESPONSE" // the model returned no content
+  | "AI_INVALID_RESPONSE" // still invalid after the repair attempt
+  | "AI_PROVIDER_ERROR"; // the provider request itself failed
+
+export class AIServiceError extends Error {
+  constructor(
+    readonly code: AIErrorCode,
+    message: string,
+    readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = "AIServiceError";
+  }
+}
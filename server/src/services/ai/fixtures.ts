@@ -0,0 +1,340 @@
+import { MealAnalysisResult } from "./types";
+import { AIPlanMeal } from "./schemas";
+
+// A recipe in the shape meal plan responses use; the plan decides portions
+export type FixtureMealTemplate = Omit<
+  AIPlanMeal,
+  "portion_multiplier" | "is_optional"
+>;
+
+export interface AIFixtures {
+  // Text analyses use the first entry whose keywords appear in the
+  // description; photos and unmatched text pick one from a hash of the input
+  mealAnalyses: { keywords: string[]; analysis: MealAnalysisResult }[];
+  // Pool that meal plans and replacements are assembled from
+  mealTemplates: FixtureMealTemplate[];
+}
+
+export const DEFAULT_FIXTURES: AIFixtures = {
+  mealAnalyses: [
+    {
+      keywords: ["oat", "oatmeal", "porridge", "berries"],
+      analysis: {
+        name: "Oatmeal with Berries",
+        description: "Rolled oats cooked in milk, topped with mixed berries",
+        calories: 320,
+        protein: 12,
+        carbs: 52,
+        fat: 7,
+        fiber: 7,
+        sugar: 14,
+        sodium: 110,
+        confidence: 90,
+        ingredients: ["rolled oats", "milk", "mixed berries"],
+        items: [
+          { name: "Rolled oats", grams: 50, calories: 190, protein: 6.5, carbs: 33, fat: 3.5, fiber: 5, sugar: 0.5, sodium: 2 },
+          { name: "Milk", grams: 200, calories: 100, protein: 5.5, carbs: 10, fat: 3.5, sugar: 10, sodium: 105 },
+          { name: "Mixed berries", grams: 60, calories: 30, protein: 0, carbs: 9, fat: 0, fiber: 2, sugar: 3.5, sodium: 3 },
+        ],
+        servingSize: "1 bowl (310 g)",
+        saturatedFat: 2.6,
+        monounsaturatedFat: 1.8,
+        polyunsaturatedFat: 1.4,
+        solubleFiber: 2.8,
+        insolubleFiber: 4.2,
+        cholesterol: 10,
+        alcohol: 0,
+        caffeine: 0,
+        liquids: 0,
+        vitamins: { vitamin_b12_ug: 0.9, vitamin_c_mg: 12, vitamin_d_ug: 2 },
+        micronutrients: { calcium_mg: 260, iron_mg: 2.3, magnesium_mg: 85, potassium_mg: 480 },
+        glycemicIndex: 55,
+        foodCategory: "grain dish",
+        processingLevel: "minimally_processed",
+        cookingMethod: "simmered",
+        allergens: ["milk", "gluten"],
+        healthNotes: "High in fiber and a good source of slow-release carbohydrates.",
+      },
+    },
+    {
+      keywords: ["chicken", "salad"],
+      analysis: {
+        name: "Grilled Chicken Salad",
+        description: "Grilled chicken breast over mixed greens with olive oil dressing",
+        calories: 410,
+        protein: 38,
+        carbs: 12,
+        fat: 23,
+        fiber: 4,
+        sugar: 6,
+        sodium: 520,
+        confidence: 85,
+        ingredients: ["chicken breast", "mixed greens", "cherry tomatoes", "olive oil"],
+        items: [
+          { name: "Grilled chicken breast", grams: 120, calories: 200, protein: 36, carbs: 0, fat: 5, sodium: 380 },
+          { name: "Mixed greens and tomatoes", grams: 150, calories: 40, protein: 2, carbs: 11, fat: 0.5, fiber: 4, sugar: 6, sodium: 40 },
+          { name: "Olive oil dressing", grams: 20, calories: 170, protein: 0, carbs: 1, fat: 17.5, sodium: 100 },
+        ],
+        servingSize: "1 large plate (290 g)",
+        saturatedFat: 3.9,
+        monounsaturatedFat: 14.2,
+        polyunsaturatedFat: 3.1,
+        omega3: 0.2,
+        omega6: 2.6,
+        cholesterol: 105,
+        alcohol: 0,
+        caffeine: 0,
+        liquids: 0,
+        vitamins: { vitamin_a_ug: 280, vitamin_b6_mg: 0.9, vitamin_c_mg: 25, vitamin_k_ug: 120 },
+        micronutrients: { iron_mg: 2.1, potassium_mg: 760, zinc_mg: 1.4 },
+        glycemicIndex: 15,
+        foodCategory: "salad",
+        processingLevel: "minimally_processed",
+        cookingMethod: "grilled",
+        allergens: [],
+        healthNotes: "Lean protein with healthy fats; watch the dressing portion.",
+      },
+    },
+    {
+      keywords: ["pasta", "spaghetti", "bolognese"],
+      analysis: {
+        name: "Spaghetti Bolognese",
+        description: "Spaghetti with beef and tomato sauce, topped with parmesan",
+        calories: 650,
+        protein: 32,
+        carbs: 78,
+        fat: 22,
+        fiber: 6,
+        sugar: 11,
+        sodium: 780,
+        confidence: 80,
+        ingredients: ["spaghetti", "ground beef", "tomato sauce", "parmesan"],
+        items: [
+          { name: "Cooked spaghetti", grams: 220, calories: 350, protein: 13, carbs: 68, fat: 2, fiber: 4, sugar: 1, sodium: 5 },
+          { name: "Bolognese sauce", grams: 180, calories: 260, protein: 16, carbs: 10, fat: 17, fiber: 2, sugar: 10, sodium: 620 },
+          { name: "Parmesan", grams: 10, calories: 40, protein: 3, carbs: 0, fat: 3, sodium: 155 },
+        ],
+        servingSize: "1 plate (410 g)",
+        saturatedFat: 8.4,
+        monounsaturatedFat: 8.9,
+        polyunsaturatedFat: 1.6,
+        cholesterol: 70,
+        alcohol: 0,
+        caffeine: 0,
+        liquids: 0,
+        vitamins: { vitamin_a_ug: 90, vitamin_b12_ug: 2.1, vitamin_c_mg: 9 },
+        micronutrients: { calcium_mg: 150, iron_mg: 4.2, potassium_mg: 820, zinc_mg: 5.8 },
+        glycemicIndex: 50,
+        foodCategory: "pasta dish",
+        processingLevel: "processed",
+        cookingMethod: "boiled and simmered",
+        allergens: ["gluten", "milk"],
+        healthNotes: "Filling and protein-rich; sodium is on the high side.",
+      },
+    },
+  ],
+  mealTemplates: [
+    {
+      name: "Greek Yogurt Parfait",
+      description: "Greek yogurt layered with granola and berries",
+      meal_timing: "BREAKFAST",
+      dietary_category: "VEGETARIAN",
+      prep_time_minutes: 5,
+      difficulty_level: 1,
+      calories: 380,
+      protein_g: 24,
+      carbs_g: 48,
+      fats_g: 10,
+      fiber_g: 5,
+      sugar_g: 22,
+      sodium_mg: 120,
+      ingredients: [
+        { name: "greek yogurt", quantity: 200, unit: "g", category: "Dairy" },
+        { name: "granola", quantity: 40, unit: "g", category: "Grains" },
+        { name: "mixed berries", quantity: 80, unit: "g", category: "Produce" },
+      ],
+      instructions: [
+        { step: 1, text: "Spoon half the yogurt into a glass." },
+        { step: 2, text: "Add half the granola and berries, then repeat the layers." },
+      ],
+      allergens: ["dairy", "gluten", "nuts"],
+    },
+    {
+      name: "Veggie Scrambled Eggs",
+      description: "Eggs scrambled with spinach and peppers, with wholegrain toast",
+      meal_timing: "BREAKFAST",
+      dietary_category: "HIGH_PROTEIN",
+      prep_time_minutes: 10,
+      difficulty_level: 1,
+      calories: 420,
+      protein_g: 26,
+      carbs_g: 30,
+      fats_g: 21,
+      fiber_g: 5,
+      sugar_g: 5,
+      sodium_mg: 480,
+      ingredients: [
+        { name: "eggs", quantity: 3, unit: "piece", category: "Protein" },
+        { name: "spinach", quantity: 40, unit: "g", category: "Produce" },
+        { name: "bell pepper", quantity: 60, unit: "g", category: "Produce" },
+        { name: "wholegrain bread", quantity: 1, unit: "slice", category: "Grains" },
+        { name: "olive oil", quantity: 1, unit: "tsp", category: "Oils" },
+      ],
+      instructions: [
+        { step: 1, text: "Sauté the pepper and spinach in olive oil for 2 minutes." },
+        { step: 2, text: "Add the beaten eggs and stir gently until just set." },
+        { step: 3, text: "Serve with toasted bread." },
+      ],
+      allergens: ["eggs", "gluten"],
+    },
+    {
+      name: "Quinoa Chickpea Bowl",
+      description: "Quinoa with roasted chickpeas, cucumber, tomato and tahini",
+      meal_timing: "LUNCH",
+      dietary_category: "VEGAN",
+      prep_time_minutes: 25,
+      difficulty_level: 2,
+      calories: 560,
+      protein_g: 21,
+      carbs_g: 72,
+      fats_g: 20,
+      fiber_g: 14,
+      sugar_g: 8,
+      sodium_mg: 420,
+      ingredients: [
+        { name: "quinoa", quantity: 70, unit: "g", category: "Grains" },
+        { name: "chickpeas", quantity: 120, unit: "g", category: "Protein" },
+        { name: "cucumber", quantity: 80, unit: "g", category: "Produce" },
+        { name: "tomato", quantity: 80, unit: "g", category: "Produce" },
+        { name: "tahini", quantity: 1, unit: "tbsp", category: "Condiments" },
+      ],
+      instructions: [
+        { step: 1, text: "Cook the quinoa according to the package." },
+        { step: 2, text: "Roast the chickpeas at 200°C for 15 minutes." },
+        { step: 3, text: "Combine with chopped vegetables and drizzle with tahini." },
+      ],
+      allergens: ["sesame"],
+    },
+    {
+      name: "Turkey Wrap",
+      description: "Wholewheat wrap with turkey, hummus and salad",
+      meal_timing: "LUNCH",
+      dietary_category: "BALANCED",
+      prep_time_minutes: 10,
+      difficulty_level: 1,
+      calories: 510,
+      protein_g: 34,
+      carbs_g: 50,
+      fats_g: 17,
+      fiber_g: 7,
+      sugar_g: 5,
+      sodium_mg: 980,
+      ingredients: [
+        { name: "wholewheat tortilla", quantity: 1, unit: "piece", category: "Grains" },
+        { name: "turkey breast", quantity: 100, unit: "g", category: "Protein" },
+        { name: "hummus", quantity: 2, unit: "tbsp", category: "Condiments" },
+        { name: "lettuce", quantity: 30, unit: "g", category: "Produce" },
+      ],
+      instructions: [
+        { step: 1, text: "Spread hummus over the tortilla." },
+        { step: 2, text: "Add turkey and lettuce, then roll tightly." },
+      ],
+      allergens: ["gluten", "sesame"],
+    },
+    {
+      name: "Baked Salmon with Vegetables",
+      description: "Salmon fillet baked with broccoli and sweet potato",
+      meal_timing: "DINNER",
+      dietary_category: "MEDITERRANEAN",
+      prep_time_minutes: 30,
+      difficulty_level: 2,
+      calories: 620,
+      protein_g: 40,
+      carbs_g: 45,
+      fats_g: 28,
+      fiber_g: 8,
+      sugar_g: 10,
+      sodium_mg: 350,
+      ingredients: [
+        { name: "salmon fillet", quantity: 150, unit: "g", category: "Protein" },
+        { name: "broccoli", quantity: 150, unit: "g", category: "Produce" },
+        { name: "sweet potato", quantity: 200, unit: "g", category: "Produce" },
+        { name: "olive oil", quantity: 1, unit: "tbsp", category: "Oils" },
+      ],
+      instructions: [
+        { step: 1, text: "Cube the sweet potato and roast at 200°C for 10 minutes." },
+        { step: 2, text: "Add the salmon and broccoli, drizzle with oil and bake 15 minutes more." },
+      ],
+      allergens: ["fish"],
+    },
+    {
+      name: "Chicken Stir-Fry",
+      description: "Chicken and vegetables stir-fried with brown rice",
+      meal_timing: "DINNER",
+      dietary_category: "HIGH_PROTEIN",
+      prep_time_minutes: 25,
+      difficulty_level: 2,
+      calories: 590,
+      protein_g: 42,
+      carbs_g: 62,
+      fats_g: 16,
+      fiber_g: 6,
+      sugar_g: 9,
+      sodium_mg: 760,
+      ingredients: [
+        { name: "chicken breast", quantity: 150, unit: "g", category: "Protein" },
+        { name: "brown rice", quantity: 70, unit: "g", category: "Grains" },
+        { name: "mixed stir-fry vegetables", quantity: 200, unit: "g", category: "Produce" },
+        { name: "soy sauce", quantity: 1, unit: "tbsp", category: "Condiments" },
+      ],
+      instructions: [
+        { step: 1, text: "Cook the rice." },
+        { step: 2, text: "Stir-fry sliced chicken until golden, add vegetables and soy sauce." },
+        { step: 3, text: "Serve over the rice." },
+      ],
+      allergens: ["soy", "gluten"],
+    },
+    {
+      name: "Apple with Peanut Butter",
+      description: "Sliced apple with a spoon of peanut butter",
+      meal_timing: "AFTERNOON_SNACK",
+      dietary_category: "VEGAN",
+      prep_time_minutes: 2,
+      difficulty_level: 1,
+      calories: 190,
+      protein_g: 4,
+      carbs_g: 25,
+      fats_g: 8,
+      fiber_g: 5,
+      sugar_g: 19,
+      sodium_mg: 75,
+      ingredients: [
+        { name: "apple", quantity: 1, unit: "piece", category: "Produce" },
+        { name: "peanut butter", quantity: 1, unit: "tbsp", category: "Nuts" },
+      ],
+      instructions: [{ step: 1, text: "Slice the apple and serve with peanut butter." }],
+      allergens: ["nuts"],
+    },
+    {
+      name: "Hummus and Carrot Sticks",
+      description: "Carrot sticks with hummus",
+      meal_timing: "MORNING_SNACK",
+      dietary_category: "VEGAN",
+      prep_time_minutes: 5,
+      difficulty_level: 1,
+      calories: 150,
+      protein_g: 5,
+      carbs_g: 17,
+      fats_g: 7,
+      fiber_g: 6,
+      sugar_g: 6,
+      sodium_mg: 260,
+      ingredients: [
+        { name: "carrots", quantity: 120, unit: "g", category: "Produce" },
+        { name: "hummus", quantity: 3, unit: "tbsp", category: "Condiments" },
+      ],
+      instructions: [{ step: 1, text: "Cut carrots into sticks and serve with hummus." }],
+      allergens: ["sesame"],
+    },
+  ],
+};
@@ -0,0 +1,151 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import {
+  AIProvider,
+  LeftoversEstimate,
+  MealAnalysisResult,
+  MealPlanRequest,
+  ReplacementMealRequest,
+} from "./types";
+import { AIFixtures, DEFAULT_FIXTURES } from "./fixtures";
+import { LocalAIProvider } from "./local";
+import { OpenAIProvider } from "./openai";
+import {
+  AIMealPlan,
+  AIReplacementMeal,
+  mealAnalysisResponseSchema,
+  planMealSchema,
+} from "./schemas";
+
+export * from "./types";
+export { AIServiceError } from "./errors";
+export { collectUsage, emptyUsage } from "./usage";
+export type { AIUsageTotals } from "./usage";
+export type { AIErrorCode } from "./errors";
+export type { AIMealPlan, AIPlanMeal, AIReplacementMeal } from "./schemas";
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+const fixturesFileSchema = z.object({
+  mealAnalyses: z
+    .array(
+      z.object({
+        keywords: z.array(z.string()),
+        analysis: mealAnalysisResponseSchema,
+      })
+    )
+    .optional(),
+  mealTemplates: z
+    .array(planMealSchema.omit({ portion_multiplier: true, is_optional: true }))
+    .optional(),
+});
+
+let provider: AIProvider | null = null;
+
+const loadFixtures = (): AIFixtures => {
+  const file = process.env.AI_FIXTURES_FILE;
+  if (!file) {
+    return DEFAULT_FIXTURES;
+  }
+
+  // Checked against the live response schemas, so a broken fixture fails
+  // on first use rather than producing meals a model never could
+  const fixtures = fixturesFileSchema.parse(
+    JSON.parse(readFileSync(file, "utf8"))
+  );
+  return {
+    mealAnalyses: fixtures.mealAnalyses?.length
+      ? fixtures.mealAnalyses
+      : DEFAULT_FIXTURES.mealAnalyses,
+    mealTemplates: fixtures.mealTemplates?.length
+      ? fixtures.mealTemplates
+      : DEFAULT_FIXTURES.mealTemplates,
+  };
+};
+
+// Without an explicit AI_PROVIDER, OpenAI is used whenever a key is
+// configured, except under tests which always stay offline
+const getProvider = (): AIProvider => {
+  if (!provider) {
+    const providerName =
+      process.env.AI_PROVIDER ||
+      (process.env.OPENAI_API_KEY && process.env.NODE_ENV !== "test"
+        ? "openai"
+        : "local");
+
+    if (providerName === "openai") {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY environment variable is not set");
+      }
+      const textModel = process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+      provider = new OpenAIProvider(process.env.OPENAI_API_KEY, {
+        text: textModel,
+        vision: process.env.OPENAI_VISION_MODEL || textModel,
+      });
+    } else if (providerName === "local") {
+      provider = new LocalAIProvider(loadFixtures());
+    } else {
+      throw new Error(`Unknown AI provider: ${providerName}`);
+    }
+
+    console.log("🧠 AI provider:", provider.name);
+  }
+  return provider;
+};
+
+export class AIService {
+  static get providerName() {
+    return getProvider().name;
+  }
+
+  static analyzeMealImage(
+    imageBase64: string,
+    language: string = "english",
+    updateText?: string
+  ): Promise<MealAnalysisResult> {
+    return getProvider().analyzeMealImage(imageBase64, language, updateText);
+  }
+
+  static analyzeMealText(
+    description: string,
+    language: string = "english"
+  ): Promise<MealAnalysisResult> {
+    return getProvider().analyzeMealText(description, language);
+  }
+
+  static updateMealAnalysis(
+    originalAnalysis: MealAnalysisResult,
+    updateText: string,
+    language: string = "english"
+  ): Promise<MealAnalysisResult> {
+    return getProvider().updateMealAnalysis(
+      originalAnalysis,
+      updateText,
+      language
+    );
+  }
+
+  static estimateLeftovers(
+    analysis: MealAnalysisResult,
+    plateImageBase64: string,
+    leftoversImageBase64: string,
+    language: string = "english"
+  ): Promise<LeftoversEstimate> {
+    return getProvider().estimateLeftovers(
+      analysis,
+      plateImageBase64,
+      leftoversImageBase64,
+      language
+    );
+  }
+
+  static generateMealPlan(userProfile: MealPlanRequest): Promise<AIMealPlan> {
+    return getProvider().generateMealPlan(userProfile);
+  }
+
+  static generateReplacementMeal(
+    request: ReplacementMealRequest
+  ): Promise<AIReplacementMeal> {
+    return getProvider().generateReplacementMeal(request);
+  }
+}
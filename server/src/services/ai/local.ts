@@ -0,0 +1,268 @@
+import { MealTiming } from "@prisma/client";
+import {
+  AIProvider,
+  LeftoversEstimate,
+  MealAnalysisResult,
+  MealPlanRequest,
+  ReplacementMealRequest,
+} from "./types";
+import { AIFixtures, FixtureMealTemplate } from "./fixtures";
+import { AIMealPlan, AIReplacementMeal } from "./schemas";
+
+const DAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const SNACK_TIMINGS: string[] = [
+  MealTiming.SNACK,
+  MealTiming.MORNING_SNACK,
+  MealTiming.AFTERNOON_SNACK,
+];
+
+// FNV-1a, so the same input always picks the same fixture
+const hash = (input: string) => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    value ^= input.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Meal slots for a day, matching the timings the OpenAI prompt asks for
+const mealTimings = (
+  mealsPerDay: number,
+  snacksPerDay: number
+): MealTiming[] => {
+  const meals: MealTiming[] = [
+    MealTiming.BREAKFAST,
+    MealTiming.LUNCH,
+    MealTiming.DINNER,
+  ].slice(
+    0,
+    Math.max(1, Math.min(mealsPerDay, 3))
+  );
+  const snacks: MealTiming[] =
+    snacksPerDay >= 2
+      ? [MealTiming.MORNING_SNACK, MealTiming.AFTERNOON_SNACK]
+      : snacksPerDay === 1
+      ? [MealTiming.AFTERNOON_SNACK]
+      : [];
+  return [...meals, ...snacks];
+};
+
+const sameSlot = (template: FixtureMealTemplate, timing: string) =>
+  template.meal_timing === timing ||
+  (SNACK_TIMINGS.includes(template.meal_timing) &&
+    SNACK_TIMINGS.includes(timing));
+
+// Offline provider for local development and tests. Results come from
+// fixtures and depend only on the input, never on the network.
+export class LocalAIProvider implements AIProvider {
+  readonly name = "local";
+
+  constructor(private readonly fixtures: AIFixtures) {}
+
+  async analyzeMealImage(
+    imageBase64: string,
+    language: string = "english",
+    updateText?: string
+  ): Promise<MealAnalysisResult> {
+    const analysis = this.pickAnalysis(imageBase64);
+    return updateText
+      ? this.updateMealAnalysis(analysis, updateText, language)
+      : analysis;
+  }
+
+  async analyzeMealText(
+    description: string,
+    language: string = "english"
+  ): Promise<MealAnalysisResult> {
+    const text = description.toLowerCase();
+    const match = this.fixtures.mealAnalyses.find((fixture) =>
+      fixture.keywords.some((keyword) => text.includes(keyword.toLowerCase()))
+    );
+
+    return match ? clone(match.analysis) : this.pickAnalysis(text);
+  }
+
+  async updateMealAnalysis(
+    originalAnalysis: MealAnalysisResult,
+    updateText: string,
+    language: string = "english"
+  ): Promise<MealAnalysisResult> {
+    // More details from the user always make the estimate more certain
+    return {
+      ...clone(originalAnalysis),
+      description: [originalAnalysis.description, `Updated: ${updateText}`]
+        .filter(Boolean)
+        .join(" "),
+      confidence: Math.min(100, originalAnalysis.confidence + 10),
+      questions: undefined,
+    };
+  }
+
+  // Somewhere between half and all of the plate, fixed per leftovers photo
+  async estimateLeftovers(
+    analysis: MealAnalysisResult,
+    plateImageBase64: string,
+    leftoversImageBase64: string,
+    language: string = "english"
+  ): Promise<LeftoversEstimate> {
+    const eatenFraction = 0.5 + (hash(leftoversImageBase64) % 6) / 10;
+
+    return {
+      eatenFraction,
+      items: (analysis.items ?? []).map((item) => ({
+        name: item.name,
+        eatenFraction,
+      })),
+    };
+  }
+
+  async generateMealPlan(userProfile: MealPlanRequest): Promise<AIMealPlan> {
+    const timings = mealTimings(
+      userProfile.meals_per_day,
+      userProfile.snacks_per_day
+    );
+    const templates = this.allowedTemplates(
+      userProfile.excluded_ingredients,
+      userProfile.allergies,
+      userProfile.own_meals
+    );
+
+    const plannedCalories = timings.reduce(
+      (sum, timing) =>
+        sum + (this.slotTemplates(templates, timing)[0]?.calories || 0),
+      0
+    );
+    const multiplier = plannedCalories
+      ? Math.min(
+          2,
+          Math.max(0.5, userProfile.target_calories_daily / plannedCalories)
+        )
+      : 1;
+
+    const weekly_plan = DAYS.map((day, day_index) => ({
+      day,
+      day_index,
+      meals: timings.map((timing) => {
+        const options = this.slotTemplates(templates, timing);
+        const template = options[day_index % options.length];
+        return this.toPlanMeal(template, timing, multiplier);
+      }),
+    }));
+
+    const dailyAverage = (field: "calories" | "protein_g") =>
+      weekly_plan.reduce(
+        (sum, day) =>
+          sum +
+          day.meals.reduce(
+            (total, meal) => total + meal[field] * meal.portion_multiplier,
+            0
+          ),
+        0
+      ) / DAYS.length;
+
+    return {
+      weekly_plan,
+      weekly_nutrition_summary: {
+        avg_daily_calories: Math.round(dailyAverage("calories")),
+        avg_daily_protein: Math.round(dailyAverage("protein_g")),
+        goal_adherence: "Generated from local fixtures",
+      },
+      shopping_tips: [
+        "Buy produce for the first half of the week and restock midweek",
+      ],
+      meal_prep_suggestions: ["Cook grains in bulk at the start of the week"],
+    };
+  }
+
+  async generateReplacementMeal(
+    request: ReplacementMealRequest
+  ): Promise<AIReplacementMeal> {
+    const { current_meal, user_preferences } = request;
+    const options = this.slotTemplates(
+      this.allowedTemplates(
+        user_preferences.excluded_ingredients,
+        user_preferences.allergies
+      ),
+      current_meal.meal_timing
+    ).filter((template) => template.name !== current_meal.name);
+
+    const pool = options.length
+      ? options
+      : this.fixtures.mealTemplates.filter(
+          (template) => template.name !== current_meal.name
+        );
+    const template = pool[hash(current_meal.name) % pool.length];
+
+    return {
+      ...this.toPlanMeal(template, current_meal.meal_timing as MealTiming, 1),
+      replacement_reason: `A different ${current_meal.meal_timing.toLowerCase()} option from the local fixtures`,
+    };
+  }
+
+  private pickAnalysis(input: string): MealAnalysisResult {
+    const analyses = this.fixtures.mealAnalyses;
+    return clone(analyses[hash(input) % analyses.length].analysis);
+  }
+
+  // Falls back to every template when the restrictions rule them all out.
+  // The user's own meals come first, so each slot rotates through them.
+  private allowedTemplates(
+    excluded: string[],
+    allergies: any[],
+    ownMeals: FixtureMealTemplate[] = []
+  ) {
+    const blocked = [...excluded, ...allergies]
+      .filter((value) => typeof value === "string" && value.trim())
+      .map((value: string) => value.toLowerCase());
+
+    const pool = [...ownMeals, ...this.fixtures.mealTemplates];
+    const allowed = pool.filter(
+      (template) =>
+        !blocked.some(
+          (word) =>
+            template.allergens.some((allergen) =>
+              allergen.toLowerCase().includes(word)
+            ) ||
+            template.ingredients.some((ingredient) =>
+              ingredient.name.toLowerCase().includes(word)
+            )
+        )
+    );
+
+    return allowed.length ? allowed : pool;
+  }
+
+  private slotTemplates(templates: FixtureMealTemplate[], timing: string) {
+    const options = templates.filter((template) => sameSlot(template, timing));
+    return options.length ? options : templates;
+  }
+
+  // Nutrition stays per template portion; the plan service applies the
+  // multiplier when it totals a day
+  private toPlanMeal(
+    template: FixtureMealTemplate,
+    timing: MealTiming,
+    multiplier: number
+  ) {
+    return {
+      ...clone(template),
+      meal_timing: timing,
+      portion_multiplier: round(multiplier),
+      is_optional: SNACK_TIMINGS.includes(timing),
+    };
+  }
+}
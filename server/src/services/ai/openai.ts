@@ -0,0 +1,568 @@
+import OpenAI from "openai";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { z } from "zod";
+import {
+  AIProvider,
+  LeftoversEstimate,
+  MealAnalysisResult,
+  MealPlanRequest,
+  ReplacementMealRequest,
+} from "./types";
+import { ANALYSIS_RESPONSE_FORMAT, mergeAnalysisUpdate } from "./analysis";
+import { AIServiceError } from "./errors";
+import { reportUsage } from "./usage";
+import {
+  AIMealPlan,
+  AIReplacementMeal,
+  leftoversResponseSchema,
+  mealAnalysisResponseSchema,
+  mealPlanResponseSchema,
+  replacementMealResponseSchema,
+  validateResponse,
+} from "./schemas";
+
+// Invalid replies get this many follow-up turns asking for a fix
+const MAX_REPAIR_ATTEMPTS = 1;
+
+interface CompletionOptions {
+  model: string;
+  max_tokens: number;
+  temperature: number;
+}
+
+const repairPrompt = (issues: string[]) =>
+  `Your previous reply did not match the required JSON format:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Reply again with only the corrected JSON object. Keep every value that was already valid.`;
+
+export interface OpenAIModels {
+  vision: string; // photo analysis, must accept image input
+  text: string; // text analysis, updates and meal plans
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = "openai";
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string, private readonly models: OpenAIModels) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async analyzeMealImage(
+    imageBase64: string,
+    language: string = "english",
+    updateText?: string
+  ): Promise<MealAnalysisResult> {
+    try {
+      console.log("🤖 Starting OpenAI meal analysis...");
+      console.log("📊 Image data length:", imageBase64.length);
+      console.log("🌍 Language:", language);
+      console.log("📝 Update text:", updateText ? "Provided" : "None");
+
+      const systemPrompt = `You are a professional nutritionist and food analyst. Analyze the food image and provide detailed nutritional information.
+
+IMPORTANT INSTRUCTIONS:
+1. Analyze the food items visible in the image
+2. Estimate portion sizes based on visual cues
+3. Provide accurate nutritional values per serving shown
+4. If multiple items, list each one under "items" and sum up the total nutrition
+5. Be conservative with estimates - better to underestimate than overestimate
+6. Consider cooking methods that affect nutrition
+7. Account for added oils, sauces, and seasonings visible
+
+${
+  updateText
+    ? `ADDITIONAL CONTEXT: The user provided this additional information: "${updateText}". Please incorporate this into your analysis and adjust nutritional values accordingly.`
+    : ""
+}
+
+Respond with a JSON object containing:
+${ANALYSIS_RESPONSE_FORMAT}
+
+Language for response: ${language}`;
+
+      const userPrompt = updateText
+        ? `Please analyze this food image. Additional context: ${updateText}`
+        : "Please analyze this food image and provide detailed nutritional information.";
+
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: userPrompt,
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:image/jpeg;base64,${imageBase64}`,
+                detail: "high",
+              },
+            },
+          ],
+        },
+      ];
+
+      const analysisResult = await this.completeJson(
+        mealAnalysisResponseSchema,
+        messages,
+        {
+          model: this.models.vision,
+          max_tokens: 1500,
+          temperature: 0.1, // Low temperature for consistent results
+        },
+        "meal analysis"
+      );
+
+      console.log("✅ Analysis completed:", analysisResult);
+      return analysisResult;
+    } catch (error) {
+      console.error("💥 OpenAI analysis error:", error);
+      throw error;
+    }
+  }
+
+  async analyzeMealText(
+    description: string,
+    language: string = "english"
+  ): Promise<MealAnalysisResult> {
+    try {
+      console.log("🤖 Starting OpenAI text meal analysis...");
+      console.log("📝 Description:", description);
+
+      const systemPrompt = `You are a professional nutritionist. The user describes a meal in words instead of sending a photo. Estimate its nutritional content.
+
+IMPORTANT INSTRUCTIONS:
+1. Identify every food and drink mentioned
+2. Use the quantities given; otherwise assume a typical single portion
+3. List each food or drink under "items" and sum up the total nutrition
+4. Account for preparation mentioned (e.g. butter on toast, milk in a latte)
+5. Be conservative with estimates - better to underestimate than overestimate
+
+Respond with a JSON object containing:
+${ANALYSIS_RESPONSE_FORMAT}
+
+Language for response: ${language}`;
+
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content: description,
+        },
+      ];
+
+      const analysisResult = await this.completeJson(
+        mealAnalysisResponseSchema,
+        messages,
+        { model: this.models.text, max_tokens: 1500, temperature: 0.1 },
+        "meal analysis"
+      );
+
+      console.log("✅ Text analysis completed:", analysisResult);
+      return analysisResult;
+    } catch (error) {
+      console.error("💥 OpenAI text analysis error:", error);
+      throw error;
+    }
+  }
+
+  async updateMealAnalysis(
+    originalAnalysis: MealAnalysisResult,
+    updateText: string,
+    language: string = "english"
+  ): Promise<MealAnalysisResult> {
+    try {
+      console.log("🔄 Updating meal analysis with additional info...");
+      console.log("📝 Update text:", updateText);
+
+      const systemPrompt = `You are a professional nutritionist. The user has provided additional information about their meal. Update the nutritional analysis accordingly.
+
+ORIGINAL ANALYSIS:
+${JSON.stringify(originalAnalysis, null, 2)}
+
+ADDITIONAL INFORMATION FROM USER:
+"${updateText}"
+
+Please provide an updated nutritional analysis that incorporates this new information. Adjust calories, macronutrients, and other values as needed. If the analysis has "items", update the affected items and keep the totals equal to their sum. Raise or lower "confidence" to match what is known now, and only include "questions" that the new information leaves open.
+
+Respond with a JSON object in the same format as the original analysis.
+
+Language for response: ${language}`;
+
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content: `Please update the nutritional analysis based on this additional information: "${updateText}"`,
+        },
+      ];
+
+      const updatedResult = mergeAnalysisUpdate(
+        await this.completeJson(
+          mealAnalysisResponseSchema,
+          messages,
+          { model: this.models.text, max_tokens: 1500, temperature: 0.1 },
+          "meal analysis"
+        ),
+        originalAnalysis
+      );
+
+      console.log("✅ Update completed:", updatedResult);
+      return updatedResult;
+    } catch (error) {
+      console.error("💥 OpenAI update error:", error);
+      throw error;
+    }
+  }
+
+  async estimateLeftovers(
+    analysis: MealAnalysisResult,
+    plateImageBase64: string,
+    leftoversImageBase64: string,
+    language: string = "english"
+  ): Promise<LeftoversEstimate> {
+    try {
+      console.log("🍽️ Estimating eaten portion from leftovers photo...");
+
+      const systemPrompt = `You are a professional nutritionist. You get two photos of the same meal: the full plate before eating and the leftovers after. Estimate how much of each item was eaten.
+
+ANALYSIS OF THE FULL PLATE:
+${JSON.stringify(analysis, null, 2)}
+
+IMPORTANT INSTRUCTIONS:
+1. Compare each item in the analysis between the two photos
+2. "eatenFraction" is the share that was eaten: 0 means untouched, 1 means finished
+3. Use the item names exactly as they appear in the analysis
+4. Items that can't be seen in the leftovers photo were finished
+5. The overall "eatenFraction" is weighted by calories
+
+Respond with a JSON object containing:
+{
+  "eatenFraction": number (0-1, the meal as a whole),
+  "items": [{ "name": "item name from the analysis", "eatenFraction": number (0-1) }]
+}
+
+Language for response: ${language}`;
+
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: "The first photo is the full plate, the second one the leftovers.",
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:image/jpeg;base64,${plateImageBase64}`,
+                detail: "high",
+              },
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:image/jpeg;base64,${leftoversImageBase64}`,
+                detail: "high",
+              },
+            },
+          ],
+        },
+      ];
+
+      const estimate = await this.completeJson(
+        leftoversResponseSchema,
+        messages,
+        { model: this.models.vision, max_tokens: 800, temperature: 0.1 },
+        "leftovers estimate"
+      );
+
+      console.log("✅ Leftovers estimate:", estimate);
+      return estimate;
+    } catch (error) {
+      console.error("💥 OpenAI leftovers estimate error:", error);
+      throw error;
+    }
+  }
+
+  async generateMealPlan(userProfile: MealPlanRequest): Promise<AIMealPlan> {
+    try {
+      console.log("🤖 Generating AI meal plan...");
+
+      const systemPrompt = `You are a professional nutritionist and meal planning expert. Create a personalized 7-day meal plan based on the user's profile, preferences, and goals.
+
+CRITICAL REQUIREMENTS:
+1. Create exactly 7 days of meals (Sunday through Saturday)
+2. Each day should have the specified number of meals and snacks
+3. All meals must meet the user's dietary restrictions and preferences
+4. Avoid all excluded ingredients and allergens
+5. Balance nutrition across the week to meet daily targets
+6. Consider cooking skill level and available time
+7. Provide detailed recipes with ingredients and instructions
+8. Include realistic prep times and difficulty levels
+9. Suggest appropriate portion sizes
+10. Ensure variety across the week
+11. If the profile lists own_meals (the user's own recipes), use them on some days for their meal timing, with the exact same name and nutrition per portion
+
+USER PROFILE:
+${JSON.stringify(userProfile, null, 2)}
+
+Respond with a JSON object containing:
+{
+  "weekly_plan": [
+    {
+      "day": "Sunday",
+      "day_index": 0,
+      "meals": [
+        {
+          "name": "Meal name",
+          "description": "Brief description",
+          "meal_timing": "BREAKFAST|LUNCH|DINNER|MORNING_SNACK|AFTERNOON_SNACK",
+          "dietary_category": "VEGETARIAN|VEGAN|KETO|PALEO|MEDITERRANEAN|LOW_CARB|HIGH_PROTEIN|GLUTEN_FREE|DAIRY_FREE|BALANCED",
+          "prep_time_minutes": number,
+          "difficulty_level": 1-3 (1=easy, 2=medium, 3=hard),
+          "calories": number,
+          "protein_g": number,
+          "carbs_g": number,
+          "fats_g": number,
+          "fiber_g": number,
+          "sugar_g": number,
+          "sodium_mg": number,
+          "ingredients": [
+            {
+              "name": "ingredient name",
+              "quantity": number,
+              "unit": "g|ml|tbsp|tsp|cup|piece|slice",
+              "category": "Protein|Produce|Grains|Dairy|Oils|Spices|Condiments|Nuts|Seeds"
+            }
+          ],
+          "instructions": [
+            {
+              "step": 1,
+              "text": "Step description"
+            }
+          ],
+          "allergens": ["gluten", "dairy", "nuts", "eggs", "fish", "shellfish", "soy", "sesame"],
+          "image_url": "https://images.pexels.com/photos/[relevant-food-photo-id]/pexels-photo-[id].jpeg",
+          "portion_multiplier": 1.0,
+          "is_optional": false
+        }
+      ]
+    }
+  ],
+  "weekly_nutrition_summary": {
+    "avg_daily_calories": number,
+    "avg_daily_protein": number,
+    "avg_daily_carbs": number,
+    "avg_daily_fats": number,
+    "goal_adherence_percentage": number
+  },
+  "shopping_tips": [
+    "Practical shopping and meal prep tips"
+  ],
+  "meal_prep_suggestions": [
+    "Suggestions for batch cooking and preparation"
+  ]
+}
+
+IMPORTANT: Use realistic Pexels image URLs for food photos. Make sure all meals are practical, achievable, and aligned with the user's goals and preferences.`;
+
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content:
+            "Please create my personalized 7-day meal plan based on my profile and preferences.",
+        },
+      ];
+
+      const mealPlan = await this.completeJson(
+        mealPlanResponseSchema,
+        messages,
+        {
+          model: this.models.text,
+          max_tokens: 4000,
+          temperature: 0.3, // Slightly higher for creativity while maintaining consistency
+        },
+        "meal plan"
+      );
+
+      console.log("✅ AI meal plan generated successfully");
+      return mealPlan;
+    } catch (error) {
+      console.error("💥 OpenAI meal plan generation error:", error);
+      throw error;
+    }
+  }
+
+  async generateReplacementMeal(
+    request: ReplacementMealRequest
+  ): Promise<AIReplacementMeal> {
+    try {
+      console.log("🔄 Generating AI replacement meal...");
+
+      const systemPrompt = `You are a professional nutritionist. Generate a replacement meal that is similar to the current meal but meets the user's specific preferences and requirements.
+
+CURRENT MEAL TO REPLACE:
+${JSON.stringify(request.current_meal, null, 2)}
+
+USER PREFERENCES:
+${JSON.stringify(request.user_preferences, null, 2)}
+
+NUTRITION TARGETS:
+${JSON.stringify(request.nutrition_targets, null, 2)}
+
+REQUIREMENTS:
+1. Keep the same meal timing as the original
+2. Maintain similar calorie and protein content (±20%)
+3. Respect all dietary preferences and restrictions
+4. Avoid all excluded ingredients and allergens
+5. Consider the preferred dietary category if specified
+6. Respect maximum prep time if specified
+7. Provide a complete recipe with ingredients and instructions
+
+Respond with a JSON object containing:
+{
+  "name": "New meal name",
+  "description": "Brief description",
+  "meal_timing": "same as original",
+  "dietary_category": "appropriate category",
+  "prep_time_minutes": number,
+  "difficulty_level": 1-3,
+  "calories": number,
+  "protein_g": number,
+  "carbs_g": number,
+  "fats_g": number,
+  "fiber_g": number,
+  "sugar_g": number,
+  "sodium_mg": number,
+  "ingredients": [
+    {
+      "name": "ingredient name",
+      "quantity": number,
+      "unit": "g|ml|tbsp|tsp|cup|piece|slice",
+      "category": "Protein|Produce|Grains|Dairy|Oils|Spices|Condiments|Nuts|Seeds"
+    }
+  ],
+  "instructions": [
+    {
+      "step": 1,
+      "text": "Step description"
+    }
+  ],
+  "allergens": ["list of allergens"],
+  "image_url": "https://images.pexels.com/photos/[relevant-food-photo-id]/pexels-photo-[id].jpeg",
+  "replacement_reason": "Brief explanation of why this is a good replacement"
+}`;
+
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: systemPrompt,
+        },
+        {
+          role: "user",
+          content:
+            "Please generate a suitable replacement meal based on my preferences and requirements.",
+        },
+      ];
+
+      const replacementMeal = await this.completeJson(
+        replacementMealResponseSchema,
+        messages,
+        { model: this.models.text, max_tokens: 1500, temperature: 0.4 },
+        "replacement meal"
+      );
+
+      console.log("✅ AI replacement meal generated successfully");
+      return replacementMeal;
+    } catch (error) {
+      console.error("💥 OpenAI replacement meal generation error:", error);
+      throw error;
+    }
+  }
+
+  // Sends the conversation and validates the reply against the schema. An
+  // invalid reply gets a repair turn listing what was wrong before giving up.
+  private async completeJson<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    messages: ChatCompletionMessageParam[],
+    options: CompletionOptions,
+    label: string
+  ): Promise<T> {
+    let issues: string[] = [];
+    let empty = false;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      let content: string | null | undefined;
+      try {
+        const response = await this.client.chat.completions.create({
+          ...options,
+          messages,
+          response_format: { type: "json_object" },
+        });
+        content = response.choices[0]?.message?.content;
+        reportUsage(
+          response.model || options.model,
+          response.usage?.prompt_tokens ?? 0,
+          response.usage?.completion_tokens ?? 0
+        );
+      } catch (error) {
+        console.error("💥 OpenAI request failed:", error);
+        throw new AIServiceError(
+          "AI_PROVIDER_ERROR",
+          "The AI service is unavailable. Please try again later."
+        );
+      }
+
+      empty = !content;
+      if (content) {
+        console.log("🤖 OpenAI raw response:", content);
+
+        const result = validateResponse(content, schema);
+        if (result.success) {
+          return result.data;
+        }
+        issues = result.issues;
+      } else {
+        issues = ["The response was empty"];
+      }
+
+      console.warn(
+        `⚠️ Invalid ${label} response (attempt ${attempt + 1}):`,
+        issues
+      );
+      messages = [
+        ...messages,
+        ...(content ? [{ role: "assistant" as const, content }] : []),
+        { role: "user", content: repairPrompt(issues) },
+      ];
+    }
+
+    throw new AIServiceError(
+      empty ? "AI_EMPTY_RESPONSE" : "AI_INVALID_RESPONSE",
+      `The AI could not produce a valid ${label}. Please try again.`,
+      issues
+    );
+  }
+}
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { DietaryCategory, MealTiming } from "@prisma/client";
+import { PROCESSING_LEVELS } from "./types";
+
+export type ResponseValidation<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+// Issues listed back to the model in a repair prompt
+const MAX_REPORTED_ISSUES = 10;
+
+// Clarifying questions kept from a single analysis
+const MAX_QUESTIONS = 3;
+
+// Models sometimes send numbers as strings and null for unknown values
+const toNumber = (value: unknown) => {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  if (typeof value === "string" && isFinite(Number(value))) {
+    return Number(value);
+  }
+  return value;
+};
+
+const amount = z.preprocess(toNumber, z.number().finite().nonnegative());
+
+const optionalAmount = z.preprocess(
+  toNumber,
+  z.number().finite().nonnegative().optional()
+);
+
+// Extras the model often can't estimate. A malformed value is dropped
+// instead of failing an otherwise good response.
+const extraAmount = optionalAmount.catch(undefined);
+
+const extraText = z
+  .string()
+  .trim()
+  .min(1)
+  .optional()
+  .catch(undefined);
+
+// Keeps the non-negative numeric entries of a { key: amount } object
+const extraAmounts = z
+  .record(z.unknown())
+  .transform((value) => {
+    const amounts: Record<string, number> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const number = toNumber(entry);
+      if (typeof number === "number" && isFinite(number) && number >= 0) {
+        amounts[key] = number;
+      }
+    }
+    return Object.keys(amounts).length > 0 ? amounts : undefined;
+  })
+  .optional()
+  .catch(undefined);
+
+const mealAnalysisItemSchema = z.object({
+  name: z.string().trim().min(1),
+  grams: extraAmount,
+  calories: amount,
+  protein: amount,
+  carbs: amount,
+  fat: amount,
+  fiber: optionalAmount,
+  sugar: optionalAmount,
+  sodium: optionalAmount,
+});
+
+export const mealAnalysisResponseSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    description: extraText,
+    calories: amount,
+    protein: amount,
+    carbs: amount,
+    fat: amount,
+    fiber: optionalAmount,
+    sugar: optionalAmount,
+    sodium: optionalAmount,
+    confidence: z.preprocess(toNumber, z.number().min(0).max(100)).catch(75),
+    questions: z
+      .array(z.string())
+      .transform((questions) =>
+        questions
+          .map((question) => question.trim())
+          .filter(Boolean)
+          .slice(0, MAX_QUESTIONS)
+      )
+      .optional()
+      .catch(undefined),
+    ingredients: z.array(z.string()).optional().catch(undefined),
+    items: z.array(mealAnalysisItemSchema).optional(),
+    servingSize: extraText,
+    saturatedFat: extraAmount,
+    monounsaturatedFat: extraAmount,
+    polyunsaturatedFat: extraAmount,
+    omega3: extraAmount,
+    omega6: extraAmount,
+    solubleFiber: extraAmount,
+    insolubleFiber: extraAmount,
+    cholesterol: extraAmount,
+    alcohol: extraAmount,
+    caffeine: extraAmount,
+    liquids: extraAmount,
+    vitamins: extraAmounts,
+    micronutrients: extraAmounts,
+    glycemicIndex: z
+      .preprocess(toNumber, z.number().min(0).max(100).optional())
+      .catch(undefined),
+    insulinIndex: extraAmount,
+    foodCategory: extraText,
+    processingLevel: z.enum(PROCESSING_LEVELS).optional().catch(undefined),
+    cookingMethod: extraText,
+    allergens: z
+      .array(z.string())
+      .transform((allergens) =>
+        allergens
+          .map((allergen) => allergen.trim().toLowerCase())
+          .filter(Boolean)
+      )
+      .optional()
+      .catch(undefined),
+    healthNotes: extraText,
+  })
+  // A zero-calorie result almost always means the model didn't recognise
+  // the food; only drinks like water or black coffee may have none
+  .refine((analysis) => analysis.calories > 0 || (analysis.liquids ?? 0) > 0, {
+    message: "Calories must be greater than 0 unless the meal is a drink",
+    path: ["calories"],
+  });
+
+const eatenFraction = z.preprocess(toNumber, z.number().min(0).max(1));
+
+export const leftoversResponseSchema = z.object({
+  eatenFraction,
+  items: z
+    .array(z.object({ name: z.string().trim().min(1), eatenFraction }))
+    .default([]),
+});
+
+export const planMealSchema = z.object({
+  name: z.string().trim().min(1),
+  description: extraText,
+  meal_timing: z.nativeEnum(MealTiming),
+  dietary_category: z
+    .nativeEnum(DietaryCategory)
+    .catch(DietaryCategory.BALANCED),
+  prep_time_minutes: z
+    .preprocess(toNumber, z.number().int().positive().optional())
+    .catch(undefined),
+  difficulty_level: z
+    .preprocess(toNumber, z.number().int().min(1).max(3).optional())
+    .catch(undefined),
+  calories: z.preprocess(toNumber, z.number().finite().positive()),
+  protein_g: amount,
+  carbs_g: amount,
+  fats_g: amount,
+  fiber_g: optionalAmount,
+  sugar_g: optionalAmount,
+  sodium_mg: optionalAmount,
+  ingredients: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        quantity: optionalAmount,
+        unit: z.string().optional().catch(undefined),
+        category: z.string().optional().catch(undefined),
+      })
+    )
+    .min(1),
+  instructions: z
+    .array(
+      z.object({
+        step: z.preprocess(toNumber, z.number().int().positive()),
+        text: z.string().trim().min(1),
+      })
+    )
+    .default([]),
+  allergens: z.array(z.string()).catch([]),
+  image_url: z.string().url().optional().catch(undefined),
+  portion_multiplier: z
+    .preprocess(toNumber, z.number().positive().max(5))
+    .catch(1),
+  is_optional: z.boolean().catch(false),
+});
+
+export const mealPlanResponseSchema = z.object({
+  weekly_plan: z
+    .array(
+      z.object({
+        day: z.string().min(1),
+        day_index: z.preprocess(toNumber, z.number().int().min(0).max(6)),
+        meals: z.array(planMealSchema).min(1),
+      })
+    )
+    .length(7),
+  weekly_nutrition_summary: z.record(z.unknown()).optional().catch(undefined),
+  shopping_tips: z.array(z.string()).catch([]),
+  meal_prep_suggestions: z.array(z.string()).catch([]),
+});
+
+export const replacementMealResponseSchema = planMealSchema.extend({
+  replacement_reason: extraText,
+});
+
+export type AIPlanMeal = z.infer<typeof planMealSchema>;
+export type AIMealPlan = z.infer<typeof mealPlanResponseSchema>;
+export type AIReplacementMeal = z.infer<typeof replacementMealResponseSchema>;
+
+// Parses raw model output against a response schema, collecting readable
+// issues for a repair prompt instead of throwing
+export function validateResponse<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): ResponseValidation<T> {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { success: false, issues: ["The response is not valid JSON"] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.errors
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message
+      ),
+  };
+}
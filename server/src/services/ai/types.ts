@@ -0,0 +1,161 @@
+import type { AIMealPlan, AIPlanMeal, AIReplacementMeal } from "./schemas";
+
+// One component of the analyzed meal, for the portion shown
+export interface MealAnalysisItem {
+  name: string;
+  grams?: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+}
+
+// How far a meal is from its raw ingredients, stored in Meal.processing_level
+export const PROCESSING_LEVELS = [
+  "unprocessed",
+  "minimally_processed",
+  "processed",
+  "ultra_processed",
+] as const;
+
+export type ProcessingLevel = (typeof PROCESSING_LEVELS)[number];
+
+// Nutrients and food quality fields beyond the headline macros. The model
+// can't always estimate them, so every one is optional.
+export interface MealAnalysisDetails {
+  saturatedFat?: number; // grams
+  monounsaturatedFat?: number; // grams
+  polyunsaturatedFat?: number; // grams
+  omega3?: number; // grams
+  omega6?: number; // grams
+  solubleFiber?: number; // grams
+  insolubleFiber?: number; // grams
+  cholesterol?: number; // milligrams
+  alcohol?: number; // grams
+  caffeine?: number; // milligrams
+  liquids?: number; // milliliters
+  vitamins?: Record<string, number>; // e.g. { vitamin_c_mg: 12 }
+  micronutrients?: Record<string, number>; // minerals, e.g. { iron_mg: 2.1 }
+  glycemicIndex?: number; // 0-100
+  insulinIndex?: number;
+  foodCategory?: string;
+  processingLevel?: ProcessingLevel;
+  cookingMethod?: string;
+  allergens?: string[];
+  healthNotes?: string;
+}
+
+export interface MealAnalysisResult extends MealAnalysisDetails {
+  name: string;
+  description?: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  confidence: number;
+  questions?: string[]; // what to ask the user when the estimate is uncertain
+  ingredients?: string[];
+  servingSize?: string;
+
+  // Add missing fields here if you access them anywhere in your code:
+  items?: MealAnalysisItem[];
+  healthScore?: number; // if you use a healthScore value
+  recommendations?: string[]; // if you have recommendations list
+}
+
+// How much of each item was eaten, judged from a photo of the leftovers.
+// Fractions run from 0 (untouched) to 1 (finished).
+export interface LeftoversEstimate {
+  eatenFraction: number; // the meal as a whole
+  items: { name: string; eatenFraction: number }[];
+}
+
+export interface MealPlanRequest {
+  age: number;
+  weight_kg: number;
+  height_cm: number;
+  target_calories_daily: number;
+  target_protein_daily: number;
+  target_carbs_daily: number;
+  target_fats_daily: number;
+  meals_per_day: number;
+  snacks_per_day: number;
+  rotation_frequency_days: number;
+  include_leftovers: boolean;
+  fixed_meal_times: boolean;
+  dietary_preferences: string[];
+  excluded_ingredients: string[];
+  allergies: any[];
+  physical_activity_level: string;
+  sport_frequency: string;
+  main_goal: string;
+  dietary_preferences_questionnaire: any[];
+  avoided_foods: any[];
+  meal_texture_preference?: string;
+  cooking_skill_level: string;
+  available_cooking_time: string;
+  kitchen_equipment: string[];
+  // The user's own recipes promoted to meal templates, one serving each,
+  // for the plan to include where they fit
+  own_meals?: Omit<AIPlanMeal, "portion_multiplier" | "is_optional">[];
+}
+
+export interface ReplacementMealRequest {
+  current_meal: {
+    name: string;
+    meal_timing: string;
+    dietary_category: string;
+    calories?: number;
+    protein_g?: number;
+    carbs_g?: number;
+    fats_g?: number;
+  };
+  user_preferences: {
+    dietary_preferences: string[];
+    excluded_ingredients: string[];
+    allergies: any[];
+    preferred_dietary_category?: string;
+    max_prep_time?: number;
+  };
+  nutrition_targets: {
+    target_calories: number;
+    target_protein: number;
+  };
+}
+
+// Contract every AI backend implements. Providers return results that passed
+// the response schemas, so services never see raw model output. Failures are
+// thrown as AIServiceError.
+export interface AIProvider {
+  readonly name: string;
+  analyzeMealImage(
+    imageBase64: string,
+    language: string,
+    updateText?: string
+  ): Promise<MealAnalysisResult>;
+  analyzeMealText(
+    description: string,
+    language: string
+  ): Promise<MealAnalysisResult>;
+  updateMealAnalysis(
+    originalAnalysis: MealAnalysisResult,
+    updateText: string,
+    language: string
+  ): Promise<MealAnalysisResult>;
+  estimateLeftovers(
+    analysis: MealAnalysisResult,
+    plateImageBase64: string,
+    leftoversImageBase64: string,
+    language: string
+  ): Promise<LeftoversEstimate>;
+  generateMealPlan(userProfile: MealPlanRequest): Promise<AIMealPlan>;
+  generateReplacementMeal(
+    request: ReplacementMealRequest
+  ): Promise<AIReplacementMeal>;
+}
@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Tokens spent by the provider calls made for one AI request, repair
+// attempts included
+export interface AIUsageTotals {
+  model?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+// USD per million tokens. Dated snapshots (e.g. "gpt-4o-2024-08-06") use
+// the price of their base model; unknown models are recorded at no cost.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+};
+
+const priceOf = (model: string) => {
+  const base = Object.keys(MODEL_PRICES)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => model === name || model.startsWith(`${name}-`));
+  return base ? MODEL_PRICES[base] : null;
+};
+
+const usageStorage = new AsyncLocalStorage<AIUsageTotals>();
+
+export const emptyUsage = (): AIUsageTotals => ({
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  cost_usd: 0,
+});
+
+// Runs the call, adding what providers report while it is in flight to
+// `usage`, which also holds the tokens of a call that failed. Concurrent
+// calls each collect into their own totals.
+export function collectUsage<T>(
+  usage: AIUsageTotals,
+  call: () => Promise<T>
+): Promise<T> {
+  return usageStorage.run(usage, call);
+}
+
+// Called by providers after every request to the model
+export function reportUsage(
+  model: string,
+  prompt_tokens: number,
+  completion_tokens: number
+) {
+  const usage = usageStorage.getStore();
+  if (!usage) return;
+
+  const price = priceOf(model);
+  usage.model = model;
+  usage.prompt_tokens += prompt_tokens;
+  usage.completion_tokens += completion_tokens;
+  if (price) {
+    usage.cost_usd +=
+      (prompt_tokens * price.input + completion_tokens * price.output) /
+      1_000_000;
+  }
+}
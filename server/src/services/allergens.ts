@@ -0,0 +1,168 @@
+import { prisma } from "../lib/database";
+
+// HIGH: an allergy found in an ingredient or in the allergens the analysis
+// detected. MEDIUM: an allergy only mentioned in the meal's name, so it may
+// or may not be in it. LOW: a food the user avoids or doesn't tolerate.
+export type AllergenSeverity = "HIGH" | "MEDIUM" | "LOW";
+
+export interface AllergenWarning {
+  allergen: string; // as the user wrote it in the questionnaire
+  severity: AllergenSeverity;
+  source: "ALLERGY" | "AVOIDED_FOOD";
+  matches: string[]; // ingredients or detected allergens that matched
+}
+
+export interface AllergyProfile {
+  allergies: string[];
+  avoided_foods: string[];
+}
+
+// What is checked; fits analysis results, saved meal data and stored meals
+export interface MealContent {
+  name?: string | null;
+  description?: string | null;
+  ingredients?: string[];
+  items?: { name: string }[];
+  allergens?: string[];
+}
+
+// Common allergens with the foods that give them away, so an allergy to
+// "dairy" is found in "cheddar cheese" as well
+const ALLERGEN_GROUPS = [
+  "milk, dairy, lactose, cheese, butter, cream, yogurt, yoghurt, whey, " +
+    "casein, ghee, mozzarella, parmesan, cheddar",
+  "egg, mayonnaise, mayo, meringue, omelet, omelette, aioli",
+  "gluten, wheat, barley, rye, spelt, bread, pasta, flour, couscous, " +
+    "bulgur, semolina, seitan, noodle, pita, bagel, croissant, toast",
+  "peanut, groundnut",
+  "nuts, tree nut, nut, almond, walnut, cashew, pecan, pistachio, " +
+    "hazelnut, macadamia, praline, marzipan",
+  "soy, soya, tofu, edamame, miso, tempeh",
+  "fish, salmon, tuna, cod, anchovy, sardine, trout, tilapia, halibut, " +
+    "mackerel",
+  "shellfish, crustacean, shrimp, prawn, crab, lobster, crayfish, " +
+    "mussel, clam, oyster, scallop",
+  "sesame, tahini, hummus, halva",
+  "mustard",
+  "celery",
+  "lupin",
+  "sulphite, sulfite, wine",
+].map((group) => group.split(", "));
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole words (and plurals) for latin text; other scripts, like Hebrew,
+// have no word boundaries in regular expressions and match by substring
+function mentions(text: string, term: string) {
+  if (!/^[\x00-\x7F]+$/.test(term)) {
+    return text.includes(term);
+  }
+  return new RegExp(`\\b${escapeRegExp(term)}(?:e?s)?\\b`).test(text);
+}
+
+// The user's term plus, for a known allergen, everything in its group
+function searchTerms(allergen: string) {
+  const term = normalize(allergen);
+  const group = ALLERGEN_GROUPS.find((words) =>
+    words.some((word) => word === term || mentions(term, word))
+  );
+  return Array.from(new Set([term, ...(group ?? [])]));
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+
+const SEVERITY_ORDER: AllergenSeverity[] = ["HIGH", "MEDIUM", "LOW"];
+
+export class AllergenService {
+  // Allergies and avoided foods from the latest questionnaire
+  static async getProfile(user_id: string): Promise<AllergyProfile> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { version: "desc" },
+      select: { allergies: true, avoided_foods: true },
+    });
+
+    return {
+      allergies: toStringList(questionnaire?.allergies),
+      avoided_foods: toStringList(questionnaire?.avoided_foods),
+    };
+  }
+
+  static async checkMeal(
+    user_id: string,
+    meal: MealContent
+  ): Promise<AllergenWarning[]> {
+    const profile = await this.getProfile(user_id);
+    return this.checkMealAgainst(profile, meal);
+  }
+
+  // Most severe warnings first
+  static checkMealAgainst(
+    profile: AllergyProfile,
+    meal: MealContent
+  ): AllergenWarning[] {
+    const ingredients = Array.from(
+      new Set([
+        ...(meal.items ?? []).map((item) => item.name),
+        ...(meal.ingredients ?? []),
+      ])
+    );
+    const detected = meal.allergens ?? [];
+    const title = normalize(`${meal.name ?? ""} ${meal.description ?? ""}`);
+
+    const findMatches = (allergen: string) => {
+      const terms = searchTerms(allergen);
+      const matchesAny = (text: string) =>
+        terms.some((term) => mentions(normalize(text), term));
+
+      return {
+        matches: [...detected, ...ingredients].filter(matchesAny),
+        inTitle: matchesAny(title),
+      };
+    };
+
+    const warnings: AllergenWarning[] = [];
+
+    profile.allergies.forEach((allergen) => {
+      const { matches, inTitle } = findMatches(allergen);
+      if (matches.length > 0) {
+        warnings.push({
+          allergen,
+          severity: "HIGH",
+          source: "ALLERGY",
+          matches,
+        });
+      } else if (inTitle) {
+        warnings.push({
+          allergen,
+          severity: "MEDIUM",
+          source: "ALLERGY",
+          matches: [meal.name || allergen],
+        });
+      }
+    });
+
+    profile.avoided_foods.forEach((food) => {
+      const { matches, inTitle } = findMatches(food);
+      if (matches.length > 0 || inTitle) {
+        warnings.push({
+          allergen: food,
+          severity: "LOW",
+          source: "AVOIDED_FOOD",
+          matches: matches.length > 0 ? matches : [meal.name || food],
+        });
+      }
+    });
+
+    return warnings.sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    );
+  }
+}
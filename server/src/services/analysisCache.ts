@@ -0,0 +1,196 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { MealAnalysisResult } from "./ai";
+
+export interface ImageHashes {
+  content_hash: string;
+  perceptual_hash: string;
+}
+
+// 0 turns the cache off
+const CACHE_TTL_HOURS = Number(process.env.ANALYSIS_CACHE_TTL_HOURS ?? 168);
+
+// Differing bits out of 64 for two photos to count as the same picture,
+// enough to absorb re-encoding and resizing by the gallery
+const MAX_PERCEPTUAL_DISTANCE = 5;
+
+// Near-duplicate lookups only compare against the most recent entries
+const MAX_PERCEPTUAL_CANDIDATES = 200;
+
+// Difference hash: shrink to 9x8 greyscale and record whether each pixel
+// is brighter than its right-hand neighbour
+async function perceptualHash(image: Buffer) {
+  const pixels = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, "0");
+  }
+  return hash;
+}
+
+function hammingDistance(a: string, b: string) {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+export class AnalysisCacheService {
+  static isEnabled() {
+    return CACHE_TTL_HOURS > 0;
+  }
+
+  static async hashImage(imageBase64: string): Promise<ImageHashes> {
+    const image = Buffer.from(
+      imageBase64.replace(/^data:image\/\w+;base64,/, ""),
+      "base64"
+    );
+
+    return {
+      content_hash: createHash("sha256").update(image).digest("hex"),
+      perceptual_hash: await perceptualHash(image),
+    };
+  }
+
+  // Exact matches first, then the closest near-duplicate; misses on any error
+  static async lookup(user_id: string, language: string, imageBase64: string) {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    try {
+      const hashes = await this.hashImage(imageBase64);
+      const now = new Date();
+
+      const exact = await prisma.analysisCache.findFirst({
+        where: {
+          user_id,
+          language,
+          content_hash: hashes.content_hash,
+          expires_at: { gt: now },
+        },
+      });
+
+      let entry = exact;
+      if (!entry) {
+        const candidates = await prisma.analysisCache.findMany({
+          where: { user_id, language, expires_at: { gt: now } },
+          orderBy: { created_at: "desc" },
+          take: MAX_PERCEPTUAL_CANDIDATES,
+        });
+
+        let bestDistance = MAX_PERCEPTUAL_DISTANCE + 1;
+        for (const candidate of candidates) {
+          const distance = hammingDistance(
+            hashes.perceptual_hash,
+            candidate.perceptual_hash
+          );
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            entry = candidate;
+          }
+        }
+      }
+
+      if (!entry) {
+        return null;
+      }
+
+      console.log(
+        "♻️ Analysis cache hit:",
+        entry.cache_id,
+        exact ? "(exact)" : "(similar)"
+      );
+      return {
+        cache_id: entry.cache_id,
+        analysis: entry.analysis_json as unknown as MealAnalysisResult,
+      };
+    } catch (error) {
+      console.error("💥 Analysis cache lookup error:", error);
+      return null;
+    }
+  }
+
+  // Returns the entry id, or null when caching is off or failed; a cache
+  // problem never fails the analysis itself
+  static async store(
+    user_id: string,
+    language: string,
+    imageBase64: string,
+    analysis: MealAnalysisResult
+  ) {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    try {
+      const hashes = await this.hashImage(imageBase64);
+      const expires_at = new Date(Date.now() + CACHE_TTL_HOURS * 3600 * 1000);
+      const analysis_json = analysis as unknown as Prisma.InputJsonValue;
+
+      await prisma.analysisCache.deleteMany({
+        where: { user_id, expires_at: { lte: new Date() } },
+      });
+
+      const entry = await prisma.analysisCache.upsert({
+        where: {
+          user_id_language_content_hash: {
+            user_id,
+            language,
+            content_hash: hashes.content_hash,
+          },
+        },
+        create: { user_id, language, ...hashes, analysis_json, expires_at },
+        update: {
+          perceptual_hash: hashes.perceptual_hash,
+          analysis_json,
+          expires_at,
+        },
+      });
+
+      return entry.cache_id;
+    } catch (error) {
+      console.error("💥 Analysis cache store error:", error);
+      return null;
+    }
+  }
+
+  // A corrected meal means its analysis was wrong, so the photo should be
+  // analyzed again next time
+  static async invalidateForMeal(meal_id: number) {
+    try {
+      const meal = await prisma.meal.findUnique({
+        where: { meal_id },
+        select: { analysis_cache_id: true },
+      });
+
+      if (meal?.analysis_cache_id) {
+        await prisma.analysisCache.deleteMany({
+          where: { cache_id: meal.analysis_cache_id },
+        });
+        console.log("🧹 Invalidated analysis cache:", meal.analysis_cache_id);
+      }
+    } catch (error) {
+      console.error("💥 Analysis cache invalidation error:", error);
+    }
+  }
+}
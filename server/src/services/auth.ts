@@ -2,13 +2,16 @@ import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { prisma } from "../lib/database";
 import { SignUpInput, SignInInput } from "../types/auth";
+import { ImageStorageService } from "./imageStorage";
+import { PaymentService } from "./payments";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 const JWT_EXPIRES_IN = "7d";
 
 export class AuthService {
   static async signUp(data: SignUpInput) {
-    const { email, name, password, age, weight, height } = data;
+    const { email, name, password, age, weight, height, sex, timezone } =
+      data;
 
     // Check if user already exists
     const existingUser = await prisma.user.findFirst({
@@ -38,18 +41,20 @@ export class AuthService {
         age: Number(age),
         weight_kg: weight,
         height_cm: height,
-        aiRequestsCount: 0,
-        aiRequestsResetAt: new Date(),
+        sex,
+        timezone,
       },
       select: {
         user_id: true,
         email: true,
         name: true,
         subscription_type: true,
+        role: true,
         age: true,
         weight_kg: true,
         height_cm: true,
-        aiRequestsCount: true,
+        sex: true,
+        timezone: true,
         createdAt: true,
       },
     });
@@ -62,8 +67,6 @@ export class AuthService {
       age: Number(age),
       weight_kg: weight,
       height_cm: height,
-      aiRequestsCount: 0,
-      aiRequestsResetAt: new Date(),
     });
 
     console.log("Types:", {
@@ -158,11 +161,12 @@ export class AuthService {
               email: true,
               name: true,
               subscription_type: true,
+              role: true,
               age: true,
               weight_kg: true,
               height_cm: true,
-              aiRequestsCount: true,
-              aiRequestsResetAt: true,
+              sex: true,
+              timezone: true,
               createdAt: true,
             },
           },
@@ -185,14 +189,36 @@ export class AuthService {
     });
   }
 
-  static async getRolePermissions(role: string) {
-    const permissions = {
-      FREE: { dailyRequests: 10 },  
-      PREMIUM: { dailyRequests: 50 },
-      GOLD: { dailyRequests: -1 }, // Unlimited
-    };
+  static async deleteAccount(user_id: string) {
+    // Stop the provider billing an account that no longer exists
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: {
+        subscription_type: true,
+        cancel_at_period_end: true,
+        payment_subscription_id: true,
+      },
+    });
+    if (
+      user?.payment_subscription_id &&
+      user.subscription_type !== "FREE" &&
+      !user.cancel_at_period_end
+    ) {
+      await PaymentService.cancelAtPeriodEnd(user.payment_subscription_id);
+    }
+
+    // Stored blobs live outside the database, remove them before the rows go
+    await ImageStorageService.purgeUserImages(user_id);
+
+    await prisma.$transaction([
+      prisma.meal.deleteMany({ where: { user_id } }),
+      prisma.userQuestionnaire.deleteMany({ where: { user_id } }),
+      prisma.nutritionPlan.deleteMany({ where: { user_id } }),
+      prisma.subscriptionPayment.deleteMany({ where: { user_id } }),
+      prisma.user.delete({ where: { user_id } }),
+    ]);
 
-    return permissions[role as keyof typeof permissions] || permissions.FREE;
+    console.log("🗑️ Deleted account:", user_id);
   }
 
   // Helper method to create secure cookie options
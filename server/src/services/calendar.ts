@@ -1,4 +1,12 @@
 import { prisma } from "../lib/database";
+import { GoalsService } from "./goals";
+import { HydrationService } from "./hydration";
+import {
+  addDays,
+  getUserTimeZone,
+  startOfLocalDay,
+  toLocalDateString,
+} from "../lib/timezone";
 
 interface DayData {
   date: string;
@@ -10,6 +18,8 @@ interface DayData {
   carbsActual: number;
   fatGoal: number;
   fatActual: number;
+  waterGoal: number; // ml
+  waterActual: number;
   mealCount: number;
   qualityScore: number;
   events: Array<{
@@ -32,16 +42,6 @@ interface CalendarStats {
 }
 
 export class CalendarService {
-  // Default nutritional goals (can be customized per user later)
-  private static getDefaultGoals() {
-    return {
-      calories: 2000,
-      protein: 150,
-      carbs: 250,
-      fat: 67,
-    };
-  }
-
   static async getCalendarData(
     user_id: string,
     year: number,
@@ -50,35 +50,46 @@ export class CalendarService {
     try {
       console.log("📅 Fetching calendar data for user:", user_id, year, month);
 
-      // Get start and end dates for the month
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0); // Last day of the month
+      // Month boundaries are local midnights in the user's timezone
+      const timezone = await getUserTimeZone(user_id);
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const firstDay = this.formatDate(year, month, 1);
+      const startDate = startOfLocalDay(firstDay, timezone);
+      const endDate = startOfLocalDay(addDays(firstDay, daysInMonth), timezone);
 
-      console.log("📊 Date range:", startDate, "to", endDate);
+      console.log("📊 Date range:", startDate, "to", endDate, timezone);
 
       // Fetch meals for the month
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
-          createdAt: {
+          is_draft: false,
+          consumed_at: {
             gte: startDate,
-            lte: new Date(endDate.getTime() + 24 * 60 * 60 * 1000), // Include the last day
+            lt: endDate,
           },
         },
         orderBy: {
-          createdAt: "asc",
+          consumed_at: "asc",
         },
       });
 
       console.log("🍽️ Found", meals.length, "meals for the month");
 
-      // Get user goals (for now using defaults)
-      const goals = this.getDefaultGoals();
+      // Get the user's daily targets from their active nutrition plan
+      const goals = await GoalsService.getTargets(user_id);
+
+      const hydration = await HydrationService.getDailyTotals(
+        user_id,
+        firstDay,
+        this.formatDate(year, month, daysInMonth),
+        timezone
+      );
 
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
       meals.forEach((meal) => {
-        const dateStr = meal.createdAt.toISOString().split("T")[0];
+        const dateStr = toLocalDateString(meal.consumed_at, timezone);
         if (!mealsByDate[dateStr]) {
           mealsByDate[dateStr] = [];
         }
@@ -87,11 +98,9 @@ export class CalendarService {
 
       // Generate calendar data for each day of the month
       const calendarData: Record<string, DayData> = {};
-      const daysInMonth = endDate.getDate();
 
       for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month - 1, day);
-        const dateStr = date.toISOString().split("T")[0];
+        const dateStr = this.formatDate(year, month, day);
         const dayMeals = mealsByDate[dateStr] || [];
 
         // Calculate totals for the day
@@ -121,6 +130,8 @@ export class CalendarService {
           carbsActual: totals.carbs,
           fatGoal: goals.fat,
           fatActual: totals.fat,
+          waterGoal: goals.water,
+          waterActual: hydration[dateStr].total_ml,
           mealCount: dayMeals.length,
           qualityScore,
           events,
@@ -159,7 +170,6 @@ export class CalendarService {
         prevMonth
       );
 
-      const goals = this.getDefaultGoals();
       const currentDays = Object.values(currentMonthData);
       const prevDays = Object.values(prevMonthData);
 
@@ -171,8 +181,10 @@ export class CalendarService {
       const totalDays = currentDays.length;
       const monthlyProgress = totalDays > 0 ? (goalDays / totalDays) * 100 : 0;
 
-      // Calculate streak days
-      const streakDays = this.calculateStreakDays(currentDays);
+      // Calculate streak days up to the user's current local day
+      const timezone = await getUserTimeZone(user_id);
+      const today = toLocalDateString(new Date(), timezone);
+      const streakDays = this.calculateStreakDays(currentDays, today);
 
       // Calculate averages
       const totalCalories = currentDays.reduce(
@@ -313,13 +325,27 @@ export class CalendarService {
     return events;
   }
 
-  private static calculateStreakDays(days: DayData[]): number {
+  private static formatDate(year: number, month: number, day: number) {
+    return `${year}-${month.toString().padStart(2, "0")}-${day
+      .toString()
+      .padStart(2, "0")}`;
+  }
+
+  private static calculateStreakDays(days: DayData[], today: string): number {
     let streak = 0;
 
-    // Sort days by date (most recent first)
-    const sortedDays = days.sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
+    // Only days that already started count; today doesn't break the streak
+    // while it's still in progress. Dates are YYYY-MM-DD so they sort as strings.
+    const sortedDays = days
+      .filter((day) => day.date <= today)
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    if (
+      sortedDays[0]?.date === today &&
+      sortedDays[0].caloriesActual < sortedDays[0].caloriesGoal
+    ) {
+      sortedDays.shift();
+    }
 
     for (const day of sortedDays) {
       const progress = day.caloriesActual / day.caloriesGoal;
@@ -1,18 +1,40 @@
-import { prisma } from '../lib/database';
+import cron from 'node-cron';
+import { AdminDashboardService } from './adminDashboard';
+import { NutritionService } from './nutrition';
+import { SubscriptionService } from './subscriptions';
 
-export async function resetDailyLimits() {
+// Shortly after midnight UTC, once the previous day's AI calls are all in
+// the usage ledger
+export async function recordDailyDashboard() {
   try {
-    const now = new Date();
-    
-    await prisma.user.updateMany({
-      data: {
-        aiRequestsCount: 0,
-        aiRequestsResetAt: now,
-      }
-    });
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
 
-    console.log(`✅ Daily AI request limits reset at ${now.toISOString()}`);
+    await AdminDashboardService.recordDay(yesterday);
   } catch (error) {
-    console.error('❌ Error resetting daily limits:', error);
+    console.error('❌ Error recording daily dashboard:', error);
   }
-}
\ No newline at end of file
+}
+
+// Paid plans whose period ended without a renewal go back to FREE
+export async function expireSubscriptions() {
+  try {
+    await SubscriptionService.expireSubscriptions();
+  } catch (error) {
+    console.error('❌ Error expiring subscriptions:', error);
+  }
+}
+
+// Photo analyses left unsaved, with their photos
+export async function purgeAbandonedDrafts() {
+  try {
+    await NutritionService.purgeAbandonedDrafts();
+  } catch (error) {
+    console.error('❌ Error purging meal drafts:', error);
+  }
+}
+
+cron.schedule('10 0 * * *', recordDailyDashboard, { timezone: 'UTC' });
+cron.schedule('0 * * * *', expireSubscriptions);
+cron.schedule('30 * * * *', purgeAbandonedDrafts);
@@ -1,4 +1,9 @@
 import { prisma } from "../lib/database";
+import {
+  getLocalDayRange,
+  getUserTimeZone,
+  toLocalDateString,
+} from "../lib/timezone";
 
 interface ActivityData {
   steps: number;
@@ -10,6 +15,7 @@ interface ActivityData {
   bodyFat?: number;
   sleepHours?: number;
   distance?: number;
+  waterIntake?: number; // ml
 }
 
 interface DailyBalance {
@@ -185,7 +191,8 @@ export class DeviceService {
         throw new Error("Device not found");
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      const timezone = await getUserTimeZone(user_id);
+      const today = toLocalDateString(new Date(), timezone);
 
       // Upsert daily activity summary
       const activitySummary = await prisma.dailyActivitySummary.upsert({
@@ -206,6 +213,7 @@ export class DeviceService {
           body_fat_percentage: activityData.bodyFat,
           sleep_hours: activityData.sleepHours,
           distance_km: activityData.distance,
+          water_intake_ml: this.toWaterMl(activityData.waterIntake),
           sync_timestamp: new Date(),
           updated_at: new Date(),
           raw_data: activityData as any,
@@ -223,6 +231,7 @@ export class DeviceService {
           body_fat_percentage: activityData.bodyFat,
           sleep_hours: activityData.sleepHours,
           distance_km: activityData.distance,
+          water_intake_ml: this.toWaterMl(activityData.waterIntake),
           source_device: device.device_name,
           sync_timestamp: new Date(),
           raw_data: activityData as any,
@@ -295,16 +304,16 @@ export class DeviceService {
       );
 
       // Get calories consumed from meals
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const timezone = await getUserTimeZone(user_id);
+      const { start, end } = getLocalDayRange(date, timezone);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          createdAt: {
-            gte: startDate,
-            lt: endDate,
+          is_draft: false,
+          consumed_at: {
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -363,6 +372,13 @@ export class DeviceService {
     }
   }
 
+  // Devices without a water reading leave the stored value untouched
+  private static toWaterMl(waterIntake?: number) {
+    return typeof waterIntake === "number" && waterIntake >= 0
+      ? Math.round(waterIntake)
+      : undefined;
+  }
+
   // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
   private static encryptToken(token: string): string {
     // In production, use proper encryption like AES
@@ -0,0 +1,119 @@
+import { SubscriptionType } from "@prisma/client";
+import { prisma } from "../lib/database";
+
+export type Feature = "aiMealPlans" | "pdfExport";
+
+export interface Entitlements {
+  name: string;
+  monthlyPrice: number; // USD
+  dailyAIRequests: number; // shared by analyses and meal plans
+  maxDevices: number;
+  features: Record<Feature, boolean>;
+}
+
+// The single source of what each subscription tier includes
+export const ENTITLEMENTS: Record<SubscriptionType, Entitlements> = {
+  FREE: {
+    name: "Free Plan",
+    monthlyPrice: 0,
+    dailyAIRequests: 10,
+    maxDevices: 1,
+    features: { aiMealPlans: false, pdfExport: false },
+  },
+  BASIC: {
+    name: "Basic Plan",
+    monthlyPrice: 4.99,
+    dailyAIRequests: 50,
+    maxDevices: 3,
+    features: { aiMealPlans: true, pdfExport: false },
+  },
+  PREMIUM: {
+    name: "Premium Plan",
+    monthlyPrice: 9.99,
+    dailyAIRequests: 200,
+    maxDevices: 10,
+    features: { aiMealPlans: true, pdfExport: true },
+  },
+};
+
+const FEATURE_NAMES: Record<Feature, string> = {
+  aiMealPlans: "AI meal plans",
+  pdfExport: "PDF reports",
+};
+
+// Returned to the client as `code` next to the error message
+export type EntitlementErrorCode =
+  | "AI_QUOTA_EXCEEDED"
+  | "FEATURE_NOT_INCLUDED"
+  | "DEVICE_LIMIT_REACHED";
+
+export class EntitlementError extends Error {
+  constructor(readonly code: EntitlementErrorCode, message: string) {
+    super(message);
+    this.name = "EntitlementError";
+  }
+
+  // Too many requests for a used-up quota, forbidden otherwise
+  get status() {
+    return this.code === "AI_QUOTA_EXCEEDED" ? 429 : 403;
+  }
+}
+
+export class EntitlementsService {
+  static getEntitlements(subscription_type: SubscriptionType | string) {
+    return (
+      ENTITLEMENTS[subscription_type as SubscriptionType] ?? ENTITLEMENTS.FREE
+    );
+  }
+
+  // The plan and its limits; today's AI usage comes from UsageService
+  static async getSubscriptionInfo(user_id: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: { subscription_type: true },
+    });
+    const devices = await prisma.connectedDevice.count({ where: { user_id } });
+
+    return {
+      tier: user.subscription_type,
+      ...this.getEntitlements(user.subscription_type),
+      connectedDevices: devices,
+    };
+  }
+
+  static assertFeature(subscription_type: SubscriptionType, feature: Feature) {
+    const entitlements = this.getEntitlements(subscription_type);
+    if (!entitlements.features[feature]) {
+      throw new EntitlementError(
+        "FEATURE_NOT_INCLUDED",
+        `${FEATURE_NAMES[feature]} are not included in the ${entitlements.name}. Upgrade your subscription to use them.`
+      );
+    }
+  }
+
+  // Reconnecting a device type the user already has doesn't take a new slot
+  static async assertDeviceSlot(user_id: string, deviceType: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: { subscription_type: true },
+    });
+    const { maxDevices, name } = this.getEntitlements(user.subscription_type);
+
+    const devices = await prisma.connectedDevice.findMany({
+      where: { user_id },
+      select: { device_type: true },
+    });
+
+    const isReconnect = devices.some(
+      (device) => device.device_type === deviceType
+    );
+    if (!isReconnect && devices.length >= maxDevices) {
+      throw new EntitlementError(
+        "DEVICE_LIMIT_REACHED",
+        `The ${name} allows ${maxDevices} connected device${
+          maxDevices === 1 ? "" : "s"
+        }. Disconnect one or upgrade your subscription.`
+      );
+    }
+  }
+}
@@ -0,0 +1,372 @@
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { createInterface } from "readline";
+import { FoodSource, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+
+export interface ImportedFood {
+  source: FoodSource;
+  external_id: string;
+  name: string;
+  brand?: string;
+  category?: string;
+  barcode?: string;
+  calories_per_100g: number;
+  protein_per_100g: number;
+  carbs_per_100g: number;
+  fats_per_100g: number;
+  fiber_per_100g?: number;
+  sugar_per_100g?: number;
+  sodium_mg_per_100g?: number;
+  nutrients: Record<string, number>;
+  portions: { description: string; grams: number }[];
+}
+
+export interface FoodImportSummary {
+  imported: number;
+  skipped: number;
+}
+
+// Rows upserted per transaction
+const BATCH_SIZE = 200;
+
+const KJ_PER_KCAL = 4.184;
+
+// FoodData Central nutrient numbers for the columns stored on Food
+const USDA_CORE_NUTRIENTS: Record<string, keyof ImportedFood> = {
+  "208": "calories_per_100g",
+  "203": "protein_per_100g",
+  "205": "carbs_per_100g",
+  "204": "fats_per_100g",
+  "291": "fiber_per_100g",
+  "269": "sugar_per_100g",
+  "307": "sodium_mg_per_100g",
+};
+
+// Everything else worth keeping goes into nutrients_json, keyed with its unit
+const USDA_EXTRA_NUTRIENTS: Record<string, string> = {
+  "606": "saturated_fat_g",
+  "601": "cholesterol_mg",
+  "301": "calcium_mg",
+  "303": "iron_mg",
+  "304": "magnesium_mg",
+  "305": "phosphorus_mg",
+  "306": "potassium_mg",
+  "309": "zinc_mg",
+  "320": "vitamin_a_ug",
+  "401": "vitamin_c_mg",
+  "328": "vitamin_d_ug",
+  "323": "vitamin_e_mg",
+  "430": "vitamin_k_ug",
+  "415": "vitamin_b6_mg",
+  "418": "vitamin_b12_ug",
+  "435": "folate_ug",
+};
+
+// Open Food Facts reports everything in grams per 100 g; values are
+// multiplied into the unit named by the key
+const OFF_EXTRA_NUTRIENTS: Record<string, [string, number]> = {
+  "saturated-fat_100g": ["saturated_fat_g", 1],
+  "cholesterol_100g": ["cholesterol_mg", 1000],
+  "calcium_100g": ["calcium_mg", 1000],
+  "iron_100g": ["iron_mg", 1000],
+  "magnesium_100g": ["magnesium_mg", 1000],
+  "phosphorus_100g": ["phosphorus_mg", 1000],
+  "potassium_100g": ["potassium_mg", 1000],
+  "zinc_100g": ["zinc_mg", 1000],
+  "vitamin-a_100g": ["vitamin_a_ug", 1000000],
+  "vitamin-c_100g": ["vitamin_c_mg", 1000],
+  "vitamin-d_100g": ["vitamin_d_ug", 1000000],
+  "vitamin-e_100g": ["vitamin_e_mg", 1000],
+  "vitamin-k_100g": ["vitamin_k_ug", 1000000],
+  "vitamin-b6_100g": ["vitamin_b6_mg", 1000],
+  "vitamin-b12_100g": ["vitamin_b12_ug", 1000000],
+  "folates_100g": ["folate_ug", 1000000],
+};
+
+const USDA_DATASETS = [
+  "FoundationFoods",
+  "SRLegacyFoods",
+  "SurveyFoods",
+  "BrandedFoods",
+];
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && isFinite(number) && number >= 0
+    ? number
+    : undefined;
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const cleanText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+// EAN-8, UPC-A, EAN-13 and GTIN-14; anything else is an internal code
+const cleanBarcode = (value: unknown) => {
+  const code = cleanText(value);
+  return code && /^\d{8,14}$/.test(code) ? code : undefined;
+};
+
+export class FoodImportService {
+  // Parses one record of a FoodData Central JSON download
+  static parseUsdaFood(record: any): ImportedFood | null {
+    const name = cleanText(record.description);
+    if (!name || record.fdcId == null) {
+      return null;
+    }
+
+    const food: Partial<ImportedFood> = {};
+    const nutrients: Record<string, number> = {};
+    let kilojoules: number | undefined;
+
+    for (const entry of record.foodNutrients || []) {
+      const number = String(entry.nutrient?.number ?? "");
+      const amount = toNumber(entry.amount);
+      if (amount === undefined) continue;
+
+      if (USDA_CORE_NUTRIENTS[number]) {
+        (food as any)[USDA_CORE_NUTRIENTS[number]] = round(amount);
+      } else if (USDA_EXTRA_NUTRIENTS[number]) {
+        nutrients[USDA_EXTRA_NUTRIENTS[number]] = round(amount);
+      } else if (number === "268") {
+        kilojoules = amount;
+      } else if (number === "958" || number === "957") {
+        // Atwater energy, reported by Foundation foods instead of 208
+        food.calories_per_100g ??= round(amount);
+      }
+    }
+
+    if (food.calories_per_100g === undefined && kilojoules !== undefined) {
+      food.calories_per_100g = round(kilojoules / KJ_PER_KCAL);
+    }
+
+    const portions = (record.foodPortions || [])
+      .map((portion: any) => {
+        const grams = toNumber(portion.gramWeight);
+        const unit = cleanText(portion.measureUnit?.name);
+        const description =
+          cleanText(portion.portionDescription) ||
+          [
+            portion.amount,
+            unit && unit !== "undetermined" ? unit : undefined,
+            cleanText(portion.modifier),
+          ]
+            .filter((part) => part != null && part !== "")
+            .join(" ");
+
+        return grams && description ? { description, grams } : null;
+      })
+      .filter(Boolean) as ImportedFood["portions"];
+
+    // Branded foods describe a single serving instead of foodPortions
+    const servingSize = toNumber(record.servingSize);
+    if (servingSize && /^g/i.test(record.servingSizeUnit || "")) {
+      portions.push({
+        description: cleanText(record.householdServingFullText) || "1 serving",
+        grams: servingSize,
+      });
+    }
+
+    return this.completeFood({
+      ...food,
+      source: FoodSource.USDA,
+      external_id: String(record.fdcId),
+      name,
+      brand: cleanText(record.brandName) || cleanText(record.brandOwner),
+      category:
+        cleanText(record.foodCategory?.description) ||
+        cleanText(record.brandedFoodCategory),
+      barcode: cleanBarcode(record.gtinUpc),
+      nutrients,
+      portions,
+    });
+  }
+
+  // Parses one product of an Open Food Facts JSONL export
+  static parseOpenFoodFactsProduct(product: any): ImportedFood | null {
+    const name =
+      cleanText(product.product_name) || cleanText(product.product_name_en);
+    const code = cleanText(product.code);
+    const nutriments = product.nutriments || {};
+    if (!name || !code) {
+      return null;
+    }
+
+    const kilojoules = toNumber(nutriments.energy_100g);
+    const sodium = toNumber(nutriments.sodium_100g);
+    const nutrients: Record<string, number> = {};
+
+    for (const [key, [target, multiplier]] of Object.entries(
+      OFF_EXTRA_NUTRIENTS
+    )) {
+      const amount = toNumber(nutriments[key]);
+      if (amount !== undefined) {
+        nutrients[target] = round(amount * multiplier);
+      }
+    }
+
+    const servingGrams = toNumber(product.serving_quantity);
+    const category = cleanText(product.categories)?.split(",")[0].trim();
+
+    return this.completeFood({
+      source: FoodSource.OPEN_FOOD_FACTS,
+      external_id: code,
+      name,
+      brand: cleanText(product.brands)?.split(",")[0].trim(),
+      category,
+      barcode: cleanBarcode(code),
+      calories_per_100g:
+        toNumber(nutriments["energy-kcal_100g"]) ??
+        (kilojoules !== undefined ? round(kilojoules / KJ_PER_KCAL) : undefined),
+      protein_per_100g: toNumber(nutriments.proteins_100g),
+      carbs_per_100g: toNumber(nutriments.carbohydrates_100g),
+      fats_per_100g: toNumber(nutriments.fat_100g),
+      fiber_per_100g: toNumber(nutriments.fiber_100g),
+      sugar_per_100g: toNumber(nutriments.sugars_100g),
+      sodium_mg_per_100g:
+        sodium !== undefined ? round(sodium * 1000) : undefined,
+      nutrients,
+      portions: servingGrams
+        ? [
+            {
+              description: cleanText(product.serving_size) || "1 serving",
+              grams: servingGrams,
+            },
+          ]
+        : [],
+    });
+  }
+
+  static async importUsdaFile(path: string): Promise<FoodImportSummary> {
+    console.log("📥 Importing FoodData Central file:", path);
+
+    const json = JSON.parse(await readFile(path, "utf8"));
+    const dataset = USDA_DATASETS.find((key) => Array.isArray(json[key]));
+    const records: any[] = dataset ? json[dataset] : Array.isArray(json) ? json : [];
+
+    const summary: FoodImportSummary = { imported: 0, skipped: 0 };
+    let batch: ImportedFood[] = [];
+
+    for (const record of records) {
+      const food = this.parseUsdaFood(record);
+      if (!food) {
+        summary.skipped++;
+        continue;
+      }
+
+      batch.push(food);
+      if (batch.length >= BATCH_SIZE) {
+        summary.imported += await this.saveBatch(batch);
+        batch = [];
+      }
+    }
+
+    summary.imported += await this.saveBatch(batch);
+
+    console.log("✅ FoodData Central import finished:", summary);
+    return summary;
+  }
+
+  // Exports are several gigabytes, so the file is streamed line by line
+  static async importOpenFoodFactsFile(
+    path: string
+  ): Promise<FoodImportSummary> {
+    console.log("📥 Importing Open Food Facts file:", path);
+
+    const lines = createInterface({
+      input: createReadStream(path, { encoding: "utf8" }),
+      crlfDelay: Infinity,
+    });
+
+    const summary: FoodImportSummary = { imported: 0, skipped: 0 };
+    let batch: ImportedFood[] = [];
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let food: ImportedFood | null = null;
+      try {
+        food = this.parseOpenFoodFactsProduct(JSON.parse(line));
+      } catch {
+        food = null;
+      }
+
+      if (!food) {
+        summary.skipped++;
+        continue;
+      }
+
+      batch.push(food);
+      if (batch.length >= BATCH_SIZE) {
+        summary.imported += await this.saveBatch(batch);
+        batch = [];
+
+        if (summary.imported % 10000 === 0) {
+          console.log("⏳ Imported", summary.imported, "products so far");
+        }
+      }
+    }
+
+    summary.imported += await this.saveBatch(batch);
+
+    console.log("✅ Open Food Facts import finished:", summary);
+    return summary;
+  }
+
+  // Re-importing a dump updates existing rows and replaces their portions
+  private static async saveBatch(foods: ImportedFood[]) {
+    if (foods.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction(
+      foods.map((food) => {
+        const { source, external_id, nutrients, portions, ...columns } = food;
+        const data = {
+          ...columns,
+          nutrients_json: Object.keys(nutrients).length
+            ? nutrients
+            : Prisma.JsonNull,
+        };
+
+        return prisma.food.upsert({
+          where: { source_external_id: { source, external_id } },
+          create: {
+            ...data,
+            source,
+            external_id,
+            portions: { create: portions },
+          },
+          update: {
+            ...data,
+            portions: { deleteMany: {}, create: portions },
+          },
+        });
+      })
+    );
+
+    return foods.length;
+  }
+
+  // Foods without the four core values can't be logged, so they're skipped
+  private static completeFood(
+    food: Partial<ImportedFood>
+  ): ImportedFood | null {
+    if (
+      food.calories_per_100g === undefined ||
+      food.protein_per_100g === undefined ||
+      food.carbs_per_100g === undefined ||
+      food.fats_per_100g === undefined
+    ) {
+      return null;
+    }
+
+    return {
+      ...food,
+      portions: food.portions || [],
+      nutrients: food.nutrients || {},
+    } as ImportedFood;
+  }
+}
@@ -0,0 +1,222 @@
+import { Food, FoodPortion, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { NutritionService } from "./nutrition";
+import { LogFoodInput } from "../types/foods";
+
+type FoodWithPortions = Food & { portions: FoodPortion[] };
+
+export interface FoodNutrition {
+  grams: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+}
+
+// How many loosely matching rows are ranked in memory per search
+const SEARCH_CANDIDATES = 200;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Makes user input literal inside a LIKE pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// Scanners report the same product as UPC-A, EAN-13 or GTIN-14 depending on
+// the device, so lookups try every zero-padded form of the code
+const barcodeVariants = (code: string) => {
+  const digits = code.replace(/^0+/, "");
+  const lengths = [8, 12, 13, 14].filter((length) => length >= digits.length);
+  return Array.from(
+    new Set([code, ...lengths.map((length) => digits.padStart(length, "0"))])
+  );
+};
+
+const scaleOptional = (value: number | null, factor: number) =>
+  value == null ? undefined : round(value * factor);
+
+export class FoodService {
+  static nutritionFor(food: Food, grams: number): FoodNutrition {
+    const factor = grams / 100;
+
+    return {
+      grams: round(grams),
+      calories: round(food.calories_per_100g * factor),
+      protein: round(food.protein_per_100g * factor),
+      carbs: round(food.carbs_per_100g * factor),
+      fat: round(food.fats_per_100g * factor),
+      fiber: scaleOptional(food.fiber_per_100g, factor),
+      sugar: scaleOptional(food.sugar_per_100g, factor),
+      sodium: scaleOptional(food.sodium_mg_per_100g, factor),
+    };
+  }
+
+  // Higher is better: whole-phrase matches first, then word-start matches,
+  // generic reference foods before branded products, shorter names first
+  static rankFood(food: Food, query: string, tokens: string[]): number {
+    const name = food.name.toLowerCase();
+    const words = name.split(/[\s,()/-]+/);
+    let score = 0;
+
+    if (name === query) {
+      score += 100;
+    } else if (name.startsWith(query)) {
+      score += 80;
+    } else if (name.includes(query)) {
+      score += 60;
+    }
+
+    for (const token of tokens) {
+      if (words.includes(token)) {
+        score += 10;
+      } else if (words.some((word) => word.startsWith(token))) {
+        score += 5;
+      } else if (!name.includes(token)) {
+        // Matched on the brand only
+        score -= 5;
+      }
+    }
+
+    if (!food.brand) {
+      score += 10;
+    }
+
+    return score - name.length / 10;
+  }
+
+  static async searchFoods(query: string, limit: number = 20) {
+    try {
+      console.log("🔎 Searching foods for:", query);
+
+      const normalized = query.trim().toLowerCase();
+      const tokens = normalized.split(/\s+/).filter(Boolean).slice(0, 5);
+
+      // Common queries match far more rows than are ranked, so the database
+      // picks the candidates by the strongest signals of rankFood: the whole
+      // name matching, generic foods, then short names
+      const matches = tokens.map((token) => {
+        const pattern = `%${escapeLike(token)}%`;
+        return Prisma.sql`
+          ("name" ILIKE ${pattern} OR "brand" ILIKE ${pattern})
+        `;
+      });
+      const rows = await prisma.$queryRaw<{ food_id: number }[]>`
+        SELECT "food_id" FROM "Food"
+        WHERE ${Prisma.join(matches, " AND ")}
+        ORDER BY
+          CASE
+            WHEN lower("name") = ${normalized} THEN 0
+            WHEN lower("name") LIKE ${`${escapeLike(normalized)}%`} THEN 1
+            ELSE 2
+          END,
+          "brand" IS NOT NULL,
+          length("name"),
+          "food_id"
+        LIMIT ${SEARCH_CANDIDATES}
+      `;
+
+      const candidates = await prisma.food.findMany({
+        where: { food_id: { in: rows.map((row) => row.food_id) } },
+        include: { portions: true },
+        // Equal scores keep a stable order between searches
+        orderBy: { food_id: "asc" },
+      });
+
+      const results = candidates
+        .map((food) => ({
+          food,
+          score: this.rankFood(food, normalized, tokens),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ food }) => this.transformFood(food));
+
+      console.log("✅ Found", results.length, "foods");
+      return results;
+    } catch (error) {
+      console.error("💥 Food search error:", error);
+      throw new Error("Failed to search foods");
+    }
+  }
+
+  static async getFood(food_id: number) {
+    const food = await prisma.food.findUnique({
+      where: { food_id },
+      include: { portions: true },
+    });
+
+    return food ? this.transformFood(food) : null;
+  }
+
+  static async getFoodByBarcode(code: string) {
+    console.log("🏷️ Looking up barcode:", code);
+
+    const food = await prisma.food.findFirst({
+      where: { barcode: { in: barcodeVariants(code) } },
+      include: { portions: true },
+      orderBy: { updated_at: "desc" },
+    });
+
+    return food ? this.transformFood(food) : null;
+  }
+
+  // Logs a database food as a regular meal with a single item
+  static async logFood(user_id: string, data: LogFoodInput) {
+    const food = await prisma.food.findUnique({
+      where: { food_id: data.food_id },
+      include: { portions: true },
+    });
+
+    if (!food) {
+      throw new Error("Food not found");
+    }
+
+    let grams = data.grams;
+    if (data.portion_id !== undefined) {
+      const portion = food.portions.find(
+        (p) => p.portion_id === data.portion_id
+      );
+      if (!portion) {
+        throw new Error("Portion not found");
+      }
+      grams = portion.grams * data.quantity;
+    }
+
+    const nutrition = this.nutritionFor(food, grams!);
+    const name = food.brand ? `${food.name} (${food.brand})` : food.name;
+
+    console.log("🍽️ Logging", nutrition.grams, "g of food:", food.food_id);
+
+    return NutritionService.saveMeal(
+      user_id,
+      {
+        name,
+        ...nutrition,
+        items: [{ name, ...nutrition }],
+      },
+      undefined,
+      data.consumed_at
+    );
+  }
+
+  private static transformFood(food: FoodWithPortions) {
+    return {
+      food_id: food.food_id,
+      source: food.source,
+      name: food.name,
+      brand: food.brand,
+      category: food.category,
+      barcode: food.barcode,
+      per_100g: this.nutritionFor(food, 100),
+      nutrients_per_100g: food.nutrients_json,
+      portions: food.portions.map((portion) => ({
+        portion_id: portion.portion_id,
+        description: portion.description,
+        grams: portion.grams,
+        nutrition: this.nutritionFor(food, portion.grams),
+      })),
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import {
+  MainGoal,
+  NutritionPlan,
+  PhysicalActivityLevel,
+  Prisma,
+  Sex,
+  SportFrequency,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import { CustomGoalsInput, UpdateGoalsInput } from "../types/goals";
+
+export interface NutritionTargets {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  water: number; // ml
+}
+
+export interface GoalProfile {
+  age: number;
+  weight_kg?: number | null;
+  height_cm?: number | null;
+  sex?: Sex | null;
+  physical_activity_level?: PhysicalActivityLevel | null;
+  sport_frequency?: SportFrequency | null;
+  main_goal?: MainGoal | null;
+}
+
+export interface CalculatedGoals extends NutritionTargets {
+  bmr: number;
+  tdee: number;
+}
+
+// Used when the profile doesn't have a measurement yet
+const DEFAULT_WEIGHT_KG = 70;
+const DEFAULT_HEIGHT_CM = 170;
+
+const ACTIVITY_MULTIPLIERS: Record<PhysicalActivityLevel, number> = {
+  NONE: 1.2,
+  LIGHT: 1.375,
+  MODERATE: 1.55,
+  HIGH: 1.725,
+};
+
+// Added on top of the daily activity level for structured training
+const SPORT_BONUS: Record<SportFrequency, number> = {
+  NONE: 0,
+  ONCE_A_WEEK: 0.025,
+  TWO_TO_THREE: 0.05,
+  FOUR_TO_FIVE: 0.1,
+  MORE_THAN_FIVE: 0.15,
+};
+
+const CALORIE_ADJUSTMENT: Record<MainGoal, number> = {
+  WEIGHT_LOSS: -500,
+  WEIGHT_MAINTENANCE: 0,
+  WEIGHT_GAIN: 300,
+  GENERAL_HEALTH: 0,
+  MEDICAL_CONDITION: 0,
+  SPORTS_PERFORMANCE: 200,
+};
+
+// Grams of protein per kg of body weight
+const PROTEIN_PER_KG: Record<MainGoal, number> = {
+  WEIGHT_LOSS: 2.0,
+  WEIGHT_MAINTENANCE: 1.6,
+  WEIGHT_GAIN: 1.8,
+  GENERAL_HEALTH: 1.4,
+  MEDICAL_CONDITION: 1.2,
+  SPORTS_PERFORMANCE: 2.0,
+};
+
+const FAT_CALORIE_SHARE = 0.3;
+
+// Daily fluids from all drinks and food, in ml
+const WATER_ML_PER_KG = 35;
+const WATER_ML_PER_SPORT_FREQUENCY: Record<SportFrequency, number> = {
+  NONE: 0,
+  ONCE_A_WEEK: 100,
+  TWO_TO_THREE: 250,
+  FOUR_TO_FIVE: 400,
+  MORE_THAN_FIVE: 600,
+};
+export const DEFAULT_WATER_GOAL_ML = 2500;
+
+export class GoalsService {
+  // Mifflin-St Jeor BMR, activity-scaled TDEE and goal-based macro split
+  static calculateGoals(profile: GoalProfile): CalculatedGoals {
+    const weight = profile.weight_kg || DEFAULT_WEIGHT_KG;
+    const height = profile.height_cm || DEFAULT_HEIGHT_CM;
+    const goal = profile.main_goal || "GENERAL_HEALTH";
+
+    // Without a sex we use the midpoint of the male (+5) and female (-161) constants
+    const sexConstant =
+      profile.sex === "MALE" ? 5 : profile.sex === "FEMALE" ? -161 : -78;
+    const bmr = 10 * weight + 6.25 * height - 5 * profile.age + sexConstant;
+
+    const multiplier = Math.min(
+      1.9,
+      ACTIVITY_MULTIPLIERS[profile.physical_activity_level || "LIGHT"] +
+        SPORT_BONUS[profile.sport_frequency || "NONE"]
+    );
+    const tdee = bmr * multiplier;
+
+    // Never prescribe less than the BMR or a generally safe minimum
+    const minimumCalories = Math.max(
+      bmr,
+      profile.sex === "MALE" ? 1500 : 1200
+    );
+    const calories = Math.max(
+      minimumCalories,
+      tdee + CALORIE_ADJUSTMENT[goal]
+    );
+
+    const protein = Math.min(
+      weight * PROTEIN_PER_KG[goal],
+      (calories * 0.35) / 4
+    );
+    const fat = (calories * FAT_CALORIE_SHARE) / 9;
+    const carbs = Math.max(0, (calories - protein * 4 - fat * 9) / 4);
+
+    const water =
+      weight * WATER_ML_PER_KG +
+      WATER_ML_PER_SPORT_FREQUENCY[profile.sport_frequency || "NONE"];
+
+    return {
+      bmr: Math.round(bmr),
+      tdee: Math.round(tdee),
+      calories: Math.round(calories),
+      protein: Math.round(protein),
+      carbs: Math.round(carbs),
+      fat: Math.round(fat),
+      water: Math.round(water / 50) * 50,
+    };
+  }
+
+  // Macros a plan leaves empty, as hand-entered plans from before goals were
+  // calculated can, come from the calculated goals
+  static toTargets(
+    plan: NutritionPlan,
+    calculated: NutritionTargets
+  ): NutritionTargets {
+    return {
+      calories: plan.goal_calories || calculated.calories,
+      protein: plan.goal_protein_g ?? calculated.protein,
+      carbs: plan.goal_carbs_g ?? calculated.carbs,
+      fat: plan.goal_fats_g ?? calculated.fat,
+      water: plan.goal_water_ml || DEFAULT_WATER_GOAL_ML,
+    };
+  }
+
+  // The user's active plan, computing and storing one on first use
+  static async getActiveGoals(user_id: string): Promise<NutritionPlan> {
+    const plan = await prisma.nutritionPlan.findFirst({
+      where: { user_id, is_active: true },
+      orderBy: { created_at: "desc" },
+    });
+
+    return plan || this.recalculateGoals(user_id);
+  }
+
+  // Single source of daily targets for calendar, statistics and meal plans
+  static async getTargets(user_id: string): Promise<NutritionTargets> {
+    const plan = await this.getActiveGoals(user_id);
+
+    // Not stored, so the user's own values stay the active plan
+    const { goals } = await this.calculateUserGoals(user_id);
+    return this.toTargets(plan, goals);
+  }
+
+  static async getGoalsHistory(user_id: string) {
+    return prisma.nutritionPlan.findMany({
+      where: { user_id },
+      orderBy: { created_at: "desc" },
+      take: 50,
+    });
+  }
+
+  static async recalculateGoals(user_id: string): Promise<NutritionPlan> {
+    try {
+      console.log("🎯 Calculating nutrition goals for user:", user_id);
+
+      const { goals, questionnaire } = await this.calculateUserGoals(user_id);
+
+      const plan = await this.replaceActivePlan(user_id, {
+        goal_calories: goals.calories,
+        goal_protein_g: goals.protein,
+        goal_carbs_g: goals.carbs,
+        goal_fats_g: goals.fat,
+        goal_water_ml: goals.water,
+        bmr_kcal: goals.bmr,
+        tdee_kcal: goals.tdee,
+        duration_days: questionnaire?.goal_timeframe_days,
+        source: "CALCULATED",
+      });
+
+      console.log("✅ Nutrition goals calculated:", goals);
+      return plan;
+    } catch (error) {
+      console.error("💥 Error calculating nutrition goals:", error);
+      throw new Error("Failed to calculate nutrition goals");
+    }
+  }
+
+  // Recompute after a profile/questionnaire change unless the user set custom targets
+  static async refreshCalculatedGoals(user_id: string) {
+    const active = await prisma.nutritionPlan.findFirst({
+      where: { user_id, is_active: true },
+      select: { source: true },
+    });
+
+    if (active?.source === "CUSTOM") {
+      console.log("ℹ️ Keeping custom goals for user:", user_id);
+      return null;
+    }
+
+    return this.recalculateGoals(user_id);
+  }
+
+  static async createCustomGoals(user_id: string, data: CustomGoalsInput) {
+    try {
+      console.log("🎯 Saving custom goals for user:", user_id);
+
+      // Custom macros without a water target keep the current one
+      const active = await prisma.nutritionPlan.findFirst({
+        where: { user_id, is_active: true },
+        select: { goal_water_ml: true },
+      });
+
+      return await this.replaceActivePlan(user_id, {
+        ...data,
+        goal_water_ml: data.goal_water_ml ?? active?.goal_water_ml,
+        source: "CUSTOM",
+      });
+    } catch (error) {
+      console.error("💥 Error saving custom goals:", error);
+      throw new Error("Failed to save nutrition goals");
+    }
+  }
+
+  static async updateGoals(
+    user_id: string,
+    plan_id: number,
+    data: UpdateGoalsInput
+  ) {
+    const plan = await prisma.nutritionPlan.findFirst({
+      where: { plan_id, user_id },
+    });
+
+    if (!plan) {
+      throw new Error("Nutrition plan not found");
+    }
+
+    // Hand edits turn a calculated plan into a custom one
+    return prisma.nutritionPlan.update({
+      where: { plan_id },
+      data: { ...data, source: "CUSTOM" },
+    });
+  }
+
+  static async deleteGoals(user_id: string, plan_id: number) {
+    const plan = await prisma.nutritionPlan.findFirst({
+      where: { plan_id, user_id },
+    });
+
+    if (!plan) {
+      throw new Error("Nutrition plan not found");
+    }
+
+    await prisma.nutritionPlan.delete({ where: { plan_id } });
+
+    // Fall back to the previous plan so the user always has targets
+    if (plan.is_active) {
+      const previous = await prisma.nutritionPlan.findFirst({
+        where: { user_id },
+        orderBy: { created_at: "desc" },
+      });
+
+      if (previous) {
+        await prisma.nutritionPlan.update({
+          where: { plan_id: previous.plan_id },
+          data: { is_active: true },
+        });
+      }
+    }
+
+    return { success: true };
+  }
+
+  // Goals from the user's profile and latest questionnaire
+  private static async calculateUserGoals(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { age: true, weight_kg: true, height_cm: true, sex: true },
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { version: "desc" },
+      select: {
+        physical_activity_level: true,
+        sport_frequency: true,
+        main_goal: true,
+        goal_timeframe_days: true,
+      },
+    });
+
+    return {
+      goals: this.calculateGoals({ ...user, ...questionnaire }),
+      questionnaire,
+    };
+  }
+
+  private static async replaceActivePlan(
+    user_id: string,
+    data: Omit<Prisma.NutritionPlanUncheckedCreateInput, "user_id">
+  ) {
+    const [, plan] = await prisma.$transaction([
+      prisma.nutritionPlan.updateMany({
+        where: { user_id, is_active: true },
+        data: { is_active: false },
+      }),
+      prisma.nutritionPlan.create({
+        data: { ...data, user_id, is_active: true },
+      }),
+    ]);
+
+    return plan;
+  }
+}
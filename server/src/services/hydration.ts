@@ -0,0 +1,178 @@
+import { prisma } from "../lib/database";
+import { GoalsService } from "./goals";
+import {
+  addDays,
+  getLocalDayRange,
+  getUserTimeZone,
+  startOfLocalDay,
+  toLocalDateString,
+} from "../lib/timezone";
+import { HYDRATION_QUICK_ADD_ML, WaterLogInput } from "../types/hydration";
+
+export interface HydrationTotals {
+  water_ml: number; // plain water logged in the app
+  other_drinks_ml: number;
+  meals_ml: number; // fluids estimated in logged meals
+  device_ml: number; // water reported by connected devices
+  total_ml: number;
+}
+
+const emptyTotals = (): HydrationTotals => ({
+  water_ml: 0,
+  other_drinks_ml: 0,
+  meals_ml: 0,
+  device_ml: 0,
+  total_ml: 0,
+});
+
+// Health apps record the same glasses of water the user may also log here,
+// so only the larger of the two counts. Other drinks and the fluids in
+// meals are never reported by devices and always add up.
+function mergeTotals(totals: HydrationTotals): HydrationTotals {
+  return {
+    ...totals,
+    total_ml: Math.round(
+      Math.max(totals.water_ml, totals.device_ml) +
+        totals.other_drinks_ml +
+        totals.meals_ml
+    ),
+  };
+}
+
+export class HydrationService {
+  static async getDailyHydration(user_id: string, date: string) {
+    try {
+      console.log("💧 Getting hydration for user:", user_id, "date:", date);
+
+      const timezone = await getUserTimeZone(user_id);
+      const { start, end } = getLocalDayRange(date, timezone);
+
+      const [logs, totalsByDate, targets] = await Promise.all([
+        prisma.waterLog.findMany({
+          where: { user_id, logged_at: { gte: start, lt: end } },
+          orderBy: { logged_at: "asc" },
+        }),
+        this.getDailyTotals(user_id, date, date, timezone),
+        GoalsService.getTargets(user_id),
+      ]);
+
+      const totals = totalsByDate[date];
+
+      return {
+        date,
+        goal_ml: targets.water,
+        ...totals,
+        remaining_ml: Math.max(0, targets.water - totals.total_ml),
+        progress_percent: Math.round((totals.total_ml / targets.water) * 100),
+        logs: logs.map((log) => ({
+          water_log_id: log.water_log_id,
+          amount_ml: log.amount_ml,
+          beverage: log.beverage,
+          logged_at: log.logged_at,
+        })),
+        quick_add_ml: HYDRATION_QUICK_ADD_ML,
+      };
+    } catch (error) {
+      console.error("💥 Error getting hydration:", error);
+      throw new Error("Failed to fetch hydration");
+    }
+  }
+
+  // Merged fluids for every local day from startDate to endDate (inclusive)
+  static async getDailyTotals(
+    user_id: string,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<Record<string, HydrationTotals>> {
+    const start = startOfLocalDay(startDate, timezone);
+    const end = startOfLocalDay(addDays(endDate, 1), timezone);
+
+    const [logs, meals, summaries] = await Promise.all([
+      prisma.waterLog.findMany({
+        where: { user_id, logged_at: { gte: start, lt: end } },
+        select: { amount_ml: true, beverage: true, logged_at: true },
+      }),
+      prisma.meal.findMany({
+        where: {
+          user_id,
+          is_draft: false,
+          liquids_ml: { not: null },
+          consumed_at: { gte: start, lt: end },
+        },
+        select: { liquids_ml: true, consumed_at: true },
+      }),
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id,
+          water_intake_ml: { not: null },
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+        select: { date: true, water_intake_ml: true },
+      }),
+    ]);
+
+    const totals: Record<string, HydrationTotals> = {};
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      totals[date] = emptyTotals();
+    }
+
+    logs.forEach((log) => {
+      const day = totals[toLocalDateString(log.logged_at, timezone)];
+      if (!day) return;
+      if (log.beverage === "WATER") {
+        day.water_ml += log.amount_ml;
+      } else {
+        day.other_drinks_ml += log.amount_ml;
+      }
+    });
+
+    meals.forEach((meal) => {
+      const day = totals[toLocalDateString(meal.consumed_at, timezone)];
+      if (day) day.meals_ml += meal.liquids_ml || 0;
+    });
+
+    // Several devices usually mirror the same health store, so the
+    // highest reading of the day is used rather than their sum
+    summaries.forEach((summary) => {
+      const day = totals[summary.date.toISOString().slice(0, 10)];
+      if (day) {
+        day.device_ml = Math.max(day.device_ml, summary.water_intake_ml || 0);
+      }
+    });
+
+    return Object.fromEntries(
+      Object.entries(totals).map(([date, day]) => [date, mergeTotals(day)])
+    );
+  }
+
+  static async logDrink(user_id: string, data: WaterLogInput) {
+    try {
+      console.log("💧 Logging", data.amount_ml, "ml of", data.beverage);
+
+      return await prisma.waterLog.create({
+        data: {
+          user_id,
+          amount_ml: data.amount_ml,
+          beverage: data.beverage,
+          logged_at: data.logged_at,
+        },
+      });
+    } catch (error) {
+      console.error("💥 Error logging drink:", error);
+      throw new Error("Failed to log drink");
+    }
+  }
+
+  static async deleteDrink(user_id: string, waterLogId: number) {
+    const log = await prisma.waterLog.findFirst({
+      where: { water_log_id: waterLogId, user_id },
+    });
+
+    if (!log) {
+      throw new Error("Water log not found");
+    }
+
+    await prisma.waterLog.delete({ where: { water_log_id: waterLogId } });
+  }
+}
@@ -0,0 +1,299 @@
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectsCommand,
+} from "@aws-sdk/client-s3";
+import { StoredImage } from "@prisma/client";
+import { prisma } from "../lib/database";
+
+export type ImageSize = "thumb" | "full";
+
+// A meal can have a second photo of what was left on the plate
+export type MealImageKind = "plate" | "leftovers";
+
+export interface StoredImageData {
+  buffer: Buffer;
+  contentType: string;
+}
+
+// Minimal contract every storage backend has to fulfil
+export interface ImageStorageBackend {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(keys: string[]): Promise<void>;
+}
+
+const THUMBNAIL_WIDTH = 320;
+
+export class LocalDiskStorage implements ImageStorageBackend {
+  readonly name = "local";
+
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map((key) => fs.rm(this.resolve(key), { force: true }))
+    );
+  }
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export class S3Storage implements ImageStorageBackend {
+  readonly name = "s3";
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string) {
+    // Works against AWS as well as S3-compatible services (MinIO, R2, ...)
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: !!process.env.S3_ENDPOINT,
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+    if (!response.Body) {
+      throw new Error(`Image not found in bucket: ${key}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: {
+            Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })),
+            Quiet: true,
+          },
+        })
+      );
+    }
+  }
+}
+
+let backend: ImageStorageBackend | null = null;
+
+const getBackend = (): ImageStorageBackend => {
+  if (!backend) {
+    const backendName = process.env.IMAGE_STORAGE_BACKEND || "local";
+
+    if (backendName === "s3") {
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET environment variable is not set");
+      }
+      backend = new S3Storage(process.env.S3_BUCKET);
+    } else {
+      backend = new LocalDiskStorage(
+        process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), "uploads")
+      );
+    }
+
+    console.log("🗄️ Image storage backend:", backend.name);
+  }
+  return backend;
+};
+
+export class ImageStorageService {
+  static async storeImage(user_id: string, imageBase64: string) {
+    try {
+      console.log("🖼️ Storing image for user:", user_id);
+
+      const base64 = imageBase64.replace(/^data:image\/\w+;base64,/, "");
+      const original = Buffer.from(base64, "base64");
+
+      const metadata = await sharp(original).metadata();
+      if (!metadata.format) {
+        throw new Error("Unsupported image format");
+      }
+
+      const thumbnail = await sharp(original)
+        .rotate()
+        .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+        .jpeg({ quality: 75 })
+        .toBuffer();
+
+      const storage = getBackend();
+      const image = await prisma.storedImage.create({
+        data: {
+          user_id,
+          backend: storage.name,
+          original_key: "",
+          thumbnail_key: "",
+          content_type: `image/${metadata.format}`,
+          size_bytes: original.length,
+          width: metadata.width,
+          height: metadata.height,
+        },
+      });
+
+      const original_key = `${user_id}/${image.image_id}/original.${metadata.format}`;
+      const thumbnail_key = `${user_id}/${image.image_id}/thumb.jpg`;
+
+      await storage.put(original_key, original, image.content_type);
+      await storage.put(thumbnail_key, thumbnail, "image/jpeg");
+
+      const storedImage = await prisma.storedImage.update({
+        where: { image_id: image.image_id },
+        data: { original_key, thumbnail_key },
+      });
+
+      console.log("✅ Image stored:", storedImage.image_id);
+      return storedImage;
+    } catch (error) {
+      console.error("💥 Error storing image:", error);
+      throw new Error("Failed to store image");
+    }
+  }
+
+  static async getMealImage(
+    user_id: string,
+    mealId: string,
+    size: ImageSize,
+    kind: MealImageKind = "plate"
+  ): Promise<StoredImageData | null> {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id: parseInt(mealId), user_id },
+      include: { image: true, leftovers_image: true },
+    });
+
+    const image = kind === "leftovers" ? meal?.leftovers_image : meal?.image;
+    return image ? this.readImage(image, size) : null;
+  }
+
+  // The photo of the meal a favorite was saved from
+  static async getFavoriteImage(
+    user_id: string,
+    favoriteId: number,
+    size: ImageSize
+  ): Promise<StoredImageData | null> {
+    const favorite = await prisma.favoriteFood.findFirst({
+      where: { favorite_id: favoriteId, user_id },
+      include: { image: true },
+    });
+
+    return favorite?.image ? this.readImage(favorite.image, size) : null;
+  }
+
+  static async deleteImage(image_id: string) {
+    try {
+      const image = await prisma.storedImage.delete({ where: { image_id } });
+
+      const keys = [image.original_key, image.thumbnail_key].filter(Boolean);
+      if (keys.length > 0) {
+        await getBackend().delete(keys);
+      }
+    } catch (error) {
+      console.error("💥 Error deleting image:", error);
+      throw new Error("Failed to delete image");
+    }
+  }
+
+  static async purgeUserImages(user_id: string) {
+    try {
+      console.log("🗑️ Purging images for user:", user_id);
+
+      const images = await prisma.storedImage.findMany({
+        where: { user_id },
+        select: { original_key: true, thumbnail_key: true },
+      });
+
+      const keys = images
+        .flatMap((image) => [image.original_key, image.thumbnail_key])
+        .filter(Boolean);
+
+      if (keys.length > 0) {
+        await getBackend().delete(keys);
+      }
+
+      await prisma.storedImage.deleteMany({ where: { user_id } });
+
+      console.log("✅ Purged", images.length, "images");
+    } catch (error) {
+      console.error("💥 Error purging user images:", error);
+      throw new Error("Failed to purge user images");
+    }
+  }
+
+  // Favorites are listed with thumbnails only by default
+  static getFavoriteImagePath(favorite_id: number, size: ImageSize = "thumb") {
+    return `/api/nutrition/favorites/${favorite_id}/image${
+      size === "thumb" ? "?size=thumb" : ""
+    }`;
+  }
+
+  // Path the client uses to fetch a meal's image through the API
+  static getImagePath(
+    meal_id: number,
+    size: ImageSize = "full",
+    kind: MealImageKind = "plate"
+  ) {
+    const query = [
+      size === "thumb" && "size=thumb",
+      kind === "leftovers" && "kind=leftovers",
+    ].filter(Boolean);
+
+    return `/api/nutrition/meals/${meal_id}/image${
+      query.length > 0 ? `?${query.join("&")}` : ""
+    }`;
+  }
+
+  private static async readImage(
+    image: StoredImage,
+    size: ImageSize
+  ): Promise<StoredImageData> {
+    const buffer = await getBackend().get(
+      size === "thumb" ? image.thumbnail_key : image.original_key
+    );
+
+    return {
+      buffer,
+      contentType: size === "thumb" ? "image/jpeg" : image.content_type,
+    };
+  }
+}
@@ -1,5 +1,14 @@
+import { MealTemplate } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { OpenAIService } from "./openai";
+import {
+  AIPlanMeal,
+  AIService,
+  AIServiceError,
+  MealPlanRequest,
+} from "./ai";
+import { EntitlementError } from "./entitlements";
+import { UsageService } from "./usage";
+import { GoalsService, NutritionTargets } from "./goals";
 
 export interface MealPlanTemplate {
   template_id: string;
@@ -39,6 +48,33 @@ export interface WeeklyMealPlan {
   };
 }
 
+// A promoted recipe in the shape plan generation works with
+function toOwnMeal(
+  template: MealTemplate
+): NonNullable<MealPlanRequest["own_meals"]>[number] {
+  return {
+    name: template.name,
+    description: template.description ?? undefined,
+    meal_timing: template.meal_timing,
+    dietary_category: template.dietary_category,
+    prep_time_minutes: template.prep_time_minutes ?? undefined,
+    difficulty_level: template.difficulty_level ?? undefined,
+    calories: template.calories ?? 0,
+    protein_g: template.protein_g ?? 0,
+    carbs_g: template.carbs_g ?? 0,
+    fats_g: template.fats_g ?? 0,
+    fiber_g: template.fiber_g ?? undefined,
+    sugar_g: template.sugar_g ?? undefined,
+    sodium_mg: template.sodium_mg ?? undefined,
+    ingredients:
+      (template.ingredients_json as AIPlanMeal["ingredients"] | null) ?? [],
+    instructions:
+      (template.instructions_json as AIPlanMeal["instructions"] | null) ?? [],
+    allergens: (template.allergens_json as string[] | null) ?? [],
+    image_url: template.image_url ?? undefined,
+  };
+}
+
 export class MealPlanService {
   static async createUserMealPlan(user_id: string, config: UserMealPlanConfig) {
     try {
@@ -47,14 +83,11 @@ export class MealPlanService {
       // Get user's questionnaire data for personalization
       const questionnaire = await prisma.userQuestionnaire.findFirst({
         where: { user_id },
-        orderBy: { date_completed: "desc" },
+        orderBy: { version: "desc" },
       });
 
       // Get user's nutrition goals
-      const nutritionPlan = await prisma.nutritionPlan.findFirst({
-        where: { user_id },
-        orderBy: { created_at: "desc" },
-      });
+      const targets = await GoalsService.getTargets(user_id);
 
       // Get user's basic info
       const user = await prisma.user.findUnique({
@@ -66,12 +99,20 @@ export class MealPlanService {
         },
       });
 
+      // Recipes the user promoted to meal templates
+      const ownTemplates = await prisma.mealTemplate.findMany({
+        where: { user_id, is_active: true },
+      });
+
       // Generate AI meal plan
-      const aiMealPlan = await this.generateAIMealPlan(
-        config,
-        questionnaire,
-        nutritionPlan,
-        user
+      const aiMealPlan = await UsageService.track(user_id, "MEAL_PLAN", () =>
+        this.generateAIMealPlan(
+          config,
+          questionnaire,
+          targets,
+          user,
+          ownTemplates
+        )
       );
 
       // Create the meal plan
@@ -85,10 +126,10 @@ export class MealPlanService {
           rotation_frequency_days: config.rotation_frequency_days,
           include_leftovers: config.include_leftovers,
           fixed_meal_times: config.fixed_meal_times,
-          target_calories_daily: nutritionPlan?.goal_calories || 2000,
-          target_protein_daily: nutritionPlan?.goal_protein_g || 150,
-          target_carbs_daily: nutritionPlan?.goal_carbs_g || 250,
-          target_fats_daily: nutritionPlan?.goal_fats_g || 67,
+          target_calories_daily: targets.calories,
+          target_protein_daily: targets.protein,
+          target_carbs_daily: targets.carbs,
+          target_fats_daily: targets.fat,
           dietary_preferences: config.dietary_preferences,
           excluded_ingredients: config.excluded_ingredients,
           start_date: new Date(),
@@ -96,12 +137,22 @@ export class MealPlanService {
       });
 
       // Store AI-generated meal templates and create schedule
-      await this.storeAIMealTemplatesAndSchedule(mealPlan.plan_id, aiMealPlan);
+      await this.storeAIMealTemplatesAndSchedule(
+        mealPlan.plan_id,
+        aiMealPlan,
+        ownTemplates
+      );
 
       console.log("✅ AI meal plan created successfully");
       return mealPlan;
     } catch (error) {
       console.error("💥 Error creating AI meal plan:", error);
+      if (
+        error instanceof AIServiceError ||
+        error instanceof EntitlementError
+      ) {
+        throw error;
+      }
       throw new Error("Failed to create meal plan");
     }
   }
@@ -109,8 +160,9 @@ export class MealPlanService {
   static async generateAIMealPlan(
     config: UserMealPlanConfig,
     questionnaire: any,
-    nutritionPlan: any,
-    user: any
+    targets: NutritionTargets,
+    user: any,
+    ownTemplates: MealTemplate[] = []
   ) {
     try {
       console.log("🤖 Generating AI meal plan...");
@@ -119,12 +171,13 @@ export class MealPlanService {
       const userProfile = this.buildUserProfile(
         config,
         questionnaire,
-        nutritionPlan,
-        user
+        targets,
+        user,
+        ownTemplates
       );
 
-      // Generate meal plan using OpenAI
-      const aiResponse = await OpenAIService.generateMealPlan(userProfile);
+      // Generate meal plan with the configured AI provider
+      const aiResponse = await AIService.generateMealPlan(userProfile);
 
       console.log("✅ AI meal plan generated successfully");
       return aiResponse;
@@ -137,9 +190,10 @@ export class MealPlanService {
   static buildUserProfile(
     config: UserMealPlanConfig,
     questionnaire: any,
-    nutritionPlan: any,
-    user: any
-  ) {
+    targets: NutritionTargets,
+    user: any,
+    ownTemplates: MealTemplate[] = []
+  ): MealPlanRequest {
     return {
       // Basic info
       age: user?.age || 30,
@@ -147,10 +201,10 @@ export class MealPlanService {
       height_cm: user?.height_cm || 170,
 
       // Nutrition goals
-      target_calories_daily: nutritionPlan?.goal_calories || 2000,
-      target_protein_daily: nutritionPlan?.goal_protein_g || 150,
-      target_carbs_daily: nutritionPlan?.goal_carbs_g || 250,
-      target_fats_daily: nutritionPlan?.goal_fats_g || 67,
+      target_calories_daily: targets.calories,
+      target_protein_daily: targets.protein,
+      target_carbs_daily: targets.carbs,
+      target_fats_daily: targets.fat,
 
       // Meal structure preferences
       meals_per_day: config.meals_per_day,
@@ -182,17 +236,24 @@ export class MealPlanService {
         config.meals_per_day
       ),
       kitchen_equipment: ["oven", "stovetop", "microwave"], // Could be from questionnaire
+
+      // The user's own recipes
+      own_meals: ownTemplates.map(toOwnMeal),
     };
   }
 
   static async storeAIMealTemplatesAndSchedule(
     plan_id: string,
-    aiMealPlan: any
+    aiMealPlan: any,
+    ownTemplates: MealTemplate[] = []
   ) {
     try {
       console.log("💾 Storing AI-generated meal templates and schedule...");
 
-      const templateIds: Record<string, string> = {};
+      // Meals picked from the user's recipes reuse their template
+      const templateIds: Record<string, string> = Object.fromEntries(
+        ownTemplates.map((template) => [template.name, template.template_id])
+      );
 
       // Store each unique meal template
       for (const dayPlan of aiMealPlan.weekly_plan) {
@@ -394,7 +455,7 @@ export class MealPlanService {
       // Get user profile for AI replacement
       const questionnaire = await prisma.userQuestionnaire.findFirst({
         where: { user_id },
-        orderBy: { date_completed: "desc" },
+        orderBy: { version: "desc" },
       });
 
       const user = await prisma.user.findUnique({
@@ -402,32 +463,42 @@ export class MealPlanService {
         select: { age: true, weight_kg: true, height_cm: true },
       });
 
+      // Plans created before goals existed may not carry their own targets
+      const targets = await GoalsService.getTargets(user_id);
+
       // Generate AI replacement meal
-      const replacementMeal = await OpenAIService.generateReplacementMeal({
-        current_meal: {
-          name: currentMeal.name,
-          meal_timing: currentMeal.meal_timing,
-          dietary_category: currentMeal.dietary_category,
-          calories: Number(currentMeal.calories),
-          protein_g: Number(currentMeal.protein_g),
-          carbs_g: Number(currentMeal.carbs_g),
-          fats_g: Number(currentMeal.fats_g),
-        },
-        user_preferences: {
-          dietary_preferences: (mealPlan.dietary_preferences as string[]) || [],
-          excluded_ingredients:
-            (mealPlan.excluded_ingredients as string[]) || [],
-          allergies: Array.isArray(questionnaire?.allergies)
-            ? questionnaire.allergies
-            : [],
-          preferred_dietary_category: preferences?.dietary_category,
-          max_prep_time: preferences?.max_prep_time,
-        },
-        nutrition_targets: {
-          target_calories: mealPlan.target_calories_daily || 2000,
-          target_protein: mealPlan.target_protein_daily || 150,
-        },
-      });
+      const replacementMeal = await UsageService.track(
+        user_id,
+        "MEAL_REPLACEMENT",
+        () =>
+          AIService.generateReplacementMeal({
+            current_meal: {
+              name: currentMeal.name,
+              meal_timing: currentMeal.meal_timing,
+              dietary_category: currentMeal.dietary_category,
+              calories: Number(currentMeal.calories),
+              protein_g: Number(currentMeal.protein_g),
+              carbs_g: Number(currentMeal.carbs_g),
+              fats_g: Number(currentMeal.fats_g),
+            },
+            user_preferences: {
+              dietary_preferences:
+                (mealPlan.dietary_preferences as string[]) || [],
+              excluded_ingredients:
+                (mealPlan.excluded_ingredients as string[]) || [],
+              allergies: Array.isArray(questionnaire?.allergies)
+                ? questionnaire.allergies
+                : [],
+              preferred_dietary_category: preferences?.dietary_category,
+              max_prep_time: preferences?.max_prep_time,
+            },
+            nutrition_targets: {
+              target_calories:
+                mealPlan.target_calories_daily || targets.calories,
+              target_protein: mealPlan.target_protein_daily || targets.protein,
+            },
+          })
+      );
 
       // Create new template for replacement meal
       const newTemplate = await prisma.mealTemplate.create({
@@ -1,8 +1,43 @@
+import {
+  AnalysisRoundKind,
+  FavoriteFood,
+  Meal,
+  MealItem,
+  Prisma,
+} from "@prisma/client";
 import { prisma } from "../lib/database";
-import { OpenAIService } from "./openai";
-import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
+import {
+  atLocalDate,
+  getLocalDayRange,
+  getLocalHour,
+  getUserTimeZone,
+} from "../lib/timezone";
+import { JobQueue } from "../lib/jobQueue";
+import {
+  AIService,
+  AIServiceError,
+  LeftoversEstimate,
+  MealAnalysisDetails,
+  MealAnalysisItem,
+  MealAnalysisResult,
+  ProcessingLevel,
+} from "./ai";
+import { ImageStorageService } from "./imageStorage";
+import { AnalysisCacheService } from "./analysisCache";
+import { AllergenService, AllergenWarning, MealContent } from "./allergens";
+import { UsageService } from "./usage";
+import {
+  ClarifyAnalysisInput,
+  LeftoversInput,
+  MealAnalysisInput,
+  MealBatchAnalysisInput,
+  MealItemInput,
+  MealTextAnalysisInput,
+  MealUpdateInput,
+  UpdateMealItemInput,
+} from "../types/nutrition";
 
-export interface MealData {
+export interface MealData extends MealAnalysisDetails {
   name: string;
   description?: string;
   calories: number;
@@ -12,76 +47,971 @@ export interface MealData {
   fiber?: number;
   sugar?: number;
   sodium?: number;
+  items?: MealAnalysisItem[];
+}
+
+type ItemNutrients = Pick<
+  MealItem,
+  "calories" | "protein_g" | "carbs_g" | "fats_g"
+> &
+  Partial<
+    Pick<
+      MealItem,
+      "grams" | "fiber_g" | "sugar_g" | "sodium_mg" | "micronutrients_json"
+    >
+  >;
+
+// Nutrient columns that scale with an item's portion size
+const SCALED_FIELDS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+] as const;
+
+const itemsInclude = { items: { orderBy: { position: "asc" } } } as const;
+
+// Favorites and recent foods are ranked by the meals of this many days
+const HABIT_WINDOW_DAYS = 30;
+
+// Meals logged within this many hours of the current time of day count extra
+const TIME_OF_DAY_WINDOW_HOURS = 2;
+
+// Photo analyses neither saved nor discarded within this many hours are
+// taken as abandoned
+const DRAFT_TTL_HOURS = 24;
+
+type MealWithItems = Meal & { items: MealItem[] };
+
+const storedMealContent = (meal: MealWithItems): MealContent => ({
+  name: meal.meal_name,
+  items: meal.items,
+  allergens: (meal.allergens_json as string[] | null) ?? undefined,
+});
+
+// Photo analyses less confident than this come back with questions for the user
+const CLARIFY_CONFIDENCE_THRESHOLD = Number(
+  process.env.CLARIFY_CONFIDENCE_THRESHOLD ?? 70
+);
+
+// Rounds of questions per meal before the estimate is taken as it is
+const MAX_CLARIFY_ROUNDS = 3;
+
+// Photo analyses running at once; the rest wait in the queue
+const ANALYSIS_CONCURRENCY = Number(process.env.ANALYSIS_CONCURRENCY) || 2;
+
+const analysisQueue = new JobQueue<number>(
+  "meal analysis",
+  ANALYSIS_CONCURRENCY,
+  (meal_id) => NutritionService.runAnalysisJob(meal_id)
+);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Optional nutrients stay null unless at least one item reports them
+const sumOptional = (values: (number | null | undefined)[]) =>
+  values.some((value) => value != null)
+    ? round(values.reduce<number>((sum, value) => sum + (value || 0), 0))
+    : null;
+
+// Meal totals are always derived from the items, never edited directly
+function sumItems(items: ItemNutrients[]) {
+  const micronutrients: Record<string, number> = {};
+  for (const item of items) {
+    const values = (item.micronutrients_json || {}) as Record<string, number>;
+    for (const [key, value] of Object.entries(values)) {
+      micronutrients[key] = round((micronutrients[key] || 0) + value);
+    }
+  }
+
+  return {
+    calories: round(items.reduce((sum, item) => sum + item.calories, 0)),
+    protein_g: round(items.reduce((sum, item) => sum + item.protein_g, 0)),
+    carbs_g: round(items.reduce((sum, item) => sum + item.carbs_g, 0)),
+    fats_g: round(items.reduce((sum, item) => sum + item.fats_g, 0)),
+    fiber_g: sumOptional(items.map((item) => item.fiber_g)),
+    sugar_g: sumOptional(items.map((item) => item.sugar_g)),
+    sodium_mg: sumOptional(items.map((item) => item.sodium_mg)),
+    serving_size_g: sumOptional(items.map((item) => item.grams)),
+    // Without per-item values the meal keeps the analysis' own estimate
+    ...(Object.keys(micronutrients).length > 0 && {
+      micronutrients_json: micronutrients,
+    }),
+  };
+}
+
+function fromAnalysisItems(
+  items: MealAnalysisItem[]
+): Prisma.MealItemCreateWithoutMealInput[] {
+  return items.map((item, index) => ({
+    position: index,
+    name: item.name,
+    grams: item.grams,
+    calories: item.calories,
+    protein_g: item.protein,
+    carbs_g: item.carbs,
+    fats_g: item.fat,
+    fiber_g: item.fiber,
+    sugar_g: item.sugar,
+    sodium_mg: item.sodium,
+  }));
+}
+
+function toAnalysisItems(items: MealItem[]): MealAnalysisItem[] {
+  return items.map((item) => ({
+    name: item.name,
+    grams: item.grams ?? undefined,
+    calories: item.calories,
+    protein: item.protein_g,
+    carbs: item.carbs_g,
+    fat: item.fats_g,
+    fiber: item.fiber_g ?? undefined,
+    sugar: item.sugar_g ?? undefined,
+    sodium: item.sodium_mg ?? undefined,
+  }));
+}
+
+// Meal columns for the detailed nutrients and food quality fields
+function fromAnalysisDetails(details: MealAnalysisDetails) {
+  return {
+    saturated_fats_g: details.saturatedFat,
+    monounsaturated_fats_g: details.monounsaturatedFat,
+    polyunsaturated_fats_g: details.polyunsaturatedFat,
+    omega_3_g: details.omega3,
+    omega_6_g: details.omega6,
+    soluble_fiber_g: details.solubleFiber,
+    insoluble_fiber_g: details.insolubleFiber,
+    cholesterol_mg: details.cholesterol,
+    alcohol_g: details.alcohol,
+    caffeine_mg: details.caffeine,
+    liquids_ml: details.liquids,
+    vitamins_json: details.vitamins,
+    micronutrients_json: details.micronutrients,
+    glycemic_index: details.glycemicIndex,
+    insulin_index: details.insulinIndex,
+    food_category: details.foodCategory,
+    processing_level: details.processingLevel,
+    cooking_method: details.cookingMethod,
+    allergens_json: details.allergens,
+    health_risk_notes: details.healthNotes,
+  };
+}
+
+function toAnalysisDetails(meal: Meal): MealAnalysisDetails {
+  return {
+    saturatedFat: meal.saturated_fats_g ?? undefined,
+    monounsaturatedFat: meal.monounsaturated_fats_g ?? undefined,
+    polyunsaturatedFat: meal.polyunsaturated_fats_g ?? undefined,
+    omega3: meal.omega_3_g ?? undefined,
+    omega6: meal.omega_6_g ?? undefined,
+    solubleFiber: meal.soluble_fiber_g ?? undefined,
+    insolubleFiber: meal.insoluble_fiber_g ?? undefined,
+    cholesterol: meal.cholesterol_mg ?? undefined,
+    alcohol: meal.alcohol_g ?? undefined,
+    caffeine: meal.caffeine_mg ?? undefined,
+    liquids: meal.liquids_ml ?? undefined,
+    vitamins: (meal.vitamins_json as Record<string, number>) ?? undefined,
+    micronutrients:
+      (meal.micronutrients_json as Record<string, number>) ?? undefined,
+    glycemicIndex: meal.glycemic_index ?? undefined,
+    insulinIndex: meal.insulin_index ?? undefined,
+    foodCategory: meal.food_category ?? undefined,
+    processingLevel: (meal.processing_level as ProcessingLevel) ?? undefined,
+    cookingMethod: meal.cooking_method ?? undefined,
+    allergens: (meal.allergens_json as string[]) ?? undefined,
+    healthNotes: meal.health_risk_notes ?? undefined,
+  };
+}
+
+// Questions to show with an analysis, none once it is confident enough. If
+// the model didn't say what it is unsure about, the portions of the largest
+// items are asked about.
+function clarifyingQuestions(
+  analysis: MealAnalysisResult,
+  rounds: number
+): string[] {
+  if (
+    analysis.confidence >= CLARIFY_CONFIDENCE_THRESHOLD ||
+    rounds >= MAX_CLARIFY_ROUNDS
+  ) {
+    return [];
+  }
+  if (analysis.questions?.length) {
+    return analysis.questions;
+  }
+
+  const items = [...(analysis.items ?? [])]
+    .sort((a, b) => b.calories - a.calories)
+    .slice(0, 2);
+  return items.length > 0
+    ? items.map((item) => `Roughly how many grams of ${item.name} was there?`)
+    : [`Roughly how big was the portion of ${analysis.name}?`];
+}
+
+// Amounts in an analysis besides the macros that shrink with the portion
+const SCALED_DETAILS = [
+  "saturatedFat",
+  "monounsaturatedFat",
+  "polyunsaturatedFat",
+  "omega3",
+  "omega6",
+  "solubleFiber",
+  "insolubleFiber",
+  "cholesterol",
+  "alcohol",
+  "caffeine",
+  "liquids",
+] as const;
+
+const scaleAmount = (value: number | undefined, fraction: number) =>
+  value === undefined ? undefined : round(value * fraction);
+
+const scaleAmounts = (
+  values: Record<string, number> | undefined,
+  fraction: number
+) =>
+  values &&
+  Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, round(value * fraction)])
+  );
+
+// Scales a full-plate analysis down to what was eaten. Items use their own
+// fraction when the estimate names them; everything else follows the share
+// of calories eaten.
+function applyLeftovers(
+  analysis: MealAnalysisResult,
+  estimate: LeftoversEstimate
+) {
+  const itemFractions = new Map(
+    estimate.items.map((item) => [
+      item.name.trim().toLowerCase(),
+      item.eatenFraction,
+    ])
+  );
+
+  const items = analysis.items?.map((item) => {
+    const fraction =
+      itemFractions.get(item.name.trim().toLowerCase()) ??
+      estimate.eatenFraction;
+    return {
+      ...item,
+      grams: scaleAmount(item.grams, fraction),
+      calories: round(item.calories * fraction),
+      protein: round(item.protein * fraction),
+      carbs: round(item.carbs * fraction),
+      fat: round(item.fat * fraction),
+      fiber: scaleAmount(item.fiber, fraction),
+      sugar: scaleAmount(item.sugar, fraction),
+      sodium: scaleAmount(item.sodium, fraction),
+    };
+  });
+
+  const eatenFraction =
+    items?.length && analysis.calories > 0
+      ? Math.min(
+          1,
+          items.reduce((sum, item) => sum + item.calories, 0) /
+            analysis.calories
+        )
+      : estimate.eatenFraction;
+
+  const scaled: MealAnalysisResult = {
+    ...analysis,
+    calories: round(analysis.calories * eatenFraction),
+    protein: round(analysis.protein * eatenFraction),
+    carbs: round(analysis.carbs * eatenFraction),
+    fat: round(analysis.fat * eatenFraction),
+    fiber: scaleAmount(analysis.fiber, eatenFraction),
+    sugar: scaleAmount(analysis.sugar, eatenFraction),
+    sodium: scaleAmount(analysis.sodium, eatenFraction),
+    vitamins: scaleAmounts(analysis.vitamins, eatenFraction),
+    micronutrients: scaleAmounts(analysis.micronutrients, eatenFraction),
+    items,
+  };
+  for (const field of SCALED_DETAILS) {
+    scaled[field] = scaleAmount(analysis[field], eatenFraction);
+  }
+
+  return { analysis: scaled, eatenFraction: round(eatenFraction * 100) / 100 };
+}
+
+// Rebuilds the analysis shape from a stored meal
+function toAnalysisResult(meal: MealWithItems): MealAnalysisResult {
+  return {
+    name: meal.meal_name || "Unknown",
+    description: meal.meal_name || "",
+    calories: meal.calories || 0,
+    protein: meal.protein_g || 0,
+    carbs: meal.carbs_g || 0,
+    fat: meal.fats_g || 0,
+    fiber: meal.fiber_g ?? undefined,
+    sugar: meal.sugar_g ?? undefined,
+    sodium: meal.sodium_mg ?? undefined,
+    confidence: meal.analysis_confidence ?? 85,
+    ingredients: meal.items.map((item) => item.name),
+    items: toAnalysisItems(meal.items),
+    servingSize: meal.serving_size_g ? `${meal.serving_size_g} g` : "1 serving",
+    ...toAnalysisDetails(meal),
+  };
+}
+
+// Overwrites an existing meal with new analysis values. Items are replaced
+// when the analysis has a breakdown, in which case the totals follow from them
+function toMealUpdate(mealData: MealData): Prisma.MealUpdateInput {
+  const items = fromAnalysisItems(
+    Array.isArray(mealData.items) ? mealData.items : []
+  );
+
+  return {
+    meal_name: mealData.name,
+    calories: mealData.calories,
+    protein_g: mealData.protein,
+    carbs_g: mealData.carbs,
+    fats_g: mealData.fat,
+    fiber_g: mealData.fiber,
+    sugar_g: mealData.sugar,
+    sodium_mg: mealData.sodium,
+    ...fromAnalysisDetails(mealData),
+    ...(items.length > 0 && {
+      ...sumItems(items as ItemNutrients[]),
+      items: { deleteMany: {}, create: items },
+    }),
+  };
+}
+
+// Every log counts once and logs around the current time of day three
+// times, so breakfast staples rise in the morning and dinners at night
+function habitScore(loggedAt: Date[], now: Date, timeZone: string) {
+  const hour = getLocalHour(now, timeZone);
+  return loggedAt.reduce((score, date) => {
+    const diff = Math.abs(getLocalHour(date, timeZone) - hour);
+    const distance = Math.min(diff, 24 - diff);
+    return score + (distance <= TIME_OF_DAY_WINDOW_HOURS ? 3 : 1);
+  }, 0);
+}
+
+function fromItemInput(data: UpdateMealItemInput) {
+  const { micronutrients, ...fields } = data;
+  return {
+    ...fields,
+    ...(micronutrients && { micronutrients_json: micronutrients }),
+  };
 }
 
 export class NutritionService {
-  static async analyzeMeal(user_id: string, data: MealAnalysisInput) {
+  // Photo analysis runs in the background: a draft meal is created as
+  // PENDING right away and the client follows its job until COMPLETED or
+  // FAILED, then confirms it through saveAnalyzedMeal
+  static async analyzeMeal(
+    user_id: string,
+    data: MealAnalysisInput,
+    consumedAt?: Date
+  ) {
     try {
       console.log("🔍 Starting meal analysis for user:", user_id);
 
-      // Check user's AI request limits
-      const user = await prisma.user.findUnique({
-        where: { user_id },
-        select: {
-          aiRequestsCount: true,
-          aiRequestsResetAt: true,
-          subscription_type: true,
+      // A photo sent again (say after a network error) reuses its earlier
+      // result without counting against the quota. Extra details or a
+      // leftovers photo change the result, so those get a fresh analysis.
+      const cached =
+        data.updateText || data.leftoversImageBase64
+          ? null
+          : await AnalysisCacheService.lookup(
+              user_id,
+              data.language,
+              data.imageBase64
+            );
+
+      const storedImage = await ImageStorageService.storeImage(
+        user_id,
+        data.imageBase64
+      );
+      const leftoversImage = data.leftoversImageBase64
+        ? await ImageStorageService.storeImage(
+            user_id,
+            data.leftoversImageBase64
+          )
+        : null;
+
+      let meal = await prisma.meal.create({
+        data: {
+          user_id,
+          image_url: "",
+          image_id: storedImage.image_id,
+          leftovers_image_id: leftoversImage?.image_id,
+          analysis_status: cached ? "COMPLETED" : "PENDING",
+          is_draft: true,
+          analysis_language: data.language,
+          analysis_context: data.updateText,
+          analysis_cache_id: cached?.cache_id,
+          ...(consumedAt && { consumed_at: consumedAt }),
         },
+        include: itemsInclude,
       });
 
-      if (user) {
-        // Check if we need to reset daily limits
-        const now = new Date();
-        const resetTime = new Date(user.aiRequestsResetAt);
-        const hoursSinceReset = (now.getTime() - resetTime.getTime()) / (1000 * 60 * 60);
-
-        if (hoursSinceReset >= 24) {
-          await prisma.user.update({
-            where: { user_id },
-            data: {
-              aiRequestsCount: 0,
-              aiRequestsResetAt: now,
-            },
+      // Reserved only once the job exists, so the worker can record the
+      // call's tokens against it
+      if (!cached) {
+        try {
+          await UsageService.reserve(user_id, "MEAL_ANALYSIS", {
+            meal_id: meal.meal_id,
           });
-          user.aiRequestsCount = 0;
+        } catch (error) {
+          await this.discardAnalysisJob(user_id, meal.meal_id);
+          throw error;
         }
+      }
 
-        // Check limits based on subscription
-        const limits = {
-          FREE: 10,
-          BASIC: 50,
-          PREMIUM: 200,
-        };
+      if (cached) {
+        const questions = clarifyingQuestions(cached.analysis, 0);
+        meal = await prisma.meal.update({
+          where: { meal_id: meal.meal_id },
+          data: {
+            ...toMealUpdate(cached.analysis),
+            // Checked against this user's allergies, never cached
+            allergen_warnings_json: await this.allergenWarnings(
+              user_id,
+              cached.analysis
+            ),
+            analysis_confidence: Math.round(cached.analysis.confidence),
+            clarifying_questions: questions,
+          },
+          include: itemsInclude,
+        });
+        await this.recordAnalysisRound(
+          meal.meal_id,
+          "INITIAL",
+          cached.analysis,
+          { questions }
+        );
+        console.log("✅ Meal analysis served from cache:", meal.meal_id);
+      } else {
+        analysisQueue.push(meal.meal_id);
+        console.log("✅ Meal analysis queued:", meal.meal_id);
+      }
 
-        const userLimit = limits[user.subscription_type as keyof typeof limits] || limits.FREE;
+      return {
+        success: true,
+        data: { ...this.toAnalysisJob(meal), cached: !!cached },
+      };
+    } catch (error) {
+      console.error("💥 Meal analysis error:", error);
+      throw error;
+    }
+  }
 
-        if (user.aiRequestsCount >= userLimit) {
-          throw new Error(`Daily AI analysis limit reached (${userLimit}). Upgrade your subscription for more analyses.`);
-        }
+  // Catching up on a day from the gallery: every photo becomes its own job
+  // and counts against the quota like a single analysis would. A photo
+  // that can't be queued (typically once the daily limit is reached) is
+  // reported by its index without failing the rest of the batch.
+  static async analyzeMealBatch(user_id: string, data: MealBatchAnalysisInput) {
+    console.log(
+      "📚 Starting batch meal analysis for user:",
+      user_id,
+      `(${data.images.length} images)`
+    );
 
-        // Increment AI request count
-        await prisma.user.update({
-          where: { user_id },
-          data: {
-            aiRequestsCount: user.aiRequestsCount + 1,
-          },
+    const results = [];
+    for (const [index, image] of data.images.entries()) {
+      try {
+        const result = await this.analyzeMeal(
+          user_id,
+          { imageBase64: image.imageBase64, language: data.language },
+          image.consumed_at
+        );
+        results.push({ index, job: result.data });
+      } catch (error) {
+        results.push({
+          index,
+          error:
+            error instanceof Error ? error.message : "Failed to analyze meal",
         });
       }
+    }
+
+    const queued = results.filter((result) => result.job).length;
+    console.log(`✅ Batch analysis: ${queued}/${results.length} images queued`);
+    return { success: true, data: { jobs: results } };
+  }
+
+  // Queue worker; the job's outcome is recorded on the meal, never thrown
+  static async runAnalysisJob(meal_id: number) {
+    const meal = await prisma.meal.findUnique({ where: { meal_id } });
+
+    // Discarded while it waited in the queue
+    if (!meal || meal.analysis_status !== "PENDING") {
+      return;
+    }
+
+    try {
+      console.log("🤖 Running meal analysis job:", meal_id);
+
+      const image = await ImageStorageService.getMealImage(
+        meal.user_id,
+        meal_id.toString(),
+        "full"
+      );
+      if (!image) {
+        throw new Error("Meal image not found");
+      }
+
+      const imageBase64 = image.buffer.toString("base64");
+      const language = meal.analysis_language || "english";
+
+      // A job resumed after its call already went through reserves anew,
+      // without charging the quota a second time
+      const reservation =
+        (await UsageService.findReservation(meal_id)) ??
+        (await UsageService.reserve(meal.user_id, "MEAL_ANALYSIS", {
+          meal_id,
+          enforceQuota: false,
+        }));
+
+      const analysis = await UsageService.meter(reservation, () =>
+        AIService.analyzeMealImage(
+          imageBase64,
+          language,
+          meal.analysis_context || undefined
+        )
+      );
+
+      const analysis_cache_id = meal.analysis_context
+        ? null
+        : await AnalysisCacheService.store(
+            meal.user_id,
+            language,
+            imageBase64,
+            analysis
+          );
+
+      const questions = clarifyingQuestions(analysis, 0);
+
+      // Sent together with the plate photo: log only what was eaten
+      let leftovers: ReturnType<typeof applyLeftovers> | null = null;
+      if (meal.leftovers_image_id) {
+        const leftoversImage = await ImageStorageService.getMealImage(
+          meal.user_id,
+          meal_id.toString(),
+          "full",
+          "leftovers"
+        );
+        if (!leftoversImage) {
+          throw new Error("Leftovers image not found");
+        }
+
+        leftovers = applyLeftovers(
+          analysis,
+          await UsageService.track(
+            meal.user_id,
+            "LEFTOVERS",
+            () =>
+              AIService.estimateLeftovers(
+                analysis,
+                imageBase64,
+                leftoversImage.buffer.toString("base64"),
+                language
+              ),
+            { meal_id }
+          )
+        );
+      }
+
+      await prisma.meal.update({
+        where: { meal_id },
+        data: {
+          ...toMealUpdate(leftovers?.analysis ?? analysis),
+          allergen_warnings_json: await this.allergenWarnings(
+            meal.user_id,
+            analysis
+          ),
+          analysis_status: "COMPLETED",
+          analysis_confidence: Math.round(analysis.confidence),
+          clarifying_questions: questions,
+          eaten_fraction: leftovers?.eatenFraction,
+          ...(analysis_cache_id && {
+            analysis_cache: { connect: { cache_id: analysis_cache_id } },
+          }),
+        },
+      });
+      await this.recordAnalysisRound(
+        meal_id,
+        "INITIAL",
+        analysis,
+        { questions }
+      );
+      if (leftovers) {
+        await this.recordAnalysisRound(
+          meal_id,
+          "LEFTOVERS",
+          leftovers.analysis,
+          { questions }
+        );
+      }
+
+      console.log("✅ Meal analysis job completed:", meal_id);
+    } catch (error) {
+      console.error("💥 Meal analysis job failed:", meal_id, error);
+
+      // updateMany, because the meal may have been discarded meanwhile
+      await prisma.meal.updateMany({
+        where: { meal_id, analysis_status: "PENDING" },
+        data: {
+          analysis_status: "FAILED",
+          analysis_error:
+            error instanceof AIServiceError
+              ? error.message
+              : "Failed to analyze meal",
+          analysis_error_code:
+            error instanceof AIServiceError ? error.code : "ANALYSIS_FAILED",
+        },
+      });
+    }
+  }
+
+  // Re-queues jobs interrupted by a restart
+  static async resumeAnalysisJobs() {
+    try {
+      const pending = await prisma.meal.findMany({
+        where: { analysis_status: "PENDING" },
+        select: { meal_id: true },
+        orderBy: { upload_time: "asc" },
+      });
+
+      if (pending.length > 0) {
+        console.log("🔁 Resuming", pending.length, "meal analysis jobs");
+      }
+      pending.forEach((meal) => analysisQueue.push(meal.meal_id));
+    } catch (error) {
+      console.error("💥 Error resuming meal analysis jobs:", error);
+    }
+  }
+
+  // Removes abandoned draft meals and the photos only they used
+  static async purgeAbandonedDrafts() {
+    try {
+      const cutoff = new Date(Date.now() - DRAFT_TTL_HOURS * 60 * 60 * 1000);
+
+      const drafts = await prisma.meal.findMany({
+        where: { is_draft: true, upload_time: { lt: cutoff } },
+        select: { meal_id: true, image_id: true, leftovers_image_id: true },
+      });
+      if (drafts.length === 0) {
+        return 0;
+      }
+
+      // Skips drafts saved since they were read
+      const { count } = await prisma.meal.deleteMany({
+        where: {
+          meal_id: { in: drafts.map((draft) => draft.meal_id) },
+          is_draft: true,
+        },
+      });
+      await this.deleteUnusedImages(
+        drafts.flatMap((draft) => [draft.image_id, draft.leftovers_image_id])
+      );
+
+      console.log(`🧹 Purged ${count} abandoned meal drafts`);
+      return count;
+    } catch (error) {
+      console.error("💥 Error purging meal drafts:", error);
+      throw new Error("Failed to purge meal drafts");
+    }
+  }
+
+  static async getAnalysisJob(user_id: string, job_id: number) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id: job_id, user_id },
+      include: itemsInclude,
+    });
+
+    return meal ? this.toAnalysisJob(meal) : null;
+  }
+
+  // Calls the listener whenever the job starts or finishes
+  static subscribeToAnalysisJob(job_id: number, listener: () => void) {
+    return analysisQueue.subscribe(job_id, listener);
+  }
+
+  // Confirms a completed job with the values the user reviewed
+  static async saveAnalyzedMeal(
+    user_id: string,
+    job_id: number,
+    mealData: MealData,
+    consumedAt?: Date
+  ) {
+    try {
+      console.log("💾 Saving analyzed meal:", job_id);
+
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: job_id, user_id },
+      });
+
+      if (!meal) {
+        throw new Error("Analysis job not found");
+      }
+      if (meal.analysis_status !== "COMPLETED") {
+        throw new Error("Analysis is not completed yet");
+      }
+
+      const savedMeal = await prisma.meal.update({
+        where: { meal_id: job_id },
+        data: {
+          ...toMealUpdate(mealData),
+          allergen_warnings_json: await this.allergenWarnings(
+            user_id,
+            mealData
+          ),
+          is_draft: false,
+          ...(consumedAt && { consumed_at: consumedAt }),
+        },
+        include: itemsInclude,
+      });
+
+      console.log("✅ Analyzed meal saved");
+      return this.transformMealData(savedMeal);
+    } catch (error) {
+      console.error("💥 Save analyzed meal error:", error);
+      throw error;
+    }
+  }
+
+  // Refines a completed analysis with the user's answers to its questions
+  static async clarifyAnalysis(
+    user_id: string,
+    job_id: number,
+    data: ClarifyAnalysisInput
+  ) {
+    try {
+      console.log("❓ Clarifying meal analysis:", job_id);
+
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: job_id, user_id },
+        include: itemsInclude,
+      });
+
+      if (!meal) {
+        throw new Error("Analysis job not found");
+      }
+      if (meal.analysis_status !== "COMPLETED") {
+        throw new Error("Analysis is not completed yet");
+      }
+
+      await AnalysisCacheService.invalidateForMeal(meal.meal_id);
+
+      const updateText = data.answers
+        .map(({ question, answer }) => `${question} ${answer}`)
+        .join("\n");
+
+      const analysis = await UsageService.track(
+        user_id,
+        "CLARIFICATION",
+        () =>
+          AIService.updateMealAnalysis(
+            toAnalysisResult(meal),
+            updateText,
+            data.language
+          ),
+        { meal_id: meal.meal_id }
+      );
+
+      const questions = clarifyingQuestions(
+        analysis,
+        (await this.countClarificationRounds(meal.meal_id)) + 1
+      );
+
+      const updatedMeal = await prisma.meal.update({
+        where: { meal_id: meal.meal_id },
+        data: {
+          ...toMealUpdate(analysis),
+          allergen_warnings_json: await this.allergenWarnings(
+            user_id,
+            analysis
+          ),
+          analysis_confidence: Math.round(analysis.confidence),
+          clarifying_questions: questions,
+        },
+        include: itemsInclude,
+      });
+      await this.recordAnalysisRound(
+        meal.meal_id,
+        "CLARIFICATION",
+        analysis,
+        {
+          questions,
+          answers: data.answers,
+        }
+      );
+
+      console.log("✅ Meal analysis clarified");
+      return this.toAnalysisJob(updatedMeal);
+    } catch (error) {
+      console.error("💥 Clarify analysis error:", error);
+      throw error;
+    }
+  }
+
+  // Scales a completed analysis down to what was eaten, judged from a
+  // photo of the leftovers taken after the meal
+  static async addLeftovers(
+    user_id: string,
+    job_id: number,
+    data: LeftoversInput
+  ) {
+    try {
+      console.log("🍽️ Adding leftovers photo to meal:", job_id);
+
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: job_id, user_id },
+        include: itemsInclude,
+      });
+
+      if (!meal) {
+        throw new Error("Analysis job not found");
+      }
+      if (meal.analysis_status !== "COMPLETED") {
+        throw new Error("Analysis is not completed yet");
+      }
+      // The plate analysis is gone once scaled, so it can't be scaled twice
+      if (meal.eaten_fraction !== null) {
+        throw new Error("Leftovers were already logged for this meal");
+      }
+
+      const plateImage = await ImageStorageService.getMealImage(
+        user_id,
+        job_id.toString(),
+        "full"
+      );
+      if (!plateImage) {
+        throw new Error("Meal image not found");
+      }
+
+      const plateAnalysis = toAnalysisResult(meal);
+      const leftovers = applyLeftovers(
+        plateAnalysis,
+        await UsageService.track(
+          user_id,
+          "LEFTOVERS",
+          () =>
+            AIService.estimateLeftovers(
+              plateAnalysis,
+              plateImage.buffer.toString("base64"),
+              data.imageBase64,
+              data.language
+            ),
+          { meal_id: meal.meal_id }
+        )
+      );
+
+      const leftoversImage = await ImageStorageService.storeImage(
+        user_id,
+        data.imageBase64
+      );
+
+      const updatedMeal = await prisma.meal.update({
+        where: { meal_id: meal.meal_id },
+        data: {
+          ...toMealUpdate(leftovers.analysis),
+          eaten_fraction: leftovers.eatenFraction,
+          leftovers_image: { connect: { image_id: leftoversImage.image_id } },
+        },
+        include: itemsInclude,
+      });
+      await this.recordAnalysisRound(
+        meal.meal_id,
+        "LEFTOVERS",
+        leftovers.analysis,
+        { questions: (meal.clarifying_questions as string[] | null) ?? [] }
+      );
+
+      console.log("✅ Leftovers logged, eaten:", leftovers.eatenFraction);
+      return this.toAnalysisJob(updatedMeal);
+    } catch (error) {
+      console.error("💥 Add leftovers error:", error);
+      throw error;
+    }
+  }
+
+  // How a meal's estimate evolved, oldest round first
+  static async getAnalysisRounds(user_id: string, mealId: string) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id: parseInt(mealId), user_id },
+      select: { meal_id: true },
+    });
+
+    if (!meal) {
+      throw new Error("Meal not found");
+    }
+
+    const rounds = await prisma.mealAnalysisRound.findMany({
+      where: { meal_id: meal.meal_id },
+      orderBy: { created_at: "asc" },
+    });
+
+    return rounds.map((round) => ({
+      round_id: round.round_id,
+      kind: round.kind,
+      answers: round.answers_json ?? undefined,
+      update_text: round.update_text ?? undefined,
+      confidence: round.confidence,
+      calories: round.calories,
+      questions: round.questions_json ?? [],
+      analysis: round.analysis_json,
+      created_at: round.created_at,
+    }));
+  }
+
+  // Drops the job's draft meal and its photos, whatever state the analysis
+  // is in. A saved meal is kept: the job id is the meal id.
+  static async discardAnalysisJob(user_id: string, job_id: number) {
+    try {
+      console.log("🗑️ Discarding meal analysis job:", job_id);
+
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: job_id, user_id },
+      });
+
+      if (!meal) {
+        return false;
+      }
 
-      // Analyze with OpenAI
-      const analysis = await OpenAIService.analyzeMealImage(
-        data.imageBase64,
-        data.language,
-        data.updateText
+      // Checked again on delete, in case it is being saved meanwhile
+      const { count } = await prisma.meal.deleteMany({
+        where: { meal_id: job_id, is_draft: true },
+      });
+      if (count === 0) {
+        throw new Error("Analysis was already saved");
+      }
+
+      await this.deleteUnusedImages([meal.image_id, meal.leftovers_image_id]);
+
+      console.log("✅ Meal analysis job discarded");
+      return true;
+    } catch (error) {
+      console.error("💥 Discard analysis job error:", error);
+      throw error;
+    }
+  }
+
+  // Same quota and response shape as a photo analysis, for meals typed in
+  static async analyzeMealText(user_id: string, data: MealTextAnalysisInput) {
+    try {
+      console.log("🔍 Starting text meal analysis for user:", user_id);
+
+      const analysis = await UsageService.track(user_id, "TEXT_ANALYSIS", () =>
+        AIService.analyzeMealText(data.description, data.language)
       );
 
-      console.log("✅ Meal analysis completed");
+      console.log("✅ Text meal analysis completed");
       return {
         success: true,
         data: analysis,
+        allergen_warnings: await AllergenService.checkMeal(user_id, analysis),
       };
     } catch (error) {
-      console.error("💥 Meal analysis error:", error);
+      console.error("💥 Text meal analysis error:", error);
       throw error;
     }
   }
@@ -96,51 +1026,59 @@ export class NutritionService {
           meal_id: parseInt(data.meal_id),
           user_id,
         },
+        include: itemsInclude,
       });
 
       if (!meal) {
         throw new Error("Meal not found");
       }
 
+      await AnalysisCacheService.invalidateForMeal(meal.meal_id);
+
       // Get original analysis data
-      const originalAnalysis = {
-        name: meal.meal_name || "Unknown",
-        description: meal.meal_name || "",
-        calories: meal.calories || 0,
-        protein: meal.protein_g || 0,
-        carbs: meal.carbs_g || 0,
-        fat: meal.fats_g || 0,
-        fiber: meal.fiber_g,
-        sugar: meal.sugar_g,
-        sodium: meal.sodium_mg,
-        confidence: 85,
-        ingredients: [],
-        servingSize: "1 serving",
-        cookingMethod: "Unknown",
-        healthNotes: "",
-      };
+      const originalAnalysis = toAnalysisResult(meal);
+
+      // Update analysis with the configured AI provider
+      const updatedAnalysis = await UsageService.track(
+        user_id,
+        "MEAL_UPDATE",
+        () =>
+          AIService.updateMealAnalysis(
+            originalAnalysis,
+            data.updateText,
+            data.language
+          ),
+        { meal_id: meal.meal_id }
+      );
 
-      // Update analysis with OpenAI
-      const updatedAnalysis = await OpenAIService.updateMealAnalysis(
-        originalAnalysis,
-        data.updateText,
-        data.language
+      const questions = clarifyingQuestions(
+        updatedAnalysis,
+        await this.countClarificationRounds(meal.meal_id)
       );
 
       // Update meal in database
       const updatedMeal = await prisma.meal.update({
-        where: { meal_id: parseInt(data.meal_id) },
+        where: { meal_id: meal.meal_id },
         data: {
-          meal_name: updatedAnalysis.name,
-          calories: updatedAnalysis.calories,
-          protein_g: updatedAnalysis.protein,
-          carbs_g: updatedAnalysis.carbs,
-          fats_g: updatedAnalysis.fat,
-          fiber_g: updatedAnalysis.fiber,
-          sugar_g: updatedAnalysis.sugar,
-          sodium_mg: updatedAnalysis.sodium,
+          ...toMealUpdate(updatedAnalysis),
+          allergen_warnings_json: await this.allergenWarnings(
+            user_id,
+            updatedAnalysis
+          ),
+          analysis_confidence: Math.round(updatedAnalysis.confidence),
+          clarifying_questions: questions,
         },
+        include: itemsInclude,
       });
+      await this.recordAnalysisRound(
+        meal.meal_id,
+        "UPDATE",
+        updatedAnalysis,
+        {
+          questions,
+          update_text: data.updateText,
+        }
+      );
 
       // Transform to client format
       const transformedMeal = this.transformMealData(updatedMeal);
@@ -153,15 +1091,30 @@ export class NutritionService {
     }
   }
 
-  static async saveMeal(user_id: string, mealData: MealData, imageBase64?: string) {
+  static async saveMeal(
+    user_id: string,
+    mealData: MealData,
+    imageBase64?: string,
+    consumedAt?: Date
+  ) {
     try {
       console.log("💾 Saving meal for user:", user_id);
 
+      // Persist the photo (original + thumbnail) before creating the meal
+      const storedImage = imageBase64
+        ? await ImageStorageService.storeImage(user_id, imageBase64)
+        : null;
+
+      const items = fromAnalysisItems(
+        Array.isArray(mealData.items) ? mealData.items : []
+      );
+
       // Save meal to database
       const meal = await prisma.meal.create({
         data: {
           user_id,
-          image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64.substring(0, 100)}...` : "",
+          image_url: "",
+          image_id: storedImage?.image_id,
           meal_name: mealData.name,
           calories: mealData.calories,
           protein_g: mealData.protein,
@@ -170,8 +1123,19 @@ export class NutritionService {
           fiber_g: mealData.fiber,
           sugar_g: mealData.sugar,
           sodium_mg: mealData.sodium,
+          ...fromAnalysisDetails(mealData),
+          allergen_warnings_json: await this.allergenWarnings(
+            user_id,
+            mealData
+          ),
+          ...(items.length > 0 && {
+            ...sumItems(items as ItemNutrients[]),
+            items: { create: items },
+          }),
           analysis_status: "COMPLETED",
+          consumed_at: consumedAt ?? new Date(),
         },
+        include: itemsInclude,
       });
 
       // Transform to client format
@@ -189,10 +1153,12 @@ export class NutritionService {
     try {
       console.log("📥 Getting meals for user:", user_id);
 
+      // Photo analyses only become meals once the user confirms them
       const meals = await prisma.meal.findMany({
-        where: { user_id },
-        orderBy: { upload_time: "desc" },
+        where: { user_id, is_draft: false },
+        orderBy: { consumed_at: "desc" },
         take: 100, // Limit to recent 100 meals
+        include: itemsInclude,
       });
 
       // Transform to client format
@@ -210,16 +1176,16 @@ export class NutritionService {
     try {
       console.log("📊 Getting daily stats for user:", user_id, "date:", date);
 
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const timezone = await getUserTimeZone(user_id);
+      const { start, end } = getLocalDayRange(date, timezone);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          createdAt: {
-            gte: startDate,
-            lt: endDate,
+          is_draft: false,
+          consumed_at: {
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -293,6 +1259,8 @@ export class NutritionService {
     }
   }
 
+  // Favoriting saves a snapshot of the meal as a FavoriteFood; unfavoriting
+  // removes it, which unlinks every meal logged from it
   static async toggleMealFavorite(user_id: string, mealId: string) {
     try {
       console.log("❤️ Toggling favorite for meal:", mealId);
@@ -302,27 +1270,51 @@ export class NutritionService {
           meal_id: parseInt(mealId),
           user_id,
         },
+        include: itemsInclude,
       });
 
       if (!meal) {
         throw new Error("Meal not found");
       }
 
-      const currentFavorite = (meal.additives_json as any)?.isFavorite || false;
-      const newFavorite = !currentFavorite;
+      if (meal.favorite_id) {
+        await prisma.favoriteFood.delete({
+          where: { favorite_id: meal.favorite_id },
+        });
 
-      await prisma.meal.update({
-        where: { meal_id: parseInt(mealId) },
+        console.log("✅ Favorite removed:", meal.favorite_id);
+        return { success: true, isFavorite: false, favorite_id: null };
+      }
+
+      const favorite = await prisma.favoriteFood.create({
         data: {
-          additives_json: {
-            ...((meal.additives_json as any) || {}),
-            isFavorite: newFavorite,
-          },
+          user_id,
+          name: meal.meal_name || "Unknown Meal",
+          calories: meal.calories ?? 0,
+          protein_g: meal.protein_g ?? 0,
+          carbs_g: meal.carbs_g ?? 0,
+          fats_g: meal.fats_g ?? 0,
+          fiber_g: meal.fiber_g,
+          sugar_g: meal.sugar_g,
+          sodium_mg: meal.sodium_mg,
+          items_json: toAnalysisItems(
+            meal.items
+          ) as unknown as Prisma.InputJsonValue,
+          image_id: meal.image_id,
         },
       });
 
-      console.log("✅ Favorite status toggled");
-      return { success: true, isFavorite: newFavorite };
+      await prisma.meal.update({
+        where: { meal_id: meal.meal_id },
+        data: { favorite: { connect: { favorite_id: favorite.favorite_id } } },
+      });
+
+      console.log("✅ Favorite added:", favorite.favorite_id);
+      return {
+        success: true,
+        isFavorite: true,
+        favorite_id: favorite.favorite_id,
+      };
     } catch (error) {
       console.error("💥 Toggle favorite error:", error);
       throw error;
@@ -338,17 +1330,36 @@ export class NutritionService {
           meal_id: parseInt(mealId),
           user_id,
         },
+        include: itemsInclude,
       });
 
       if (!originalMeal) {
         throw new Error("Meal not found");
       }
 
-      // Create duplicate meal
+      // A bare YYYY-MM-DD keeps the original local time of day on the new
+      // date, in the user's timezone
+      let consumedAt = new Date();
+      if (newDate && /^\d{4}-\d{2}-\d{2}$/.test(newDate)) {
+        consumedAt = atLocalDate(
+          newDate,
+          await getUserTimeZone(user_id),
+          originalMeal.consumed_at
+        );
+      } else if (newDate) {
+        consumedAt = new Date(newDate);
+      }
+
+      if (isNaN(consumedAt.getTime())) {
+        throw new Error("Invalid date provided");
+      }
+
+      // Create duplicate meal, sharing the stored image with the original
       const duplicatedMeal = await prisma.meal.create({
         data: {
           user_id,
           image_url: originalMeal.image_url,
+          image_id: originalMeal.image_id,
           meal_name: originalMeal.meal_name,
           calories: originalMeal.calories,
           protein_g: originalMeal.protein_g,
@@ -357,9 +1368,26 @@ export class NutritionService {
           fiber_g: originalMeal.fiber_g,
           sugar_g: originalMeal.sugar_g,
           sodium_mg: originalMeal.sodium_mg,
+          serving_size_g: originalMeal.serving_size_g,
+          favorite_id: originalMeal.favorite_id,
+          ...fromAnalysisDetails(toAnalysisDetails(originalMeal)),
+          // Checked again, the allergies may have changed since
+          allergen_warnings_json: await this.allergenWarnings(
+            user_id,
+            storedMealContent(originalMeal)
+          ),
+          items: {
+            create: originalMeal.items.map(
+              ({ item_id, meal_id, created_at, updated_at, ...item }) => ({
+                ...item,
+                micronutrients_json: item.micronutrients_json ?? undefined,
+              })
+            ),
+          },
           analysis_status: "COMPLETED",
-          upload_time: newDate ? new Date(newDate) : new Date(),
+          consumed_at: consumedAt,
         },
+        include: itemsInclude,
       });
 
       // Transform to client format
@@ -373,14 +1401,489 @@ export class NutritionService {
     }
   }
 
+  // FAVORITES: saved meals and habits, for logging again in one tap
+
+  static async getFavorites(user_id: string) {
+    try {
+      console.log("⭐ Getting favorites for user:", user_id);
+
+      const [favorites, timeZone] = await Promise.all([
+        prisma.favoriteFood.findMany({
+          where: { user_id },
+          include: {
+            meals: {
+              where: { is_draft: false },
+              select: { consumed_at: true },
+              orderBy: { consumed_at: "desc" },
+            },
+          },
+        }),
+        getUserTimeZone(user_id),
+      ]);
+
+      const now = new Date();
+      const since = new Date(now.getTime() - HABIT_WINDOW_DAYS * 86400000);
+
+      return favorites
+        .map((favorite) => {
+          const recent = favorite.meals
+            .map((meal) => meal.consumed_at)
+            .filter((date) => date >= since);
+
+          return {
+            score: habitScore(recent, now, timeZone),
+            favorite: this.transformFavorite(favorite, {
+              times_logged: recent.length,
+              last_logged_at: favorite.meals[0]?.consumed_at ?? null,
+            }),
+          };
+        })
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            b.favorite.created_at.getTime() - a.favorite.created_at.getTime()
+        )
+        .map(({ favorite }) => favorite);
+    } catch (error) {
+      console.error("💥 Get favorites error:", error);
+      throw error;
+    }
+  }
+
+  // Meals of the last weeks, one entry per dish (the same favorite or the
+  // same name), most habitual first; the latest meal of each is re-logged
+  // through duplicateMeal
+  static async getRecentFoods(user_id: string, limit: number = 20) {
+    try {
+      console.log("🕒 Getting recent foods for user:", user_id);
+
+      const now = new Date();
+      const [meals, timeZone] = await Promise.all([
+        prisma.meal.findMany({
+          where: {
+            user_id,
+            is_draft: false,
+            analysis_status: "COMPLETED",
+            consumed_at: {
+              gte: new Date(now.getTime() - HABIT_WINDOW_DAYS * 86400000),
+            },
+          },
+          select: {
+            meal_id: true,
+            meal_name: true,
+            calories: true,
+            protein_g: true,
+            carbs_g: true,
+            fats_g: true,
+            image_id: true,
+            image_url: true,
+            favorite_id: true,
+            consumed_at: true,
+          },
+          orderBy: { consumed_at: "desc" },
+        }),
+        getUserTimeZone(user_id),
+      ]);
+
+      const groups = new Map<string, typeof meals>();
+      for (const meal of meals) {
+        const key = meal.favorite_id
+          ? `favorite:${meal.favorite_id}`
+          : (meal.meal_name || "").trim().toLowerCase();
+        if (!key) continue;
+        groups.set(key, [...(groups.get(key) || []), meal]);
+      }
+
+      return Array.from(groups.values())
+        .map((group) => ({
+          latest: group[0],
+          count: group.length,
+          score: habitScore(
+            group.map((meal) => meal.consumed_at),
+            now,
+            timeZone
+          ),
+        }))
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            b.latest.consumed_at.getTime() - a.latest.consumed_at.getTime()
+        )
+        .slice(0, limit)
+        .map(({ latest, count }) => ({
+          meal_id: latest.meal_id,
+          name: latest.meal_name || "Unknown Meal",
+          calories: latest.calories ?? 0,
+          protein: latest.protein_g ?? 0,
+          carbs: latest.carbs_g ?? 0,
+          fat: latest.fats_g ?? 0,
+          thumbnail_url: latest.image_id
+            ? ImageStorageService.getImagePath(latest.meal_id, "thumb")
+            : latest.image_url || null,
+          favorite_id: latest.favorite_id,
+          times_logged: count,
+          last_logged_at: latest.consumed_at,
+        }));
+    } catch (error) {
+      console.error("💥 Get recent foods error:", error);
+      throw error;
+    }
+  }
+
+  static async logFavorite(
+    user_id: string,
+    favoriteId: number,
+    consumedAt?: Date
+  ) {
+    try {
+      console.log("⭐ Logging favorite:", favoriteId);
+
+      const favorite = await prisma.favoriteFood.findFirst({
+        where: { favorite_id: favoriteId, user_id },
+      });
+
+      if (!favorite) {
+        throw new Error("Favorite not found");
+      }
+
+      const items = fromAnalysisItems(
+        favorite.items_json as unknown as MealAnalysisItem[]
+      );
+
+      const meal = await prisma.meal.create({
+        data: {
+          user_id,
+          image_url: "",
+          image_id: favorite.image_id,
+          favorite_id: favorite.favorite_id,
+          meal_name: favorite.name,
+          calories: favorite.calories,
+          protein_g: favorite.protein_g,
+          carbs_g: favorite.carbs_g,
+          fats_g: favorite.fats_g,
+          fiber_g: favorite.fiber_g,
+          sugar_g: favorite.sugar_g,
+          sodium_mg: favorite.sodium_mg,
+          allergen_warnings_json: await this.allergenWarnings(user_id, {
+            name: favorite.name,
+            items,
+          }),
+          ...(items.length > 0 && {
+            ...sumItems(items as ItemNutrients[]),
+            items: { create: items },
+          }),
+          analysis_status: "COMPLETED",
+          consumed_at: consumedAt ?? new Date(),
+        },
+        include: itemsInclude,
+      });
+
+      console.log("✅ Favorite logged:", meal.meal_id);
+      return this.transformMealData(meal);
+    } catch (error) {
+      console.error("💥 Log favorite error:", error);
+      throw error;
+    }
+  }
+
+  // Meals logged from the favorite are kept
+  static async deleteFavorite(user_id: string, favoriteId: number) {
+    const { count } = await prisma.favoriteFood.deleteMany({
+      where: { favorite_id: favoriteId, user_id },
+    });
+
+    if (count === 0) {
+      throw new Error("Favorite not found");
+    }
+    console.log("🗑️ Favorite deleted:", favoriteId);
+  }
+
+  // MEAL ITEMS: editing individual ingredients without a new AI call
+
+  static async addMealItem(user_id: string, mealId: string, data: MealItemInput) {
+    try {
+      console.log("➕ Adding item to meal:", mealId);
+
+      const meal = await this.findMealWithItems(user_id, mealId);
+
+      // Meals saved before items existed get their totals kept as one item
+      // so adding an ingredient doesn't wipe them out
+      if (meal.items.length === 0 && (meal.calories || 0) > 0) {
+        await prisma.mealItem.create({
+          data: {
+            meal_id: meal.meal_id,
+            position: 0,
+            name: meal.meal_name || "Meal",
+            grams: meal.serving_size_g,
+            calories: meal.calories || 0,
+            protein_g: meal.protein_g || 0,
+            carbs_g: meal.carbs_g || 0,
+            fats_g: meal.fats_g || 0,
+            fiber_g: meal.fiber_g,
+            sugar_g: meal.sugar_g,
+            sodium_mg: meal.sodium_mg,
+            micronutrients_json: meal.micronutrients_json ?? undefined,
+          },
+        });
+      }
+
+      const lastPosition = meal.items[meal.items.length - 1]?.position ?? 0;
+
+      await prisma.mealItem.create({
+        data: {
+          ...fromItemInput(data),
+          name: data.name,
+          meal_id: meal.meal_id,
+          position: lastPosition + 1,
+        },
+      });
+
+      console.log("✅ Meal item added");
+      await AnalysisCacheService.invalidateForMeal(meal.meal_id);
+      return this.recalculateMealTotals(meal.meal_id);
+    } catch (error) {
+      console.error("💥 Add meal item error:", error);
+      throw error;
+    }
+  }
+
+  static async updateMealItem(
+    user_id: string,
+    mealId: string,
+    itemId: string,
+    data: UpdateMealItemInput
+  ) {
+    try {
+      console.log("✏️ Updating item", itemId, "of meal:", mealId);
+
+      const meal = await this.findMealWithItems(user_id, mealId);
+      const item = meal.items.find((i) => i.item_id === parseInt(itemId));
+
+      if (!item) {
+        throw new Error("Meal item not found");
+      }
+
+      const changes: Prisma.MealItemUpdateInput = fromItemInput(data);
+
+      // A new portion scales every nutrient the caller didn't set explicitly
+      if (data.grams && item.grams) {
+        const factor = data.grams / item.grams;
+
+        for (const field of SCALED_FIELDS) {
+          const current = item[field];
+          if (data[field] === undefined && current != null) {
+            changes[field] = round(current * factor);
+          }
+        }
+
+        if (!data.micronutrients && item.micronutrients_json) {
+          changes.micronutrients_json = Object.fromEntries(
+            Object.entries(
+              item.micronutrients_json as Record<string, number>
+            ).map(([key, value]) => [key, round(value * factor)])
+          );
+        }
+      }
+
+      await prisma.mealItem.update({
+        where: { item_id: item.item_id },
+        data: changes,
+      });
+
+      console.log("✅ Meal item updated");
+      await AnalysisCacheService.invalidateForMeal(meal.meal_id);
+      return this.recalculateMealTotals(meal.meal_id);
+    } catch (error) {
+      console.error("💥 Update meal item error:", error);
+      throw error;
+    }
+  }
+
+  static async deleteMealItem(user_id: string, mealId: string, itemId: string) {
+    try {
+      console.log("🗑️ Removing item", itemId, "from meal:", mealId);
+
+      const meal = await this.findMealWithItems(user_id, mealId);
+      const item = meal.items.find((i) => i.item_id === parseInt(itemId));
+
+      if (!item) {
+        throw new Error("Meal item not found");
+      }
+
+      await prisma.mealItem.delete({ where: { item_id: item.item_id } });
+
+      console.log("✅ Meal item removed");
+      await AnalysisCacheService.invalidateForMeal(meal.meal_id);
+      return this.recalculateMealTotals(meal.meal_id);
+    } catch (error) {
+      console.error("💥 Delete meal item error:", error);
+      throw error;
+    }
+  }
+
+  private static async findMealWithItems(user_id: string, mealId: string) {
+    const meal = await prisma.meal.findFirst({
+      where: {
+        meal_id: parseInt(mealId),
+        user_id,
+      },
+      include: itemsInclude,
+    });
+
+    if (!meal) {
+      throw new Error("Meal not found");
+    }
+
+    return meal;
+  }
+
+  // Also re-checks allergies, as an ingredient may have been added or renamed
+  private static async recalculateMealTotals(meal_id: number) {
+    const current = await prisma.meal.findUniqueOrThrow({
+      where: { meal_id },
+      include: itemsInclude,
+    });
+
+    const meal = await prisma.meal.update({
+      where: { meal_id },
+      data: {
+        ...sumItems(current.items),
+        allergen_warnings_json: await this.allergenWarnings(
+          current.user_id,
+          storedMealContent(current)
+        ),
+      },
+      include: itemsInclude,
+    });
+
+    return this.transformMealData(meal);
+  }
+
+  // Photos can be shared by duplicated meals and favorites; only those no
+  // longer referenced are removed from storage
+  private static async deleteUnusedImages(image_ids: (string | null)[]) {
+    for (const image_id of new Set(image_ids)) {
+      if (!image_id) continue;
+
+      const image = await prisma.storedImage.findFirst({
+        where: {
+          image_id,
+          meals: { none: {} },
+          leftoverMeals: { none: {} },
+          favoriteFoods: { none: {} },
+        },
+        select: { image_id: true },
+      });
+      if (image) {
+        await ImageStorageService.deleteImage(image_id);
+      }
+    }
+  }
+
+  private static async allergenWarnings(user_id: string, meal: MealContent) {
+    const warnings = await AllergenService.checkMeal(user_id, meal);
+    return warnings as unknown as Prisma.InputJsonValue;
+  }
+
+  private static async recordAnalysisRound(
+    meal_id: number,
+    kind: AnalysisRoundKind,
+    analysis: MealAnalysisResult,
+    details: {
+      questions: string[];
+      answers?: ClarifyAnalysisInput["answers"];
+      update_text?: string;
+    }
+  ) {
+    await prisma.mealAnalysisRound.create({
+      data: {
+        meal_id,
+        kind,
+        answers_json: details.answers,
+        update_text: details.update_text,
+        confidence: Math.round(analysis.confidence),
+        calories: analysis.calories,
+        questions_json: details.questions,
+        analysis_json: analysis as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  private static countClarificationRounds(meal_id: number) {
+    return prisma.mealAnalysisRound.count({
+      where: { meal_id, kind: "CLARIFICATION" },
+    });
+  }
+
+  private static toAnalysisJob(meal: MealWithItems) {
+    const completed = meal.analysis_status === "COMPLETED";
+
+    return {
+      job_id: meal.meal_id,
+      status: meal.analysis_status,
+      // Only known while pending: waiting for a worker or being analyzed
+      stage:
+        meal.analysis_status === "PENDING"
+          ? analysisQueue.isRunning(meal.meal_id)
+            ? "analyzing"
+            : "queued"
+          : undefined,
+      created_at: meal.upload_time,
+      consumed_at: meal.consumed_at,
+      error: meal.analysis_error ?? undefined,
+      code: meal.analysis_error_code ?? undefined,
+      analysis: completed ? toAnalysisResult(meal) : undefined,
+      eaten_fraction: meal.eaten_fraction ?? undefined,
+      questions: completed
+        ? ((meal.clarifying_questions as string[] | null) ?? [])
+        : undefined,
+      allergen_warnings: completed
+        ? ((meal.allergen_warnings_json as AllergenWarning[] | null) ?? [])
+        : undefined,
+      meal: completed ? this.transformMealData(meal) : undefined,
+    };
+  }
+
+  private static transformFavorite(
+    favorite: FavoriteFood,
+    usage: { times_logged: number; last_logged_at: Date | null }
+  ) {
+    return {
+      favorite_id: favorite.favorite_id,
+      name: favorite.name,
+      calories: favorite.calories,
+      protein: favorite.protein_g,
+      carbs: favorite.carbs_g,
+      fat: favorite.fats_g,
+      fiber: favorite.fiber_g,
+      sugar: favorite.sugar_g,
+      sodium: favorite.sodium_mg,
+      items: favorite.items_json as unknown as MealAnalysisItem[],
+      thumbnail_url: favorite.image_id
+        ? ImageStorageService.getFavoriteImagePath(favorite.favorite_id)
+        : null,
+      ...usage,
+      created_at: favorite.created_at,
+    };
+  }
+
   // Helper method to transform database meal to client format
   private static transformMealData(meal: any) {
+    const image_url = meal.image_id
+      ? ImageStorageService.getImagePath(meal.meal_id)
+      : meal.image_url;
+    const thumbnail_url = meal.image_id
+      ? ImageStorageService.getImagePath(meal.meal_id, "thumb")
+      : meal.image_url;
+
     return {
       // Server fields
       meal_id: meal.meal_id,
       user_id: meal.user_id,
-      image_url: meal.image_url,
+      image_url,
+      thumbnail_url,
       upload_time: meal.upload_time,
+      consumed_at: meal.consumed_at,
       analysis_status: meal.analysis_status,
       meal_name: meal.meal_name,
       calories: meal.calories,
@@ -390,13 +1893,40 @@ export class NutritionService {
       fiber_g: meal.fiber_g,
       sugar_g: meal.sugar_g,
       sodium_mg: meal.sodium_mg,
+      saturated_fats_g: meal.saturated_fats_g,
+      monounsaturated_fats_g: meal.monounsaturated_fats_g,
+      polyunsaturated_fats_g: meal.polyunsaturated_fats_g,
+      omega_3_g: meal.omega_3_g,
+      omega_6_g: meal.omega_6_g,
+      soluble_fiber_g: meal.soluble_fiber_g,
+      insoluble_fiber_g: meal.insoluble_fiber_g,
+      cholesterol_mg: meal.cholesterol_mg,
+      alcohol_g: meal.alcohol_g,
+      caffeine_mg: meal.caffeine_mg,
+      liquids_ml: meal.liquids_ml,
+      vitamins_json: meal.vitamins_json,
+      micronutrients_json: meal.micronutrients_json,
+      glycemic_index: meal.glycemic_index,
+      insulin_index: meal.insulin_index,
+      food_category: meal.food_category,
+      processing_level: meal.processing_level,
+      cooking_method: meal.cooking_method,
+      allergens_json: meal.allergens_json,
+      allergen_warnings: meal.allergen_warnings_json ?? [],
+      health_risk_notes: meal.health_risk_notes,
+      serving_size_g: meal.serving_size_g,
+      eaten_fraction: meal.eaten_fraction,
+      leftovers_image_url: meal.leftovers_image_id
+        ? ImageStorageService.getImagePath(meal.meal_id, "full", "leftovers")
+        : null,
+      items: meal.items || [],
       createdAt: meal.createdAt,
 
       // Client compatibility fields
       id: meal.meal_id.toString(),
       name: meal.meal_name || "Unknown Meal",
       description: meal.meal_name,
-      imageUrl: meal.image_url,
+      imageUrl: image_url,
       protein: meal.protein_g || 0,
       carbs: meal.carbs_g || 0,
       fat: meal.fats_g || 0,
@@ -406,7 +1936,8 @@ export class NutritionService {
       userId: meal.user_id,
 
       // History features
-      isFavorite: (meal.additives_json as any)?.isFavorite || false,
+      isFavorite: meal.favorite_id != null,
+      favorite_id: meal.favorite_id ?? null,
       tasteRating: (meal.additives_json as any)?.feedback?.tasteRating || 0,
       satietyRating: (meal.additives_json as any)?.feedback?.satietyRating || 0,
       energyRating: (meal.additives_json as any)?.feedback?.energyRating || 0,
@@ -0,0 +1,26 @@
+// Returned to the client as `code` next to the error message
+export type PaymentErrorCode =
+  | "PAYMENT_DECLINED" // the provider refused the charge
+  | "PAYMENT_PROVIDER_ERROR" // the provider request itself failed
+  | "INVALID_PLAN_CHANGE" // not possible from the current subscription
+  | "INVALID_WEBHOOK"; // bad signature or unreadable event
+
+export class PaymentError extends Error {
+  constructor(readonly code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+
+  get status() {
+    switch (this.code) {
+      case "PAYMENT_DECLINED":
+        return 402;
+      case "PAYMENT_PROVIDER_ERROR":
+        return 502;
+      case "INVALID_PLAN_CHANGE":
+        return 409;
+      case "INVALID_WEBHOOK":
+        return 400;
+    }
+  }
+}
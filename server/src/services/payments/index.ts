@@ -0,0 +1,91 @@
+import { IncomingHttpHeaders } from "http";
+import { PaymentStatus } from "@prisma/client";
+import { CheckoutRequest, PaidPlan, PaymentProvider } from "./types";
+import { LocalPaymentProvider } from "./local";
+import { PaymentError } from "./errors";
+
+export * from "./types";
+export { PaymentError } from "./errors";
+export type { PaymentErrorCode } from "./errors";
+
+const LOCAL_OUTCOMES: Record<string, PaymentStatus> = {
+  succeeded: "SUCCEEDED",
+  pending: "PENDING",
+  declined: "FAILED",
+};
+
+let provider: PaymentProvider | null = null;
+
+const getProvider = (): PaymentProvider => {
+  if (!provider) {
+    const providerName = process.env.PAYMENT_PROVIDER || "local";
+
+    if (providerName === "local") {
+      const outcome = process.env.LOCAL_PAYMENT_OUTCOME || "succeeded";
+      if (!LOCAL_OUTCOMES[outcome]) {
+        throw new Error(`Unknown LOCAL_PAYMENT_OUTCOME: ${outcome}`);
+      }
+      provider = new LocalPaymentProvider(
+        process.env.PAYMENT_WEBHOOK_SECRET,
+        LOCAL_OUTCOMES[outcome]
+      );
+    } else {
+      throw new Error(`Unknown payment provider: ${providerName}`);
+    }
+
+    console.log("💳 Payment provider:", provider.name);
+  }
+  return provider;
+};
+
+// Failures other than our own errors are the provider's
+const call = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof PaymentError) throw error;
+    console.error("💥 Payment provider error:", error);
+    throw new PaymentError(
+      "PAYMENT_PROVIDER_ERROR",
+      "The payment provider could not be reached. Please try again."
+    );
+  }
+};
+
+export class PaymentService {
+  static get providerName() {
+    return getProvider().name;
+  }
+
+  static checkout(request: CheckoutRequest) {
+    return call(() => getProvider().checkout(request));
+  }
+
+  static schedulePlanChange(subscription_id: string, plan: PaidPlan) {
+    return call(() => getProvider().schedulePlanChange(subscription_id, plan));
+  }
+
+  static cancelAtPeriodEnd(subscription_id: string) {
+    return call(() => getProvider().cancelAtPeriodEnd(subscription_id));
+  }
+
+  static resume(subscription_id: string, plan: PaidPlan) {
+    return call(() => getProvider().resume(subscription_id, plan));
+  }
+
+  // Only the configured provider's webhooks are accepted
+  static parseWebhook(
+    providerName: string,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders
+  ) {
+    const current = getProvider();
+    if (providerName !== current.name) {
+      throw new PaymentError(
+        "INVALID_WEBHOOK",
+        `Webhooks from ${providerName} are not accepted`
+      );
+    }
+    return current.parseWebhook(rawBody, headers);
+  }
+}
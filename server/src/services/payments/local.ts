@@ -0,0 +1,153 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { PaymentStatus } from "@prisma/client";
+import { z } from "zod";
+import { PaymentError } from "./errors";
+import {
+  CheckoutRequest,
+  CheckoutResult,
+  PAYMENT_EVENT_TYPES,
+  PaidPlan,
+  PaymentEvent,
+  PaymentProvider,
+} from "./types";
+
+export const LOCAL_SIGNATURE_HEADER = "x-local-signature";
+
+// Signatures older than this are refused, so a captured webhook can't be
+// replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const localEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(PAYMENT_EVENT_TYPES),
+  data: z.object({
+    subscription_id: z.string().min(1),
+    payment_id: z.string().min(1).optional(),
+    plan: z.enum(["BASIC", "PREMIUM"]).optional(),
+    amount: z.number().nonnegative().optional(),
+    currency: z.string().length(3).optional(),
+  }),
+});
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+export const signLocalWebhook = (
+  secret: string,
+  body: string | Buffer,
+  timestamp: number = Math.floor(Date.now() / 1000)
+) => {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+};
+
+// Stands in for a real processor in development: every charge settles with
+// the configured outcome, nothing renews by itself, and webhooks are sent
+// by hand, signed with PAYMENT_WEBHOOK_SECRET.
+export class LocalPaymentProvider implements PaymentProvider {
+  readonly name = "local";
+
+  constructor(
+    private readonly webhookSecret: string | undefined,
+    private readonly outcome: PaymentStatus = "SUCCEEDED"
+  ) {}
+
+  async checkout(request: CheckoutRequest): Promise<CheckoutResult> {
+    if (this.outcome === "FAILED") {
+      throw new PaymentError(
+        "PAYMENT_DECLINED",
+        "The payment was declined. Try another payment method."
+      );
+    }
+
+    console.log(
+      `💳 Local charge of ${request.amount} ${request.currency} for ${request.plan}`
+    );
+
+    return {
+      subscription_id: request.subscription_id || `local_sub_${randomUUID()}`,
+      payment_id: `local_pay_${randomUUID()}`,
+      status: this.outcome,
+      payment_method: "local",
+    };
+  }
+
+  async schedulePlanChange(subscription_id: string, plan: PaidPlan) {
+    console.log(`💳 Local subscription ${subscription_id} renews as ${plan}`);
+  }
+
+  async cancelAtPeriodEnd(subscription_id: string) {
+    console.log(
+      `💳 Local subscription ${subscription_id} cancels at period end`
+    );
+  }
+
+  async resume(subscription_id: string, plan: PaidPlan) {
+    console.log(`💳 Local subscription ${subscription_id} resumed as ${plan}`);
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    if (!this.webhookSecret) {
+      throw new PaymentError(
+        "INVALID_WEBHOOK",
+        "Webhooks are disabled until PAYMENT_WEBHOOK_SECRET is set"
+      );
+    }
+
+    const header = headers[LOCAL_SIGNATURE_HEADER];
+    const parts = new Map(
+      (typeof header === "string" ? header : "")
+        .split(",")
+        .map((part) => part.split("=", 2) as [string, string])
+    );
+    const timestamp = Number(parts.get("t"));
+    const signature = parts.get("v1") ?? "";
+
+    if (
+      !Number.isInteger(timestamp) ||
+      Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      throw new PaymentError(
+        "INVALID_WEBHOOK",
+        "Webhook signature is missing or expired"
+      );
+    }
+
+    const expected = Buffer.from(
+      signLocalWebhook(this.webhookSecret, rawBody, timestamp).split("v1=")[1],
+      "hex"
+    );
+    const received = Buffer.from(signature, "hex");
+    if (
+      received.length !== expected.length ||
+      !timingSafeEqual(received, expected)
+    ) {
+      throw new PaymentError("INVALID_WEBHOOK", "Invalid webhook signature");
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentError("INVALID_WEBHOOK", "Webhook body is not JSON");
+    }
+
+    const event = localEventSchema.safeParse(body);
+    if (!event.success) {
+      throw new PaymentError(
+        "INVALID_WEBHOOK",
+        "Invalid webhook event: " +
+          event.error.errors.map((e) => e.message).join(", ")
+      );
+    }
+
+    return {
+      id: event.data.id,
+      type: event.data.type,
+      ...event.data.data,
+      payload: body,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { IncomingHttpHeaders } from "http";
+import { PaymentStatus, SubscriptionType } from "@prisma/client";
+
+export type PaidPlan = Exclude<SubscriptionType, "FREE">;
+
+export interface CheckoutRequest {
+  user_id: string;
+  email: string;
+  plan: PaidPlan;
+  amount: number;
+  currency: string;
+  // The user's existing subscription with the provider, if any, which
+  // switches to the new plan instead of a second one being opened
+  subscription_id?: string | null;
+}
+
+// A PENDING charge is settled later by a payment webhook
+export interface CheckoutResult {
+  subscription_id: string;
+  payment_id: string;
+  status: PaymentStatus;
+  payment_method?: string;
+}
+
+export const PAYMENT_EVENT_TYPES = [
+  "payment.succeeded", // a first charge or a monthly renewal went through
+  "payment.failed",
+  "subscription.canceled", // ended on the provider's side
+] as const;
+
+export type PaymentEventType = (typeof PAYMENT_EVENT_TYPES)[number];
+
+// A verified webhook, translated from the provider's own format
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  subscription_id: string;
+  payment_id?: string;
+  plan?: PaidPlan;
+  amount?: number;
+  currency?: string;
+  payload: unknown;
+}
+
+// Providers bill monthly and renew on their own side; renewals, late
+// confirmations and cancellations arrive as webhooks
+export interface PaymentProvider {
+  readonly name: string;
+  // Charges the first month of `plan` right away
+  checkout(request: CheckoutRequest): Promise<CheckoutResult>;
+  // The plan billed from the next renewal on
+  schedulePlanChange(subscription_id: string, plan: PaidPlan): Promise<void>;
+  cancelAtPeriodEnd(subscription_id: string): Promise<void>;
+  // Undoes a scheduled cancellation or plan change
+  resume(subscription_id: string, plan: PaidPlan): Promise<void>;
+  // Checks the signature over the exact bytes received before reading them
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
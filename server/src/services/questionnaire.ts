@@ -0,0 +1,114 @@
+import { lockUser, prisma } from "../lib/database";
+import { GoalsService } from "./goals";
+import {
+  QuestionnaireInput,
+  UpdateQuestionnaireInput,
+} from "../types/questionnaire";
+
+export class QuestionnaireService {
+  static async getLatest(user_id: string) {
+    return prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { version: "desc" },
+    });
+  }
+
+  static async getHistory(user_id: string) {
+    return prisma.userQuestionnaire.findMany({
+      where: { user_id },
+      orderBy: { version: "desc" },
+      take: 50,
+    });
+  }
+
+  static async saveQuestionnaire(user_id: string, data: QuestionnaireInput) {
+    try {
+      console.log("📝 Saving questionnaire for user:", user_id);
+
+      const questionnaire = await this.createVersion(user_id, data);
+
+      await this.refreshGoals(user_id);
+
+      console.log("✅ Questionnaire saved, version:", questionnaire.version);
+      return questionnaire;
+    } catch (error) {
+      console.error("💥 Error saving questionnaire:", error);
+      throw new Error("Failed to save questionnaire");
+    }
+  }
+
+  // Answers are never edited in place: changes are merged onto the latest
+  // version and stored as a new one so the history stays intact
+  static async updateQuestionnaire(
+    user_id: string,
+    data: UpdateQuestionnaireInput
+  ) {
+    const latest = await this.getLatest(user_id);
+
+    if (!latest) {
+      throw new Error("Questionnaire not found");
+    }
+
+    try {
+      console.log("📝 Updating questionnaire for user:", user_id);
+
+      const {
+        questionnaire_id,
+        user_id: _userId,
+        date_completed,
+        version: _version,
+        createdAt,
+        ...answers
+      } = latest;
+
+      // Unanswered columns come back as null; drop them before merging
+      const previous = Object.fromEntries(
+        Object.entries(answers).filter(([, value]) => value !== null)
+      ) as QuestionnaireInput;
+
+      const questionnaire = await this.createVersion(user_id, {
+        ...previous,
+        ...data,
+      });
+
+      await this.refreshGoals(user_id);
+
+      console.log("✅ Questionnaire updated, version:", questionnaire.version);
+      return questionnaire;
+    } catch (error) {
+      console.error("💥 Error updating questionnaire:", error);
+      throw new Error("Failed to update questionnaire");
+    }
+  }
+
+  // Numbered under the user's lock, so two submits at once (a double tap)
+  // get consecutive versions instead of colliding
+  private static async createVersion(
+    user_id: string,
+    data: QuestionnaireInput
+  ) {
+    return prisma.$transaction(async (tx) => {
+      await lockUser(tx, user_id);
+
+      const latest = await tx.userQuestionnaire.findFirst({
+        where: { user_id },
+        orderBy: { version: "desc" },
+        select: { version: true },
+      });
+
+      return tx.userQuestionnaire.create({
+        data: { ...data, user_id, version: (latest?.version || 0) + 1 },
+      });
+    });
+  }
+
+  // Activity level and goal feed the calculated targets; a failure here
+  // shouldn't lose the answers that were just saved
+  private static async refreshGoals(user_id: string) {
+    try {
+      await GoalsService.refreshCalculatedGoals(user_id);
+    } catch (error) {
+      console.error("💥 Error refreshing goals after questionnaire:", error);
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import { Prisma, Recipe, RecipeIngredient } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodService } from "./foods";
+import { NutritionService } from "./nutrition";
+import {
+  LogRecipeInput,
+  PromoteRecipeInput,
+  RecipeIngredientInput,
+  RecipeInput,
+  UpdateRecipeInput,
+} from "../types/recipes";
+
+type RecipeWithIngredients = Recipe & {
+  ingredients: RecipeIngredient[];
+  template?: { template_id: string } | null;
+};
+
+type IngredientData = Omit<
+  Prisma.RecipeIngredientCreateManyRecipeInput,
+  "ingredient_id"
+>;
+
+const recipeInclude = {
+  ingredients: { orderBy: { position: "asc" } },
+  template: { select: { template_id: true } },
+} as const;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const scaleOptional = (value: number | null, factor: number) =>
+  value == null ? undefined : round(value * factor);
+
+// Optional nutrients are only totalled when at least one ingredient has them
+const sumOptional = (values: (number | null)[]) =>
+  values.some((value) => value != null)
+    ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    : null;
+
+function recipeTotals(ingredients: RecipeIngredient[]) {
+  return {
+    calories: ingredients.reduce((sum, i) => sum + i.calories, 0),
+    protein: ingredients.reduce((sum, i) => sum + i.protein_g, 0),
+    carbs: ingredients.reduce((sum, i) => sum + i.carbs_g, 0),
+    fat: ingredients.reduce((sum, i) => sum + i.fats_g, 0),
+    fiber: sumOptional(ingredients.map((i) => i.fiber_g)),
+    sugar: sumOptional(ingredients.map((i) => i.sugar_g)),
+    sodium: sumOptional(ingredients.map((i) => i.sodium_mg)),
+  };
+}
+
+// Nutrition for `servings` servings of the recipe
+function nutritionFor(recipe: RecipeWithIngredients, servings: number) {
+  const totals = recipeTotals(recipe.ingredients);
+  const factor = servings / recipe.servings;
+
+  return {
+    calories: round(totals.calories * factor),
+    protein: round(totals.protein * factor),
+    carbs: round(totals.carbs * factor),
+    fat: round(totals.fat * factor),
+    fiber: scaleOptional(totals.fiber, factor),
+    sugar: scaleOptional(totals.sugar, factor),
+    sodium: scaleOptional(totals.sodium, factor),
+  };
+}
+
+// Meal template columns for one serving; timing and category are kept
+function templateData(recipe: RecipeWithIngredients) {
+  const serving = nutritionFor(recipe, 1);
+  const instructions = (recipe.instructions_json as string[] | null) ?? [];
+
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    prep_time_minutes: recipe.prep_time_minutes,
+    calories: serving.calories,
+    protein_g: serving.protein,
+    carbs_g: serving.carbs,
+    fats_g: serving.fat,
+    fiber_g: serving.fiber ?? null,
+    sugar_g: serving.sugar ?? null,
+    sodium_mg: serving.sodium ?? null,
+    ingredients_json: recipe.ingredients.map((ingredient) => ({
+      name: ingredient.name,
+      quantity: round(ingredient.quantity / recipe.servings),
+      unit: ingredient.unit,
+    })),
+    instructions_json: instructions.map((text, index) => ({
+      step: index + 1,
+      text,
+    })),
+  };
+}
+
+export class RecipeService {
+  static async getRecipes(user_id: string) {
+    const recipes = await prisma.recipe.findMany({
+      where: { user_id },
+      include: recipeInclude,
+      orderBy: { name: "asc" },
+    });
+
+    return recipes.map((recipe) => this.transformRecipe(recipe));
+  }
+
+  static async getRecipe(user_id: string, recipeId: number) {
+    const recipe = await this.findRecipe(user_id, recipeId);
+    return this.transformRecipe(recipe);
+  }
+
+  static async createRecipe(user_id: string, data: RecipeInput) {
+    try {
+      console.log("📖 Creating recipe for user:", user_id);
+
+      const ingredients = await this.resolveIngredients(data.ingredients);
+
+      const recipe = await prisma.recipe.create({
+        data: {
+          user_id,
+          name: data.name,
+          description: data.description,
+          servings: data.servings,
+          prep_time_minutes: data.prep_time_minutes,
+          instructions_json: data.instructions,
+          ingredients: { createMany: { data: ingredients } },
+        },
+        include: recipeInclude,
+      });
+
+      console.log("✅ Recipe created:", recipe.recipe_id);
+      return this.transformRecipe(recipe);
+    } catch (error) {
+      console.error("💥 Create recipe error:", error);
+      throw error;
+    }
+  }
+
+  static async updateRecipe(
+    user_id: string,
+    recipeId: number,
+    data: UpdateRecipeInput
+  ) {
+    try {
+      console.log("✏️ Updating recipe:", recipeId);
+
+      await this.findRecipe(user_id, recipeId);
+
+      const ingredients = data.ingredients
+        ? await this.resolveIngredients(data.ingredients)
+        : undefined;
+
+      const recipe = await prisma.recipe.update({
+        where: { recipe_id: recipeId },
+        data: {
+          name: data.name,
+          description: data.description,
+          servings: data.servings,
+          prep_time_minutes: data.prep_time_minutes,
+          instructions_json: data.instructions,
+          ...(ingredients && {
+            ingredients: {
+              deleteMany: {},
+              createMany: { data: ingredients },
+            },
+          }),
+        },
+        include: recipeInclude,
+      });
+
+      // Plans keep using the promoted template, so it follows the recipe
+      if (recipe.template) {
+        await prisma.mealTemplate.update({
+          where: { template_id: recipe.template.template_id },
+          data: templateData(recipe),
+        });
+      }
+
+      console.log("✅ Recipe updated");
+      return this.transformRecipe(recipe);
+    } catch (error) {
+      console.error("💥 Update recipe error:", error);
+      throw error;
+    }
+  }
+
+  static async deleteRecipe(user_id: string, recipeId: number) {
+    try {
+      console.log("🗑️ Deleting recipe:", recipeId);
+
+      const recipe = await this.findRecipe(user_id, recipeId);
+
+      // Existing plans keep the meal; new plans no longer pick it
+      if (recipe.template) {
+        await prisma.mealTemplate.update({
+          where: { template_id: recipe.template.template_id },
+          data: { is_active: false },
+        });
+      }
+
+      await prisma.recipe.delete({ where: { recipe_id: recipeId } });
+
+      console.log("✅ Recipe deleted");
+    } catch (error) {
+      console.error("💥 Delete recipe error:", error);
+      throw error;
+    }
+  }
+
+  // Logs a number of servings as a regular meal, one item per ingredient
+  static async logRecipe(
+    user_id: string,
+    recipeId: number,
+    data: LogRecipeInput
+  ) {
+    const recipe = await this.findRecipe(user_id, recipeId);
+    const factor = data.servings / recipe.servings;
+
+    console.log("🍽️ Logging", data.servings, "servings of recipe:", recipeId);
+
+    return NutritionService.saveMeal(
+      user_id,
+      {
+        name: recipe.name,
+        description: `${data.servings} ${
+          data.servings === 1 ? "serving" : "servings"
+        }`,
+        ...nutritionFor(recipe, data.servings),
+        items: recipe.ingredients.map((ingredient) => ({
+          name: ingredient.name,
+          grams: scaleOptional(ingredient.grams, factor),
+          calories: round(ingredient.calories * factor),
+          protein: round(ingredient.protein_g * factor),
+          carbs: round(ingredient.carbs_g * factor),
+          fat: round(ingredient.fats_g * factor),
+          fiber: scaleOptional(ingredient.fiber_g, factor),
+          sugar: scaleOptional(ingredient.sugar_g, factor),
+          sodium: scaleOptional(ingredient.sodium_mg, factor),
+        })),
+      },
+      undefined,
+      data.consumed_at
+    );
+  }
+
+  // Makes one serving of the recipe available to the user's meal plans.
+  // Promoting again only changes the timing and category.
+  static async promoteRecipe(
+    user_id: string,
+    recipeId: number,
+    data: PromoteRecipeInput
+  ) {
+    try {
+      console.log("📌 Promoting recipe to meal template:", recipeId);
+
+      const recipe = await this.findRecipe(user_id, recipeId);
+      const values = {
+        ...templateData(recipe),
+        meal_timing: data.meal_timing,
+        dietary_category: data.dietary_category,
+        is_active: true,
+      };
+
+      const template = await prisma.mealTemplate.upsert({
+        where: { recipe_id: recipeId },
+        create: { ...values, user_id, recipe_id: recipeId },
+        update: values,
+      });
+
+      console.log("✅ Recipe promoted:", template.template_id);
+      return template;
+    } catch (error) {
+      console.error("💥 Promote recipe error:", error);
+      throw error;
+    }
+  }
+
+  private static async findRecipe(user_id: string, recipeId: number) {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id: recipeId, user_id },
+      include: recipeInclude,
+    });
+
+    if (!recipe) {
+      throw new Error("Recipe not found");
+    }
+    return recipe;
+  }
+
+  // Snapshots the nutrients of linked foods, so later changes to the food
+  // database don't silently change a saved recipe
+  private static async resolveIngredients(
+    ingredients: RecipeIngredientInput[]
+  ): Promise<IngredientData[]> {
+    const foodIds = ingredients
+      .map((ingredient) => ingredient.food_id)
+      .filter((id): id is number => id !== undefined);
+
+    const foods = foodIds.length
+      ? await prisma.food.findMany({
+          where: { food_id: { in: foodIds } },
+          include: { portions: true },
+        })
+      : [];
+
+    return ingredients.map((ingredient, position) => {
+      if (ingredient.food_id === undefined) {
+        return {
+          position,
+          name: ingredient.name!,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit,
+          grams: ingredient.grams,
+          calories: ingredient.calories ?? 0,
+          protein_g: ingredient.protein_g ?? 0,
+          carbs_g: ingredient.carbs_g ?? 0,
+          fats_g: ingredient.fats_g ?? 0,
+          fiber_g: ingredient.fiber_g,
+          sugar_g: ingredient.sugar_g,
+          sodium_mg: ingredient.sodium_mg,
+        };
+      }
+
+      const food = foods.find((f) => f.food_id === ingredient.food_id);
+      if (!food) {
+        throw new Error("Food not found");
+      }
+
+      let grams = ingredient.grams!;
+      let { quantity, unit } = ingredient;
+      if (ingredient.portion_id !== undefined) {
+        const portion = food.portions.find(
+          (p) => p.portion_id === ingredient.portion_id
+        );
+        if (!portion) {
+          throw new Error("Portion not found");
+        }
+        grams = portion.grams * quantity;
+        unit = portion.description;
+      } else if (unit === "g") {
+        quantity = grams;
+      }
+
+      const nutrition = FoodService.nutritionFor(food, grams);
+
+      return {
+        position,
+        name: ingredient.name ?? food.name,
+        quantity,
+        unit,
+        grams: nutrition.grams,
+        food_id: food.food_id,
+        calories: nutrition.calories,
+        protein_g: nutrition.protein,
+        carbs_g: nutrition.carbs,
+        fats_g: nutrition.fat,
+        fiber_g: nutrition.fiber,
+        sugar_g: nutrition.sugar,
+        sodium_mg: nutrition.sodium,
+      };
+    });
+  }
+
+  private static transformRecipe(recipe: RecipeWithIngredients) {
+    return {
+      recipe_id: recipe.recipe_id,
+      name: recipe.name,
+      description: recipe.description,
+      servings: recipe.servings,
+      prep_time_minutes: recipe.prep_time_minutes,
+      instructions: (recipe.instructions_json as string[] | null) ?? [],
+      ingredients: recipe.ingredients.map((ingredient) => ({
+        ingredient_id: ingredient.ingredient_id,
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        grams: ingredient.grams,
+        food_id: ingredient.food_id,
+        calories: ingredient.calories,
+        protein: ingredient.protein_g,
+        carbs: ingredient.carbs_g,
+        fat: ingredient.fats_g,
+        fiber: ingredient.fiber_g,
+        sugar: ingredient.sugar_g,
+        sodium: ingredient.sodium_mg,
+      })),
+      per_serving: nutritionFor(recipe, 1),
+      total: nutritionFor(recipe, recipe.servings),
+      template_id: recipe.template?.template_id ?? null,
+      created_at: recipe.created_at,
+      updated_at: recipe.updated_at,
+    };
+  }
+}
@@ -1,4 +1,15 @@
 import { prisma } from "../lib/database";
+import { GoalsService, NutritionTargets } from "./goals";
+import { HydrationService } from "./hydration";
+import { AllergenSeverity, AllergenWarning } from "./allergens";
+import {
+  addDays,
+  getLocalHour,
+  getLocalParts,
+  getUserTimeZone,
+  startOfLocalDay,
+  toLocalDateString,
+} from "../lib/timezone";
 
 export interface NutritionStatistics {
   averageCaloriesDaily: number;
@@ -15,6 +26,7 @@ export interface NutritionStatistics {
   vegetableFruitIntake: number;
   fullLoggingPercentage: number;
   allergenAlerts: string[];
+  allergenExposure: AllergenExposure[];
   healthRiskPercentage: number;
   averageEatingHours: { start: string; end: string };
   intermittentFastingHours: number;
@@ -30,6 +42,13 @@ export interface NutritionStatistics {
   recommendations: string[];
 }
 
+export interface AllergenExposure {
+  allergen: string;
+  severity: AllergenSeverity; // the most severe warning in the period
+  source: AllergenWarning["source"];
+  meals: number;
+}
+
 export interface GlobalStatistics {
   generalStats: {
     averageCaloriesPerMeal: number;
@@ -55,31 +74,24 @@ export class StatisticsService {
     try {
       console.log("📊 Generating nutrition statistics for user:", user_id, "period:", period);
 
-      // Calculate date range
+      // Calculate date range in whole days of the user's timezone, including today
+      const timezone = await getUserTimeZone(user_id);
       const endDate = new Date();
-      const startDate = new Date();
-      
-      switch (period) {
-        case "week":
-          startDate.setDate(endDate.getDate() - 7);
-          break;
-        case "month":
-          startDate.setDate(endDate.getDate() - 30);
-          break;
-        default:
-          startDate.setDate(endDate.getDate() - 7);
-      }
+      const periodDays = period === "month" ? 30 : 7;
+      const today = toLocalDateString(endDate, timezone);
+      const startDate = startOfLocalDay(addDays(today, -(periodDays - 1)), timezone);
 
       // Get meals for the period
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          createdAt: {
+          is_draft: false,
+          consumed_at: {
             gte: startDate,
             lte: endDate,
           },
         },
-        orderBy: { createdAt: "asc" },
+        orderBy: { consumed_at: "asc" },
       });
 
       console.log("📈 Found", meals.length, "meals for analysis");
@@ -89,7 +101,7 @@ export class StatisticsService {
       }
 
       // Calculate basic averages
-      const totalDays = Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)));
+      const totalDays = periodDays;
       
       const totals = meals.reduce(
         (acc, meal) => ({
@@ -113,12 +125,24 @@ export class StatisticsService {
       const averageSugarDaily = totals.sugar / totalDays;
       const averageSodiumDaily = totals.sodium / totalDays;
 
-      // Calculate goal achievement (assuming 2000 cal goal)
-      const calorieGoal = 2000;
+      // Calculate goal achievement against the user's active nutrition plan
+      const targets = await GoalsService.getTargets(user_id);
+      const calorieGoal = targets.calories;
       const calorieGoalAchievementPercent = Math.min(100, (averageCaloriesDaily / calorieGoal) * 100);
 
+      // Drinks, meal fluids and device readings, merged per day
+      const hydration = await HydrationService.getDailyTotals(
+        user_id,
+        addDays(today, -(periodDays - 1)),
+        today,
+        timezone
+      );
+      const averageFluidsDaily =
+        Object.values(hydration).reduce((sum, day) => sum + day.total_ml, 0) /
+        totalDays;
+
       // Calculate weekly trends
-      const weeklyTrends = this.calculateWeeklyTrends(meals);
+      const weeklyTrends = this.calculateWeeklyTrends(meals, timezone);
 
       // Calculate nutrition score
       const nutritionScore = this.calculateNutritionScore({
@@ -126,7 +150,7 @@ export class StatisticsService {
         averageProteinDaily,
         averageFiberDaily,
         averageSodiumDaily,
-      });
+      }, targets);
 
       // Generate insights and recommendations
       const insights = this.generateInsights({
@@ -145,8 +169,11 @@ export class StatisticsService {
       });
 
       // Calculate eating patterns
-      const eatingHours = this.calculateEatingHours(meals);
-      const intermittentFastingHours = this.calculateIntermittentFasting(meals);
+      const eatingHours = this.calculateEatingHours(meals, timezone);
+      const intermittentFastingHours = this.calculateIntermittentFasting(meals, timezone);
+
+      // Warnings stored on the meals when they were analyzed or saved
+      const allergenExposure = this.calculateAllergenExposure(meals);
 
       const statistics: NutritionStatistics = {
         averageCaloriesDaily: Math.round(averageCaloriesDaily),
@@ -157,12 +184,18 @@ export class StatisticsService {
         averageFiberDaily: Math.round(averageFiberDaily),
         averageSodiumDaily: Math.round(averageSodiumDaily),
         averageSugarDaily: Math.round(averageSugarDaily),
-        averageFluidsDaily: 2000, // Default estimate
+        averageFluidsDaily: Math.round(averageFluidsDaily),
         processedFoodPercentage: 25, // Estimate
         alcoholCaffeineIntake: 0, // Not tracked yet
         vegetableFruitIntake: 60, // Estimate
         fullLoggingPercentage: Math.min(100, (meals.length / (totalDays * 3)) * 100),
-        allergenAlerts: [],
+        allergenAlerts: allergenExposure.map(
+          (exposure) =>
+            `${exposure.allergen} (${
+              exposure.source === "ALLERGY" ? "allergy" : "avoided food"
+            }) in ${exposure.meals} meal${exposure.meals === 1 ? "" : "s"}`
+        ),
+        allergenExposure,
         healthRiskPercentage: nutritionScore < 60 ? 25 : 5,
         averageEatingHours: eatingHours,
         intermittentFastingHours,
@@ -239,6 +272,7 @@ export class StatisticsService {
       vegetableFruitIntake: 0,
       fullLoggingPercentage: 0,
       allergenAlerts: [],
+      allergenExposure: [],
       healthRiskPercentage: 0,
       averageEatingHours: { start: "08:00", end: "20:00" },
       intermittentFastingHours: 12,
@@ -255,7 +289,7 @@ export class StatisticsService {
     };
   }
 
-  private static calculateWeeklyTrends(meals: any[]) {
+  private static calculateWeeklyTrends(meals: any[], timezone: string) {
     const trends = {
       calories: [0, 0, 0, 0, 0, 0, 0],
       protein: [0, 0, 0, 0, 0, 0, 0],
@@ -267,7 +301,7 @@ export class StatisticsService {
     const mealsByDay: { [key: number]: any[] } = {};
     
     meals.forEach(meal => {
-      const dayOfWeek = new Date(meal.createdAt).getDay();
+      const dayOfWeek = getLocalParts(new Date(meal.consumed_at), timezone).weekday;
       if (!mealsByDay[dayOfWeek]) mealsByDay[dayOfWeek] = [];
       mealsByDay[dayOfWeek].push(meal);
     });
@@ -291,18 +325,19 @@ export class StatisticsService {
     averageProteinDaily: number;
     averageFiberDaily: number;
     averageSodiumDaily: number;
-  }): number {
+  }, targets: NutritionTargets): number {
     let score = 100;
 
-    // Calorie assessment (target: 1800-2200)
-    if (data.averageCaloriesDaily < 1200 || data.averageCaloriesDaily > 2800) {
+    // Calorie assessment (target: within 20% of the daily goal)
+    const calorieDeviation = Math.abs(data.averageCaloriesDaily - targets.calories) / targets.calories;
+    if (calorieDeviation > 0.4) {
       score -= 20;
-    } else if (data.averageCaloriesDaily < 1600 || data.averageCaloriesDaily > 2400) {
+    } else if (calorieDeviation > 0.2) {
       score -= 10;
     }
 
-    // Protein assessment (target: 1.2-2.0g per kg body weight, assume 70kg)
-    const proteinTarget = 70 * 1.6; // 112g
+    // Protein assessment (target: the plan's daily protein goal)
+    const proteinTarget = targets.protein;
     if (data.averageProteinDaily < proteinTarget * 0.7) {
       score -= 15;
     } else if (data.averageProteinDaily < proteinTarget * 0.9) {
@@ -403,15 +438,48 @@ export class StatisticsService {
     return recommendations;
   }
 
-  private static calculateEatingHours(meals: any[]): { start: string; end: string } {
+  // Meals per allergen, most severe and most frequent first
+  private static calculateAllergenExposure(meals: any[]): AllergenExposure[] {
+    const severityOrder: AllergenSeverity[] = ["HIGH", "MEDIUM", "LOW"];
+    const exposure = new Map<string, AllergenExposure>();
+
+    meals.forEach((meal) => {
+      const warnings = (meal.allergen_warnings_json as AllergenWarning[]) || [];
+      warnings.forEach((warning) => {
+        const key = `${warning.source}:${warning.allergen.toLowerCase()}`;
+        const current = exposure.get(key);
+        if (!current) {
+          exposure.set(key, {
+            allergen: warning.allergen,
+            severity: warning.severity,
+            source: warning.source,
+            meals: 1,
+          });
+          return;
+        }
+        current.meals++;
+        if (
+          severityOrder.indexOf(warning.severity) <
+          severityOrder.indexOf(current.severity)
+        ) {
+          current.severity = warning.severity;
+        }
+      });
+    });
+
+    return Array.from(exposure.values()).sort(
+      (a, b) =>
+        severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) ||
+        b.meals - a.meals
+    );
+  }
+
+  private static calculateEatingHours(meals: any[], timezone: string): { start: string; end: string } {
     if (meals.length === 0) {
       return { start: "08:00", end: "20:00" };
     }
 
-    const hours = meals.map(meal => {
-      const date = new Date(meal.createdAt);
-      return date.getHours() + date.getMinutes() / 60;
-    });
+    const hours = meals.map(meal => getLocalHour(new Date(meal.consumed_at), timezone));
 
     const earliestHour = Math.min(...hours);
     const latestHour = Math.max(...hours);
@@ -428,14 +496,14 @@ export class StatisticsService {
     };
   }
 
-  private static calculateIntermittentFasting(meals: any[]): number {
+  private static calculateIntermittentFasting(meals: any[], timezone: string): number {
     if (meals.length < 2) return 12; // Default
 
     // Calculate average time between last meal of day and first meal of next day
     const mealsByDate: { [key: string]: any[] } = {};
     
     meals.forEach(meal => {
-      const dateStr = meal.createdAt.toISOString().split('T')[0];
+      const dateStr = toLocalDateString(meal.consumed_at, timezone);
       if (!mealsByDate[dateStr]) mealsByDate[dateStr] = [];
       mealsByDate[dateStr].push(meal);
     });
@@ -448,8 +516,8 @@ export class StatisticsService {
       const tomorrowMeals = mealsByDate[dates[i + 1]];
 
       if (todayMeals.length > 0 && tomorrowMeals.length > 0) {
-        const lastMealToday = new Date(Math.max(...todayMeals.map(m => new Date(m.createdAt).getTime())));
-        const firstMealTomorrow = new Date(Math.min(...tomorrowMeals.map(m => new Date(m.createdAt).getTime())));
+        const lastMealToday = new Date(Math.max(...todayMeals.map(m => new Date(m.consumed_at).getTime())));
+        const firstMealTomorrow = new Date(Math.min(...tomorrowMeals.map(m => new Date(m.consumed_at).getTime())));
 
         const fastingHours = (firstMealTomorrow.getTime() - lastMealToday.getTime()) / (1000 * 60 * 60);
         if (fastingHours > 8 && fastingHours < 24) { // Reasonable fasting window
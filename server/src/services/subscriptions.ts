@@ -0,0 +1,541 @@
+import { IncomingHttpHeaders } from "http";
+import {
+  Prisma,
+  SubscriptionPayment,
+  SubscriptionType,
+} from "@prisma/client";
+import { lockUser, prisma } from "../lib/database";
+import { ENTITLEMENTS, EntitlementsService } from "./entitlements";
+import {
+  PaidPlan,
+  PaymentError,
+  PaymentEvent,
+  PaymentService,
+} from "./payments";
+
+const TIERS: SubscriptionType[] = ["FREE", "BASIC", "PREMIUM"];
+
+const CURRENCY = "USD";
+
+// How long a paid plan outlives its period while the renewal is retried.
+// A cancelled plan ends with its period.
+const RENEWAL_GRACE_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A charge still pending after a day is taken as abandoned and doesn't
+// block another upgrade
+const pendingSince = () => new Date(Date.now() - DAY_MS);
+
+const rank = (tier: SubscriptionType) => TIERS.indexOf(tier);
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+};
+
+// A unique violation on the given column. Postgres reports the columns of
+// the constraint, or its name, as the target.
+const isUniqueViolation = (error: unknown, column: string) => {
+  if (
+    !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+    error.code !== "P2002"
+  ) {
+    return false;
+  }
+  const target = error.meta?.target;
+  return Array.isArray(target)
+    ? target.includes(column)
+    : typeof target === "string" && target.includes(column);
+};
+
+export class SubscriptionService {
+  // The current plan, what changes at the end of the period, the plans on
+  // offer and the latest payments
+  static async getSubscription(user_id: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+        pending_subscription_type: true,
+        cancel_at_period_end: true,
+        payments: {
+          orderBy: { payment_date: "desc" },
+          take: 12,
+          select: {
+            payment_id: true,
+            plan_type: true,
+            amount: true,
+            currency: true,
+            status: true,
+            period_start: true,
+            period_end: true,
+            payment_date: true,
+          },
+        },
+      },
+    });
+
+    const { name, monthlyPrice } = EntitlementsService.getEntitlements(
+      user.subscription_type
+    );
+
+    return {
+      tier: user.subscription_type,
+      name,
+      monthlyPrice,
+      currency: CURRENCY,
+      subscriptionStart: user.subscription_start,
+      // When the plan renews, or ends if cancelled
+      subscriptionEnd: user.subscription_end,
+      cancelAtPeriodEnd: user.cancel_at_period_end,
+      pendingTier: user.pending_subscription_type,
+      hasPendingPayment: user.payments.some(
+        (payment) =>
+          payment.status === "PENDING" && payment.payment_date >= pendingSince()
+      ),
+      plans: TIERS.map((tier) => ({ tier, ...ENTITLEMENTS[tier] })),
+      payments: user.payments,
+    };
+  }
+
+  // Charges the first month of the higher plan now; the new period starts
+  // today, without proration of what's left of the old one
+  static async upgrade(user_id: string, plan: SubscriptionType) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: {
+        email: true,
+        subscription_type: true,
+        payment_provider: true,
+        payment_subscription_id: true,
+        payments: {
+          where: { status: "PENDING", payment_date: { gte: pendingSince() } },
+          select: { payment_id: true },
+        },
+      },
+    });
+
+    if (plan === "FREE" || rank(plan) <= rank(user.subscription_type)) {
+      throw new PaymentError(
+        "INVALID_PLAN_CHANGE",
+        `You can only upgrade to a plan above the ${
+          ENTITLEMENTS[user.subscription_type].name
+        }`
+      );
+    }
+    if (user.payments.length > 0) {
+      throw new PaymentError(
+        "INVALID_PLAN_CHANGE",
+        "A payment for your subscription is still being processed"
+      );
+    }
+
+    const provider = PaymentService.providerName;
+    const amount = ENTITLEMENTS[plan].monthlyPrice;
+    const result = await PaymentService.checkout({
+      user_id,
+      email: user.email,
+      plan,
+      amount,
+      currency: CURRENCY,
+      subscription_id:
+        user.payment_provider === provider
+          ? user.payment_subscription_id
+          : null,
+    });
+
+    const period_start = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await lockUser(tx, user_id);
+
+      await tx.user.update({
+        where: { user_id },
+        data: {
+          payment_provider: provider,
+          payment_subscription_id: result.subscription_id,
+        },
+      });
+
+      // The payment's webhook may have been handled already
+      const payment = await tx.subscriptionPayment.upsert({
+        where: {
+          provider_provider_payment_id: {
+            provider,
+            provider_payment_id: result.payment_id,
+          },
+        },
+        create: {
+          user_id,
+          plan_type: plan,
+          amount,
+          currency: CURRENCY,
+          status: result.status,
+          provider,
+          provider_payment_id: result.payment_id,
+          payment_method: result.payment_method,
+          period_start,
+          period_end: addMonths(period_start, 1),
+        },
+        update: {},
+      });
+
+      if (payment.status === "SUCCEEDED") {
+        await this.applyPayment(tx, payment);
+      }
+    });
+
+    console.log(`⬆️ Upgrade to ${plan} for ${user_id}: ${result.status}`);
+    return this.getSubscription(user_id);
+  }
+
+  // Takes effect at the end of the paid period; to FREE it's a cancellation
+  static async downgrade(user_id: string, plan: SubscriptionType) {
+    if (plan === "FREE") {
+      return this.cancel(user_id);
+    }
+
+    const user = await this.getPaidSubscriber(user_id);
+    if (rank(plan) >= rank(user.subscription_type)) {
+      throw new PaymentError(
+        "INVALID_PLAN_CHANGE",
+        `You can only downgrade to a plan below the ${
+          ENTITLEMENTS[user.subscription_type].name
+        }`
+      );
+    }
+
+    if (user.payment_subscription_id) {
+      await PaymentService.schedulePlanChange(
+        user.payment_subscription_id,
+        plan
+      );
+    }
+
+    await prisma.user.update({
+      where: { user_id },
+      data: { pending_subscription_type: plan, cancel_at_period_end: false },
+    });
+
+    console.log(`⬇️ Downgrade to ${plan} scheduled for ${user_id}`);
+    return this.getSubscription(user_id);
+  }
+
+  // The plan stays until the end of the paid period, then reverts to FREE
+  static async cancel(user_id: string) {
+    const user = await this.getPaidSubscriber(user_id);
+
+    if (user.payment_subscription_id) {
+      await PaymentService.cancelAtPeriodEnd(user.payment_subscription_id);
+    }
+
+    await prisma.user.update({
+      where: { user_id },
+      data: { cancel_at_period_end: true, pending_subscription_type: null },
+    });
+
+    console.log(`🛑 Subscription of ${user_id} cancels at period end`);
+    return this.getSubscription(user_id);
+  }
+
+  // Keeps the current plan, dropping a scheduled downgrade or cancellation
+  static async resume(user_id: string) {
+    const user = await this.getPaidSubscriber(user_id);
+
+    if (!user.cancel_at_period_end && !user.pending_subscription_type) {
+      throw new PaymentError(
+        "INVALID_PLAN_CHANGE",
+        "Your subscription has no scheduled change to undo"
+      );
+    }
+
+    if (user.payment_subscription_id) {
+      await PaymentService.resume(
+        user.payment_subscription_id,
+        user.subscription_type as PaidPlan
+      );
+    }
+
+    await prisma.user.update({
+      where: { user_id },
+      data: { cancel_at_period_end: false, pending_subscription_type: null },
+    });
+
+    console.log(`▶️ Subscription of ${user_id} resumed`);
+    return this.getSubscription(user_id);
+  }
+
+  // Admin override, without a charge. A paid plan with an end date lapses
+  // to FREE then; without one it doesn't expire. Billing with the provider
+  // stops, since the override replaces it.
+  static async setPlan(
+    user_id: string,
+    plan: SubscriptionType,
+    subscription_end: Date | null = null
+  ) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: {
+        subscription_type: true,
+        cancel_at_period_end: true,
+        payment_subscription_id: true,
+      },
+    });
+
+    if (
+      user.payment_subscription_id &&
+      user.subscription_type !== "FREE" &&
+      !user.cancel_at_period_end
+    ) {
+      await PaymentService.cancelAtPeriodEnd(user.payment_subscription_id);
+    }
+
+    const isPaid = plan !== "FREE";
+    await prisma.user.update({
+      where: { user_id },
+      data: {
+        subscription_type: plan,
+        subscription_start: isPaid ? new Date() : null,
+        subscription_end: isPaid ? subscription_end : null,
+        cancel_at_period_end: isPaid && subscription_end !== null,
+        pending_subscription_type: null,
+      },
+    });
+
+    console.log(`🛠️ Plan of ${user_id} set to ${plan}`);
+    return this.getSubscription(user_id);
+  }
+
+  // Verifies and applies a provider webhook. The event is recorded in the
+  // same transaction that applies it, so a redelivery is acknowledged
+  // without being applied twice and a failed one is retried.
+  static async handleWebhook(
+    providerName: string,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders
+  ) {
+    const event = PaymentService.parseWebhook(providerName, rawBody, headers);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.paymentWebhookEvent.create({
+          data: {
+            provider: providerName,
+            event_id: event.id,
+            type: event.type,
+            payload: event.payload as Prisma.InputJsonValue,
+          },
+        });
+
+        await this.applyEvent(tx, providerName, event);
+      });
+    } catch (error) {
+      // Only the event row itself marks a redelivery; any other conflict
+      // rolled the payment update back and must be retried
+      if (isUniqueViolation(error, "event_id")) {
+        console.log("🔁 Duplicate payment webhook ignored:", event.id);
+        return { event_id: event.id, duplicate: true };
+      }
+      throw error;
+    }
+
+    console.log(`💳 Payment webhook ${event.type} applied:`, event.id);
+    return { event_id: event.id, duplicate: false };
+  }
+
+  // Reverts paid plans whose period is over to FREE: right away when
+  // cancelled, after the grace period when the renewal never came
+  static async expireSubscriptions() {
+    try {
+      const now = new Date();
+      const graceCutoff = new Date(
+        now.getTime() - RENEWAL_GRACE_DAYS * DAY_MS
+      );
+
+      const { count } = await prisma.user.updateMany({
+        where: {
+          subscription_type: { not: "FREE" },
+          OR: [
+            { cancel_at_period_end: true, subscription_end: { lte: now } },
+            { subscription_end: { lte: graceCutoff } },
+          ],
+        },
+        data: {
+          subscription_type: "FREE",
+          pending_subscription_type: null,
+          cancel_at_period_end: false,
+        },
+      });
+
+      if (count > 0) {
+        console.log(`⌛ Expired ${count} subscriptions to the Free Plan`);
+      }
+      return count;
+    } catch (error) {
+      console.error("💥 Error expiring subscriptions:", error);
+      throw new Error("Failed to expire subscriptions");
+    }
+  }
+
+  private static async getPaidSubscriber(user_id: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: {
+        subscription_type: true,
+        pending_subscription_type: true,
+        cancel_at_period_end: true,
+        payment_subscription_id: true,
+      },
+    });
+
+    if (user.subscription_type === "FREE") {
+      throw new PaymentError(
+        "INVALID_PLAN_CHANGE",
+        "You don't have a paid subscription"
+      );
+    }
+    return user;
+  }
+
+  private static async applyEvent(
+    tx: Prisma.TransactionClient,
+    provider: string,
+    event: PaymentEvent
+  ) {
+    const user = await tx.user.findFirst({
+      where: {
+        payment_provider: provider,
+        payment_subscription_id: event.subscription_id,
+      },
+      select: {
+        user_id: true,
+        subscription_type: true,
+        subscription_end: true,
+        pending_subscription_type: true,
+      },
+    });
+
+    // Its subscription may not be linked yet when the webhook beats the
+    // upgrade's transaction. Failing rolls back the event row, so the
+    // provider delivers it again instead of it being taken as a duplicate.
+    if (!user) {
+      console.warn("⚠️ Payment webhook for an unknown subscription:", event.id);
+      throw new Error(
+        `No user found for subscription ${event.subscription_id}`
+      );
+    }
+
+    await lockUser(tx, user.user_id);
+
+    if (event.type === "subscription.canceled") {
+      await tx.user.update({
+        where: { user_id: user.user_id },
+        data: { cancel_at_period_end: true, pending_subscription_type: null },
+      });
+      return;
+    }
+
+    const existing = event.payment_id
+      ? await tx.subscriptionPayment.findUnique({
+          where: {
+            provider_provider_payment_id: {
+              provider,
+              provider_payment_id: event.payment_id,
+            },
+          },
+        })
+      : null;
+
+    if (event.type === "payment.failed") {
+      if (existing) {
+        await tx.subscriptionPayment.update({
+          where: { payment_id: existing.payment_id },
+          data: { status: "FAILED" },
+        });
+      } else {
+        // A renewal that didn't go through; the plan lapses after the grace
+        // period unless a retry succeeds
+        await this.recordRenewal(tx, provider, user, event, "FAILED");
+      }
+      return;
+    }
+
+    // payment.succeeded: a pending first charge confirmed, or a renewal
+    if (existing) {
+      if (existing.status === "SUCCEEDED") return;
+      const payment = await tx.subscriptionPayment.update({
+        where: { payment_id: existing.payment_id },
+        data: { status: "SUCCEEDED" },
+      });
+      await this.applyPayment(tx, payment);
+    } else {
+      const payment = await this.recordRenewal(
+        tx,
+        provider,
+        user,
+        event,
+        "SUCCEEDED"
+      );
+      await this.applyPayment(tx, payment);
+    }
+  }
+
+  // The month after the current period, billed at the scheduled plan if
+  // the user downgraded
+  private static recordRenewal(
+    tx: Prisma.TransactionClient,
+    provider: string,
+    user: {
+      user_id: string;
+      subscription_type: SubscriptionType;
+      subscription_end: Date | null;
+      pending_subscription_type: SubscriptionType | null;
+    },
+    event: PaymentEvent,
+    status: "SUCCEEDED" | "FAILED"
+  ) {
+    const plan =
+      event.plan ?? user.pending_subscription_type ?? user.subscription_type;
+    const now = new Date();
+    const period_start =
+      user.subscription_end && user.subscription_end > now
+        ? user.subscription_end
+        : now;
+
+    return tx.subscriptionPayment.create({
+      data: {
+        user_id: user.user_id,
+        plan_type: plan,
+        amount: event.amount ?? ENTITLEMENTS[plan].monthlyPrice,
+        currency: event.currency ?? CURRENCY,
+        status,
+        provider,
+        provider_payment_id: event.payment_id,
+        period_start,
+        period_end: addMonths(period_start, 1),
+      },
+    });
+  }
+
+  // Puts the user on the paid plan for the payment's period. Sets absolute
+  // values, so applying the same payment twice changes nothing.
+  private static async applyPayment(
+    tx: Prisma.TransactionClient,
+    payment: SubscriptionPayment
+  ) {
+    await tx.user.update({
+      where: { user_id: payment.user_id },
+      data: {
+        subscription_type: payment.plan_type,
+        subscription_start: payment.period_start,
+        subscription_end: payment.period_end,
+        pending_subscription_type: null,
+        cancel_at_period_end: false,
+      },
+    });
+  }
+}
@@ -0,0 +1,233 @@
+import { AIFeature, AIUsage } from "@prisma/client";
+import { lockUser, prisma } from "../lib/database";
+import { AIService, collectUsage, emptyUsage } from "./ai";
+import { EntitlementError, EntitlementsService } from "./entitlements";
+import {
+  addDays,
+  getUserTimeZone,
+  resolveTimeZone,
+  startOfLocalDay,
+  toLocalDateString,
+} from "../lib/timezone";
+
+// Requests the user starts count toward the daily quota. Follow-ups that
+// refine a meal already paid for (clarifying answers, corrections, a
+// leftovers photo) are recorded with their cost but don't.
+const QUOTA_FEATURES: AIFeature[] = [
+  "MEAL_ANALYSIS",
+  "TEXT_ANALYSIS",
+  "MEAL_PLAN",
+  "MEAL_REPLACEMENT",
+];
+
+const MAX_HISTORY_DAYS = 90;
+
+interface ReserveOptions {
+  meal_id?: number;
+  // Off for a call whose quota was already checked, like a photo job
+  // resumed without its reservation
+  enforceQuota?: boolean;
+}
+
+export class UsageService {
+  // The quota runs per calendar day in the user's timezone, from an admin
+  // reset if there was one today
+  static async getQuota(user_id: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: { subscription_type: true, timezone: true, quota_reset_at: true },
+    });
+
+    const timeZone = resolveTimeZone(user.timezone);
+    const today = toLocalDateString(new Date(), timeZone);
+    const dayStart = startOfLocalDay(today, timeZone);
+    const windowStart =
+      user.quota_reset_at && user.quota_reset_at > dayStart
+        ? user.quota_reset_at
+        : dayStart;
+    const { dailyAIRequests } = EntitlementsService.getEntitlements(
+      user.subscription_type
+    );
+
+    const used = await prisma.aIUsage.count({
+      where: this.quotaFilter(user_id, windowStart),
+    });
+
+    return {
+      limit: dailyAIRequests,
+      used,
+      remaining: Math.max(0, dailyAIRequests - used),
+      windowStart,
+      resetAt: startOfLocalDay(addDays(today, 1), timeZone),
+    };
+  }
+
+  // Adds the row for an AI call about to be made. For a feature that counts
+  // toward the quota the check and the insert run under a per-user lock, so
+  // parallel requests can't both take the last slot.
+  static async reserve(
+    user_id: string,
+    feature: AIFeature,
+    { meal_id, enforceQuota = true }: ReserveOptions = {}
+  ): Promise<AIUsage> {
+    const counts_toward_quota = QUOTA_FEATURES.includes(feature);
+    const data = { user_id, feature, counts_toward_quota, meal_id };
+
+    if (!counts_toward_quota || !enforceQuota) {
+      return prisma.aIUsage.create({ data });
+    }
+
+    const quota = await this.getQuota(user_id);
+
+    return prisma.$transaction(async (tx) => {
+      await lockUser(tx, user_id);
+
+      const used = await tx.aIUsage.count({
+        where: this.quotaFilter(user_id, quota.windowStart),
+      });
+      if (used >= quota.limit) {
+        throw new EntitlementError(
+          "AI_QUOTA_EXCEEDED",
+          `Daily AI limit reached (${quota.limit}). Upgrade your subscription for more analyses.`
+        );
+      }
+
+      return tx.aIUsage.create({ data });
+    });
+  }
+
+  // Makes the reserved call and records its outcome, tokens and cost
+  static async meter<T>(usage: AIUsage, call: () => Promise<T>): Promise<T> {
+    const totals = emptyUsage();
+    let provider: string | undefined;
+    let failed = true;
+
+    try {
+      provider = AIService.providerName;
+      const result = await collectUsage(totals, call);
+      failed = false;
+      return result;
+    } finally {
+      await prisma.aIUsage
+        .update({
+          where: { usage_id: usage.usage_id },
+          data: {
+            status: failed ? "FAILED" : "COMPLETED",
+            provider,
+            model: totals.model,
+            prompt_tokens: totals.prompt_tokens,
+            completion_tokens: totals.completion_tokens,
+            total_tokens: totals.prompt_tokens + totals.completion_tokens,
+            cost_usd: totals.cost_usd,
+            completed_at: new Date(),
+          },
+        })
+        .catch((error) => {
+          console.error("💥 Failed to record AI usage:", error);
+        });
+    }
+  }
+
+  // Reserve and meter in one go, for calls made right away
+  static async track<T>(
+    user_id: string,
+    feature: AIFeature,
+    call: () => Promise<T>,
+    options?: ReserveOptions
+  ): Promise<T> {
+    const usage = await this.reserve(user_id, feature, options);
+    return this.meter(usage, call);
+  }
+
+  // The photo analysis reserved when its job was queued, if still unused
+  static async findReservation(meal_id: number) {
+    return prisma.aIUsage.findFirst({
+      where: { meal_id, feature: "MEAL_ANALYSIS", status: "PENDING" },
+      orderBy: { created_at: "desc" },
+    });
+  }
+
+  // Ledger rows of the last `days` local days, newest first, with totals
+  // per feature
+  static async getHistory(user_id: string, days: number) {
+    const timezone = await getUserTimeZone(user_id);
+    const today = toLocalDateString(new Date(), timezone);
+    const since = startOfLocalDay(
+      addDays(today, -(Math.min(days, MAX_HISTORY_DAYS) - 1)),
+      timezone
+    );
+
+    const [records, quota] = await Promise.all([
+      prisma.aIUsage.findMany({
+        where: { user_id, created_at: { gte: since } },
+        orderBy: { created_at: "desc" },
+        select: {
+          usage_id: true,
+          feature: true,
+          counts_toward_quota: true,
+          status: true,
+          meal_id: true,
+          model: true,
+          total_tokens: true,
+          cost_usd: true,
+          created_at: true,
+        },
+      }),
+      this.getQuota(user_id),
+    ]);
+
+    const byFeature: Partial<
+      Record<AIFeature, { calls: number; tokens: number; cost_usd: number }>
+    > = {};
+    records.forEach((record) => {
+      const totals = (byFeature[record.feature] ??= {
+        calls: 0,
+        tokens: 0,
+        cost_usd: 0,
+      });
+      totals.calls++;
+      totals.tokens += record.total_tokens;
+      totals.cost_usd += record.cost_usd;
+    });
+
+    return {
+      quota: {
+        limit: quota.limit,
+        used: quota.used,
+        remaining: quota.remaining,
+        resetAt: quota.resetAt,
+      },
+      since,
+      byFeature,
+      records,
+    };
+  }
+
+  // Gives the user today's full quota again. Ledger rows are kept; the calls
+  // made so far just stop counting.
+  static async resetQuota(user_id: string) {
+    await prisma.user.update({
+      where: { user_id },
+      data: { quota_reset_at: new Date() },
+    });
+
+    console.log("🔄 AI quota reset for", user_id);
+    return this.getQuota(user_id);
+  }
+
+  // AI calls made by all users in [start, end), failed ones included
+  static async countCalls(start: Date, end: Date) {
+    return prisma.aIUsage.count({
+      where: { created_at: { gte: start, lt: end } },
+    });
+  }
+
+  private static quotaFilter(user_id: string, windowStart: Date) {
+    return {
+      user_id,
+      counts_toward_quota: true,
+      status: { not: "FAILED" as const },
+      created_at: { gte: windowStart },
+    };
+  }
+}
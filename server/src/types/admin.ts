@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { SubscriptionType, UserRole } from "@prisma/client";
+
+export const userSearchSchema = z.object({
+  // Matches email or name, or a whole user ID
+  q: z.string().trim().max(100).optional(),
+  tier: z.nativeEnum(SubscriptionType).optional(),
+  role: z.nativeEnum(UserRole).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const adminSubscriptionSchema = z.object({
+  plan: z.nativeEnum(SubscriptionType, {
+    errorMap: () => ({ message: "plan must be FREE, BASIC or PREMIUM" }),
+  }),
+  // When a paid plan lapses back to FREE; null or omitted keeps it
+  subscription_end: z
+    .string()
+    .datetime({ offset: true, message: "subscription_end must be an ISO 8601 timestamp" })
+    .transform((value) => new Date(value))
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "subscription_end must be in the future",
+    })
+    .nullable()
+    .optional(),
+});
+
+export type UserSearchInput = z.infer<typeof userSearchSchema>;
+export type AdminSubscriptionInput = z.infer<typeof adminSubscriptionSchema>;
@@ -1,4 +1,9 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../lib/timezone";
+
+const timezoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Invalid IANA timezone");
 
 export const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -16,6 +21,8 @@ export const signUpSchema = z.object({
   age: z.coerce.number().min(1).max(120),
   weight: z.coerce.number().positive().optional(),
   height: z.coerce.number().positive().optional(),
+  sex: z.enum(["MALE", "FEMALE", "OTHER"]).optional(),
+  timezone: timezoneSchema.optional(),
 });
 
 export const signInSchema = z.object({
@@ -28,6 +35,8 @@ export const updateProfileSchema = z.object({
   age: z.number().min(1).max(120).optional(),
   weight_kg: z.number().positive().optional(),
   height_cm: z.number().positive().optional(),
+  sex: z.enum(["MALE", "FEMALE", "OTHER"]).optional(),
+  timezone: timezoneSchema.optional(),
 });
 
 export type SignUpInput = z.infer<typeof signUpSchema>;
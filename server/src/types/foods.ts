@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { consumedAtSchema } from "./nutrition";
+
+export const foodSearchSchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(2, "Search query must be at least 2 characters")
+    .max(100, "Search query must be less than 100 characters"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Portion is either an explicit weight or a number of household measures
+export const logFoodSchema = z
+  .object({
+    food_id: z.number().int().positive(),
+    grams: z.number().positive().max(5000).optional(),
+    portion_id: z.number().int().positive().optional(),
+    quantity: z.number().positive().max(50).default(1),
+    consumed_at: consumedAtSchema.optional(),
+  })
+  .refine((data) => data.grams !== undefined || data.portion_id !== undefined, {
+    message: "Either grams or portion_id is required",
+  });
+
+export type FoodSearchInput = z.infer<typeof foodSearchSchema>;
+export type LogFoodInput = z.infer<typeof logFoodSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const customGoalsSchema = z.object({
+  goal_calories: z.number().min(800).max(8000),
+  goal_protein_g: z.number().min(0).max(500),
+  goal_carbs_g: z.number().min(0).max(1000),
+  goal_fats_g: z.number().min(0).max(400),
+  goal_water_ml: z.number().min(500).max(8000).optional(),
+  target_weight_kg: z.number().positive().optional(),
+  duration_days: z.number().int().positive().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const updateGoalsSchema = customGoalsSchema.partial();
+
+export type CustomGoalsInput = z.infer<typeof customGoalsSchema>;
+export type UpdateGoalsInput = z.infer<typeof updateGoalsSchema>;
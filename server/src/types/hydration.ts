@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { BeverageType } from "@prisma/client";
+import { pastTimestampSchema } from "./nutrition";
+
+// One-tap amounts offered by the client, in ml
+export const HYDRATION_QUICK_ADD_ML = [150, 250, 330, 500];
+
+export const waterLogSchema = z.object({
+  amount_ml: z.number().int().min(10).max(3000),
+  beverage: z.nativeEnum(BeverageType).default("WATER"),
+  // Defaults to now when omitted
+  logged_at: pastTimestampSchema("logged_at").optional(),
+});
+
+export type WaterLogInput = z.infer<typeof waterLogSchema>;
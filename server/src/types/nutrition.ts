@@ -8,6 +8,54 @@ export const mealAnalysisSchema = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
     .optional(),
   updateText: z.string().optional(), // For meal updates
+  // Photo of what was left on the plate, to log only what was eaten
+  leftoversImageBase64: z.string().min(1).optional(),
+});
+
+// Leftovers photo taken after the meal, for an already analyzed plate
+export const leftoversSchema = z.object({
+  imageBase64: z.string().min(1, "Image is required"),
+  language: z.enum(["english", "hebrew"]).default("english"),
+});
+
+// Free-text meal description, e.g. "two eggs, toast with butter and a latte"
+export const mealTextAnalysisSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(3, "Please describe what you ate")
+    .max(1000, "Description must be less than 1000 characters"),
+  language: z.enum(["english", "hebrew"]).default("english"),
+});
+
+// An ISO 8601 timestamp that isn't in the future, allowing for clock skew
+export const pastTimestampSchema = (field: string) =>
+  z
+    .string()
+    .datetime({ offset: true, message: `${field} must be an ISO 8601 timestamp` })
+    .transform((value) => new Date(value))
+    .refine((date) => date.getTime() <= Date.now() + 5 * 60 * 1000, {
+      message: `${field} cannot be in the future`,
+    });
+
+// When the meal was actually eaten; defaults to now when omitted
+export const consumedAtSchema = pastTimestampSchema("consumed_at");
+
+// Several gallery photos of a past day, each analyzed as its own meal.
+// consumed_at is the photo's capture time when the client could read it.
+export const MAX_BATCH_IMAGES = 10;
+
+export const mealBatchAnalysisSchema = z.object({
+  images: z
+    .array(
+      z.object({
+        imageBase64: z.string().min(1, "Image is required"),
+        consumed_at: consumedAtSchema.optional(),
+      })
+    )
+    .min(1, "At least one image is required")
+    .max(MAX_BATCH_IMAGES, `At most ${MAX_BATCH_IMAGES} images per batch`),
+  language: z.enum(["english", "hebrew"]).default("english"),
 });
 
 export const mealUpdateSchema = z.object({
@@ -16,6 +64,39 @@ export const mealUpdateSchema = z.object({
   language: z.enum(["english", "hebrew"]).default("english"),
 });
 
+// Answers to the questions a low-confidence photo analysis came back with
+export const clarifyAnalysisSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        question: z.string().trim().min(1).max(300),
+        answer: z.string().trim().min(1, "Answer is required").max(500),
+      })
+    )
+    .min(1, "At least one answer is required")
+    .max(5),
+  language: z.enum(["english", "hebrew"]).default("english"),
+});
+
+// A single ingredient of a meal, with nutrients for the portion in `grams`
+export const mealItemSchema = z.object({
+  name: z.string().trim().min(1, "Item name is required").max(200),
+  grams: z.number().positive().max(5000).optional(),
+  calories: z.number().min(0).max(10000).default(0),
+  protein_g: z.number().min(0).max(1000).default(0),
+  carbs_g: z.number().min(0).max(1000).default(0),
+  fats_g: z.number().min(0).max(1000).default(0),
+  fiber_g: z.number().min(0).max(500).optional(),
+  sugar_g: z.number().min(0).max(1000).optional(),
+  sodium_mg: z.number().min(0).max(50000).optional(),
+  micronutrients: z.record(z.number().min(0)).optional(),
+});
+
+// Changing only `grams` re-portions the item, scaling its nutrients
+export const updateMealItemSchema = mealItemSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "No changes provided");
+
 export const mealSchema = z.object({
   meal_id: z.string(),
   user_id: z.string(),
@@ -27,11 +108,18 @@ export const mealSchema = z.object({
   fats_g: z.number().nullable(),
   fiber_g: z.number().nullable(),
   sugar_g: z.number().nullable(),
-  analysis_status: z.enum(["PENDING", "COMPLETED"]),
+  analysis_status: z.enum(["PENDING", "COMPLETED", "FAILED"]),
   upload_time: z.date(),
+  consumed_at: z.date(),
   createdAt: z.date(),
 });
 
 export type MealAnalysisInput = z.infer<typeof mealAnalysisSchema>;
+export type MealBatchAnalysisInput = z.infer<typeof mealBatchAnalysisSchema>;
+export type MealTextAnalysisInput = z.infer<typeof mealTextAnalysisSchema>;
 export type MealUpdateInput = z.infer<typeof mealUpdateSchema>;
+export type ClarifyAnalysisInput = z.infer<typeof clarifyAnalysisSchema>;
+export type LeftoversInput = z.infer<typeof leftoversSchema>;
+export type MealItemInput = z.infer<typeof mealItemSchema>;
+export type UpdateMealItemInput = z.infer<typeof updateMealItemSchema>;
 export type Meal = z.infer<typeof mealSchema>;
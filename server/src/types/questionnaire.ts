@@ -0,0 +1,50 @@
+import { z } from "zod";
+import {
+  MainGoal,
+  NotificationsPreference,
+  PhysicalActivityLevel,
+  ProgramDuration,
+  SmokingStatus,
+  SportFrequency,
+  UploadFrequency,
+} from "@prisma/client";
+
+// Free-text lists stored in the Json columns
+const stringListSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+export const questionnaireSchema = z.object({
+  physical_activity_level: z.nativeEnum(PhysicalActivityLevel),
+  sport_frequency: z.nativeEnum(SportFrequency),
+  sport_types: stringListSchema.optional(),
+  sport_duration_min: z.number().int().min(0).max(600).optional(),
+  meals_per_day: z.number().int().min(1).max(12).optional(),
+  dietary_preferences: stringListSchema.optional(),
+  avoided_foods: stringListSchema.optional(),
+  regular_drinks: stringListSchema.optional(),
+  meal_texture_preference: z.string().max(200).optional(),
+  main_goal: z.nativeEnum(MainGoal),
+  specific_goal: z.string().max(500).optional(),
+  goal_timeframe_days: z.number().int().positive().max(3650).optional(),
+  program_duration: z.nativeEnum(ProgramDuration),
+  meal_timing_restrictions: z.string().max(500).optional(),
+  dietary_restrictions: z.string().max(500).optional(),
+  willingness_to_follow: z.boolean().optional(),
+  upcoming_events: z.string().max(500).optional(),
+  upload_frequency: z.nativeEnum(UploadFrequency),
+  notifications_preference: z.nativeEnum(NotificationsPreference),
+  personalized_tips: z.boolean().optional(),
+  health_metrics_integration: z.boolean().optional(),
+  medical_conditions: stringListSchema.optional(),
+  medications: z.string().max(500).optional(),
+  allergies: stringListSchema.optional(),
+  family_medical_history: stringListSchema.optional(),
+  smoking_status: z.nativeEnum(SmokingStatus),
+  sleep_hours_per_night: z.number().min(0).max(24).optional(),
+});
+
+export const updateQuestionnaireSchema = questionnaireSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "No answers provided");
+
+export type QuestionnaireInput = z.infer<typeof questionnaireSchema>;
+export type UpdateQuestionnaireInput = z.infer<typeof updateQuestionnaireSchema>;
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { DietaryCategory, MealTiming } from "@prisma/client";
+import { consumedAtSchema } from "./nutrition";
+
+// Either linked to a database food, whose nutrients are used for `grams`
+// (or `portion_id` times `quantity`), or entered by hand with nutrients for
+// the whole amount
+export const recipeIngredientSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    quantity: z.number().positive().max(10000).default(1),
+    unit: z.string().trim().min(1).max(30).default("g"),
+    grams: z.number().positive().max(20000).optional(),
+    food_id: z.number().int().positive().optional(),
+    portion_id: z.number().int().positive().optional(),
+    calories: z.number().min(0).max(50000).optional(),
+    protein_g: z.number().min(0).max(5000).optional(),
+    carbs_g: z.number().min(0).max(5000).optional(),
+    fats_g: z.number().min(0).max(5000).optional(),
+    fiber_g: z.number().min(0).max(2000).optional(),
+    sugar_g: z.number().min(0).max(5000).optional(),
+    sodium_mg: z.number().min(0).max(200000).optional(),
+  })
+  .refine(
+    (data) =>
+      data.food_id === undefined ||
+      data.grams !== undefined ||
+      data.portion_id !== undefined,
+    { message: "Either grams or portion_id is required for a food" }
+  )
+  .refine((data) => data.food_id !== undefined || data.name, {
+    message: "Ingredient name is required",
+  })
+  .refine((data) => data.food_id !== undefined || data.calories !== undefined, {
+    message: "Calories are required for an ingredient without a food",
+  });
+
+export const recipeSchema = z.object({
+  name: z.string().trim().min(1, "Recipe name is required").max(200),
+  description: z.string().trim().max(1000).optional(),
+  servings: z.number().positive().max(100),
+  prep_time_minutes: z.number().int().positive().max(1440).optional(),
+  instructions: z.array(z.string().trim().min(1).max(1000)).max(50).default([]),
+  ingredients: z
+    .array(recipeIngredientSchema)
+    .min(1, "At least one ingredient is required")
+    .max(100),
+});
+
+// Replacing the ingredients replaces the whole list
+export const updateRecipeSchema = recipeSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "No changes provided");
+
+export const logRecipeSchema = z.object({
+  servings: z.number().positive().max(20).default(1),
+  consumed_at: consumedAtSchema.optional(),
+});
+
+export const promoteRecipeSchema = z.object({
+  meal_timing: z.nativeEnum(MealTiming),
+  dietary_category: z.nativeEnum(DietaryCategory).default("BALANCED"),
+});
+
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientSchema>;
+export type RecipeInput = z.infer<typeof recipeSchema>;
+export type UpdateRecipeInput = z.infer<typeof updateRecipeSchema>;
+export type LogRecipeInput = z.infer<typeof logRecipeSchema>;
+export type PromoteRecipeInput = z.infer<typeof promoteRecipeSchema>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { SubscriptionType } from "@prisma/client";
+
+export const planChangeSchema = z.object({
+  plan: z.nativeEnum(SubscriptionType, {
+    errorMap: () => ({ message: "plan must be FREE, BASIC or PREMIUM" }),
+  }),
+});
+
+export type PlanChangeInput = z.infer<typeof planChangeSchema>;